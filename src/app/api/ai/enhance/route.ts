@@ -1,11 +1,20 @@
 import { NextResponse } from 'next/server';
 import axios from 'axios';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { checkRateLimit, enhanceRateLimiter } from '@/lib/rate-limit';
+import { requireSession } from '@/lib/session';
+import { getLocaleTag, isLocale } from '@/lib/i18n';
+import type { TimelineContextEntry } from '@/lib/report-templates';
+
+const MAX_TIMELINE_EVENTS = 100;
+
+const isTimelineContextEntry = (value: unknown): value is TimelineContextEntry =>
+  typeof value === 'object' && value !== null &&
+  (['at', 'description', 'actor', 'evidence'] as const).every(key => typeof (value as Record<string, unknown>)[key] === 'string');
 
 export async function POST(request: Request) {
   // 1. Rate Limiting
   const ip = request.headers.get('x-forwarded-for') || 'unknown';
-  const isAllowed = await checkRateLimit(ip);
+  const isAllowed = await checkRateLimit(ip, enhanceRateLimiter);
 
   if (!isAllowed) {
     return NextResponse.json(
@@ -14,10 +23,23 @@ export async function POST(request: Request) {
     );
   }
 
+  // 2. Authentication
+  const { error: authError } = await requireSession(request);
+  if (authError) return authError;
+
   try {
-    // 2. Input Validation
+    // 3. Input Validation
     const body = await request.json();
     const { rawText, sectionContext, format, guidingQuestions } = body;
+    // Optional structured events (see getTimelineContext), sent when enhancing the incident details
+    const timeline = Array.isArray(body.timeline)
+      ? body.timeline
+          .slice(0, MAX_TIMELINE_EVENTS)
+          .filter(isTimelineContextEntry)
+          .map(({ at, description, actor, evidence }: TimelineContextEntry) => ({ at, description, actor, evidence }))
+      : [];
+    // Optional language to translate the text into (bilingual documents), sent to n8n as a BCP 47 tag
+    const translateTo = isLocale(body.translateTo) ? getLocaleTag(body.translateTo) : '';
 
     if (!rawText || typeof rawText !== 'string' || rawText.trim().length === 0) {
       return NextResponse.json(
@@ -26,7 +48,7 @@ export async function POST(request: Request) {
       );
     }
 
-    // 3. Call n8n Webhook for AI text enhancement
+    // 4. Call n8n Webhook for AI text enhancement
     const n8nWebhookUrl = process.env.N8N_AI_ENHANCE_WEBHOOK_URL;
 
     if (!n8nWebhookUrl) {
@@ -44,6 +66,8 @@ export async function POST(request: Request) {
       section_context: sectionContext || 'general',
       format: format || 'markdown', // Request markdown formatted response
       guiding_questions: guidingQuestions || '', // Pass guiding questions for better AI context
+      timeline, // Timeline events in time order: [{ at, description, actor, evidence }]
+      translate_to: translateTo, // e.g. 'es'; empty unless the text should be translated rather than enhanced
       timestamp: new Date().toISOString(),
     }, {
       headers: {
@@ -52,7 +76,7 @@ export async function POST(request: Request) {
       timeout: 600000, // 10 minutes timeout
     });
 
-    // 4. Handle n8n Response
+    // 5. Handle n8n Response
     // Response format: [{ original: { improved_text: string, message: string, status: number } }]
     const n8nResponse = response.data;
 
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { getAttachmentStore } from '@/lib/attachment-store';
+import { getImageType } from '@/lib/attachments';
+import { loadReportForRequest } from '@/lib/report-access';
+import { requireSession } from '@/lib/session';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Download a stored evidence file. The uploader can always read it; anyone else passes ?reportId=
+// and needs access to that report (reporter, attester, P&C reviewer or admin), which must list the file.
+// The form always passes its report, so a file uploaded since the last save is served to its uploader.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const reportId = new URL(request.url).searchParams.get('reportId');
+
+    // 1. Authorize - the report access guard rate limits and authenticates too
+    // Without a report, only the uploader may read the file
+    let uploaderId: string | null = null;
+    if (reportId) {
+      const result = await loadReportForRequest(request, reportId, { allowReviewers: true, allowAttester: true });
+      if (result.error) return result.error;
+      if (!result.report.data.attachments.some(attachment => attachment.file?.id === id)) {
+        uploaderId = String(result.user.employee_id);
+      }
+    } else {
+      const ip = request.headers.get('x-forwarded-for') || 'unknown';
+      const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+      if (!isAllowed) {
+        return NextResponse.json(
+          { error: 'Too many requests. Please try again later.' },
+          { status: 429 }
+        );
+      }
+
+      const { user, error: authError } = await requireSession(request);
+      if (authError) return authError;
+      uploaderId = String(user.employee_id);
+    }
+
+    // 2. Load File
+    const store = getAttachmentStore();
+    const attachment = await store.get(id);
+    const data = attachment && (!uploaderId || attachment.uploadedById === uploaderId) ? await store.read(id) : null;
+
+    if (!attachment || !data) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      );
+    }
+
+    // Images are shown inline as thumbnails; everything else is always downloaded
+    const disposition = getImageType(attachment) ? 'inline' : 'attachment';
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(data.length),
+        'Content-Disposition': `${disposition}; filename="${attachment.name.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(attachment.name)}`,
+        'Cache-Control': 'private, max-age=3600, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Attachment download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the file. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
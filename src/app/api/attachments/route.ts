@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import {
+  ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_BYTES,
+  checkAttachmentFile,
+  formatFileSize,
+  getFileExtension,
+  getImageType,
+} from '@/lib/attachments';
+import { getAttachmentStore, readImageSize, toAttachmentFile } from '@/lib/attachment-store';
+import { requireSession } from '@/lib/session';
+
+// Room for the multipart boundaries and part headers around the file itself
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+// Upload one evidence file (multipart field "file") and return its metadata for the report's attachments
+export async function POST(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  // 3. Input Validation - type and size limits are the same ones the form checks.
+  // Oversized uploads are turned away before the body is read into memory.
+  const contentLength = Number(request.headers.get('content-length'));
+  if (contentLength > MAX_ATTACHMENT_BYTES + MULTIPART_OVERHEAD_BYTES) {
+    return NextResponse.json(
+      { error: `Files can be up to ${formatFileSize(MAX_ATTACHMENT_BYTES)}.` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'Choose a file to upload.' },
+        { status: 400 }
+      );
+    }
+
+    const fileError = checkAttachmentFile(file);
+    if (fileError) {
+      return NextResponse.json(
+        { error: fileError },
+        { status: 400 }
+      );
+    }
+
+    // Images are embedded in documents, so they must really be the image type their name says
+    const data = Buffer.from(await file.arrayBuffer());
+    const imageType = getImageType({ mimeType: ATTACHMENT_TYPES[getFileExtension(file.name)] });
+    if (imageType && !readImageSize(data, imageType)) {
+      return NextResponse.json(
+        { error: `${file.name} could not be read as an image.` },
+        { status: 400 }
+      );
+    }
+
+    // 4. Store File
+    const stored = await getAttachmentStore().save({ name: file.name, data }, user);
+
+    return NextResponse.json({ success: true, file: toAttachmentFile(stored) }, { status: 201 });
+  } catch (error) {
+    console.error('Attachment upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload the file. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
-import axios from 'axios';
 import { checkRateLimit } from '@/lib/rate-limit';
+import { setSessionCookie, SessionUser } from '@/lib/session';
+import { resolveRoles } from '@/lib/role-mapping';
+import { getDirectoryProvider } from '@/lib/directory';
+import { primeCachedEmployee } from '@/lib/employee-cache';
 
 export async function POST(request: Request) {
   // 1. Rate Limiting
@@ -26,84 +29,33 @@ export async function POST(request: Request) {
       );
     }
 
-    // 3. Call n8n Webhook
-    const n8nWebhookUrl = process.env.N8N_AUTH_WEBHOOK_URL;
+    // 3. Authenticate Against the Directory
+    const result = await getDirectoryProvider().authenticate(String(userId).trim(), String(email));
 
-    if (!n8nWebhookUrl) {
-      console.error('N8N_AUTH_WEBHOOK_URL is not defined');
-      return NextResponse.json(
-        { error: 'Internal Server Error' },
-        { status: 500 }
-      );
-    }
-
-    // Forward the credentials to n8n
-    const response = await axios.post(n8nWebhookUrl, {
-      userId,
-      email,
-      timestamp: new Date().toISOString(),
-    }, {
-      headers: {
-        'Content-Type': 'application/json',
-        // Add any secret headers if n8n requires them
-      },
-      timeout: 600000, // 10 minutes timeout
-    });
-
-    // 4. Handle n8n Response
-    // Response format: { output: [{ headers: [], original: { status: 200|401|404, message: string, data?: array }, exception: null }], status: 'success', ... }
-    const n8nResponse = response.data;
-
-    if (!n8nResponse || !n8nResponse.output || !Array.isArray(n8nResponse.output) || n8nResponse.output.length === 0) {
-      console.error('Unexpected n8n response format - missing output array:', n8nResponse);
-      return NextResponse.json(
-        { error: 'Authentication failed. Please try again.' },
-        { status: 500 }
-      );
-    }
+    // 4. Handle the Result
+    if (result.status === 'authenticated') {
+      const user: SessionUser = {
+        ...result.employee,
+        roles: await resolveRoles(result.employee),
+      };
 
-    const data = n8nResponse.output[0]?.original;
+      // The directory just answered for this employee, so later lookups of them needn't ask again
+      await primeCachedEmployee(user);
 
-    if (!data) {
-      console.error('Unexpected n8n response format - no original data:', n8nResponse.output[0]);
-      return NextResponse.json(
-        { error: 'Authentication failed. Please try again.' },
-        { status: 500 }
-      );
-    }
-
-    if (data.status === 200 && data.message === "Authenticated" && data.data && data.data.length > 0) {
-      // Success - extract user data from data[0]
-      const userData = data.data[0];
-      return NextResponse.json({
-        success: true,
-        user: {
-          id: userData.id,
-          employee_id: userData.employee_id,
-          employee_name: userData.employee_name,
-          employee_email: userData.employee_email,
-          position: userData.position,
-          company: userData.company,
-          created_at: userData.created_at,
-        }
-      });
-    } else if (data.status === 401 && data.message === "Unauthorized: Email does not match") {
+      // Issue the signed session cookie - this, not the response body, is what proves identity from now on
+      const successResponse = NextResponse.json({ success: true, user });
+      await setSessionCookie(successResponse, user);
+      return successResponse;
+    } else if (result.status === 'email_mismatch') {
       return NextResponse.json(
         { error: 'Unauthorized: Email does not match' },
         { status: 401 }
       );
-    } else if (data.status === 404 && data.message === "User Not Found") {
+    } else {
       return NextResponse.json(
         { error: 'User Not Found' },
         { status: 404 }
       );
-    } else {
-      // Handle unexpected response format
-      console.error('Unexpected n8n response:', data);
-      return NextResponse.json(
-        { error: 'Authentication failed. Please try again.' },
-        { status: 500 }
-      );
     }
 
   } catch (error: any) {
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { requireSession } from '@/lib/session';
+
+// Return the user behind the current session cookie
+export async function GET(request: Request) {
+  const { user, error } = await requireSession(request);
+  if (error) return error;
+
+  return NextResponse.json({ success: true, user });
+}
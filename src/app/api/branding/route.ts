@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { readBrandingRules } from '@/lib/branding-config';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { requireSession } from '@/lib/session';
+
+// The per-company branding profiles, for the preview and the Word documents generated in the browser
+export async function GET(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  try {
+    // 3. Load Profiles
+    return NextResponse.json({ success: true, profiles: await readBrandingRules() });
+  } catch (error) {
+    console.error('Branding profiles error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load branding profiles. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
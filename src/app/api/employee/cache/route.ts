@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { clearEmployeeCache, invalidateCachedEmployee } from '@/lib/employee-cache';
+import { requireRole } from '@/lib/session';
+import { isServiceRequest } from '@/lib/service-auth';
+
+// Drop cached employee lookups (see employee-cache.ts) after a directory change: ?employeeId=...
+// for one employee, or everything without it. For n8n workflows (service API key) and administrators.
+export async function DELETE(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication - integrations use the service API key, people need the admin role
+  if (!isServiceRequest(request)) {
+    const { error: authError } = await requireRole(request, 'admin');
+    if (authError) return authError;
+  }
+
+  try {
+    // 3. Invalidate
+    const employeeId = new URL(request.url).searchParams.get('employeeId')?.trim();
+
+    if (employeeId) {
+      await invalidateCachedEmployee(employeeId);
+    } else {
+      await clearEmployeeCache();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Employee cache invalidation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear the employee cache. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
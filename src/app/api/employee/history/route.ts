@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { listPriorIncidents } from '@/lib/employee-history';
+import { canViewIncidentHistory } from '@/lib/roles';
+import { requireSession } from '@/lib/session';
+
+// Prior incidents of an employee looked up as a subject (see employee-history.ts), for supervisors, P&C and admins.
+// ?excludeReportId leaves out the report being written.
+export async function GET(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  if (!canViewIncidentHistory(user)) {
+    return NextResponse.json(
+      { error: 'Only supervisors, P&C reviewers and administrators can see incident history.' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    // 3. Input Validation
+    const params = new URL(request.url).searchParams;
+    const employeeId = params.get('employeeId')?.trim();
+
+    if (!employeeId) {
+      return NextResponse.json(
+        { error: 'Employee ID is required.' },
+        { status: 400 }
+      );
+    }
+
+    // 4. Load History
+    const incidents = await listPriorIncidents(employeeId, user, params.get('excludeReportId') || undefined);
+
+    return NextResponse.json({ success: true, incidents });
+  } catch (error) {
+    console.error('Employee history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load incident history. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,18 @@
 import { NextResponse } from 'next/server';
-import axios from 'axios';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { checkRateLimit, employeeLookupRateLimiter } from '@/lib/rate-limit';
+import { requireSession } from '@/lib/session';
+import { resolveRoles } from '@/lib/role-mapping';
+import type { EmployeeDetails } from '@/lib/incident-report';
+import { getDirectoryProvider } from '@/lib/directory';
+import { lookupEmployeeCached } from '@/lib/employee-cache';
+import { canReportOn, hasAnyRole } from '@/lib/roles';
+
+type LookupPurpose = 'subject' | 'attester';
 
 export async function POST(request: Request) {
   // 1. Rate Limiting
   const ip = request.headers.get('x-forwarded-for') || 'unknown';
-  const isAllowed = await checkRateLimit(ip);
+  const isAllowed = await checkRateLimit(ip, employeeLookupRateLimiter);
 
   if (!isAllowed) {
     return NextResponse.json(
@@ -14,10 +21,15 @@ export async function POST(request: Request) {
     );
   }
 
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
   try {
-    // 2. Input Validation
+    // 3. Input Validation
     const body = await request.json();
     const { employeeId } = body;
+    const purpose: LookupPurpose = body.purpose === 'attester' ? 'attester' : 'subject';
 
     if (!employeeId) {
       return NextResponse.json(
@@ -26,78 +38,41 @@ export async function POST(request: Request) {
       );
     }
 
-    // 3. Call n8n Webhook for employee lookup
-    const n8nWebhookUrl = process.env.N8N_EMPLOYEE_LOOKUP_WEBHOOK_URL;
+    // 4. Look Up the Employee - from the cache, or the directory on a miss
+    const directory = getDirectoryProvider();
+    const result = await lookupEmployeeCached(String(employeeId).trim(), id => directory.lookupEmployee(id));
 
-    if (!n8nWebhookUrl) {
-      console.error('N8N_EMPLOYEE_LOOKUP_WEBHOOK_URL is not defined');
+    if (!result.found) {
       return NextResponse.json(
-        { error: 'Internal Server Error' },
-        { status: 500 }
+        { error: 'Employee not found' },
+        { status: 404 }
       );
     }
 
-    // Forward the employee ID to n8n
-    const response = await axios.post(n8nWebhookUrl, {
-      employee_id: employeeId,
-      timestamp: new Date().toISOString(),
-    }, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      timeout: 600000, // 10 minutes timeout
-    });
-
-    // 4. Handle n8n Response
-    // Response format: { output: [{ headers: [], original: { status: 200|404, message: string, data?: array }, exception: null }], status: 'success', ... }
-    const n8nResponse = response.data;
+    const employee: EmployeeDetails = {
+      ...result.employee,
+      roles: await resolveRoles(result.employee),
+    };
 
-    if (!n8nResponse || !n8nResponse.output || !Array.isArray(n8nResponse.output) || n8nResponse.output.length === 0) {
-      console.error('Unexpected n8n response format - missing output array:', n8nResponse);
+    // 5. Access Control
+    if (purpose === 'attester' && !hasAnyRole(employee, 'supervisor')) {
       return NextResponse.json(
-        { error: 'Failed to lookup employee. Please try again.' },
-        { status: 500 }
+        { error: 'Only supervisors can attest incident reports.' },
+        { status: 403 }
       );
     }
 
-    const data = n8nResponse.output[0]?.original;
-
-    if (!data) {
-      console.error('Unexpected n8n response format - no original data:', n8nResponse.output[0]);
+    if (purpose === 'subject' && !canReportOn(user, employee)) {
       return NextResponse.json(
-        { error: 'Failed to lookup employee. Please try again.' },
-        { status: 500 }
+        { error: 'You can only report on employees within your own company.' },
+        { status: 403 }
       );
     }
 
-    if (data.status === 200 && data.data && data.data.length > 0) {
-      // Success - extract employee data from data[0]
-      const employeeData = data.data[0];
-      return NextResponse.json({
-        success: true,
-        employee: {
-          id: employeeData.id,
-          employee_id: employeeData.employee_id,
-          employee_name: employeeData.employee_name,
-          employee_email: employeeData.employee_email,
-          position: employeeData.position,
-          company: employeeData.company,
-          created_at: employeeData.created_at,
-        }
-      });
-    } else if (data.status === 404) {
-      return NextResponse.json(
-        { error: 'Employee not found' },
-        { status: 404 }
-      );
-    } else {
-      // Handle unexpected response format
-      console.error('Unexpected n8n response:', data);
-      return NextResponse.json(
-        { error: 'Failed to lookup employee. Please try again.' },
-        { status: 500 }
-      );
-    }
+    return NextResponse.json({
+      success: true,
+      employee,
+    });
 
   } catch (error: any) {
     console.error('Employee lookup error:', error.message);
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, employeeSearchRateLimiter } from '@/lib/rate-limit';
+import { requireSession } from '@/lib/session';
+import { resolveRoles } from '@/lib/role-mapping';
+import type { EmployeeDetails } from '@/lib/incident-report';
+import { getDirectoryProvider } from '@/lib/directory';
+import { MIN_SEARCH_LENGTH, rankEmployees } from '@/lib/employee-search';
+import { canReportOn, hasAnyRole } from '@/lib/roles';
+
+type SearchPurpose = 'subject' | 'attester';
+
+// How many matches to ask the directory for; the best MAX_SEARCH_RESULTS of them are returned
+const DIRECTORY_MATCH_LIMIT = 25;
+
+// Employees matching part of a name, email or employee ID, best matches first.
+// Only employees the caller could pick for the purpose are returned.
+export async function POST(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, employeeSearchRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  try {
+    // 3. Input Validation
+    const body = await request.json();
+    const query = typeof body?.query === 'string' ? body.query.trim() : '';
+    const purpose: SearchPurpose = body?.purpose === 'attester' ? 'attester' : 'subject';
+
+    if (query.length < MIN_SEARCH_LENGTH) {
+      return NextResponse.json(
+        { error: `Type at least ${MIN_SEARCH_LENGTH} characters to search.` },
+        { status: 400 }
+      );
+    }
+
+    // 4. Search the Directory
+    const directoryMatches = await getDirectoryProvider().searchEmployees(query, DIRECTORY_MATCH_LIMIT);
+    const candidates: EmployeeDetails[] = await Promise.all(
+      directoryMatches.map(async employee => ({ ...employee, roles: await resolveRoles(employee) }))
+    );
+
+    // 5. Access Control - the same rules as the employee lookup
+    const allowed = candidates.filter(employee =>
+      purpose === 'attester' ? hasAnyRole(employee, 'supervisor') : canReportOn(user, employee)
+    );
+
+    return NextResponse.json({
+      success: true,
+      employees: rankEmployees(allowed, query),
+    });
+  } catch (error) {
+    console.error('Employee search error:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: 'Failed to search employees. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
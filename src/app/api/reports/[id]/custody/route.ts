@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { loadReportForRequest } from '@/lib/report-access';
+import { getCustodyLog } from '@/lib/evidence-custody';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The chain-of-custody log of a report's evidence, oldest event first
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { error } = await loadReportForRequest(request, id, { allowReviewers: true, allowAttester: true });
+    if (error) return error;
+
+    return NextResponse.json({ success: true, events: await getCustodyLog().list(id) });
+  } catch (error) {
+    console.error('Custody log error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the custody log. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
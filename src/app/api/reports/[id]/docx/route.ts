@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { DOCX_MIME_TYPE, generateIncidentReportDocxBuffer } from '@/lib/docx-generator';
+import { buildReportFilename } from '@/lib/incident-report';
+import { readLogoImage } from '@/lib/logo-files';
+import { readAttachmentImages } from '@/lib/attachment-store';
+import { getBrandingForReport } from '@/lib/branding';
+import { readBrandingRules } from '@/lib/branding-config';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { loadReportForRequest } from '@/lib/report-access';
+import { getReportStore, toReportDocument, type ReportRecord } from '@/lib/report-store';
+import { isServiceRequest } from '@/lib/service-auth';
+import { loadReportTemplate } from '@/lib/template-store';
+import { todayIn } from '@/lib/time-zones';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The official Word document for a stored report.
+// The same stored data always produces the same bytes, stamped with the report's last update time.
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    let report: ReportRecord | null;
+
+    // 1. Load Report - integrations use the service API key, people use their session
+    if (isServiceRequest(request)) {
+      const ip = request.headers.get('x-forwarded-for') || 'unknown';
+      const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+      if (!isAllowed) {
+        return NextResponse.json(
+          { error: 'Too many requests. Please try again later.' },
+          { status: 429 }
+        );
+      }
+
+      report = await getReportStore().get(id);
+      if (!report) {
+        return NextResponse.json(
+          { error: 'Report not found' },
+          { status: 404 }
+        );
+      }
+    } else {
+      const result = await loadReportForRequest(request, id, { allowReviewers: true, allowAttester: true });
+      if (result.error) return result.error;
+      report = result.report;
+    }
+
+    // 2. Generate DOCX
+    const reportDocument = toReportDocument(report, await loadReportTemplate(report.data));
+    const branding = getBrandingForReport(reportDocument, await readBrandingRules());
+    const logo = await readLogoImage(branding.logo);
+    const images = await readAttachmentImages(report.data);
+    const docx = await generateIncidentReportDocxBuffer(reportDocument, branding, logo, images, report.updatedAt);
+    // Named after the last update when the date prepared was cleared, so the same report keeps the same name
+    const filename = buildReportFilename(report.data, 'docx', todayIn(report.data.timeZone, new Date(report.updatedAt)));
+
+    return new NextResponse(new Uint8Array(docx), {
+      headers: {
+        'Content-Type': DOCX_MIME_TYPE,
+        'Content-Length': String(docx.length),
+        // Plain ASCII name for older clients, the exact UTF-8 name for everyone else
+        'Content-Disposition': `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('DOCX generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate document. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
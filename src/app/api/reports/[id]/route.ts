@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server';
+import { parseIncidentReport, validateIncidentReport } from '@/lib/incident-report';
+import { getReportStore, ReportConflictError } from '@/lib/report-store';
+import { loadReportForRequest } from '@/lib/report-access';
+import { loadReportTemplate } from '@/lib/template-store';
+import { getCustodyLog, stampAttachments } from '@/lib/evidence-custody';
+import { refreshPriorIncidents } from '@/lib/employee-history';
+import { verifyReportEmployees } from '@/lib/report-employees';
+import { isEditableStatus, STATUS_LABELS, type ReportStatus } from '@/lib/report-workflow';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Submitted reports are locked until the attester returns them
+const checkEditable = ({ status }: { status: ReportStatus }): string | null =>
+  isEditableStatus(status) ? null : `This report is ${STATUS_LABELS[status].toLowerCase()} and can no longer be edited.`;
+
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { report, error } = await loadReportForRequest(request, id, { allowReviewers: true, allowAttester: true });
+    if (error) return error;
+
+    // The template version the report was written with, which may have been published after this build
+    return NextResponse.json({ success: true, report, template: await loadReportTemplate(report.data) });
+  } catch (error) {
+    console.error('Report fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load report. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { report: existing, user, error } = await loadReportForRequest(request, id);
+    if (error) return error;
+
+    const locked = checkEditable(existing);
+    if (locked) {
+      return NextResponse.json(
+        { error: locked },
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json();
+    const issues = validateIncidentReport(body?.data);
+
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: issues.join(' '), issues },
+        { status: 400 }
+      );
+    }
+
+    // The directory's records of the employees on the report replace what the client sent
+    const verified = await verifyReportEmployees(parseIncidentReport(body.data), user);
+    if ('error' in verified) {
+      return NextResponse.json(
+        { error: verified.error },
+        { status: 400 }
+      );
+    }
+
+    const { data } = verified;
+    const stamped = await stampAttachments(existing.data.attachments, data.attachments, user);
+
+    if ('error' in stamped) {
+      return NextResponse.json(
+        { error: stamped.error },
+        { status: 400 }
+      );
+    }
+
+    const priorIncidents = await refreshPriorIncidents(data, user, id);
+    // Checked again as the report is written, in case it was submitted in the meantime
+    const report = await getReportStore().update(
+      id,
+      { data: { ...data, attachments: stamped.attachments, priorIncidents } },
+      checkEditable
+    );
+
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      );
+    }
+
+    await getCustodyLog().append(id, stamped.events);
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof ReportConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('Report update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save draft. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { report, error } = await loadReportForRequest(request, id);
+    if (error) return error;
+
+    // Once submitted, a report is part of the record and can't be thrown away
+    if (report.status !== 'draft') {
+      return NextResponse.json(
+        { error: 'Only drafts can be deleted.' },
+        { status: 409 }
+      );
+    }
+
+    await getReportStore().delete(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Report delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete draft. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
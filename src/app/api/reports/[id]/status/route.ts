@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { getAttesterId, getReportStore, ReportConflictError } from '@/lib/report-store';
+import { loadReportForRequest } from '@/lib/report-access';
+import { isWorkflowAction, planTransition } from '@/lib/report-workflow';
+import { validateReport } from '@/lib/report-validation';
+import { verifyReportEmployees } from '@/lib/report-employees';
+import { loadReportTemplate } from '@/lib/template-store';
+import { getCustodyLog, sealAttachments } from '@/lib/evidence-custody';
+import { addApprovedReport } from '@/lib/employee-history';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Move a report through the attestation workflow: submit, approve, return or reject
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    // 1. Load Report
+    const { id } = await params;
+    const { report, user, error } = await loadReportForRequest(request, id, { allowAttester: true });
+    if (error) return error;
+
+    // 2. Input Validation
+    const body = await request.json();
+    const { action } = body;
+    const comment = typeof body.comment === 'string' ? body.comment : '';
+
+    if (!isWorkflowAction(action)) {
+      return NextResponse.json(
+        { error: 'A valid action is required.' },
+        { status: 400 }
+      );
+    }
+
+    // 3. Check Transition
+    const plan = planTransition(
+      { status: report.status, reporterId: report.reporterId, attesterId: getAttesterId(report) },
+      action,
+      { id: String(user.employee_id), name: user.employee_name },
+      comment
+    );
+
+    if ('error' in plan) {
+      return NextResponse.json(
+        { error: plan.error },
+        { status: plan.status }
+      );
+    }
+
+    let data = report.data;
+    if (action === 'submit') {
+      // 4. Verify Employees - the attester must still be a supervisor in the directory
+      const verified = await verifyReportEmployees(report.data, report.reportedBy);
+      if ('error' in verified) {
+        return NextResponse.json(
+          { error: verified.error },
+          { status: 400 }
+        );
+      }
+      data = verified.data;
+
+      // 5. Check Completeness
+      const issues = validateReport(data, {
+        template: await loadReportTemplate(data),
+        reporter: report.reportedBy,
+      });
+
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: issues[0].message, issues },
+          { status: 400 }
+        );
+      }
+
+      // 6. Seal Evidence
+      const sealed = await sealAttachments(data.attachments, user);
+      await getCustodyLog().append(id, sealed.events);
+
+      if (sealed.error) {
+        return NextResponse.json(
+          { error: sealed.error },
+          { status: 409 }
+        );
+      }
+      data = { ...data, attachments: sealed.attachments };
+    }
+
+    // 7. Record Transition - only if nobody saved or moved the report since it was checked above
+    const updated = await getReportStore().update(id, {
+      data,
+      status: plan.entry.status,
+      statusHistory: [...report.statusHistory, plan.entry],
+    }, existing => (existing.updatedAt === report.updatedAt
+      ? null
+      : 'This report was changed while you were working on it. Reload it and try again.'));
+
+    if (updated) await addApprovedReport(updated);
+
+    return NextResponse.json({ success: true, report: updated });
+  } catch (error) {
+    if (error instanceof ReportConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+    console.error('Report status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update report status. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { parseIncidentReport, validateIncidentReport, type IncidentReport } from '@/lib/incident-report';
+import { getReportStore, type ReportRecord } from '@/lib/report-store';
+import { readLogoImage } from '@/lib/logo-files';
+import { getBrandingForReport } from '@/lib/branding';
+import { readBrandingRules } from '@/lib/branding-config';
+import { generateIncidentReportPdf } from '@/lib/pdf-generator';
+import { validateReport } from '@/lib/report-validation';
+import { verifyReportEmployees } from '@/lib/report-employees';
+import { requireSession } from '@/lib/session';
+import { loadReportTemplate } from '@/lib/template-store';
+
+// Render a report as a PDF/A document: the saved report given by reportId, with its attestation status and
+// history, or else the unsaved report in data. A saved report is always printed as stored, never with content
+// sent alongside, so its attestation trail can't be put over text nobody attested.
+export async function POST(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  try {
+    const body = await request.json();
+    let report: ReportRecord | null = null;
+    let data: IncidentReport;
+
+    if (typeof body?.reportId === 'string') {
+      // 3. Load Saved Report - its employees were verified against the directory when it was saved
+      report = await getReportStore().get(body.reportId);
+
+      if (!report || report.reporterId !== String(user.employee_id)) {
+        return NextResponse.json(
+          { error: 'Report not found' },
+          { status: 404 }
+        );
+      }
+      data = report.data;
+    } else {
+      // 3. Input Validation
+      const issues = validateIncidentReport(body?.data);
+
+      if (issues.length > 0) {
+        return NextResponse.json(
+          { error: issues.join(' '), issues },
+          { status: 400 }
+        );
+      }
+
+      // 4. Verify Employees - the archive copy prints the directory's records, not what the client sent
+      const verified = await verifyReportEmployees(parseIncidentReport(body.data), user);
+      if ('error' in verified) {
+        return NextResponse.json(
+          { error: verified.error },
+          { status: 400 }
+        );
+      }
+      data = verified.data;
+    }
+
+    // 5. Check Completeness
+    const template = await loadReportTemplate(data);
+    const reportIssues = validateReport(data, {
+      template,
+      reporter: report?.reportedBy || user,
+    });
+
+    if (reportIssues.length > 0) {
+      return NextResponse.json(
+        { error: reportIssues[0].message, issues: reportIssues },
+        { status: 400 }
+      );
+    }
+
+    // 6. Generate PDF
+    const reportDocument = {
+      ...data,
+      template,
+      reportedBy: report?.reportedBy || user,
+      status: report?.status,
+      statusHistory: report?.statusHistory,
+    };
+    const branding = getBrandingForReport(reportDocument, await readBrandingRules());
+    const pdf = await generateIncidentReportPdf(reportDocument, branding, await readLogoImage(branding.logo));
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('PDF generation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate PDF. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
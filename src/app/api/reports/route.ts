@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { formatSubjectNames, parseIncidentReport, validateIncidentReport } from '@/lib/incident-report';
+import { getReportStore, ReportListFilter } from '@/lib/report-store';
+import { requireSession } from '@/lib/session';
+import { getCustodyLog, stampAttachments } from '@/lib/evidence-custody';
+import { refreshPriorIncidents } from '@/lib/employee-history';
+import { verifyReportEmployees } from '@/lib/report-employees';
+import { hasAnyRole } from '@/lib/roles';
+
+// List the current reporter's reports.
+// ?scope=attestation lists reports awaiting or past the caller's attestation;
+// ?scope=all lists every report (P&C reviewers and admins only).
+export async function GET(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+  const reporterId = String(user.employee_id);
+
+  try {
+    // 3. Load Drafts
+    const scope = new URL(request.url).searchParams.get('scope');
+    let filter: ReportListFilter = { reporterId };
+
+    if (scope === 'attestation') {
+      filter = { attesterId: reporterId, status: ['pending_attestation', 'returned', 'approved', 'rejected'] };
+    } else if (scope === 'all' && hasAnyRole(user, 'pc_reviewer', 'admin')) {
+      filter = {};
+    }
+
+    const reports = await getReportStore().list(filter);
+
+    return NextResponse.json({
+      success: true,
+      reports: reports.map(report => ({
+        id: report.id,
+        reporterId: report.reporterId,
+        reporterName: report.reportedBy?.employee_name || '',
+        status: report.status,
+        createdAt: report.createdAt,
+        updatedAt: report.updatedAt,
+        incidentWhat: report.data.incidentWhat,
+        employeeName: formatSubjectNames(report.data),
+      })),
+    });
+  } catch (error) {
+    console.error('Report list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load drafts. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a new draft owned by the current reporter
+export async function POST(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  try {
+    // 3. Input Validation
+    const body = await request.json();
+    const issues = validateIncidentReport(body?.data);
+
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: issues.join(' '), issues },
+        { status: 400 }
+      );
+    }
+
+    // 4. Verify Employees - the directory's records replace what the client sent
+    const verified = await verifyReportEmployees(parseIncidentReport(body.data), user);
+    if ('error' in verified) {
+      return NextResponse.json(
+        { error: verified.error },
+        { status: 400 }
+      );
+    }
+    const { data } = verified;
+
+    // 5. Stamp Attachments
+    const stamped = await stampAttachments([], data.attachments, user);
+    if ('error' in stamped) {
+      return NextResponse.json(
+        { error: stamped.error },
+        { status: 400 }
+      );
+    }
+
+    // 6. Save Draft
+    const priorIncidents = await refreshPriorIncidents(data, user);
+    const report = await getReportStore().create({
+      id: user.id,
+      employee_id: user.employee_id,
+      employee_name: user.employee_name,
+      employee_email: user.employee_email,
+      position: user.position,
+      company: user.company,
+    }, { ...data, attachments: stamped.attachments, priorIncidents });
+    await getCustodyLog().append(report.id, stamped.events);
+
+    return NextResponse.json({ success: true, report }, { status: 201 });
+  } catch (error) {
+    console.error('Report create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save draft. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { getReportStore } from '@/lib/report-store';
+import { parseReportSearchQuery, searchReports } from '@/lib/report-search';
+import { requireSession } from '@/lib/session';
+import { hasAnyRole } from '@/lib/roles';
+import { listReportTemplates } from '@/lib/template-store';
+
+// Every report for the /reports dashboard, searched, filtered, sorted and paged (see report-search.ts).
+// P&C reviewers and admins only.
+export async function GET(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  if (!hasAnyRole(user, 'pc_reviewer', 'admin')) {
+    return NextResponse.json(
+      { error: 'Only P&C reviewers and administrators can browse all reports.' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    // 3. Search Reports
+    const query = parseReportSearchQuery(new URL(request.url).searchParams);
+    const [records, templates] = await Promise.all([getReportStore().list(), listReportTemplates()]);
+
+    return NextResponse.json({ success: true, ...searchReports(records, query, templates) });
+  } catch (error) {
+    console.error('Report search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load reports. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { parseIncidentReport, validateIncidentReport } from '@/lib/incident-report';
+import { validateReport } from '@/lib/report-validation';
+import { requireSession } from '@/lib/session';
+import { loadReportTemplate } from '@/lib/template-store';
+
+// Check a report for missing fields and rule violations without saving it
+export async function POST(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  try {
+    // 3. Input Validation
+    const body = await request.json();
+    const schemaIssues = validateIncidentReport(body?.data);
+
+    if (schemaIssues.length > 0) {
+      return NextResponse.json(
+        { error: schemaIssues.join(' '), issues: schemaIssues },
+        { status: 400 }
+      );
+    }
+
+    // 4. Apply Report Rules
+    const data = parseIncidentReport(body.data);
+    const issues = validateReport(data, {
+      template: await loadReportTemplate(data),
+      reporter: user,
+    });
+
+    return NextResponse.json({ success: true, valid: issues.length === 0, issues });
+  } catch (error) {
+    console.error('Report validation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate report. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
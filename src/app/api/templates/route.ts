@@ -0,0 +1,100 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { syncDocumentLayout, validateReportTemplate, type ReportTemplate } from '@/lib/report-templates';
+import { requireSession } from '@/lib/session';
+import { hasAnyRole } from '@/lib/roles';
+import { getTemplateStore, listReportTemplates } from '@/lib/template-store';
+
+// Every version of every report template. The form needs older versions too, to render drafts
+// in the layout they were started with.
+export async function GET(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  try {
+    // 3. Load Templates
+    return NextResponse.json({ success: true, templates: await listReportTemplates() });
+  } catch (error) {
+    console.error('Template list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load report templates. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+// Publish a template from the designer as the next version of its ID (P&C reviewers and admins only)
+export async function POST(request: Request) {
+  // 1. Rate Limiting
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return NextResponse.json(
+      { error: 'Too many requests. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  // 2. Authentication
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return authError;
+
+  if (!hasAnyRole(user, 'pc_reviewer', 'admin')) {
+    return NextResponse.json(
+      { error: 'Only P&C reviewers and administrators can publish report templates.' },
+      { status: 403 }
+    );
+  }
+
+  try {
+    // 3. Input Validation
+    const body = await request.json();
+    const issues = validateReportTemplate(body?.template);
+
+    if (issues.length > 0) {
+      return NextResponse.json(
+        { error: issues[0], issues },
+        { status: 400 }
+      );
+    }
+
+    // 4. Publish
+    const template = body.template as ReportTemplate;
+    const published = await getTemplateStore().publish({
+      id: template.id,
+      version: template.version,
+      name: template.name.trim(),
+      description: typeof template.description === 'string' ? template.description.trim() : '',
+      title: template.title.trim(),
+      sections: template.sections,
+      document: syncDocumentLayout(template),
+    }, user.employee_name);
+
+    return NextResponse.json({ success: true, template: published }, { status: 201 });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return NextResponse.json(
+        { error: 'Someone else published this template at the same time. Reload and try again.' },
+        { status: 409 }
+      );
+    }
+    console.error('Template publish error:', error);
+    return NextResponse.json(
+      { error: 'Failed to publish the template. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
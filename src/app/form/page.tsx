@@ -1,289 +1,560 @@
 'use client';
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useEffectEvent, useState, useRef } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
 import axios from 'axios';
-import { Packer } from 'docx';
 import { saveAs } from 'file-saver';
 import RichTextEditor from '@/components/RichTextEditor';
 import RichTextArea from '@/components/RichTextArea';
 import DocumentPreview from '@/components/DocumentPreview';
-import { generateIncidentReportDocx } from '@/lib/docx-generator';
-
-interface UserDetails {
-  id: number;
-  employee_id: number;
-  employee_name: string;
-  employee_email: string;
-  position: string;
-  company: string;
-  created_at?: string;
-  [key: string]: any;
+import EmployeeCombobox from '@/components/EmployeeCombobox';
+import { DOCX_MIME_TYPE, generateIncidentReportDocx, packIncidentReportDocx } from '@/lib/docx-generator';
+import {
+  buildReportFilename,
+  createEmptyIncidentReport,
+  formatTimelineActor,
+  formatWitness,
+  getSubjects,
+  INVOLVEMENT_ROLES,
+  sortTimeline,
+  type Attachment,
+  type AttachmentAddedBy,
+  type EmployeeDetails,
+  type IncidentReport,
+  type InvolvedEmployee,
+  type PriorIncident,
+  type TimelineEvent,
+  type UserDetails,
+  type WitnessSource,
+  type WitnessStatement,
+} from '@/lib/incident-report';
+import { getBrandingForReport, loadBrandingRules } from '@/lib/branding';
+import { loadLogoImage } from '@/lib/logos';
+import {
+  ATTACHMENT_TYPES,
+  checkAttachmentFile,
+  formatFileSize,
+  getAttachmentFileUrl,
+  getImageType,
+  loadAttachmentImages,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/attachments';
+import { formatDate, TIME_ZONES, todayIn } from '@/lib/time-zones';
+import {
+  DEFAULT_LOCALE,
+  getLocaleTag,
+  getSecondLocale,
+  getTranslator,
+  isLocale,
+  LOCALES,
+  translateTemplateText,
+  type Locale,
+} from '@/lib/i18n';
+import type { ReportRecord } from '@/lib/report-store';
+import {
+  findTemplateField,
+  formatCheckboxValue,
+  getAttachmentsValue,
+  getDocumentLabel,
+  getEmployeeValue,
+  getFieldValue,
+  getInvolvedEmployeesValue,
+  getLatestTemplates,
+  getListValue,
+  getOptionLabel,
+  getReportTemplate,
+  getTemplateValueKeys,
+  getTextValue,
+  getTimelineContext,
+  getTimelineValue,
+  getWitnessStatementsValue,
+  isFieldFilled,
+  localizeTemplate,
+  REPORT_TEMPLATES,
+  withFieldValue,
+  type AttachmentsTemplateField,
+  type CheckboxGroupTemplateField,
+  type EmployeeListTemplateField,
+  type EmployeeTemplateField,
+  type ReportTemplate,
+  type RichTextTemplateField,
+  type TemplateField,
+  type TemplateFieldGroup,
+  type TemplateFieldValue,
+  type TimelineTemplateField,
+  type WitnessStatementsTemplateField,
+} from '@/lib/report-templates';
+import { findMissingFields, type ValidationField, type ValidationIssue } from '@/lib/report-validation';
+import { isEditableStatus, type ReportStatus, type StatusHistoryEntry } from '@/lib/report-workflow';
+import { canViewIncidentHistory, hasAnyRole, ROLE_LABELS } from '@/lib/roles';
+
+interface DraftSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  incidentWhat: string;
+  employeeName: string;
+  status: ReportStatus;
 }
 
-interface EmployeeDetails {
-  id: number;
-  employee_id: number;
-  employee_name: string;
-  employee_email: string;
-  position: string;
-  company: string;
-  created_at?: string;
-}
+type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
-interface Attachment {
-  id: string;
-  nameOrLink: string;
-  description: string;
-}
+// Wait this long after the last keystroke before autosaving the draft
+const AUTOSAVE_DELAY_MS = 1500;
 
-type ImpactCategory = 'Client' | 'GoTeam' | 'Peers' | 'Management' | 'Others';
+// Re-check the report against the server's validation rules this long after the last edit
+const VALIDATION_DELAY_MS = 600;
+
+// The form's own language is a preference of the browser; each report keeps its document language
+const UI_LOCALE_STORAGE_KEY = 'incident-form-locale';
+
+interface EmployeeLookupState {
+  loading: boolean;
+  error: string;
+}
 
-const IMPACT_CATEGORIES: ImpactCategory[] = ['Client', 'GoTeam', 'Peers', 'Management', 'Others'];
+// What a lookup came back with: the employee, or the error to show next to the input
+type EmployeeLookupResult = { employee: EmployeeDetails } | { error: string };
 
-type EnhancingField = 
-  | 'incidentDetails' 
-  | 'findings' 
-  | 'policyViolation' 
-  | 'impactDescription' 
-  | `attachment_${string}`;
+interface EmployeeHistoryState {
+  loading: boolean;
+  error: string;
+  incidents: PriorIncident[];
+}
 
 export default function FormPage() {
   const router = useRouter();
   const [user, setUser] = useState<UserDetails | null>(null);
   
-  // Section 1: General Information
-  const [datePrepared, setDatePrepared] = useState<string>(() => {
-    const today = new Date();
-    return today.toISOString().split('T')[0];
-  });
+  // Every form field lives on the report; which ones are shown comes from its template
+  const [report, setReport] = useState<IncidentReport>(createEmptyIncidentReport);
+  // Built-in templates until the published versions have loaded
+  const [templates, setTemplates] = useState<ReportTemplate[]>(REPORT_TEMPLATES);
+  const reportTemplate = getReportTemplate(report.templateId, report.templateVersion, templates);
+  // The form shows the template in its own language; the preview and documents localize it to the report's
+  const [uiLocale, setUiLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const template = localizeTemplate(reportTemplate, uiLocale);
+  const t = getTranslator(uiLocale);
+  const { timeZone, datePrepared, attestedById, attestedByDetails } = report;
+
+  const updateField = (key: string, value: TemplateFieldValue) => {
+    setReport(prev => withFieldValue(prev, key, value));
+  };
 
-  // Section 2: Employee Details (Subject)
-  const [employeeId, setEmployeeId] = useState<string>('');
-  const [employeeDetails, setEmployeeDetails] = useState<EmployeeDetails | null>(null);
-  const [employeeLookupLoading, setEmployeeLookupLoading] = useState(false);
-  const [employeeLookupError, setEmployeeLookupError] = useState<string>('');
-
-  // Section 3: Description of Incidents
-  // A. Core Details
-  const [incidentWhat, setIncidentWhat] = useState<string>('');
-  const [incidentLocation, setIncidentLocation] = useState<string>('');
-  const [incidentDateTime, setIncidentDateTime] = useState<string>('');
-
-  // B. Narrative Fields
-  const [incidentDetails, setIncidentDetails] = useState<string>('');
-  const [findings, setFindings] = useState<string>('');
-  const [policyViolation, setPolicyViolation] = useState<string>('');
-
-  // C. Attachments
-  const [attachments, setAttachments] = useState<Attachment[]>([]);
-
-  // D. Impact
-  const [impactCategories, setImpactCategories] = useState<ImpactCategory[]>([]);
-  const [impactOthersSpecify, setImpactOthersSpecify] = useState<string>('');
-  const [impactDescription, setImpactDescription] = useState<string>('');
-
-  // Section 4 & 5: Signatories
-  // Attested By (lookup via employee webhook)
-  const [attestedById, setAttestedById] = useState<string>('');
-  const [attestedByDetails, setAttestedByDetails] = useState<EmployeeDetails | null>(null);
-  const [attestedByLookupLoading, setAttestedByLookupLoading] = useState(false);
-  const [attestedByLookupError, setAttestedByLookupError] = useState<string>('');
-
-  // Helper function to toggle impact category
-  const toggleImpactCategory = (category: ImpactCategory) => {
-    setImpactCategories(prev => {
-      if (prev.includes(category)) {
-        // Remove category
-        const newCategories = prev.filter(c => c !== category);
-        // Clear "Others" specify if Others is removed
-        if (category === 'Others') {
-          setImpactOthersSpecify('');
-        }
-        return newCategories;
-      } else {
-        // Add category
-        return [...prev, category];
+  // New reports always use the latest published version of a template
+  const selectTemplate = (templateId: string) => {
+    const selected = getReportTemplate(templateId, undefined, templates);
+    setReport(prev => ({ ...prev, templateId: selected.id, templateVersion: selected.version }));
+  };
+
+  // A date prepared still set to today moves with the zone, so it stays today at the site
+  const selectTimeZone = (zone: string) => {
+    setReport(prev => ({
+      ...prev,
+      timeZone: zone,
+      datePrepared: prev.datePrepared === todayIn(prev.timeZone) ? todayIn(zone) : prev.datePrepared,
+    }));
+  };
+
+  // The second language of a bilingual document can't be the document language itself
+  const selectDocumentLocale = (locale: string) => {
+    if (!isLocale(locale)) return;
+    setReport(prev => ({ ...prev, locale, secondLocale: prev.secondLocale === locale ? null : prev.secondLocale }));
+  };
+
+  const selectSecondLocale = (locale: string) => {
+    setReport(prev => ({ ...prev, secondLocale: isLocale(locale) ? locale : null }));
+  };
+
+  const updateTranslation = (key: string, text: string) => {
+    setReport(prev => ({ ...prev, translations: { ...prev.translations, [key]: text } }));
+  };
+
+  const selectUiLocale = (locale: string) => {
+    if (!isLocale(locale)) return;
+    setUiLocale(locale);
+    localStorage.setItem(UI_LOCALE_STORAGE_KEY, locale);
+  };
+
+  // Employee lookups in progress or failed, keyed by the field the result is stored in
+  const [employeeLookups, setEmployeeLookups] = useState<Record<string, EmployeeLookupState>>({});
+
+  // Lookup requests keyed by purpose and employee ID, shared by every input: leaving an input again, or
+  // typing an ID already looked up elsewhere, reuses the answer. Errors are dropped so they can be retried.
+  const employeeLookupRequests = useRef(new Map<string, Promise<EmployeeLookupResult>>());
+
+  // Prior incidents of each subject, keyed by employee ID
+  const [employeeHistories, setEmployeeHistories] = useState<Record<string, EmployeeHistoryState>>({});
+
+  // Toggle an option of a checkbox group, clearing its "specify" text when that option is removed
+  const toggleOption = (field: CheckboxGroupTemplateField, option: string) => {
+    setReport(prev => {
+      const selected = getListValue(prev, field.key);
+      if (!selected.includes(option)) {
+        return withFieldValue(prev, field.key, [...selected, option]);
       }
+      const next = withFieldValue(prev, field.key, selected.filter(value => value !== option));
+      return field.specify?.option === option ? withFieldValue(next, field.specify.key, '') : next;
     });
   };
 
-  // Get formatted impact context for AI
-  const getImpactContext = () => {
-    const categories = impactCategories.join(', ');
-    const othersText = impactCategories.includes('Others') && impactOthersSpecify 
-      ? ` (Others: ${impactOthersSpecify})` 
-      : '';
-    return `impact_description - Impacted parties: ${categories}${othersText}`;
-  };
 
   // AI Enhancement state
-  const [enhancingField, setEnhancingField] = useState<EnhancingField | null>(null);
+  const [enhancingField, setEnhancingField] = useState<string | null>(null);
+
+  // Evidence uploads
+  const [uploadingFiles, setUploadingFiles] = useState(0);
+  const [uploadErrors, setUploadErrors] = useState<string[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
 
   // Document Generation state
   const [isGeneratingDoc, setIsGeneratingDoc] = useState(false);
   const [docSuccess, setDocSuccess] = useState(false);
   const [docError, setDocError] = useState<string>('');
+  const [downloadFormat, setDownloadFormat] = useState<'docx' | 'pdf'>('docx');
   const previewRef = useRef<HTMLDivElement>(null);
 
   // Preview visibility for mobile
   const [showPreview, setShowPreview] = useState(false);
 
+  // Draft autosave state
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSaveStatus, setDraftSaveStatus] = useState<DraftSaveStatus>('idle');
+  const [draftSavedAt, setDraftSavedAt] = useState<string>('');
+  const [drafts, setDrafts] = useState<DraftSummary[]>([]);
+  const draftIdRef = useRef<string | null>(null);
+  const lastSavedDraftJson = useRef<string>('');
+  const draftSaveQueue = useRef<Promise<void>>(Promise.resolve());
+
+  // Attestation workflow state
+  const [reportStatus, setReportStatus] = useState<ReportStatus>('draft');
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [isSubmittingReport, setIsSubmittingReport] = useState(false);
+  const [submitError, setSubmitError] = useState<string>('');
+  // Who filed the open report; P&C can open anyone's report from /reports, but only its reporter can edit it
+  const [reportOwner, setReportOwner] = useState<UserDetails | null>(null);
+  const isOwnReport = !reportOwner || reportOwner.employee_id === user?.employee_id;
+  const isEditable = isEditableStatus(reportStatus) && isOwnReport;
+
+  // Server-side validation state
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const validationRequestId = useRef(0);
+
+  // Rule violations (dates, people, "Others") are shown next to the field they concern
+  const fieldError = (field: ValidationField) =>
+    validationIssues.find(issue => issue.kind === 'rule' && issue.field === field)?.message;
+
   // Check if form is complete enough to submit
-  const canSubmit = Boolean(
-    datePrepared &&
-    employeeDetails &&
-    incidentWhat.trim() &&
-    incidentLocation.trim() &&
-    incidentDateTime &&
-    incidentDetails.trim() &&
-    impactCategories.length > 0 &&
-    impactDescription.trim() &&
-    attestedByDetails
-  );
+  const missingFields = findMissingFields(report, template);
+  const canSubmit = !validationIssues.some(issue => issue.kind === 'rule') && missingFields.length === 0;
+
+  // One checklist entry per group of required fields, then the attester
+  const checklist = [
+    ...template.sections.flatMap(section => section.groups
+      .filter(group => group.fields.some(field => field.required))
+      .map(group => ({
+        label: group.title || section.title,
+        done: group.fields.every(field => !field.required || isFieldFilled(report, field)),
+      }))),
+    { label: t('form.attestedBy'), done: Boolean(attestedByDetails) },
+  ];
 
   useEffect(() => {
-    // Check authentication
-    const userId = sessionStorage.getItem('userId');
-    const userEmail = sessionStorage.getItem('userEmail');
-    const userDetailsStr = sessionStorage.getItem('userDetails');
-
-    if (!userId || !userEmail) {
-      router.push('/login');
-    } else {
-      if (userDetailsStr) {
-        try {
-          const details = JSON.parse(userDetailsStr);
-          setUser(details);
-        } catch {
-          setUser({ 
-            id: parseInt(userId), 
-            employee_id: 0,
-            employee_name: '',
-            employee_email: userEmail,
-            position: '',
-            company: ''
-          });
+    // Check authentication against the server-side session
+    const loadSession = async () => {
+      try {
+        const response = await axios.get('/api/auth/me');
+        if (response.data.success && response.data.user) {
+          setUser(response.data.user);
+        } else {
+          router.push('/login');
         }
+      } catch {
+        router.push('/login');
       }
-    }
+    };
+    loadSession();
   }, [router]);
 
-  const formatFullName = (details: { employee_name: string }) => {
-    return details.employee_name || '';
-  };
+  // Read after mounting, so the server-rendered page and the first client render agree
+  useEffect(() => {
+    const saved = localStorage.getItem(UI_LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) setUiLocale(saved);
+  }, []);
 
-  const handleEmployeeLookup = async () => {
-    if (!employeeId.trim()) {
-      setEmployeeLookupError('Please enter an Employee ID');
-      return;
+  const handleLogout = async () => {
+    try {
+      await axios.post('/api/auth/logout');
+    } catch (err) {
+      console.error('Logout error:', err);
+    } finally {
+      router.push('/login');
     }
+  };
 
-    setEmployeeLookupLoading(true);
-    setEmployeeLookupError('');
-    setEmployeeDetails(null);
+  // Current form contents as a draft payload
+  const draftData = report;
+  const draftJson = JSON.stringify(draftData);
 
+  // Nothing worth saving until the reporter has entered something beyond the default date
+  const hasDraftContent = Boolean(attestedById.trim()) || getTemplateValueKeys(template).some(key => {
+    const value = getFieldValue(report, key);
+    return Array.isArray(value) ? value.length > 0 : typeof value === 'string' ? Boolean(value.trim()) : Boolean(value);
+  });
+
+  // Restore every form field and the workflow status from a saved report
+  const applyDraft = (record: ReportRecord) => {
+    const { id, data } = record;
+    draftIdRef.current = id;
+    lastSavedDraftJson.current = JSON.stringify(data);
+    setDraftId(id);
+    setReportStatus(record.status);
+    setStatusHistory(record.statusHistory);
+    setReportOwner(record.reportedBy);
+    setReport(data);
+    setEmployeeLookups({});
+    window.history.replaceState(null, '', `/form?draft=${id}`);
+  };
+
+  const fetchDrafts = async () => {
     try {
-      const response = await axios.post('/api/employee/lookup', {
-        employeeId: employeeId.trim()
-      });
+      const response = await axios.get('/api/reports');
+      if (response.data.success) {
+        setDrafts(response.data.reports);
+      }
+    } catch (err) {
+      console.error('Failed to load drafts:', err);
+    }
+  };
 
-      if (response.data.success && response.data.employee) {
-        setEmployeeDetails(response.data.employee);
-      } else {
-        setEmployeeLookupError(response.data.error || 'Employee not found');
+  const handleResumeDraft = async (id: string) => {
+    try {
+      const response = await axios.get(`/api/reports/${id}`);
+      if (response.data.success && response.data.report) {
+        applyDraft(response.data.report);
+        setDraftSaveStatus('saved');
+        setDraftSavedAt(response.data.report.updatedAt);
       }
-    } catch (err: any) {
-      if (err.response?.data?.error) {
-        setEmployeeLookupError(err.response.data.error);
-      } else {
-        setEmployeeLookupError('Failed to lookup employee. Please try again.');
+    } catch (err) {
+      console.error('Failed to resume draft:', err);
+      setDraftSaveStatus('error');
+    }
+  };
+
+  const handleDeleteDraft = async (id: string) => {
+    try {
+      await axios.delete(`/api/reports/${id}`);
+      setDrafts(prev => prev.filter(draft => draft.id !== id));
+    } catch (err) {
+      console.error('Failed to delete draft:', err);
+    }
+  };
+
+  // Published template versions; a report that hasn't been saved yet moves to the latest version of its type
+  const fetchTemplates = async () => {
+    try {
+      const response = await axios.get('/api/templates');
+      if (response.data.success) {
+        const loaded: ReportTemplate[] = response.data.templates;
+        setTemplates(loaded);
+        if (!draftIdRef.current) {
+          setReport(prev => ({ ...prev, templateVersion: getReportTemplate(prev.templateId, undefined, loaded).version }));
+        }
       }
-    } finally {
-      setEmployeeLookupLoading(false);
+    } catch (err) {
+      console.error('Failed to load report templates:', err);
     }
   };
 
-  // Attested By Employee Lookup
-  const handleAttestedByLookup = async () => {
-    if (!attestedById.trim()) {
-      setAttestedByLookupError('Please enter an Employee ID');
-      return;
+  // Load the reporter's drafts once logged in, and resume the one named in ?draft= if any
+  const loadReporterData = useEffectEvent(() => {
+    fetchTemplates();
+    fetchDrafts();
+    const requestedDraftId = new URLSearchParams(window.location.search).get('draft');
+    if (requestedDraftId) {
+      handleResumeDraft(requestedDraftId);
     }
+  });
 
-    setAttestedByLookupLoading(true);
-    setAttestedByLookupError('');
-    setAttestedByDetails(null);
+  useEffect(() => {
+    if (user) loadReporterData();
+  }, [user]);
 
+  // Autosave: debounce edits, then create or update the draft on the server.
+  // Saves are queued so a slow create can never race a following update into a duplicate draft.
+  useEffect(() => {
+    if (!user || !isEditable || draftJson === lastSavedDraftJson.current) return;
+    if (!draftIdRef.current && !hasDraftContent) return;
+
+    const timer = setTimeout(() => {
+      draftSaveQueue.current = draftSaveQueue.current.then(async () => {
+        setDraftSaveStatus('saving');
+        try {
+          const payload = { data: JSON.parse(draftJson) };
+          const response = draftIdRef.current
+            ? await axios.put(`/api/reports/${draftIdRef.current}`, payload)
+            : await axios.post('/api/reports', payload);
+
+          if (response.data.success && response.data.report) {
+            if (!draftIdRef.current) {
+              draftIdRef.current = response.data.report.id;
+              setDraftId(response.data.report.id);
+              window.history.replaceState(null, '', `/form?draft=${response.data.report.id}`);
+            }
+            lastSavedDraftJson.current = draftJson;
+            setDraftSavedAt(response.data.report.updatedAt);
+            setDraftSaveStatus('saved');
+          }
+        } catch (err) {
+          console.error('Draft autosave error:', err);
+          setDraftSaveStatus('error');
+        }
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [draftJson, user, isEditable, hasDraftContent]);
+
+  // Run the server's validation rules against what is on screen. Returns null if the check failed.
+  const validateDraft = async (): Promise<ValidationIssue[] | null> => {
+    const requestId = ++validationRequestId.current;
     try {
-      const response = await axios.post('/api/employee/lookup', {
-        employeeId: attestedById.trim()
+      const response = await axios.post('/api/reports/validate', {
+        data: draftData,
       });
+      // Ignore answers to older edits that arrive after a newer one
+      if (requestId === validationRequestId.current) {
+        setValidationIssues(response.data.issues);
+      }
+      return response.data.issues;
+    } catch (err) {
+      console.error('Validation error:', err);
+      return null;
+    }
+  };
 
-      if (response.data.success && response.data.employee) {
-        setAttestedByDetails(response.data.employee);
-      } else {
-        setAttestedByLookupError(response.data.error || 'Employee not found');
+  const validateLatestEdits = useEffectEvent(() => {
+    validateDraft();
+  });
+
+  useEffect(() => {
+    if (!user || !hasDraftContent) return;
+
+    const timer = setTimeout(() => validateLatestEdits(), VALIDATION_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [user, draftJson, hasDraftContent]);
+
+  // Save the latest edits, then hand the report to the attester
+  const handleSubmitForAttestation = async () => {
+    if (!canSubmit || !isEditable) return;
+
+    setIsSubmittingReport(true);
+    setSubmitError('');
+
+    try {
+      // Wait for any in-flight autosave, then make sure the server has exactly what is on screen
+      await draftSaveQueue.current;
+      const payload = { data: draftData };
+      const saveResponse = draftIdRef.current
+        ? await axios.put(`/api/reports/${draftIdRef.current}`, payload)
+        : await axios.post('/api/reports', payload);
+      const reportId = saveResponse.data.report.id;
+      lastSavedDraftJson.current = draftJson;
+
+      const response = await axios.post(`/api/reports/${reportId}/status`, { action: 'submit' });
+      if (response.data.success && response.data.report) {
+        applyDraft(response.data.report);
       }
-    } catch (err: any) {
-      if (err.response?.data?.error) {
-        setAttestedByLookupError(err.response.data.error);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.error) {
+        setSubmitError(err.response.data.error);
+        if (Array.isArray(err.response.data.issues)) {
+          setValidationIssues(err.response.data.issues);
+        }
       } else {
-        setAttestedByLookupError('Failed to lookup employee. Please try again.');
+        setSubmitError('Failed to submit report. Please try again.');
       }
     } finally {
-      setAttestedByLookupLoading(false);
+      setIsSubmittingReport(false);
     }
   };
 
-  // Guiding questions for each section
-  const GUIDING_QUESTIONS = {
-    incident_details: [
-      'What exactly happened? Describe the incident in your own words.',
-      'Who was involved? (Include full names)',
-      'When and where did this occur?',
-      'How was this discovered or reported?',
-      'What evidence do you have? (e.g., Teramind logs, emails, chat messages)',
-    ],
-    findings: [
-      'What did your investigation confirm or verify?',
-      'What specific evidence supports your findings?',
-      'Were there any patterns or repeated behaviors?',
-      'Who else was involved or aware of the situation?',
-    ],
-    policy_violation: [
-      'Which company policies or codes of conduct were violated?',
-      'How did the specific actions violate these policies?',
-      'Was there improper escalation (bypassing management/P&C)?',
-      'Was there insubordination, gossip, or unprofessional behavior?',
-      'Did the employee fail to exercise professional judgment?',
-    ],
-    attachment_description: [
-      'What does this attachment show or prove?',
-      'When was this evidence captured (date/time)?',
-      'Who is involved in this evidence?',
-    ],
-    impact_description: [
-      'How was trust, satisfaction, or relationships affected?',
-      'How was company reputation, compliance, or operations affected?',
-      'How was team morale, trust, or collaboration affected?',
-      'What additional supervision or intervention was required?',
-    ],
+  // The attester's most recent comment when a report comes back for revision
+  const lastReturn = reportStatus === 'returned'
+    ? [...statusHistory].reverse().find(entry => entry.action === 'return')
+    : undefined;
+
+  const formatFullName = (details: { employee_name: string }) => {
+    return details.employee_name || '';
   };
 
-  // Get guiding questions for a section
-  const getGuidingQuestions = (sectionContext: string): string => {
-    const key = sectionContext.replace('impact_description - Impacted parties:', 'impact_description').split(' - ')[0] as keyof typeof GUIDING_QUESTIONS;
-    const questions = GUIDING_QUESTIONS[key] || [];
-    return questions.join('\n');
+  // Look up an employee by ID; lookupKey tracks the loading state and error shown next to the input
+  const lookupEmployee = async (
+    lookupKey: string,
+    employeeId: string,
+    purpose: 'subject' | 'attester',
+    setDetails: (details: EmployeeDetails | null) => void
+  ) => {
+    const setLookup = (state: EmployeeLookupState) =>
+      setEmployeeLookups(prev => ({ ...prev, [lookupKey]: state }));
+
+    if (!employeeId.trim()) {
+      setLookup({ loading: false, error: 'Please enter an Employee ID' });
+      return;
+    }
+
+    const requestKey = `${purpose}:${employeeId.trim()}`;
+    let request = employeeLookupRequests.current.get(requestKey);
+
+    // Answers already received are applied without clearing the details first, so they don't flicker
+    if (!request) {
+      setLookup({ loading: true, error: '' });
+      setDetails(null);
+
+      request = axios.post('/api/employee/lookup', { employeeId: employeeId.trim(), purpose })
+        .then((response): EmployeeLookupResult =>
+          response.data.success && response.data.employee
+            ? { employee: response.data.employee }
+            : { error: response.data.error || 'Employee not found' })
+        .catch((err: unknown): EmployeeLookupResult => {
+          employeeLookupRequests.current.delete(requestKey);
+          return {
+            error: (axios.isAxiosError(err) && err.response?.data?.error) || 'Failed to lookup employee. Please try again.',
+          };
+        });
+      employeeLookupRequests.current.set(requestKey, request);
+    }
+
+    const result = await request;
+    if ('employee' in result) {
+      setDetails(result.employee);
+      setLookup({ loading: false, error: '' });
+    } else {
+      setDetails(null);
+      setLookup({ loading: false, error: result.error });
+    }
   };
 
+  // A picked search result needs no lookup; clear whatever the last lookup left next to the input
+  const clearEmployeeLookup = (lookupKey: string) =>
+    setEmployeeLookups(prev => ({ ...prev, [lookupKey]: { loading: false, error: '' } }));
+
+  // Look up the employee whose ID is typed into idKey and store their details under key
+  const handleEmployeeLookup = (idKey: string, key: string, purpose: 'subject' | 'attester') =>
+    lookupEmployee(key, getTextValue(report, idKey), purpose, details => updateField(key, details));
+
+  const lookupAttester = () => handleEmployeeLookup('attestedById', 'attestedByDetails', 'attester');
+
   // AI Text Enhancement Handler
   const handleAIEnhance = async (
-    fieldName: EnhancingField,
+    fieldName: string,
     currentText: string,
     setter: (text: string) => void,
-    sectionContext: string
+    sectionContext: string,
+    guidingQuestions: string[],
+    translateTo?: Locale
   ) => {
     if (!currentText.trim()) {
       return;
@@ -296,7 +567,11 @@ export default function FormPage() {
         rawText: currentText,
         sectionContext: sectionContext,
         format: 'markdown', // Request markdown formatted response
-        guidingQuestions: getGuidingQuestions(sectionContext), // Pass guiding questions for better AI context
+        guidingQuestions: guidingQuestions.join('\n'), // Pass guiding questions for better AI context
+        // The incident details are written with the timeline in view
+        ...(fieldName === 'incidentDetails' ? { timeline: getTimelineContext(report) } : {}),
+        // AI Translate: the text comes back in this language instead of enhanced
+        ...(translateTo ? { translateTo } : {}),
       });
 
       if (response.data.success && response.data.formattedText) {
@@ -311,27 +586,217 @@ export default function FormPage() {
   };
 
   // Attachment Management
-  const addAttachment = () => {
+  // Shown in the preview until the server stamps the attachment with its own record on the next save
+  const getAddedBy = (): AttachmentAddedBy | null =>
+    user ? { employeeId: String(user.employee_id), name: user.employee_name, at: new Date().toISOString() } : null;
+
+  const addAttachment = (key: string) => {
     const newAttachment: Attachment = {
       id: `att_${Date.now()}`,
       nameOrLink: '',
-      description: ''
+      description: '',
+      file: null,
+      addedBy: getAddedBy(),
+      link: null,
     };
-    setAttachments([...attachments, newAttachment]);
+    setReport(prev => withFieldValue(prev, key, [...getAttachmentsValue(prev, key), newAttachment]));
   };
 
-  const removeAttachment = (id: string) => {
-    setAttachments(attachments.filter(att => att.id !== id));
+  const removeAttachment = (key: string, id: string) => {
+    setReport(prev => {
+      const next = withFieldValue(prev, key, getAttachmentsValue(prev, key).filter(att => att.id !== id));
+      // Timeline events stop pointing at the removed evidence
+      return {
+        ...next,
+        timeline: next.timeline.map(event => ({ ...event, attachmentIds: event.attachmentIds.filter(attachmentId => attachmentId !== id) })),
+      };
+    });
   };
 
-  const updateAttachment = (id: string, field: keyof Omit<Attachment, 'id'>, value: string) => {
-    setAttachments(attachments.map(att => 
+  const updateAttachment = (key: string, id: string, field: 'nameOrLink' | 'description', value: string) => {
+    setReport(prev => withFieldValue(prev, key, getAttachmentsValue(prev, key).map(att =>
       att.id === id ? { ...att, [field]: value } : att
-    ));
+    )));
+  };
+
+  // Upload dropped or chosen files one at a time; each becomes an attachment once it is stored
+  const uploadAttachments = async (key: string, files: File[]) => {
+    const errors: string[] = [];
+    setUploadErrors([]);
+
+    for (const file of files) {
+      const fileError = checkAttachmentFile(file);
+      if (fileError) {
+        errors.push(fileError);
+        continue;
+      }
+
+      setUploadingFiles(count => count + 1);
+      try {
+        const formData = new FormData();
+        formData.append('file', file);
+        const response = await axios.post('/api/attachments', formData);
+        const newAttachment: Attachment = {
+          id: `att_${Date.now()}`,
+          nameOrLink: file.name,
+          description: '',
+          file: response.data.file,
+          addedBy: getAddedBy(),
+          link: null,
+        };
+        setReport(prev => withFieldValue(prev, key, [...getAttachmentsValue(prev, key), newAttachment]));
+      } catch (err) {
+        errors.push((axios.isAxiosError(err) && err.response?.data?.error) || `Failed to upload ${file.name}. Please try again.`);
+      } finally {
+        setUploadingFiles(count => count - 1);
+      }
+    }
+
+    setUploadErrors(errors);
+  };
+
+  // Involved Employees Management
+  const addInvolvedEmployee = (field: EmployeeListTemplateField) => {
+    const newInvolved: InvolvedEmployee = {
+      id: `emp_${Date.now()}`,
+      role: (field.roles || INVOLVEMENT_ROLES)[0],
+      employeeId: '',
+      details: null,
+    };
+    setReport(prev => withFieldValue(prev, field.key, [...getInvolvedEmployeesValue(prev, field.key), newInvolved]));
+  };
+
+  const removeInvolvedEmployee = (key: string, id: string) => {
+    setReport(prev => withFieldValue(prev, key, getInvolvedEmployeesValue(prev, key).filter(involved => involved.id !== id)));
+  };
+
+  const updateInvolvedEmployee = (key: string, id: string, changes: Partial<Omit<InvolvedEmployee, 'id'>>) => {
+    setReport(prev => withFieldValue(prev, key, getInvolvedEmployeesValue(prev, key).map(involved =>
+      involved.id === id ? { ...involved, ...changes } : involved
+    )));
+  };
+
+  const lookupInvolvedEmployee = (key: string, involved: InvolvedEmployee) =>
+    lookupEmployee(`involved_${involved.id}`, involved.employeeId, 'subject', details =>
+      updateInvolvedEmployee(key, involved.id, { details }));
+
+  const loadEmployeeHistory = async (employeeId: string) => {
+    const setHistory = (state: EmployeeHistoryState) =>
+      setEmployeeHistories(prev => ({ ...prev, [employeeId]: state }));
+
+    setHistory({ loading: true, error: '', incidents: [] });
+    try {
+      const response = await axios.get('/api/employee/history', {
+        params: { employeeId, excludeReportId: draftIdRef.current || undefined },
+      });
+      setHistory({ loading: false, error: '', incidents: response.data.incidents });
+    } catch (err) {
+      console.error('Employee history error:', err);
+      // A 403 explains itself, e.g. when the viewer's roles changed since they logged in
+      const error = axios.isAxiosError(err) && err.response?.status === 403 && err.response.data?.error;
+      setHistory({ loading: false, error: error || t('form.priorIncidentsFailed'), incidents: [] });
+    }
+  };
+
+  // Check each subject's history as soon as their lookup resolves, and for the subjects of a resumed draft.
+  // Only supervisors, P&C and admins see incident history.
+  const subjectIdList = getSubjects(report).map(subject => String(subject.employee_id)).join(',');
+  const loadMissingHistories = useEffectEvent((employeeIds: string[]) => {
+    employeeIds.filter(employeeId => !employeeHistories[employeeId]).forEach(loadEmployeeHistory);
+  });
+  useEffect(() => {
+    if (!canViewIncidentHistory(user)) return;
+    loadMissingHistories(subjectIdList.split(',').filter(Boolean));
+  }, [user, subjectIdList]);
+
+  // Print a subject's prior incidents in the document, or take them out again
+  const togglePriorIncidents = (employeeId: string, include: boolean) => {
+    const incidents = employeeHistories[employeeId]?.incidents || [];
+    setReport(prev => ({
+      ...prev,
+      priorIncidents: [
+        ...prev.priorIncidents.filter(incident => incident.employeeId !== employeeId),
+        ...(include ? incidents : []),
+      ],
+    }));
+  };
+
+  // Witness Statement Management
+  const addWitness = (key: string, source: WitnessSource) => {
+    const newWitness: WitnessStatement = {
+      id: `wit_${Date.now()}`,
+      source,
+      employeeId: '',
+      details: null,
+      name: '',
+      affiliation: '',
+      dateTaken: '',
+      statement: '',
+    };
+    setReport(prev => withFieldValue(prev, key, [...getWitnessStatementsValue(prev, key), newWitness]));
+  };
+
+  const removeWitness = (key: string, id: string) => {
+    setReport(prev => withFieldValue(prev, key, getWitnessStatementsValue(prev, key).filter(witness => witness.id !== id)));
+  };
+
+  const updateWitness = (key: string, id: string, changes: Partial<Omit<WitnessStatement, 'id' | 'source'>>) => {
+    setReport(prev => withFieldValue(prev, key, getWitnessStatementsValue(prev, key).map(witness =>
+      witness.id === id ? { ...witness, ...changes } : witness
+    )));
+  };
+
+  const lookupWitness = (key: string, witness: WitnessStatement) =>
+    lookupEmployee(`witness_${witness.id}`, witness.employeeId, 'subject', details =>
+      updateWitness(key, witness.id, { details }));
+
+  // Timeline Management
+  const addTimelineEvent = (key: string) => {
+    const newEvent: TimelineEvent = {
+      id: `evt_${Date.now()}`,
+      at: '',
+      description: '',
+      actorId: '',
+      actorDetails: null,
+      attachmentIds: [],
+    };
+    setReport(prev => withFieldValue(prev, key, [...getTimelineValue(prev, key), newEvent]));
+  };
+
+  const removeTimelineEvent = (key: string, id: string) => {
+    setReport(prev => withFieldValue(prev, key, getTimelineValue(prev, key).filter(event => event.id !== id)));
   };
 
-  // DOCX Download Handler
-  const handleDownloadDocx = async () => {
+  const updateTimelineEvent = (key: string, id: string, changes: Partial<Omit<TimelineEvent, 'id'>>) => {
+    setReport(prev => withFieldValue(prev, key, getTimelineValue(prev, key).map(event =>
+      event.id === id ? { ...event, ...changes } : event
+    )));
+  };
+
+  const sortTimelineEvents = (key: string) => {
+    setReport(prev => withFieldValue(prev, key, sortTimeline(getTimelineValue(prev, key))));
+  };
+
+  const toggleTimelineAttachment = (key: string, event: TimelineEvent, attachmentId: string) =>
+    updateTimelineEvent(key, event.id, {
+      attachmentIds: event.attachmentIds.includes(attachmentId)
+        ? event.attachmentIds.filter(id => id !== attachmentId)
+        : [...event.attachmentIds, attachmentId],
+    });
+
+  // The actor is optional, so an empty ID just clears the lookup
+  const lookupTimelineActor = (key: string, event: TimelineEvent) => {
+    if (!event.actorId.trim()) {
+      updateTimelineEvent(key, event.id, { actorDetails: null });
+      setEmployeeLookups(prev => ({ ...prev, [`timeline_${event.id}`]: { loading: false, error: '' } }));
+      return;
+    }
+    return lookupEmployee(`timeline_${event.id}`, event.actorId, 'subject', actorDetails =>
+      updateTimelineEvent(key, event.id, { actorDetails }));
+  };
+
+  // Document Download Handler - DOCX is built in the browser, PDF/A on the server
+  const handleDownload = async () => {
     if (!canSubmit || !user) return;
 
     setIsGeneratingDoc(true);
@@ -339,36 +804,50 @@ export default function FormPage() {
     setDocSuccess(false);
 
     try {
-      // Generate the DOCX document (async to fetch logo)
-      const doc = await generateIncidentReportDocx({
-        datePrepared,
-        employeeDetails,
-        incidentWhat,
-        incidentLocation,
-        incidentDateTime,
-        incidentDetails,
-        findings,
-        policyViolation,
-        attachments,
-        impactCategories,
-        impactOthersSpecify,
-        impactDescription,
-        reportedBy: user,
-        attestedBy: attestedByDetails,
-      });
+      // Never generate a document the server would refuse to accept
+      const issues = await validateDraft();
+      if (issues && issues.length > 0) {
+        setDocError(issues[0].message);
+        return;
+      }
 
-      // Generate the blob
-      const blob = await Packer.toBlob(doc);
+      let blob: Blob;
 
-      // Generate filename
-      const employeeName = employeeDetails 
-        ? employeeDetails.employee_name.replace(/\s+/g, '_')
-        : 'Employee';
-      const dateStr = new Date(datePrepared).toISOString().split('T')[0];
-      const filename = `Incident_Report_${employeeName}_${dateStr}.docx`;
+      if (downloadFormat === 'pdf') {
+        // A saved report is printed as stored, so save what is on screen first while it can still be edited
+        if (draftIdRef.current && isEditable) {
+          await draftSaveQueue.current;
+          await axios.put(`/api/reports/${draftIdRef.current}`, { data: draftData });
+          lastSavedDraftJson.current = draftJson;
+        }
+        const response = await axios.post('/api/reports/pdf', draftIdRef.current
+          ? { reportId: draftIdRef.current }
+          : { data: draftData }, { responseType: 'blob' });
+        blob = response.data;
+      } else {
+        // Generate the DOCX document with the company logo (cached after the first download)
+        const reportDocument = {
+          ...draftData,
+          reportedBy: reportOwner || user,
+          status: reportStatus,
+          statusHistory,
+          template: reportTemplate,
+        };
+        const branding = getBrandingForReport(reportDocument, await loadBrandingRules());
+        const doc = await generateIncidentReportDocx(
+          reportDocument,
+          branding,
+          await loadLogoImage(branding.logo),
+          await loadAttachmentImages(draftData, draftIdRef.current)
+        );
+
+        // Generate the blob
+        const bytes = await packIncidentReportDocx(doc, new Date().toISOString());
+        blob = new Blob([bytes as BlobPart], { type: DOCX_MIME_TYPE });
+      }
 
       // Download the file
-      saveAs(blob, filename);
+      saveAs(blob, buildReportFilename(draftData, downloadFormat));
       
       setDocSuccess(true);
       
@@ -382,17 +861,991 @@ export default function FormPage() {
     }
   };
 
+  // Guiding question boxes take these colors in turn within a group
+  const GUIDANCE_STYLES = [
+    { box: 'bg-blue-50 border-blue-100', title: 'text-blue-800', list: 'text-blue-700' },
+    { box: 'bg-amber-50 border-amber-100', title: 'text-amber-800', list: 'text-amber-700' },
+    { box: 'bg-red-50 border-red-100', title: 'text-red-800', list: 'text-red-700' },
+  ];
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900';
+
+  const requiredMark = <span className="text-red-500">*</span>;
+
+  const renderFieldError = (key: string) => fieldError(key) && (
+    <p className="mt-1 text-sm text-red-600">{fieldError(key)}</p>
+  );
+
+  const renderLookupButton = (key: string, onClick: () => void) => {
+    const loading = employeeLookups[key]?.loading;
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        disabled={loading}
+        className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors ${
+          loading ? 'opacity-50 cursor-not-allowed' : ''
+        }`}
+      >
+        {loading ? (
+          <span className="flex items-center">
+            <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            {t('form.fetching')}
+          </span>
+        ) : (
+          t('form.fetch')
+        )}
+      </button>
+    );
+  };
+
+  const renderEmployeeField = (field: EmployeeTemplateField) => {
+    const employee = getEmployeeValue(report, field.key);
+    const lookup = () => handleEmployeeLookup(field.idKey, field.key, 'subject');
+    return (
+      <div className="space-y-4">
+        {/* Employee Search with Fetch Button */}
+        <div>
+          <label htmlFor={field.idKey} className="block text-sm font-medium text-gray-700 mb-1">
+            {field.label} {field.required && requiredMark}
+          </label>
+          <div className="flex gap-2">
+            <EmployeeCombobox
+              id={field.idKey}
+              value={getTextValue(report, field.idKey)}
+              onChange={(value) => updateField(field.idKey, value)}
+              onSelect={(details) => {
+                updateField(field.idKey, String(details.employee_id));
+                updateField(field.key, details);
+                clearEmployeeLookup(field.key);
+              }}
+              onLookup={lookup}
+              purpose="subject"
+              t={t}
+              placeholder={field.placeholder || t('form.searchEmployee')}
+              required={field.required}
+            />
+            {renderLookupButton(field.key, lookup)}
+          </div>
+          {employeeLookups[field.key]?.error && (
+            <p className="mt-1 text-sm text-red-600">{employeeLookups[field.key].error}</p>
+          )}
+          {renderFieldError(field.idKey)}
+        </div>
+
+        {/* Employee Details (Read-only) */}
+        {employee && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-md border border-gray-200">
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                {t('form.employeeName')}
+              </label>
+              <p className="text-gray-900 font-medium">
+                {formatFullName(employee)}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                {t('form.employeeNumber')}
+              </label>
+              <p className="text-gray-900">
+                {employee.employee_id}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                {t('form.positionRole')}
+              </label>
+              <p className="text-gray-900">
+                {employee.position || 'N/A'}
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-500 mb-1">
+                {t('form.departmentCompany')}
+              </label>
+              <p className="text-gray-900">
+                {employee.company || 'N/A'}
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderCheckboxGroupField = (field: CheckboxGroupTemplateField) => {
+    const selected = getListValue(report, field.key);
+    return (
+      <>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {field.label} {field.required && requiredMark}
+            <span className="text-gray-400 text-xs ml-2">{t('form.selectAll')}</span>
+          </label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {field.options.map(({ value, label }) => (
+              <label
+                key={value}
+                className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
+                  selected.includes(value)
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-300 bg-white hover:border-gray-400 text-gray-700'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(value)}
+                  onChange={() => toggleOption(field, value)}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <span className="ml-2 text-sm font-medium">{label || value}</span>
+              </label>
+            ))}
+          </div>
+          {field.required && selected.length === 0 && (
+            <p className="mt-2 text-sm text-amber-600">
+              {t('form.selectAtLeastOne')}
+            </p>
+          )}
+        </div>
+
+        {/* Specify (Conditional) */}
+        {field.specify && selected.includes(field.specify.option) && (
+          <div className="ml-4 p-3 border-l-4 border-blue-200 bg-blue-50 rounded-r">
+            <label htmlFor={field.specify.key} className="block text-sm font-medium text-gray-700 mb-1">
+              {field.specify.label} {requiredMark}
+            </label>
+            <input
+              type="text"
+              id={field.specify.key}
+              value={getTextValue(report, field.specify.key)}
+              onChange={(e) => updateField(field.specify!.key, e.target.value)}
+              placeholder={t('form.pleaseSpecify')}
+              className={inputClassName}
+              required
+            />
+            {renderFieldError(field.specify.key)}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  // Bilingual Word documents: the narrative in the second language, typed in or translated by the AI
+  const renderTranslationField = (field: RichTextTemplateField) => {
+    const secondLocale = getSecondLocale(report.locale, report.secondLocale);
+    if (!secondLocale) return null;
+    const translationKey = `${field.key}_translation`;
+    const source = getTextValue(report, field.key);
+    const isTranslating = enhancingField === translationKey;
+    return (
+      <div className="mt-4 pl-4 border-l-2 border-purple-200">
+        <RichTextEditor
+          id={translationKey}
+          label={t('form.translation', { language: LOCALES.find(option => option.id === secondLocale)!.label })}
+          value={report.translations[field.key] || ''}
+          onChange={(text) => updateTranslation(field.key, text)}
+          placeholder={t('form.translationPlaceholder')}
+          minHeight={120}
+        />
+        <div className="mt-2 flex justify-end">
+          <button
+            type="button"
+            onClick={() => handleAIEnhance(
+              translationKey,
+              source,
+              (text) => updateTranslation(field.key, text),
+              field.aiContext,
+              [],
+              secondLocale
+            )}
+            disabled={isTranslating || !source.trim()}
+            className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+              isTranslating
+                ? 'bg-purple-100 text-purple-400 cursor-not-allowed'
+                : source.trim()
+                ? 'bg-purple-600 text-white hover:bg-purple-700'
+                : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+            }`}
+          >
+            {isTranslating ? t('form.translating') : t('form.aiTranslate')}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderRichTextField = (field: RichTextTemplateField, guidanceIndex: number) => {
+    const value = getTextValue(report, field.key);
+    const dependsOn = field.dependsOn ? findTemplateField(template, field.dependsOn) : undefined;
+
+    // Fields that depend on a checkbox group are disabled until something is picked,
+    // and ask about each picked option instead of fixed guiding questions
+    if (dependsOn?.type === 'checkboxGroup') {
+      const selected = getListValue(report, dependsOn.key);
+      const specified = dependsOn.specify ? getTextValue(report, dependsOn.specify.key) : '';
+      const guidance = dependsOn.options
+        .filter(option => selected.includes(option.value) && option.guidance)
+        .map(option => ({
+          label: option.value === dependsOn.specify?.option ? specified : option.label || option.value,
+          text: option.guidance!,
+        }))
+        .filter(item => item.label);
+
+      const parties = selected.map(option => getOptionLabel(dependsOn, option)).join(', ');
+      return (
+        <div className={selected.length === 0 ? 'opacity-50 pointer-events-none' : ''}>
+          <RichTextEditor
+            id={field.key}
+            label={field.label}
+            value={value}
+            onChange={(text) => updateField(field.key, text)}
+            placeholder={
+              selected.length === 0
+                ? t('form.selectFirst')
+                : t(selected.length > 1 ? 'form.describeImpactMany' : 'form.describeImpactOne', { parties })
+            }
+            required={field.required}
+            minHeight={field.minHeight}
+            onAIEnhance={(currentValue) => handleAIEnhance(
+              field.key,
+              currentValue,
+              (text) => updateField(field.key, text),
+              `${field.aiContext} - ${getDocumentLabel(dependsOn)} ${formatCheckboxValue(report, dependsOn)}`,
+              guidance.map(item => `${item.label}: ${item.text}`)
+            )}
+            isEnhancing={enhancingField === field.key}
+            aiEnhanceDisabled={!value.trim() || selected.length === 0}
+          />
+          <div className="mt-2 p-3 bg-purple-50 border border-purple-100 rounded-md">
+            <p className="text-xs font-medium text-purple-800 mb-1.5">💡 {t('form.considerAreas')}</p>
+            <ul className="text-xs text-purple-700 space-y-1 list-disc list-inside">
+              {guidance.map(item => (
+                <li key={item.label}><strong>{item.label}:</strong> {item.text}</li>
+              ))}
+              {selected.length === 0 && (
+                <li>{t('form.makeSelection')}</li>
+              )}
+            </ul>
+          </div>
+        </div>
+      );
+    }
+
+    const style = GUIDANCE_STYLES[guidanceIndex % GUIDANCE_STYLES.length];
+    return (
+      <div>
+        <RichTextEditor
+          id={field.key}
+          label={field.label}
+          value={value}
+          onChange={(text) => updateField(field.key, text)}
+          placeholder={field.placeholder}
+          required={field.required}
+          minHeight={field.minHeight}
+          onAIEnhance={(currentValue) => handleAIEnhance(
+            field.key,
+            currentValue,
+            (text) => updateField(field.key, text),
+            field.aiContext,
+            field.guidingQuestions || []
+          )}
+          isEnhancing={enhancingField === field.key}
+          aiEnhanceDisabled={!value.trim()}
+        />
+        {field.guidingQuestions && field.guidingQuestions.length > 0 && (
+          <div className={`mt-2 p-3 border rounded-md ${style.box}`}>
+            <p className={`text-xs font-medium mb-1.5 ${style.title}`}>💡 {t('form.guidingQuestions')}</p>
+            <ul className={`text-xs space-y-1 list-disc list-inside ${style.list}`}>
+              {field.guidingQuestions.map(question => (
+                <li key={question}>{question}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderAttachmentsField = (field: AttachmentsTemplateField) => (
+    <div className="space-y-4">
+      {/* Drop zone for evidence files */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={() => setIsDraggingFiles(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDraggingFiles(false);
+          uploadAttachments(field.key, Array.from(e.dataTransfer.files));
+        }}
+        className={`p-6 border-2 border-dashed rounded-lg text-center transition-colors ${
+          isDraggingFiles ? 'border-blue-500 bg-blue-50' : 'border-gray-300'
+        }`}
+      >
+        <p className="text-sm text-gray-600">
+          {t('form.dropFiles')}{' '}
+          <label htmlFor={`${field.key}-upload`} className="text-blue-600 hover:underline cursor-pointer">{t('form.browse')}</label>
+        </p>
+        <p className="mt-1 text-xs text-gray-500">
+          {t('form.fileLimits', { types: Object.keys(ATTACHMENT_TYPES).join(', '), size: formatFileSize(MAX_ATTACHMENT_BYTES) })}{' '}
+          {t('form.imagesIncluded')}
+        </p>
+        <input
+          id={`${field.key}-upload`}
+          type="file"
+          multiple
+          accept={Object.keys(ATTACHMENT_TYPES).map(extension => `.${extension}`).join(',')}
+          onChange={(e) => {
+            uploadAttachments(field.key, Array.from(e.target.files || []));
+            e.target.value = '';
+          }}
+          className="hidden"
+        />
+        {uploadingFiles > 0 && (
+          <p className="mt-2 text-sm text-blue-600">
+            {uploadingFiles > 1 ? t('form.uploadingMany', { count: uploadingFiles }) : t('form.uploadingOne')}
+          </p>
+        )}
+        {uploadErrors.map(uploadError => (
+          <p key={uploadError} className="mt-2 text-sm text-red-600">{uploadError}</p>
+        ))}
+      </div>
+
+      {getAttachmentsValue(report, field.key).map((attachment, index) => (
+        <div key={attachment.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50">
+          <div className="flex justify-between items-start mb-3">
+            <span className="text-sm font-medium text-gray-600">{t('form.attachmentNumber', { number: index + 1 })}</span>
+            <button
+              type="button"
+              onClick={() => removeAttachment(field.key, attachment.id)}
+              className="text-red-500 hover:text-red-700 text-sm flex items-center"
+            >
+              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+              {t('form.remove')}
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {attachment.file && (
+              <div className="flex items-center gap-3 p-2 bg-white border border-gray-200 rounded-md">
+                {getImageType(attachment.file) ? (
+                  <Image
+                    src={getAttachmentFileUrl(attachment.file.id, draftId)}
+                    alt={attachment.file.name}
+                    width={64}
+                    height={64}
+                    unoptimized
+                    className="w-16 h-16 object-cover rounded border border-gray-200"
+                  />
+                ) : (
+                  <div className="w-16 h-16 flex items-center justify-center rounded border border-gray-200 bg-gray-100 text-xs font-semibold text-gray-500 uppercase">
+                    {attachment.file.name.split('.').pop()}
+                  </div>
+                )}
+                <div className="min-w-0 text-sm">
+                  <a
+                    href={getAttachmentFileUrl(attachment.file.id, draftId)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-blue-600 hover:underline break-all"
+                  >
+                    {attachment.file.name}
+                  </a>
+                  <p className="text-xs text-gray-500">{formatFileSize(attachment.file.size)}</p>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t(attachment.file ? 'form.attachmentName' : 'form.attachmentNameOrLink')}
+              </label>
+              <input
+                type="text"
+                value={attachment.nameOrLink}
+                onChange={(e) => updateAttachment(field.key, attachment.id, 'nameOrLink', e.target.value)}
+                placeholder={t('form.attachmentNamePlaceholder')}
+                className={inputClassName}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('form.description')}
+              </label>
+              <RichTextArea
+                id={`attachment-desc-${attachment.id}`}
+                value={attachment.description}
+                onChange={(text) => updateAttachment(field.key, attachment.id, 'description', text)}
+                placeholder={t('form.attachmentDescriptionPlaceholder')}
+                rows={2}
+                onAIEnhance={(currentValue) => handleAIEnhance(
+                  `attachment_${attachment.id}`,
+                  currentValue,
+                  (text) => updateAttachment(field.key, attachment.id, 'description', text),
+                  'attachment_description',
+                  field.guidingQuestions || []
+                )}
+                isEnhancing={enhancingField === `attachment_${attachment.id}`}
+                aiEnhanceDisabled={!attachment.description.trim()}
+              />
+              <p className="mt-1 text-xs text-gray-500 italic">
+                {t('form.attachmentTip')}
+              </p>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => addAttachment(field.key)}
+        className="w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-500 hover:text-blue-600 transition-colors flex items-center justify-center"
+      >
+        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+        </svg>
+        {t('form.addLink')}
+      </button>
+    </div>
+  );
+
+  // A subject's earlier reports, for progressive discipline
+  const renderPriorIncidents = (employee: EmployeeDetails) => {
+    const employeeId = String(employee.employee_id);
+    const history = employeeHistories[employeeId];
+    if (!history) return null;
+    if (history.loading) return <p className="text-sm text-gray-500">{t('form.checkingPriorIncidents')}</p>;
+    if (history.error) return <p className="text-sm text-red-600">{history.error}</p>;
+    if (history.incidents.length === 0) return <p className="text-sm text-gray-500">{t('form.noPriorIncidents')}</p>;
+
+    const isIncluded = report.priorIncidents.some(incident => incident.employeeId === employeeId);
+    return (
+      <div className="p-3 bg-amber-50 border border-amber-200 rounded-md space-y-2">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <p className="text-sm font-medium text-amber-800">
+            {t('form.priorIncidents', { count: history.incidents.length })}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isIncluded}
+              onChange={(e) => togglePriorIncidents(employeeId, e.target.checked)}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            {t('form.includePriorIncidents')}
+          </label>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs text-gray-700">
+            <thead className="text-gray-500 text-left">
+              <tr>
+                <th className="py-1 pr-3 font-medium">{t('document.incidentDate')}</th>
+                <th className="py-1 pr-3 font-medium">{t('document.incident')}</th>
+                <th className="py-1 font-medium">{t('document.policyConcern')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-amber-100 align-top">
+              {history.incidents.map(incident => (
+                <tr key={incident.reportId}>
+                  <td className="py-1 pr-3 whitespace-nowrap">{formatDate(incident.incidentDateTime, incident.timeZone, uiLocale)}</td>
+                  <td className="py-1 pr-3">{[incident.reportType, incident.incidentWhat].filter(Boolean).join(': ')}</td>
+                  <td className="py-1">{incident.policyConcern || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  const renderEmployeeListField = (field: EmployeeListTemplateField) => {
+    const involvedEmployees = getInvolvedEmployeesValue(report, field.key);
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {field.label} {field.required && requiredMark}
+          </label>
+          <p className="text-sm text-gray-500">
+            {t('form.employeesHint')}
+          </p>
+        </div>
+
+        {involvedEmployees.length === 0 && (
+          <p className="text-sm text-gray-500 italic">{t('form.noEmployees')}</p>
+        )}
+
+        {involvedEmployees.map((involved, index) => {
+          const lookupKey = `involved_${involved.id}`;
+          const lookup = () => lookupInvolvedEmployee(field.key, involved);
+          return (
+            <div key={involved.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+              <div className="flex justify-between items-start">
+                <span className="text-sm font-medium text-gray-600">{t('form.employeeEntry', { number: index + 1 })}</span>
+                <button
+                  type="button"
+                  onClick={() => removeInvolvedEmployee(field.key, involved.id)}
+                  className="text-red-500 hover:text-red-700 text-sm"
+                >
+                  {t('form.remove')}
+                </button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label htmlFor={`${lookupKey}_role`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('form.role')}
+                  </label>
+                  <select
+                    id={`${lookupKey}_role`}
+                    value={involved.role}
+                    onChange={(e) => updateInvolvedEmployee(field.key, involved.id, { role: e.target.value as InvolvedEmployee['role'] })}
+                    className={inputClassName}
+                  >
+                    {(field.roles || INVOLVEMENT_ROLES).map(role => (
+                      <option key={role} value={role}>{t(`role.${role}`)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="md:col-span-2">
+                  <label htmlFor={lookupKey} className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('form.employee')}
+                  </label>
+                  <div className="flex gap-2">
+                    <EmployeeCombobox
+                      id={lookupKey}
+                      value={involved.employeeId}
+                      onChange={(value) => updateInvolvedEmployee(field.key, involved.id, { employeeId: value })}
+                      onSelect={(details) => {
+                        updateInvolvedEmployee(field.key, involved.id, { employeeId: String(details.employee_id), details });
+                        clearEmployeeLookup(lookupKey);
+                      }}
+                      onLookup={lookup}
+                      purpose="subject"
+                      t={t}
+                      placeholder={t('form.searchEmployee')}
+                    />
+                    {renderLookupButton(lookupKey, lookup)}
+                  </div>
+                  {employeeLookups[lookupKey]?.error && (
+                    <p className="mt-1 text-sm text-red-600">{employeeLookups[lookupKey].error}</p>
+                  )}
+                </div>
+              </div>
+              {involved.details && (
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium text-gray-900">{formatFullName(involved.details)}</span>
+                  {' '}&middot; {involved.details.position || 'N/A'} &middot; {involved.details.company || 'N/A'}
+                </p>
+              )}
+              {involved.details && involved.role === 'subject' && renderPriorIncidents(involved.details)}
+            </div>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={() => addInvolvedEmployee(field)}
+          className="w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-500 hover:text-blue-600 transition-colors flex items-center justify-center"
+        >
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+          {t('form.addEmployee')}
+        </button>
+        {renderFieldError(field.key)}
+      </div>
+    );
+  };
+
+  const renderWitnessStatementsField = (field: WitnessStatementsTemplateField, guidanceIndex: number) => {
+    const style = GUIDANCE_STYLES[guidanceIndex % GUIDANCE_STYLES.length];
+    const addButtonClassName = 'flex-1 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-500 hover:text-blue-600 transition-colors flex items-center justify-center';
+    return (
+      <div className="space-y-4">
+        {field.description && <p className="text-sm text-gray-500">{field.description}</p>}
+
+        {getWitnessStatementsValue(report, field.key).map((witness, index) => {
+          const lookupKey = `witness_${witness.id}`;
+          const lookup = () => lookupWitness(field.key, witness);
+          return (
+            <div key={witness.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+              <div className="flex justify-between items-start">
+                <span className="text-sm font-medium text-gray-600">
+                  {t('form.witnessEntry', { number: index + 1 })} {witness.source === 'external' && t('form.external')}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removeWitness(field.key, witness.id)}
+                  className="text-red-500 hover:text-red-700 text-sm"
+                >
+                  {t('form.remove')}
+                </button>
+              </div>
+
+              {witness.source === 'employee' ? (
+                <div>
+                  <label htmlFor={lookupKey} className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('form.employeeId')}
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      id={lookupKey}
+                      value={witness.employeeId}
+                      onChange={(e) => updateWitness(field.key, witness.id, { employeeId: e.target.value })}
+                      onBlur={lookup}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          lookup();
+                        }
+                      }}
+                      placeholder={t('form.enterEmployeeId')}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                    />
+                    {renderLookupButton(lookupKey, lookup)}
+                  </div>
+                  {employeeLookups[lookupKey]?.error && (
+                    <p className="mt-1 text-sm text-red-600">{employeeLookups[lookupKey].error}</p>
+                  )}
+                  {witness.details && (
+                    <p className="mt-1 text-sm text-gray-700">{formatWitness(witness, t)}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label htmlFor={`${lookupKey}_name`} className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('form.witnessName')}
+                    </label>
+                    <input
+                      type="text"
+                      id={`${lookupKey}_name`}
+                      value={witness.name}
+                      onChange={(e) => updateWitness(field.key, witness.id, { name: e.target.value })}
+                      placeholder={t('form.fullName')}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor={`${lookupKey}_affiliation`} className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('form.affiliation')}
+                    </label>
+                    <input
+                      type="text"
+                      id={`${lookupKey}_affiliation`}
+                      value={witness.affiliation}
+                      onChange={(e) => updateWitness(field.key, witness.id, { affiliation: e.target.value })}
+                      placeholder={t('form.affiliationPlaceholder')}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor={`${lookupKey}_date`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('form.dateStatementTaken')}
+                </label>
+                <input
+                  type="date"
+                  id={`${lookupKey}_date`}
+                  value={witness.dateTaken}
+                  onChange={(e) => updateWitness(field.key, witness.id, { dateTaken: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+
+              <RichTextEditor
+                id={`${lookupKey}_statement`}
+                label={t('form.statement')}
+                value={witness.statement}
+                onChange={(text) => updateWitness(field.key, witness.id, { statement: text })}
+                placeholder={t('form.statementPlaceholder')}
+                minHeight={150}
+                onAIEnhance={(currentValue) => handleAIEnhance(
+                  lookupKey,
+                  currentValue,
+                  (text) => updateWitness(field.key, witness.id, { statement: text }),
+                  `${field.aiContext} - ${formatWitness(witness) || 'Witness'}`,
+                  field.guidingQuestions || []
+                )}
+                isEnhancing={enhancingField === lookupKey}
+                aiEnhanceDisabled={!witness.statement.trim()}
+              />
+            </div>
+          );
+        })}
+
+        {field.guidingQuestions && field.guidingQuestions.length > 0 && getWitnessStatementsValue(report, field.key).length > 0 && (
+          <div className={`p-3 border rounded-md ${style.box}`}>
+            <p className={`text-xs font-medium mb-1.5 ${style.title}`}>💡 {t('form.guidingQuestionsEach')}</p>
+            <ul className={`text-xs space-y-1 list-disc list-inside ${style.list}`}>
+              {field.guidingQuestions.map(question => (
+                <li key={question}>{question}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button type="button" onClick={() => addWitness(field.key, 'employee')} className={addButtonClassName}>
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            {t('form.addEmployeeWitness')}
+          </button>
+          <button type="button" onClick={() => addWitness(field.key, 'external')} className={addButtonClassName}>
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            {t('form.addExternalWitness')}
+          </button>
+        </div>
+        {renderFieldError(field.key)}
+      </div>
+    );
+  };
+
+  const renderTimelineField = (field: TimelineTemplateField) => {
+    const events = getTimelineValue(report, field.key);
+    const attachments = report.attachments;
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-between items-start gap-3">
+          <p className="text-sm text-gray-500">{field.description}</p>
+          {events.length > 1 && (
+            <button
+              type="button"
+              onClick={() => sortTimelineEvents(field.key)}
+              className="flex-shrink-0 px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100"
+            >
+              {t('form.sortByTime')}
+            </button>
+          )}
+        </div>
+
+        {events.map((event, index) => {
+          const lookupKey = `timeline_${event.id}`;
+          const lookup = () => lookupTimelineActor(field.key, event);
+          return (
+            <div key={event.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+              <div className="flex justify-between items-start">
+                <span className="text-sm font-medium text-gray-600">{t('form.eventEntry', { number: index + 1 })}</span>
+                <button
+                  type="button"
+                  onClick={() => removeTimelineEvent(field.key, event.id)}
+                  className="text-red-500 hover:text-red-700 text-sm"
+                >
+                  {t('form.remove')}
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor={`${lookupKey}_at`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('form.dateAndTime')}
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id={`${lookupKey}_at`}
+                    value={event.at}
+                    max={report.datePrepared ? `${report.datePrepared}T23:59` : undefined}
+                    onChange={(e) => updateTimelineEvent(field.key, event.id, { at: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label htmlFor={lookupKey} className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('form.actorId')}
+                  </label>
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      id={lookupKey}
+                      value={event.actorId}
+                      onChange={(e) => updateTimelineEvent(field.key, event.id, { actorId: e.target.value })}
+                      onBlur={lookup}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          lookup();
+                        }
+                      }}
+                      placeholder={t('form.enterEmployeeId')}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                    />
+                    {renderLookupButton(lookupKey, lookup)}
+                  </div>
+                  {employeeLookups[lookupKey]?.error && (
+                    <p className="mt-1 text-sm text-red-600">{employeeLookups[lookupKey].error}</p>
+                  )}
+                  {event.actorDetails && (
+                    <p className="mt-1 text-sm text-gray-700">{formatTimelineActor(event, t)}</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor={`${lookupKey}_description`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('form.whatHappened')}
+                </label>
+                <textarea
+                  id={`${lookupKey}_description`}
+                  value={event.description}
+                  onChange={(e) => updateTimelineEvent(field.key, event.id, { description: e.target.value })}
+                  rows={2}
+                  placeholder={t('form.whatHappenedPlaceholder')}
+                  className={inputClassName}
+                />
+              </div>
+
+              {attachments.length > 0 && (
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-1">{t('form.evidence')}</legend>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {attachments.map((attachment, attachmentIndex) => (
+                      <label key={attachment.id} className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={event.attachmentIds.includes(attachment.id)}
+                          onChange={() => toggleTimelineAttachment(field.key, event, attachment.id)}
+                          className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        #{attachmentIndex + 1} {attachment.nameOrLink || attachment.file?.name || t('form.untitledAttachment')}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              )}
+            </div>
+          );
+        })}
+
+        <button
+          type="button"
+          onClick={() => addTimelineEvent(field.key)}
+          className="w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-500 hover:text-blue-600 transition-colors flex items-center justify-center"
+        >
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+          </svg>
+          {t('form.addEvent')}
+        </button>
+        {renderFieldError(field.key)}
+      </div>
+    );
+  };
+
+  const renderField = (field: TemplateField, guidanceIndex: number) => {
+    switch (field.type) {
+      case 'employee':
+        return renderEmployeeField(field);
+      case 'employeeList':
+        return renderEmployeeListField(field);
+      case 'checkboxGroup':
+        return renderCheckboxGroupField(field);
+      case 'richText':
+        return (
+          <>
+            {renderRichTextField(field, guidanceIndex)}
+            {renderTranslationField(field)}
+          </>
+        );
+      case 'attachments':
+        return renderAttachmentsField(field);
+      case 'witnessStatements':
+        return renderWitnessStatementsField(field, guidanceIndex);
+      case 'timeline':
+        return renderTimelineField(field);
+      default:
+        return (
+          <div>
+            <label htmlFor={field.key} className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label} {field.required && requiredMark}
+            </label>
+            <input
+              type={field.type === 'datetime' ? 'datetime-local' : field.type}
+              id={field.key}
+              value={getTextValue(report, field.key)}
+              onChange={(e) => updateField(field.key, e.target.value)}
+              placeholder={field.type === 'text' ? field.placeholder : undefined}
+              className={inputClassName}
+              required={field.required}
+            />
+            {renderFieldError(field.key)}
+          </div>
+        );
+    }
+  };
+
+  const GROUP_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  const renderGroup = (group: TemplateFieldGroup, index: number) => {
+    const richTextFields = group.fields.filter((field): field is RichTextTemplateField => field.type === 'richText');
+    const fields = (
+      <div className={richTextFields.length > 0 ? 'space-y-6' : 'space-y-4'}>
+        {group.fields.map(field => (
+          <div key={field.key}>
+            {renderField(field, field.type === 'richText' ? richTextFields.indexOf(field) : 0)}
+          </div>
+        ))}
+      </div>
+    );
+    if (!group.title) return <div key={index} className="mb-8 last:mb-0">{fields}</div>;
+
+    return (
+      <div key={index} className="mb-8 last:mb-0">
+        <h3 className={`text-md font-medium text-gray-700 flex items-center ${group.description ? 'mb-2' : 'mb-4'}`}>
+          <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">{GROUP_LETTERS[index]}</span>
+          {group.title}
+          {!group.fields.some(field => field.required) && (
+            <span className="text-gray-400 text-xs ml-2">{t('form.optional')}</span>
+          )}
+          {(richTextFields.length > 0 || group.fields.some(field => field.type === 'witnessStatements')) && (
+            <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded-full flex items-center">
+              <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                <path d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" />
+              </svg>
+              {t('form.aiPowered')}
+            </span>
+          )}
+        </h3>
+        {group.description && (
+          <p className="text-xs text-gray-500 mb-4 ml-7">{group.description}</p>
+        )}
+        {fields}
+      </div>
+    );
+  };
+
+  // Sections 2..n come from the template; the signatories always follow them
+  const signatoriesNumber = template.sections.length + 2;
+
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="flex items-center space-x-2">
           <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-          <span className="text-gray-600">Loading...</span>
+          <span className="text-gray-600">{t('form.loading')}</span>
         </div>
       </div>
     );
   }
 
+  const reporter = reportOwner || user;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Document Header - Full Width */}
@@ -400,15 +1853,12 @@ export default function FormPage() {
         {/* Top Bar with Confidential Notice */}
         <div className="bg-gradient-to-r from-red-600 to-red-700 px-6 py-2">
           <div className="max-w-7xl mx-auto flex justify-between items-center">
-            <p className="text-white text-sm font-bold tracking-wide">PRIVATE & CONFIDENTIAL</p>
+            <p className="text-white text-sm font-bold tracking-wide">{t('form.confidential')}</p>
             <button
-              onClick={() => {
-                sessionStorage.clear();
-                router.push('/login');
-              }}
+              onClick={handleLogout}
               className="text-xs text-red-200 hover:text-white underline"
             >
-              Logout
+              {t('form.logout')}
             </button>
           </div>
         </div>
@@ -418,16 +1868,12 @@ export default function FormPage() {
           <div className="flex justify-between items-start">
             {/* Left Side - Department & Title */}
             <div>
-              <p className="text-sm font-semibold text-blue-600 mb-1">People and Culture Department</p>
-              <h1 className="text-2xl font-bold text-gray-900">Incident Report</h1>
+              <p className="text-sm font-semibold text-blue-600 mb-1">{t('form.department')}</p>
+              <h1 className="text-2xl font-bold text-gray-900">{template.title}</h1>
               <p className="text-sm text-gray-700 mt-1">
-                <span className="font-medium">Date Prepared:</span>{' '}
+                <span className="font-medium">{t('form.datePrepared')}:</span>{' '}
                 <span className="text-gray-900">
-                  {new Date(datePrepared).toLocaleDateString('en-US', { 
-                    year: 'numeric', 
-                    month: 'long', 
-                    day: 'numeric' 
-                  })}
+                  {formatDate(datePrepared, timeZone, uiLocale)}
                 </span>
               </p>
             </div>
@@ -440,8 +1886,51 @@ export default function FormPage() {
                 <p className="text-xs text-gray-500 italic">It&apos;s better together!</p>
               </div>
               <div className="text-sm text-gray-600">
-                <p>Logged in as: <span className="font-medium text-gray-800">{formatFullName(user)}</span></p>
-                <p className="text-xs text-gray-500">{user.email}</p>
+                <p>{t('form.loggedInAs')} <span className="font-medium text-gray-800">{formatFullName(user)}</span></p>
+                <p className="text-xs text-gray-500">{user.employee_email}</p>
+                {user.roles && user.roles.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {user.roles.map(role => ROLE_LABELS[role]).join(' · ')}
+                  </p>
+                )}
+                {hasAnyRole(user, 'supervisor') && (
+                  <Link href="/review" className="text-xs text-blue-600 hover:text-blue-800 underline">
+                    {t('form.reportsToAttest')}
+                  </Link>
+                )}
+                {hasAnyRole(user, 'pc_reviewer', 'admin') && (
+                  <>
+                    <Link href="/reports" className="block text-xs text-blue-600 hover:text-blue-800 underline">
+                      {t('form.allReports')}
+                    </Link>
+                    <Link href="/templates" className="block text-xs text-blue-600 hover:text-blue-800 underline">
+                      {t('form.reportTemplates')}
+                    </Link>
+                  </>
+                )}
+                <p className="text-xs mt-1">
+                  {draftSaveStatus === 'saving' && <span className="text-gray-500">{t('form.savingDraft')}</span>}
+                  {draftSaveStatus === 'saved' && draftSavedAt && (
+                    <span className="text-green-600">
+                      {t('form.draftSavedAt', {
+                        time: new Date(draftSavedAt).toLocaleTimeString(getLocaleTag(uiLocale), { hour: 'numeric', minute: '2-digit' }),
+                      })}
+                    </span>
+                  )}
+                  {draftSaveStatus === 'error' && <span className="text-red-600">{t('form.draftNotSaved')}</span>}
+                </p>
+                <label className="inline-flex items-center gap-1 text-xs text-gray-500 mt-1">
+                  {t('form.language')}
+                  <select
+                    value={uiLocale}
+                    onChange={(e) => selectUiLocale(e.target.value)}
+                    className="px-1 py-0.5 border border-gray-300 rounded text-gray-800 bg-white"
+                  >
+                    {LOCALES.map(option => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
               </div>
             </div>
           </div>
@@ -463,7 +1952,7 @@ export default function FormPage() {
               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
               </svg>
-              Back to Form
+              {t('form.backToForm')}
             </>
           ) : (
             <>
@@ -471,7 +1960,7 @@ export default function FormPage() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
               </svg>
-              Preview Document
+              {t('form.previewDocument')}
             </>
           )}
         </button>
@@ -484,477 +1973,200 @@ export default function FormPage() {
           <div className={`flex-1 min-w-0 ${showPreview ? 'hidden lg:block' : 'block'}`}>
             <div className="space-y-6">
 
+        {/* Workflow Status */}
+        {reportStatus !== 'draft' && (
+          <div className={`rounded-lg p-4 mb-6 border ${
+            reportStatus === 'returned'
+              ? 'bg-amber-50 border-amber-200 text-amber-800'
+              : reportStatus === 'approved'
+              ? 'bg-green-50 border-green-200 text-green-800'
+              : reportStatus === 'rejected'
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-blue-50 border-blue-200 text-blue-800'
+          }`}>
+            <p className="text-sm font-semibold">{t('form.status', { status: t(`status.${reportStatus}`) })}</p>
+            {reportStatus === 'pending_attestation' && (
+              <p className="text-sm mt-1">
+                {t('form.lockedForReview', { attester: attestedByDetails?.employee_name || t('form.theAttester') })}
+              </p>
+            )}
+            {lastReturn && (
+              <p className="text-sm mt-1">
+                {t('form.returnedBy', { name: lastReturn.actorName })} <span className="italic">{lastReturn.comment}</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Saved Drafts */}
+        {drafts.filter(draft => draft.id !== draftId).length > 0 && (
+          <div className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
+              {t('form.myReports')}
+            </h2>
+            <ul className="divide-y divide-gray-100">
+              {drafts.filter(draft => draft.id !== draftId).map(draft => (
+                <li key={draft.id} className="py-2 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {draft.incidentWhat || t('form.untitledIncident')}
+                      {draft.employeeName && <span className="text-gray-500 font-normal"> — {draft.employeeName}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {t(`status.${draft.status}`)} · {t('form.lastEdited', {
+                        time: new Date(draft.updatedAt).toLocaleString(getLocaleTag(uiLocale), {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit',
+                        }),
+                      })}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => handleResumeDraft(draft.id)}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                    >
+                      {t('form.resume')}
+                    </button>
+                    {draft.status === 'draft' && (
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteDraft(draft.id)}
+                        className="px-3 py-1 text-sm text-red-600 hover:text-red-800"
+                      >
+                        {t('form.delete')}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Submitted reports are read-only until the attester returns them */}
+        <fieldset disabled={!isEditable} className="min-w-0">
+
         {/* Section 1: General Information */}
         <div className="bg-white shadow rounded-lg p-6 mb-6">
           <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
-            Section 1: General Information
+            {t('form.section', { number: 1, title: t('form.generalInformation') })}
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="templateId" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('form.reportType')} <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="templateId"
+                value={template.id}
+                onChange={(e) => selectTemplate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+              >
+                {getLatestTemplates(templates).map(option => (
+                  <option key={option.id} value={option.id}>{translateTemplateText(uiLocale, option.name)}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{template.description}</p>
+            </div>
             <div>
               <label htmlFor="datePrepared" className="block text-sm font-medium text-gray-700 mb-1">
-                Date Prepared <span className="text-red-500">*</span>
+                {t('form.datePrepared')} <span className="text-red-500">*</span>
               </label>
               <input
                 type="date"
                 id="datePrepared"
                 value={datePrepared}
-                onChange={(e) => setDatePrepared(e.target.value)}
+                onChange={(e) => updateField('datePrepared', e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
                 required
               />
+              {fieldError('datePrepared') && (
+                <p className="mt-1 text-sm text-red-600">{fieldError('datePrepared')}</p>
+              )}
             </div>
-          </div>
-        </div>
-
-        {/* Section 2: Employee Details (Subject) */}
-        <div className="bg-white shadow rounded-lg p-6 mb-6">
-          <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
-            Section 2: Employee Details (Subject)
-          </h2>
-          
-          <div className="space-y-4">
-            {/* Employee ID Input with Fetch Button */}
             <div>
-              <label htmlFor="employeeId" className="block text-sm font-medium text-gray-700 mb-1">
-                Employee ID <span className="text-red-500">*</span>
+              <label htmlFor="timeZone" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('form.siteTimeZone')} <span className="text-red-500">*</span>
               </label>
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  id="employeeId"
-                  value={employeeId}
-                  onChange={(e) => setEmployeeId(e.target.value)}
-                  onBlur={handleEmployeeLookup}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter') {
-                      e.preventDefault();
-                      handleEmployeeLookup();
-                    }
-                  }}
-                  placeholder="Enter Employee ID"
-                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
-                  required
-                />
-                <button
-                  type="button"
-                  onClick={handleEmployeeLookup}
-                  disabled={employeeLookupLoading}
-                  className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors ${
-                    employeeLookupLoading ? 'opacity-50 cursor-not-allowed' : ''
-                  }`}
-                >
-                  {employeeLookupLoading ? (
-                    <span className="flex items-center">
-                      <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      Fetching...
-                    </span>
-                  ) : (
-                    'Fetch'
-                  )}
-                </button>
-              </div>
-              {employeeLookupError && (
-                <p className="mt-1 text-sm text-red-600">{employeeLookupError}</p>
-              )}
-            </div>
-
-            {/* Employee Details (Read-only) */}
-            {employeeDetails && (
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-50 rounded-md border border-gray-200">
-                <div>
-                  <label className="block text-sm font-medium text-gray-500 mb-1">
-                    Employee Name
-                  </label>
-                  <p className="text-gray-900 font-medium">
-                    {formatFullName(employeeDetails)}
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-500 mb-1">
-                    Employee Number
-                  </label>
-                  <p className="text-gray-900">
-                    {employeeDetails.employee_id}
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-500 mb-1">
-                    Position/Role
-                  </label>
-                  <p className="text-gray-900">
-                    {employeeDetails.position || 'N/A'}
-                  </p>
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-500 mb-1">
-                    Department/Company
-                  </label>
-                  <p className="text-gray-900">
-                    {employeeDetails.company || 'N/A'}
-                  </p>
-                </div>
-              </div>
-            )}
-          </div>
-        </div>
-
-        {/* Section 3: Description of Incidents */}
-        <div className="bg-white shadow rounded-lg p-6 mb-6">
-          <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
-            Section 3: Description of Incidents
-          </h2>
-          
-          {/* A. Core Details */}
-          <div className="mb-8">
-            <h3 className="text-md font-medium text-gray-700 mb-4 flex items-center">
-              <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">A</span>
-              Core Details
-            </h3>
-            
-            <div className="space-y-4">
-              {/* What */}
-              <div>
-                <label htmlFor="incidentWhat" className="block text-sm font-medium text-gray-700 mb-1">
-                  What (Brief Summary) <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  id="incidentWhat"
-                  value={incidentWhat}
-                  onChange={(e) => setIncidentWhat(e.target.value)}
-                  placeholder="Brief description of the incident"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
-                  required
-                />
-              </div>
-
-              {/* Location */}
-              <div>
-                <label htmlFor="incidentLocation" className="block text-sm font-medium text-gray-700 mb-1">
-                  Location <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  id="incidentLocation"
-                  value={incidentLocation}
-                  onChange={(e) => setIncidentLocation(e.target.value)}
-                  placeholder="Where did the incident occur?"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
-                  required
-                />
-              </div>
-
-              {/* Date and Time */}
-              <div>
-                <label htmlFor="incidentDateTime" className="block text-sm font-medium text-gray-700 mb-1">
-                  Date and Time of Incident <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="datetime-local"
-                  id="incidentDateTime"
-                  value={incidentDateTime}
-                  onChange={(e) => setIncidentDateTime(e.target.value)}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
-                  required
-                />
-              </div>
+              <select
+                id="timeZone"
+                value={timeZone}
+                onChange={(e) => selectTimeZone(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+              >
+                {/* A zone saved from elsewhere that we don't list stays selectable */}
+                {!TIME_ZONES.some(zone => zone.id === timeZone) && (
+                  <option value={timeZone}>{timeZone}</option>
+                )}
+                {TIME_ZONES.map(zone => (
+                  <option key={zone.id} value={zone.id}>{zone.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{t('form.siteTimeZoneHint')}</p>
             </div>
-          </div>
-
-          {/* B. Narrative Fields (AI Powered) */}
-          <div className="mb-8">
-            <h3 className="text-md font-medium text-gray-700 mb-4 flex items-center">
-              <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">B</span>
-              Narrative Fields
-              <span className="ml-2 text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded-full flex items-center">
-                <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                  <path d="M11.3 1.046A1 1 0 0112 2v5h4a1 1 0 01.82 1.573l-7 10A1 1 0 018 18v-5H4a1 1 0 01-.82-1.573l7-10a1 1 0 011.12-.38z" />
-                </svg>
-                AI Powered
-              </span>
-            </h3>
-            
-            <div className="space-y-6">
-              {/* Incident Details */}
-              <div>
-                <RichTextEditor
-                  id="incidentDetails"
-                  label="Incident Details"
-                  value={incidentDetails}
-                  onChange={setIncidentDetails}
-                  placeholder="Describe what happened..."
-                  required
-                  minHeight={200}
-                  onAIEnhance={(currentValue) => handleAIEnhance('incidentDetails', currentValue, setIncidentDetails, 'incident_details')}
-                  isEnhancing={enhancingField === 'incidentDetails'}
-                  aiEnhanceDisabled={!incidentDetails.trim()}
-                />
-                <div className="mt-2 p-3 bg-blue-50 border border-blue-100 rounded-md">
-                  <p className="text-xs font-medium text-blue-800 mb-1.5">💡 Guiding Questions:</p>
-                  <ul className="text-xs text-blue-700 space-y-1 list-disc list-inside">
-                    <li>What exactly happened? Describe the incident in your own words.</li>
-                    <li>Who was involved? (Include full names)</li>
-                    <li>When and where did this occur?</li>
-                    <li>How was this discovered or reported?</li>
-                    <li>What evidence do you have? (e.g., Teramind logs, emails, chat messages)</li>
-                  </ul>
-                </div>
-              </div>
-
-              {/* Findings */}
-              <div>
-                <RichTextEditor
-                  id="findings"
-                  label="Findings (Optional)"
-                  value={findings}
-                  onChange={setFindings}
-                  placeholder="Document your investigation findings..."
-                  minHeight={150}
-                  onAIEnhance={(currentValue) => handleAIEnhance('findings', currentValue, setFindings, 'findings')}
-                  isEnhancing={enhancingField === 'findings'}
-                  aiEnhanceDisabled={!findings.trim()}
-                />
-                <div className="mt-2 p-3 bg-amber-50 border border-amber-100 rounded-md">
-                  <p className="text-xs font-medium text-amber-800 mb-1.5">💡 Guiding Questions:</p>
-                  <ul className="text-xs text-amber-700 space-y-1 list-disc list-inside">
-                    <li>What did your investigation confirm or verify?</li>
-                    <li>What specific evidence supports your findings?</li>
-                    <li>Were there any patterns or repeated behaviors?</li>
-                    <li>Who else was involved or aware of the situation?</li>
-                  </ul>
-                </div>
-              </div>
-
-              {/* Policy/Code of Conduct Concern */}
-              <div>
-                <RichTextEditor
-                  id="policyViolation"
-                  label="Policy/Code of Conduct Concern (Optional)"
-                  value={policyViolation}
-                  onChange={setPolicyViolation}
-                  placeholder="Reference any policy violations..."
-                  minHeight={150}
-                  onAIEnhance={(currentValue) => handleAIEnhance('policyViolation', currentValue, setPolicyViolation, 'policy_violation')}
-                  isEnhancing={enhancingField === 'policyViolation'}
-                  aiEnhanceDisabled={!policyViolation.trim()}
-                />
-                <div className="mt-2 p-3 bg-red-50 border border-red-100 rounded-md">
-                  <p className="text-xs font-medium text-red-800 mb-1.5">💡 Guiding Questions:</p>
-                  <ul className="text-xs text-red-700 space-y-1 list-disc list-inside">
-                    <li>Which company policies or codes of conduct were violated?</li>
-                    <li>How did the specific actions violate these policies?</li>
-                    <li>Was there improper escalation (bypassing management/P&C)?</li>
-                    <li>Was there insubordination, gossip, or unprofessional behavior?</li>
-                    <li>Did the employee fail to exercise professional judgment?</li>
-                  </ul>
-                </div>
-              </div>
+            <div>
+              <label htmlFor="locale" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('form.documentLanguage')} <span className="text-red-500">*</span>
+              </label>
+              <select
+                id="locale"
+                value={report.locale}
+                onChange={(e) => selectDocumentLocale(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
+              >
+                {LOCALES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{t('form.documentLanguageHint')}</p>
             </div>
-          </div>
-
-          {/* C. Attachments */}
-          <div className="mb-8">
-            <h3 className="text-md font-medium text-gray-700 mb-2 flex items-center">
-              <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">C</span>
-              Attachments
-              <span className="text-gray-400 text-xs ml-2">(Optional)</span>
-            </h3>
-            <p className="text-xs text-gray-500 mb-4 ml-7">
-              Add supporting evidence such as: screenshots, Teramind logs, email copies, chat transcripts, or recordings.
-            </p>
-            
-            <div className="space-y-4">
-              {attachments.map((attachment, index) => (
-                <div key={attachment.id} className="p-4 border border-gray-200 rounded-lg bg-gray-50">
-                  <div className="flex justify-between items-start mb-3">
-                    <span className="text-sm font-medium text-gray-600">Attachment {index + 1}</span>
-                    <button
-                      type="button"
-                      onClick={() => removeAttachment(attachment.id)}
-                      className="text-red-500 hover:text-red-700 text-sm flex items-center"
-                    >
-                      <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                      Remove
-                    </button>
-                  </div>
-                  
-                  <div className="space-y-3">
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Attachment Name/Link
-                      </label>
-                      <input
-                        type="text"
-                        value={attachment.nameOrLink}
-                        onChange={(e) => updateAttachment(attachment.id, 'nameOrLink', e.target.value)}
-                        placeholder="Document name or URL"
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
-                      />
-                    </div>
-                    
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        Description
-                      </label>
-                      <RichTextArea
-                        id={`attachment-desc-${attachment.id}`}
-                        value={attachment.description}
-                        onChange={(text) => updateAttachment(attachment.id, 'description', text)}
-                        placeholder="Describe what this attachment shows..."
-                        rows={2}
-                        onAIEnhance={(currentValue) => handleAIEnhance(
-                          `attachment_${attachment.id}` as EnhancingField,
-                          currentValue,
-                          (text) => updateAttachment(attachment.id, 'description', text),
-                          'attachment_description'
-                        )}
-                        isEnhancing={enhancingField === `attachment_${attachment.id}`}
-                        aiEnhanceDisabled={!attachment.description.trim()}
-                      />
-                      <p className="mt-1 text-xs text-gray-500 italic">
-                        Tip: Describe what this attachment proves (e.g., "Screenshot of Slack chat dated March 15 showing [Name] discussing...")
-                      </p>
-                    </div>
-                  </div>
-                </div>
-              ))}
-              
-              <button
-                type="button"
-                onClick={addAttachment}
-                className="w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-500 hover:text-blue-600 transition-colors flex items-center justify-center"
+            <div>
+              <label htmlFor="secondLocale" className="block text-sm font-medium text-gray-700 mb-1">
+                {t('form.secondLanguage')} <span className="text-gray-400 text-xs">{t('form.optional')}</span>
+              </label>
+              <select
+                id="secondLocale"
+                value={report.secondLocale || ''}
+                onChange={(e) => selectSecondLocale(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 bg-white"
               >
-                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-                </svg>
-                Add Attachment
-              </button>
+                <option value="">{t('form.secondLanguageNone')}</option>
+                {LOCALES.filter(option => option.id !== report.locale).map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">{t('form.secondLanguageHint')}</p>
             </div>
           </div>
+        </div>
 
-          {/* D. Impact */}
-          <div>
-            <h3 className="text-md font-medium text-gray-700 mb-4 flex items-center">
-              <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">D</span>
-              Impact
-            </h3>
-            
-            <div className="space-y-4">
-              {/* Impact Categories - Multiple Selection */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Who was impacted? <span className="text-red-500">*</span>
-                  <span className="text-gray-400 text-xs ml-2">(Select all that apply)</span>
-                </label>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                  {IMPACT_CATEGORIES.map((category) => (
-                    <label
-                      key={category}
-                      className={`flex items-center p-3 border rounded-lg cursor-pointer transition-colors ${
-                        impactCategories.includes(category)
-                          ? 'border-blue-500 bg-blue-50 text-blue-700'
-                          : 'border-gray-300 bg-white hover:border-gray-400 text-gray-700'
-                      }`}
-                    >
-                      <input
-                        type="checkbox"
-                        checked={impactCategories.includes(category)}
-                        onChange={() => toggleImpactCategory(category)}
-                        className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                      />
-                      <span className="ml-2 text-sm font-medium">{category}</span>
-                    </label>
-                  ))}
-                </div>
-                {impactCategories.length === 0 && (
-                  <p className="mt-2 text-sm text-amber-600">
-                    Please select at least one impacted party before describing the impact.
-                  </p>
-                )}
-              </div>
-
-              {/* Others - Specify (Conditional) */}
-              {impactCategories.includes('Others') && (
-                <div className="ml-4 p-3 border-l-4 border-blue-200 bg-blue-50 rounded-r">
-                  <label htmlFor="impactOthersSpecify" className="block text-sm font-medium text-gray-700 mb-1">
-                    Please specify who else was impacted <span className="text-red-500">*</span>
-                  </label>
-                  <input
-                    type="text"
-                    id="impactOthersSpecify"
-                    value={impactOthersSpecify}
-                    onChange={(e) => setImpactOthersSpecify(e.target.value)}
-                    placeholder="Specify the other impacted party..."
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
-                    required
-                  />
-                </div>
-              )}
-
-              {/* Impact Description - Disabled until categories selected */}
-              <div className={impactCategories.length === 0 ? 'opacity-50 pointer-events-none' : ''}>
-                <RichTextEditor
-                  id="impactDescription"
-                  label="How were they impacted?"
-                  value={impactDescription}
-                  onChange={setImpactDescription}
-                  placeholder={
-                    impactCategories.length === 0
-                      ? 'Please select who was impacted first...'
-                      : `Describe how ${impactCategories.join(', ')} ${impactCategories.length > 1 ? 'were' : 'was'} affected...`
-                  }
-                  required
-                  minHeight={150}
-                  onAIEnhance={(currentValue) => handleAIEnhance('impactDescription', currentValue, setImpactDescription, getImpactContext())}
-                  isEnhancing={enhancingField === 'impactDescription'}
-                  aiEnhanceDisabled={!impactDescription.trim() || impactCategories.length === 0}
-                />
-                <div className="mt-2 p-3 bg-purple-50 border border-purple-100 rounded-md">
-                  <p className="text-xs font-medium text-purple-800 mb-1.5">💡 Consider these areas of impact:</p>
-                  <ul className="text-xs text-purple-700 space-y-1 list-disc list-inside">
-                    {impactCategories.includes('Client') && (
-                      <li><strong>Client:</strong> How was trust, satisfaction, or the relationship affected?</li>
-                    )}
-                    {impactCategories.includes('GoTeam') && (
-                      <li><strong>GoTeam:</strong> How was company reputation, compliance, or operations affected?</li>
-                    )}
-                    {impactCategories.includes('Peers') && (
-                      <li><strong>Peers:</strong> How was team morale, trust, or collaboration affected?</li>
-                    )}
-                    {impactCategories.includes('Management') && (
-                      <li><strong>Management:</strong> What additional supervision or intervention was required?</li>
-                    )}
-                    {impactCategories.includes('Others') && impactOthersSpecify && (
-                      <li><strong>{impactOthersSpecify}:</strong> How were they specifically affected?</li>
-                    )}
-                    {impactCategories.length === 0 && (
-                      <li>Select who was impacted above to see relevant questions.</li>
-                    )}
-                  </ul>
-                </div>
-              </div>
-            </div>
+        {/* Sections from the report template */}
+        {template.sections.map((section, index) => (
+          <div key={section.id} className="bg-white shadow rounded-lg p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
+              {t('form.section', { number: index + 2, title: section.title })}
+            </h2>
+            {section.groups.map(renderGroup)}
           </div>
-        </div>
+        ))}
 
-        {/* Section 4 & 5: Signatories */}
+        {/* Signatories */}
         <div className="bg-white shadow rounded-lg p-6 mb-6">
           <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
-            Section 4 & 5: Signatories
+            {t('form.signatoriesSection', { first: signatoriesNumber, second: signatoriesNumber + 1 })}
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Section 4: Reported By (Current User) */}
+            {/* Reported By */}
             <div className="p-4 border border-gray-200 rounded-lg bg-gray-50">
               <h3 className="text-md font-medium text-gray-700 mb-3 flex items-center">
-                <span className="bg-green-100 text-green-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">4</span>
-                Reported By
+                <span className="bg-green-100 text-green-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">{signatoriesNumber}</span>
+                {t('form.reportedBy')}
               </h3>
               
               <div className="space-y-3">
@@ -968,88 +2180,75 @@ export default function FormPage() {
                   </div>
                   <div className="ml-3">
                     <p className="text-sm font-medium text-gray-900">
-                      {formatFullName(user)}
+                      {formatFullName(reporter)}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {user.email}
+                      {reporter.employee_email}
                     </p>
                   </div>
-                  <div className="ml-auto">
-                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-100 text-green-700 rounded-full">
-                      <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
-                        <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                      </svg>
-                      You
-                    </span>
-                  </div>
+                  {isOwnReport && (
+                    <div className="ml-auto">
+                      <span className="inline-flex items-center px-2 py-1 text-xs font-medium bg-green-100 text-green-700 rounded-full">
+                        <svg className="w-3 h-3 mr-1" fill="currentColor" viewBox="0 0 20 20">
+                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                        </svg>
+                        {t('form.you')}
+                      </span>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="grid grid-cols-2 gap-2 text-sm">
                   <div>
-                    <span className="text-gray-500">Employee No:</span>
-                    <span className="ml-1 text-gray-900">{user.employee_id || 'N/A'}</span>
+                    <span className="text-gray-500">{t('form.employeeNo')}</span>
+                    <span className="ml-1 text-gray-900">{reporter.employee_id || 'N/A'}</span>
                   </div>
                   <div>
-                    <span className="text-gray-500">Position:</span>
-                    <span className="ml-1 text-gray-900">{user.position || 'N/A'}</span>
+                    <span className="text-gray-500">{t('form.position')}</span>
+                    <span className="ml-1 text-gray-900">{reporter.position || 'N/A'}</span>
                   </div>
                 </div>
               </div>
             </div>
 
-            {/* Section 5: Attested By (Lookup) */}
+            {/* Attested By (Lookup) */}
             <div className="p-4 border border-gray-200 rounded-lg">
               <h3 className="text-md font-medium text-gray-700 mb-3 flex items-center">
-                <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">5</span>
-                Attested By
+                <span className="bg-blue-100 text-blue-800 text-sm font-semibold px-2.5 py-0.5 rounded mr-2">{signatoriesNumber + 1}</span>
+                {t('form.attestedBy')}
               </h3>
               
               <div className="space-y-3">
-                {/* Employee ID Input */}
+                {/* Employee Search */}
                 <div>
                   <label htmlFor="attestedById" className="block text-sm font-medium text-gray-700 mb-1">
-                    Employee ID <span className="text-red-500">*</span>
+                    {t('form.employee')} <span className="text-red-500">*</span>
                   </label>
                   <div className="flex gap-2">
-                    <input
-                      type="text"
+                    <EmployeeCombobox
                       id="attestedById"
                       value={attestedById}
-                      onChange={(e) => setAttestedById(e.target.value)}
-                      onBlur={handleAttestedByLookup}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') {
-                          e.preventDefault();
-                          handleAttestedByLookup();
-                        }
+                      onChange={(value) => updateField('attestedById', value)}
+                      onSelect={(details) => {
+                        updateField('attestedById', String(details.employee_id));
+                        updateField('attestedByDetails', details);
+                        clearEmployeeLookup('attestedByDetails');
                       }}
-                      placeholder="Enter Employee ID"
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                      onLookup={lookupAttester}
+                      purpose="attester"
+                      t={t}
+                      placeholder={t('form.searchSupervisor')}
                       required
                     />
-                    <button
-                      type="button"
-                      onClick={handleAttestedByLookup}
-                      disabled={attestedByLookupLoading}
-                      className={`px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition-colors ${
-                        attestedByLookupLoading ? 'opacity-50 cursor-not-allowed' : ''
-                      }`}
-                    >
-                      {attestedByLookupLoading ? (
-                        <span className="flex items-center">
-                          <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                          Fetching...
-                        </span>
-                      ) : (
-                        'Fetch'
-                      )}
-                    </button>
+                    {renderLookupButton('attestedByDetails', lookupAttester)}
                   </div>
-                  {attestedByLookupError && (
-                    <p className="mt-1 text-sm text-red-600">{attestedByLookupError}</p>
+                  {employeeLookups.attestedByDetails?.error ? (
+                    <p className="mt-1 text-sm text-red-600">{employeeLookups.attestedByDetails.error}</p>
+                  ) : (
+                    <p className="mt-1 text-xs text-gray-500">{t('form.onlySupervisors')}</p>
+                  )}
+                  {fieldError('attestedById') && (
+                    <p className="mt-1 text-sm text-red-600">{fieldError('attestedById')}</p>
                   )}
                 </div>
 
@@ -1075,11 +2274,11 @@ export default function FormPage() {
                     </div>
                     <div className="mt-2 grid grid-cols-2 gap-2 text-sm">
                       <div>
-                        <span className="text-gray-500">Employee No:</span>
+                        <span className="text-gray-500">{t('form.employeeNo')}</span>
                         <span className="ml-1 text-gray-900">{attestedByDetails.employee_id}</span>
                       </div>
                       <div>
-                        <span className="text-gray-500">Company:</span>
+                        <span className="text-gray-500">{t('form.company')}</span>
                         <span className="ml-1 text-gray-900">{attestedByDetails.company || 'N/A'}</span>
                       </div>
                     </div>
@@ -1089,7 +2288,7 @@ export default function FormPage() {
                     <svg className="w-8 h-8 mx-auto text-gray-400 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
                     </svg>
-                    <p className="text-sm text-gray-500">Enter an Employee ID to look up the attesting party</p>
+                    <p className="text-sm text-gray-500">{t('form.lookUpAttester')}</p>
                   </div>
                 )}
               </div>
@@ -1097,6 +2296,7 @@ export default function FormPage() {
           </div>
         </div>
 
+            </fieldset>
             </div>
           </div>
 
@@ -1111,9 +2311,9 @@ export default function FormPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                     </svg>
-                    Live Preview
+                    {t('form.livePreview')}
                   </h3>
-                  <span className="text-xs text-gray-400">Updates as you type</span>
+                  <span className="text-xs text-gray-400">{t('form.updatesAsYouType')}</span>
                 </div>
               </div>
 
@@ -1121,20 +2321,11 @@ export default function FormPage() {
               <div className="border border-gray-200 bg-gray-100 max-h-[calc(100vh-280px)] overflow-y-auto">
                 <div className="p-3" ref={previewRef}>
                   <DocumentPreview
-                    datePrepared={datePrepared}
-                    employeeDetails={employeeDetails}
-                    incidentWhat={incidentWhat}
-                    incidentLocation={incidentLocation}
-                    incidentDateTime={incidentDateTime}
-                    incidentDetails={incidentDetails}
-                    findings={findings}
-                    policyViolation={policyViolation}
-                    attachments={attachments}
-                    impactCategories={impactCategories}
-                    impactOthersSpecify={impactOthersSpecify}
-                    impactDescription={impactDescription}
-                    reportedBy={user}
-                    attestedBy={attestedByDetails}
+                    {...draftData}
+                    reportedBy={reporter}
+                    status={reportStatus}
+                    statusHistory={statusHistory}
+                    template={reportTemplate}
                   />
                 </div>
               </div>
@@ -1143,56 +2334,22 @@ export default function FormPage() {
               <div className="bg-white rounded-b-lg border border-t-0 border-gray-200 p-4">
                 {/* Validation Checklist */}
                 <div className="mb-4">
-                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Required Fields</p>
+                  <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">{t('form.requiredFields')}</p>
                   <div className="space-y-1 text-xs">
-                    <div className={`flex items-center ${employeeDetails ? 'text-green-600' : 'text-gray-400'}`}>
-                      {employeeDetails ? (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      ) : (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <circle cx="12" cy="12" r="10" strokeWidth="2" />
-                        </svg>
-                      )}
-                      Employee Details
-                    </div>
-                    <div className={`flex items-center ${incidentWhat && incidentLocation && incidentDateTime ? 'text-green-600' : 'text-gray-400'}`}>
-                      {incidentWhat && incidentLocation && incidentDateTime ? (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      ) : (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <circle cx="12" cy="12" r="10" strokeWidth="2" />
-                        </svg>
-                      )}
-                      Incident Details (What, Where, When)
-                    </div>
-                    <div className={`flex items-center ${incidentDetails.trim() ? 'text-green-600' : 'text-gray-400'}`}>
-                      {incidentDetails.trim() ? (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      ) : (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <circle cx="12" cy="12" r="10" strokeWidth="2" />
-                        </svg>
-                      )}
-                      Incident Narrative
-                    </div>
-                    <div className={`flex items-center ${impactCategories.length > 0 && impactDescription.trim() ? 'text-green-600' : 'text-gray-400'}`}>
-                      {impactCategories.length > 0 && impactDescription.trim() ? (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      ) : (
-                        <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <circle cx="12" cy="12" r="10" strokeWidth="2" />
-                        </svg>
-                      )}
-                      Impact Assessment
-                    </div>
+                    {checklist.map(item => (
+                      <div key={item.label} className={`flex items-center ${item.done ? 'text-green-600' : 'text-gray-400'}`}>
+                        {item.done ? (
+                          <svg className="w-3.5 h-3.5 mr-1.5" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                          </svg>
+                        ) : (
+                          <svg className="w-3.5 h-3.5 mr-1.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <circle cx="12" cy="12" r="10" strokeWidth="2" />
+                          </svg>
+                        )}
+                        {item.label}
+                      </div>
+                    ))}
                     <div className={`flex items-center ${attestedByDetails ? 'text-green-600' : 'text-gray-400'}`}>
                       {attestedByDetails ? (
                         <svg className="w-3.5 h-3.5 mr-1.5" fill="currentColor" viewBox="0 0 20 20">
@@ -1203,7 +2360,7 @@ export default function FormPage() {
                           <circle cx="12" cy="12" r="10" strokeWidth="2" />
                         </svg>
                       )}
-                      Attested By
+                      {t('form.attestedBy')}
                     </div>
                   </div>
                 </div>
@@ -1216,8 +2373,8 @@ export default function FormPage() {
                         <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                       </svg>
                       <div>
-                        <p className="text-sm font-medium text-green-800">Document Downloaded!</p>
-                        <p className="text-xs text-green-600">Check your downloads folder.</p>
+                        <p className="text-sm font-medium text-green-800">{t('form.documentDownloaded')}</p>
+                        <p className="text-xs text-green-600">{t('form.checkDownloads')}</p>
                       </div>
                     </div>
                   </div>
@@ -1235,38 +2392,77 @@ export default function FormPage() {
                   </div>
                 )}
 
-                {/* Download DOCX Button */}
-                <button
-                  type="button"
-                  onClick={handleDownloadDocx}
-                  disabled={!canSubmit || isGeneratingDoc}
-                  className={`w-full py-3 px-4 rounded-lg font-semibold text-white transition-all flex items-center justify-center ${
-                    canSubmit && !isGeneratingDoc
-                      ? 'bg-blue-600 hover:bg-blue-700 shadow-lg hover:shadow-xl'
-                      : 'bg-gray-300 cursor-not-allowed'
-                  }`}
-                >
-                  {isGeneratingDoc ? (
-                    <>
-                      <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      Generating Document...
-                    </>
-                  ) : (
-                    <>
-                      <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                      </svg>
-                      Download Word Document
-                    </>
-                  )}
-                </button>
+                {/* Submit Error */}
+                {submitError && (
+                  <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-800">{submitError}</p>
+                  </div>
+                )}
+
+                {/* Submit for Attestation Button */}
+                {isEditable && (
+                  <button
+                    type="button"
+                    onClick={handleSubmitForAttestation}
+                    disabled={!canSubmit || isSubmittingReport}
+                    className={`w-full mb-3 py-3 px-4 rounded-lg font-semibold transition-all flex items-center justify-center ${
+                      canSubmit && !isSubmittingReport
+                        ? 'bg-green-600 hover:bg-green-700 text-white shadow-lg hover:shadow-xl'
+                        : 'bg-gray-300 text-white cursor-not-allowed'
+                    }`}
+                  >
+                    {isSubmittingReport
+                      ? t('form.submitting')
+                      : t(reportStatus === 'returned' ? 'form.resubmit' : 'form.submit')}
+                  </button>
+                )}
+
+                {/* Download Format and Button */}
+                <div className="flex gap-2">
+                  <select
+                    value={downloadFormat}
+                    onChange={(e) => setDownloadFormat(e.target.value as 'docx' | 'pdf')}
+                    disabled={isGeneratingDoc}
+                    aria-label={t('form.downloadFormat')}
+                    className="px-3 py-3 border border-gray-300 rounded-lg bg-white text-gray-900 font-medium focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="docx">DOCX</option>
+                    <option value="pdf">PDF/A</option>
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleDownload}
+                    disabled={!canSubmit || isGeneratingDoc}
+                    className={`flex-1 py-3 px-4 rounded-lg font-semibold text-white transition-all flex items-center justify-center ${
+                      canSubmit && !isGeneratingDoc
+                        ? 'bg-blue-600 hover:bg-blue-700 shadow-lg hover:shadow-xl'
+                        : 'bg-gray-300 cursor-not-allowed'
+                    }`}
+                  >
+                    {isGeneratingDoc ? (
+                      <>
+                        <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        {t('form.generating')}
+                      </>
+                    ) : (
+                      <>
+                        <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                        </svg>
+                        {t(downloadFormat === 'pdf' ? 'form.downloadPdf' : 'form.downloadWord')}
+                      </>
+                    )}
+                  </button>
+                </div>
 
                 {!canSubmit && !docSuccess && (
                   <p className="text-xs text-gray-500 text-center mt-2">
-                    Complete all required fields to submit
+                    {validationIssues.some(issue => issue.kind === 'rule')
+                      ? t('form.fixErrors')
+                      : t('form.completeRequired')}
                   </p>
                 )}
               </div>
@@ -23,16 +23,7 @@ export default function LoginPage() {
       });
 
       if (response.data.success) {
-        // Save to Session Storage as per PRD
-        sessionStorage.setItem('userId', userId);
-        sessionStorage.setItem('userEmail', email);
-        
-        // Store other details if available
-        if (response.data.user) {
-            sessionStorage.setItem('userDetails', JSON.stringify(response.data.user));
-        }
-
-        // Redirect to form
+        // The login route has set the signed session cookie; nothing is kept client-side
         router.push('/form');
       }
     } catch (err: any) {
@@ -0,0 +1,400 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import type { UserDetails } from '@/lib/incident-report';
+import {
+  DEFAULT_REPORT_SEARCH,
+  parseReportSearchQuery,
+  toReportSearchParams,
+  type ReportSearchQuery,
+  type ReportSearchResult,
+  type ReportSortKey,
+} from '@/lib/report-search';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, type ReportStatus } from '@/lib/report-workflow';
+import { hasAnyRole } from '@/lib/roles';
+import { formatDateTime } from '@/lib/time-zones';
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 text-sm bg-white';
+const labelClassName = 'block text-xs font-medium text-gray-600 mb-1';
+
+const SORT_LABELS: Record<ReportSortKey, string> = {
+  updated: 'Last updated',
+  incident: 'Incident date',
+  status: 'Status',
+  subject: 'Subject',
+  reporter: 'Reporter',
+};
+
+// Wait this long after the last keystroke in the search box before searching
+const SEARCH_DELAY_MS = 300;
+
+export default function ReportsDashboardPage() {
+  const router = useRouter();
+  const [user, setUser] = useState<UserDetails | null>(null);
+  const [query, setQuery] = useState<ReportSearchQuery>(DEFAULT_REPORT_SEARCH);
+  // The search box, applied to the query once typing pauses
+  const [searchText, setSearchText] = useState('');
+  // Nothing is fetched until the query has been read from the URL
+  const [isReady, setIsReady] = useState(false);
+  const [result, setResult] = useState<ReportSearchResult | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadSession = async () => {
+      try {
+        const response = await axios.get('/api/auth/me');
+        setUser(response.data.user);
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          router.push('/login');
+          return;
+        }
+        setError('Failed to load reports. Please try again.');
+      }
+    };
+    loadSession();
+  }, [router]);
+
+  // Searches are bookmarkable: the query lives in the URL
+  useEffect(() => {
+    const initial = parseReportSearchQuery(new URLSearchParams(window.location.search));
+    setQuery(initial);
+    setSearchText(initial.text);
+    setIsReady(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isReady || !hasAnyRole(user, 'pc_reviewer', 'admin')) return;
+
+    const params = toReportSearchParams(query).toString();
+    window.history.replaceState(null, '', params ? `/reports?${params}` : '/reports');
+
+    let isCurrent = true;
+    const loadReports = async () => {
+      setIsLoading(true);
+      try {
+        const response = await axios.get(`/api/reports/search?${params}`);
+        if (isCurrent && response.data.success) {
+          setResult(response.data);
+          setError('');
+        }
+      } catch (err) {
+        if (!isCurrent) return;
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          router.push('/login');
+          return;
+        }
+        setError('Failed to load reports. Please try again.');
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+    loadReports();
+    // Answers to an older query that arrive after a newer one are ignored
+    return () => {
+      isCurrent = false;
+    };
+  }, [query, user, isReady, router]);
+
+  useEffect(() => {
+    if (searchText.trim() === query.text) return;
+    const timer = setTimeout(() => {
+      setQuery(prev => ({ ...prev, text: searchText.trim(), page: 1 }));
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [searchText, query.text]);
+
+  // Any change to the filters starts again from the first page
+  const updateQuery = (changes: Partial<ReportSearchQuery>) => {
+    setQuery(prev => ({ ...prev, page: 1, ...changes }));
+  };
+
+  const clearFilters = () => {
+    setSearchText('');
+    setQuery(DEFAULT_REPORT_SEARCH);
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        {error ? (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+            {error}
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-gray-600">Loading...</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (!hasAnyRole(user, 'pc_reviewer', 'admin')) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 gap-3">
+        <p className="text-gray-700">Only P&amp;C reviewers and administrators can browse all reports.</p>
+        <Link href="/form" className="text-sm text-blue-600 hover:text-blue-800 underline">
+          Back to Form
+        </Link>
+      </div>
+    );
+  }
+
+  const firstShown = result && result.total > 0 ? (result.page - 1) * result.pageSize + 1 : 0;
+  const lastShown = result ? Math.min(result.page * result.pageSize, result.total) : 0;
+  const lastPage = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center">
+          <div>
+            <p className="text-sm font-semibold text-blue-600 mb-1">People and Culture Department</p>
+            <h1 className="text-2xl font-bold text-gray-900">All Reports</h1>
+          </div>
+          <Link href="/form" className="text-sm text-blue-600 hover:text-blue-800 underline">
+            Back to Form
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Search and Filters */}
+        <div className="bg-white shadow rounded-lg p-6 space-y-4">
+          <div>
+            <label htmlFor="search" className={labelClassName}>Search</label>
+            <input
+              id="search"
+              type="search"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              placeholder="Search narratives, statements, timelines and names"
+              className={inputClassName}
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+            <div>
+              <label htmlFor="status" className={labelClassName}>Status</label>
+              <select
+                id="status"
+                value={query.status[0] || ''}
+                onChange={(e) => updateQuery({ status: e.target.value ? [e.target.value as ReportStatus] : [] })}
+                className={inputClassName}
+              >
+                <option value="">All statuses</option>
+                {(Object.keys(STATUS_LABELS) as ReportStatus[]).map(status => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="type" className={labelClassName}>Report Type</label>
+              <select
+                id="type"
+                value={query.templateId}
+                onChange={(e) => updateQuery({ templateId: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">All types</option>
+                {result?.facets.reportTypes.map(type => (
+                  <option key={type.id} value={type.id}>{type.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="company" className={labelClassName}>Company</label>
+              <select
+                id="company"
+                value={query.company}
+                onChange={(e) => updateQuery({ company: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">All companies</option>
+                {result?.facets.companies.map(company => (
+                  <option key={company} value={company}>{company}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="impact" className={labelClassName}>Impact</label>
+              <select
+                id="impact"
+                value={query.impactCategory}
+                onChange={(e) => updateQuery({ impactCategory: e.target.value })}
+                className={inputClassName}
+              >
+                <option value="">Any impact</option>
+                {result?.facets.impactCategories.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="from" className={labelClassName}>Incident From</label>
+              <input
+                id="from"
+                type="date"
+                value={query.incidentFrom}
+                max={query.incidentTo || undefined}
+                onChange={(e) => updateQuery({ incidentFrom: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="to" className={labelClassName}>Incident To</label>
+              <input
+                id="to"
+                type="date"
+                value={query.incidentTo}
+                min={query.incidentFrom || undefined}
+                onChange={(e) => updateQuery({ incidentTo: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="sort" className={labelClassName}>Sort By</label>
+              <div className="flex gap-1">
+                <select
+                  id="sort"
+                  value={query.sort}
+                  onChange={(e) => updateQuery({ sort: e.target.value as ReportSortKey })}
+                  className={inputClassName}
+                >
+                  {(Object.keys(SORT_LABELS) as ReportSortKey[]).map(sort => (
+                    <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => updateQuery({ direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+                  title={query.direction === 'asc' ? 'Ascending' : 'Descending'}
+                  aria-label={query.direction === 'asc' ? 'Sort ascending' : 'Sort descending'}
+                  className="px-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100"
+                >
+                  {query.direction === 'asc' ? '↑' : '↓'}
+                </button>
+              </div>
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <button type="button" onClick={clearFilters} className="text-sm text-blue-600 hover:text-blue-800 underline">
+              Clear filters
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+            {error}
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="bg-white shadow rounded-lg overflow-hidden">
+          <div className="px-6 py-3 border-b border-gray-200 flex justify-between items-center">
+            <p className="text-sm text-gray-600">
+              {result && result.total > 0
+                ? `Showing ${firstShown}–${lastShown} of ${result.total} report${result.total === 1 ? '' : 's'}`
+                : isLoading ? 'Loading...' : 'No reports match these filters.'}
+            </p>
+            {isLoading && result && (
+              <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            )}
+          </div>
+
+          {result && result.reports.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wide">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Incident</th>
+                    <th className="px-4 py-2 text-left">Subject</th>
+                    <th className="px-4 py-2 text-left">Reporter</th>
+                    <th className="px-4 py-2 text-left">Incident Date</th>
+                    <th className="px-4 py-2 text-left">Impact</th>
+                    <th className="px-4 py-2 text-left">Company</th>
+                    <th className="px-4 py-2 text-left">Status</th>
+                    <th className="px-4 py-2"><span className="sr-only">Actions</span></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {result.reports.map(report => (
+                    <tr key={report.id} className="align-top">
+                      <td className="px-4 py-3 max-w-xs">
+                        <p className="font-medium text-gray-900 truncate">{report.incidentWhat || 'Untitled incident'}</p>
+                        <p className="text-xs text-gray-500">
+                          {report.reportType} · Updated {new Date(report.updatedAt).toLocaleString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            hour: 'numeric',
+                            minute: '2-digit',
+                          })}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{report.subjects || '—'}</td>
+                      <td className="px-4 py-3 text-gray-700">{report.reporterName || 'Unknown'}</td>
+                      <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                        {report.incidentDateTime ? formatDateTime(report.incidentDateTime, report.timeZone) : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">{report.impactCategories.join(', ') || '—'}</td>
+                      <td className="px-4 py-3 text-gray-700">{report.company || '—'}</td>
+                      <td className="px-4 py-3">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${STATUS_BADGE_CLASSES[report.status]}`}>
+                          {STATUS_LABELS[report.status]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex gap-2 justify-end">
+                          <Link
+                            href={`/form?draft=${report.id}`}
+                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                          >
+                            Open
+                          </Link>
+                          <a
+                            href={`/api/reports/${report.id}/docx`}
+                            className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-100"
+                          >
+                            DOCX
+                          </a>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {result && lastPage > 1 && (
+            <div className="px-6 py-3 border-t border-gray-200 flex justify-between items-center">
+              <button
+                type="button"
+                onClick={() => setQuery(prev => ({ ...prev, page: result.page - 1 }))}
+                disabled={result.page <= 1}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {result.page} of {lastPage}</span>
+              <button
+                type="button"
+                onClick={() => setQuery(prev => ({ ...prev, page: result.page + 1 }))}
+                disabled={result.page >= lastPage}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import axios from 'axios';
+import DocumentPreview from '@/components/DocumentPreview';
+import {
+  CUSTODY_ACTION_LABELS,
+  formatFileSize,
+  getAttachmentFileUrl,
+  getAttachmentLinkUrl,
+  type CustodyEvent,
+} from '@/lib/attachments';
+import type { ReportRecord } from '@/lib/report-store';
+import type { ReportTemplate } from '@/lib/report-templates';
+import { STATUS_LABELS, type WorkflowAction } from '@/lib/report-workflow';
+import { formatDateTime } from '@/lib/time-zones';
+
+export default function ReviewReportPage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const [report, setReport] = useState<ReportRecord | null>(null);
+  const [template, setTemplate] = useState<ReportTemplate | null>(null);
+  const [custodyEvents, setCustodyEvents] = useState<CustodyEvent[]>([]);
+  const [currentEmployeeId, setCurrentEmployeeId] = useState<string>('');
+  const [comment, setComment] = useState('');
+  const [pendingAction, setPendingAction] = useState<WorkflowAction | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadReport = async () => {
+      try {
+        const [meResponse, reportResponse, custodyResponse] = await Promise.all([
+          axios.get('/api/auth/me'),
+          axios.get(`/api/reports/${params.id}`),
+          axios.get(`/api/reports/${params.id}/custody`),
+        ]);
+        setCurrentEmployeeId(String(meResponse.data.user.employee_id));
+        setReport(reportResponse.data.report);
+        setTemplate(reportResponse.data.template);
+        setCustodyEvents(custodyResponse.data.events);
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          router.push('/login');
+          return;
+        }
+        setError(axios.isAxiosError(err) && err.response?.data?.error
+          ? err.response.data.error
+          : 'Failed to load report. Please try again.');
+      }
+    };
+    loadReport();
+  }, [params.id, router]);
+
+  const handleAction = async (action: WorkflowAction) => {
+    if (!report) return;
+
+    setPendingAction(action);
+    setError('');
+
+    try {
+      const response = await axios.post(`/api/reports/${report.id}/status`, { action, comment });
+      if (response.data.success && response.data.report) {
+        setReport(response.data.report);
+        setComment('');
+      }
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error
+        ? err.response.data.error
+        : 'Failed to update report. Please try again.');
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  if (!report || !template) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        {error ? (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+            {error}
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-gray-600">Loading...</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const { data } = report;
+  const isAttester = String(data.attestedByDetails?.employee_id) === currentEmployeeId;
+  const canReview = isAttester && report.status === 'pending_attestation';
+  // Stored files and linked pages, so the evidence can be opened before attesting
+  const evidence = data.attachments.filter(attachment => attachment.file || getAttachmentLinkUrl(attachment));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex justify-between items-center">
+          <div>
+            <p className="text-sm font-semibold text-blue-600 mb-1">People and Culture Department</p>
+            <h1 className="text-2xl font-bold text-gray-900">Review Incident Report</h1>
+            <p className="text-sm text-gray-700 mt-1">
+              <span className="font-medium">Status:</span> {STATUS_LABELS[report.status]}
+            </p>
+          </div>
+          <Link href="/review" className="text-sm text-blue-600 hover:text-blue-800 underline">
+            Back to Reports
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-5xl mx-auto px-4 py-6 flex flex-col lg:flex-row gap-6">
+        <div className="flex-1 min-w-0">
+          <DocumentPreview
+            {...data}
+            template={template}
+            reportedBy={report.reportedBy}
+            status={report.status}
+            statusHistory={report.statusHistory}
+          />
+
+          {evidence.length > 0 && (
+            <div className="mt-6 bg-white shadow rounded-lg p-4">
+              <h2 className="text-sm font-semibold text-gray-700 mb-3">Evidence</h2>
+              <ul className="space-y-1 text-sm">
+                {evidence.map(attachment => (
+                  <li key={attachment.id} className="break-all">
+                    <a
+                      href={attachment.file ? getAttachmentFileUrl(attachment.file.id, report.id) : getAttachmentLinkUrl(attachment)!}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {attachment.file?.name || attachment.nameOrLink}
+                    </a>
+                    {attachment.file && <span className="text-xs text-gray-500"> ({formatFileSize(attachment.file.size)})</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {custodyEvents.length > 0 && (
+            <div className="mt-6 bg-white shadow rounded-lg p-4">
+              <h2 className="text-sm font-semibold text-gray-700 mb-3">Evidence Chain of Custody</h2>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-left text-gray-700">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-gray-200">
+                      <th className="py-1 pr-3 font-medium">Date</th>
+                      <th className="py-1 pr-3 font-medium">Event</th>
+                      <th className="py-1 pr-3 font-medium">Attachment</th>
+                      <th className="py-1 pr-3 font-medium">By</th>
+                      <th className="py-1 font-medium">SHA-256</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {custodyEvents.map((event, idx) => (
+                      <tr key={`${event.at}-${idx}`} className="border-b border-gray-100 align-top">
+                        <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(event.at, report.data.timeZone)}</td>
+                        <td className={`py-1 pr-3 ${event.action === 'altered' ? 'text-red-700 font-semibold' : ''}`}>
+                          {CUSTODY_ACTION_LABELS[event.action]}
+                          {event.note && <span className="block text-gray-500">{event.note}</span>}
+                        </td>
+                        <td className="py-1 pr-3 break-all">{event.attachmentName}</td>
+                        <td className="py-1 pr-3">{event.actorName}</td>
+                        <td className="py-1 font-mono break-all">{event.sha256 || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="w-full lg:w-80 flex-shrink-0">
+          <div className="bg-white shadow rounded-lg p-4 sticky top-6">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">Attestation</h2>
+
+            {error && (
+              <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {canReview ? (
+              <div className="space-y-3">
+                <div>
+                  <label htmlFor="reviewComment" className="block text-sm font-medium text-gray-700 mb-1">
+                    Comments
+                  </label>
+                  <textarea
+                    id="reviewComment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={4}
+                    placeholder="Required when returning or rejecting the report"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 text-sm"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleAction('approve')}
+                  disabled={pendingAction !== null}
+                  className="w-full py-2 px-4 rounded-lg font-semibold text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                >
+                  {pendingAction === 'approve' ? 'Approving...' : 'Approve'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAction('return')}
+                  disabled={pendingAction !== null || !comment.trim()}
+                  className="w-full py-2 px-4 rounded-lg font-semibold text-white bg-amber-500 hover:bg-amber-600 disabled:opacity-50"
+                >
+                  {pendingAction === 'return' ? 'Returning...' : 'Return with Comments'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleAction('reject')}
+                  disabled={pendingAction !== null || !comment.trim()}
+                  className="w-full py-2 px-4 rounded-lg font-semibold text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                >
+                  {pendingAction === 'reject' ? 'Rejecting...' : 'Reject'}
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">
+                {isAttester
+                  ? `This report is ${STATUS_LABELS[report.status].toLowerCase()}; no action is needed.`
+                  : 'Only the attester named on this report can review it.'}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import { STATUS_BADGE_CLASSES, STATUS_LABELS, type ReportStatus } from '@/lib/report-workflow';
+
+interface ReviewSummary {
+  id: string;
+  reporterName: string;
+  updatedAt: string;
+  incidentWhat: string;
+  employeeName: string;
+  status: ReportStatus;
+}
+
+export default function ReviewListPage() {
+  const router = useRouter();
+  const [reports, setReports] = useState<ReviewSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadReports = async () => {
+      try {
+        const response = await axios.get('/api/reports?scope=attestation');
+        if (response.data.success) {
+          setReports(response.data.reports);
+        }
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          router.push('/login');
+          return;
+        }
+        setError('Failed to load reports. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadReports();
+  }, [router]);
+
+  const pending = reports.filter(report => report.status === 'pending_attestation');
+  const reviewed = reports.filter(report => report.status !== 'pending_attestation');
+
+  const renderList = (items: ReviewSummary[], emptyText: string) => (
+    items.length === 0 ? (
+      <p className="text-sm text-gray-500 italic">{emptyText}</p>
+    ) : (
+      <ul className="divide-y divide-gray-100">
+        {items.map(report => (
+          <li key={report.id} className="py-3 flex items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-sm font-medium text-gray-900 truncate">
+                {report.incidentWhat || 'Untitled incident'}
+                {report.employeeName && <span className="text-gray-500 font-normal"> — {report.employeeName}</span>}
+              </p>
+              <p className="text-xs text-gray-500">
+                Reported by {report.reporterName || 'Unknown'} · Updated {new Date(report.updatedAt).toLocaleString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </p>
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_BADGE_CLASSES[report.status]}`}>
+                {STATUS_LABELS[report.status]}
+              </span>
+              <Link
+                href={`/review/${report.id}`}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              >
+                {report.status === 'pending_attestation' ? 'Review' : 'View'}
+              </Link>
+            </div>
+          </li>
+        ))}
+      </ul>
+    )
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex justify-between items-center">
+          <div>
+            <p className="text-sm font-semibold text-blue-600 mb-1">People and Culture Department</p>
+            <h1 className="text-2xl font-bold text-gray-900">Reports to Attest</h1>
+          </div>
+          <Link href="/form" className="text-sm text-blue-600 hover:text-blue-800 underline">
+            Back to Form
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center space-x-2">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-gray-600">Loading...</span>
+          </div>
+        ) : (
+          <>
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
+                Awaiting Your Attestation
+              </h2>
+              {renderList(pending, 'No reports are waiting for you.')}
+            </div>
+
+            <div className="bg-white shadow rounded-lg p-6">
+              <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
+                Previously Reviewed
+              </h2>
+              {renderList(reviewed, 'You have not reviewed any reports yet.')}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,704 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import axios from 'axios';
+import DocumentPreview from '@/components/DocumentPreview';
+import { createEmptyIncidentReport, type UserDetails } from '@/lib/incident-report';
+import {
+  getLatestTemplates,
+  syncDocumentLayout,
+  validateReportTemplate,
+  type CheckboxGroupTemplateField,
+  type ReportTemplate,
+  type TemplateField,
+  type TemplateFieldGroup,
+  type TemplateFieldType,
+  type TemplateSection,
+} from '@/lib/report-templates';
+import { hasAnyRole } from '@/lib/roles';
+
+const FIELD_TYPE_LABELS: Record<TemplateFieldType, string> = {
+  text: 'Short text',
+  richText: 'Rich text (AI enhance)',
+  date: 'Date',
+  datetime: 'Date and time',
+  employee: 'Employee lookup',
+  employeeList: 'Involved employees',
+  checkboxGroup: 'Checkbox group',
+  attachments: 'Attachments',
+  witnessStatements: 'Witness statements',
+  timeline: 'Timeline',
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 text-sm';
+const labelClassName = 'block text-xs font-medium text-gray-600 mb-1';
+const smallButtonClassName = 'px-2 py-1 text-xs border border-gray-300 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40';
+
+// Keys and IDs for new items only need to be unique within the template
+const newId = (prefix: string) => `${prefix}_${Date.now()}`;
+
+const moveItem = <T,>(items: T[], index: number, offset: number): T[] => {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+// A field of another type keeps its key, label and whether it is required
+const createField = (type: TemplateFieldType, base?: TemplateField): TemplateField => {
+  const common = {
+    key: base?.key || newId('field'),
+    label: base?.label || 'New field',
+    required: base?.required,
+    requiredMessage: base?.requiredMessage,
+    documentLabel: base?.documentLabel,
+  };
+  switch (type) {
+    case 'richText':
+      return { ...common, type, aiContext: 'incident_details', minHeight: 150, guidingQuestions: [] };
+    case 'employee':
+      return { ...common, type, idKey: `${common.key}_id`, placeholder: 'Enter Employee ID' };
+    case 'checkboxGroup':
+      return { ...common, type, options: [{ value: 'Option 1' }] };
+    case 'employeeList':
+      return { ...common, type, key: 'involvedEmployees' };
+    case 'attachments':
+      return { ...common, type, key: 'attachments', guidingQuestions: [] };
+    case 'witnessStatements':
+      return { ...common, type, key: 'witnessStatements', aiContext: 'witness_statement', guidingQuestions: [] };
+    case 'timeline':
+      return { ...common, type, key: 'timeline' };
+    case 'date':
+    case 'datetime':
+      return { ...common, type };
+    default:
+      return { ...common, type: 'text' };
+  }
+};
+
+const createBlankTemplate = (): ReportTemplate => ({
+  id: '',
+  version: 0,
+  name: '',
+  description: '',
+  title: '',
+  sections: [{ id: newId('section'), title: 'Details', groups: [{ fields: [] }] }],
+  document: [],
+});
+
+// Guiding questions are edited one per line; drop the blank lines before publishing
+const cleanTemplate = (template: ReportTemplate): ReportTemplate => ({
+  ...template,
+  sections: template.sections.map(section => ({
+    ...section,
+    groups: section.groups.map(group => ({
+      ...group,
+      fields: group.fields.map(field => 'guidingQuestions' in field && field.guidingQuestions
+        ? { ...field, guidingQuestions: field.guidingQuestions.map(question => question.trim()).filter(Boolean) }
+        : field),
+    })),
+  })),
+});
+
+export default function TemplateDesignerPage() {
+  const router = useRouter();
+  const [user, setUser] = useState<UserDetails | null>(null);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [draft, setDraft] = useState<ReportTemplate>(createBlankTemplate);
+  // The ID of the template being revised, or null while designing a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState('');
+  const [publishedMessage, setPublishedMessage] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [meResponse, templatesResponse] = await Promise.all([
+          axios.get('/api/auth/me'),
+          axios.get('/api/templates'),
+        ]);
+        setUser(meResponse.data.user);
+        setTemplates(templatesResponse.data.templates);
+      } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 401) {
+          router.push('/login');
+          return;
+        }
+        setError('Failed to load report templates. Please try again.');
+      }
+    };
+    load();
+  }, [router]);
+
+  const latestTemplates = getLatestTemplates(templates);
+  const previewTemplate: ReportTemplate = { ...draft, document: syncDocumentLayout(draft) };
+  const issues = validateReportTemplate(cleanTemplate(previewTemplate));
+  if (!editingId && latestTemplates.some(template => template.id === draft.id)) {
+    issues.unshift(`A template with the ID "${draft.id}" already exists. Choose it above to publish a new version.`);
+  }
+  const versions = templates.filter(template => template.id === editingId);
+  const checkboxFields = draft.sections
+    .flatMap(section => section.groups.flatMap(group => group.fields))
+    .filter((field): field is CheckboxGroupTemplateField => field.type === 'checkboxGroup');
+
+  const selectTemplate = (id: string) => {
+    const template = latestTemplates.find(candidate => candidate.id === id);
+    setDraft(template ? structuredClone(template) : createBlankTemplate());
+    setEditingId(template ? template.id : null);
+    setPublishedMessage('');
+    setError('');
+  };
+
+  // Immutable updates, from the section down to a single field
+  const updateSections = (update: (sections: TemplateSection[]) => TemplateSection[]) => {
+    setDraft(prev => ({ ...prev, sections: update(prev.sections) }));
+  };
+
+  const updateSection = (sectionIndex: number, update: (section: TemplateSection) => TemplateSection) => {
+    updateSections(sections => sections.map((section, index) => (index === sectionIndex ? update(section) : section)));
+  };
+
+  const updateGroup = (sectionIndex: number, groupIndex: number, update: (group: TemplateFieldGroup) => TemplateFieldGroup) => {
+    updateSection(sectionIndex, section => ({
+      ...section,
+      groups: section.groups.map((group, index) => (index === groupIndex ? update(group) : group)),
+    }));
+  };
+
+  const updateField = (sectionIndex: number, groupIndex: number, fieldIndex: number, update: (field: TemplateField) => TemplateField) => {
+    updateGroup(sectionIndex, groupIndex, group => ({
+      ...group,
+      fields: group.fields.map((field, index) => (index === fieldIndex ? update(field) : field)),
+    }));
+  };
+
+  const handlePublish = async () => {
+    if (issues.length > 0) return;
+
+    setIsPublishing(true);
+    setError('');
+    setPublishedMessage('');
+
+    try {
+      const response = await axios.post('/api/templates', { template: cleanTemplate(previewTemplate) });
+      if (response.data.success) {
+        const published: ReportTemplate = response.data.template;
+        setTemplates(prev => [...prev, published]);
+        setDraft(structuredClone(published));
+        setEditingId(published.id);
+        setPublishedMessage(`Published ${published.name} version ${published.version}. New reports will use it from now on.`);
+      }
+    } catch (err) {
+      setError(axios.isAxiosError(err) && err.response?.data?.error
+        ? err.response.data.error
+        : 'Failed to publish the template. Please try again.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const renderFieldEditor = (field: TemplateField, sectionIndex: number, groupIndex: number, fieldIndex: number, fieldCount: number) => {
+    const update = (changes: Partial<TemplateField>) =>
+      updateField(sectionIndex, groupIndex, fieldIndex, current => ({ ...current, ...changes } as TemplateField));
+    const fieldId = `${sectionIndex}-${groupIndex}-${fieldIndex}`;
+
+    return (
+      <div key={fieldId} className="p-3 border border-gray-200 rounded-lg bg-gray-50 space-y-3">
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="flex-1 min-w-[160px]">
+            <label htmlFor={`label-${fieldId}`} className={labelClassName}>Label</label>
+            <input
+              id={`label-${fieldId}`}
+              type="text"
+              value={field.label}
+              onChange={(e) => update({ label: e.target.value })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="w-48">
+            <label htmlFor={`type-${fieldId}`} className={labelClassName}>Type</label>
+            <select
+              id={`type-${fieldId}`}
+              value={field.type}
+              onChange={(e) => updateField(sectionIndex, groupIndex, fieldIndex, current => createField(e.target.value as TemplateFieldType, current))}
+              className={`${inputClassName} bg-white`}
+            >
+              {(Object.keys(FIELD_TYPE_LABELS) as TemplateFieldType[]).map(type => (
+                <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-1">
+            <button type="button" className={smallButtonClassName} disabled={fieldIndex === 0} aria-label="Move field up"
+              onClick={() => updateGroup(sectionIndex, groupIndex, group => ({ ...group, fields: moveItem(group.fields, fieldIndex, -1) }))}>↑</button>
+            <button type="button" className={smallButtonClassName} disabled={fieldIndex === fieldCount - 1} aria-label="Move field down"
+              onClick={() => updateGroup(sectionIndex, groupIndex, group => ({ ...group, fields: moveItem(group.fields, fieldIndex, 1) }))}>↓</button>
+            <button type="button" className={`${smallButtonClassName} text-red-600`}
+              onClick={() => updateGroup(sectionIndex, groupIndex, group => ({ ...group, fields: group.fields.filter((_, index) => index !== fieldIndex) }))}>
+              Remove
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <div>
+            <label htmlFor={`key-${fieldId}`} className={labelClassName}>Key</label>
+            <input
+              id={`key-${fieldId}`}
+              type="text"
+              value={field.key}
+              onChange={(e) => update({ key: e.target.value })}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+          <div>
+            <label htmlFor={`doc-label-${fieldId}`} className={labelClassName}>Label in document</label>
+            <input
+              id={`doc-label-${fieldId}`}
+              type="text"
+              value={field.documentLabel || ''}
+              onChange={(e) => update({ documentLabel: e.target.value || undefined })}
+              placeholder={`${field.label}:`}
+              className={inputClassName}
+            />
+          </div>
+          <label className="flex items-center text-sm text-gray-700 md:mt-5">
+            <input
+              type="checkbox"
+              checked={Boolean(field.required)}
+              onChange={(e) => update({ required: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 mr-2"
+            />
+            Required
+          </label>
+        </div>
+
+        {field.required && (
+          <div>
+            <label htmlFor={`required-${fieldId}`} className={labelClassName}>Message when missing</label>
+            <input
+              id={`required-${fieldId}`}
+              type="text"
+              value={field.requiredMessage || ''}
+              onChange={(e) => update({ requiredMessage: e.target.value || undefined })}
+              placeholder={`${field.label} is required.`}
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        {(field.type === 'text' || field.type === 'richText' || field.type === 'employee') && (
+          <div>
+            <label htmlFor={`placeholder-${fieldId}`} className={labelClassName}>Placeholder</label>
+            <input
+              id={`placeholder-${fieldId}`}
+              type="text"
+              value={field.placeholder || ''}
+              onChange={(e) => update({ placeholder: e.target.value || undefined })}
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        {field.type === 'employee' && (
+          <div>
+            <label htmlFor={`id-key-${fieldId}`} className={labelClassName}>Key for the typed employee ID</label>
+            <input
+              id={`id-key-${fieldId}`}
+              type="text"
+              value={field.idKey}
+              onChange={(e) => update({ idKey: e.target.value })}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+        )}
+
+        {field.type === 'richText' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={`ai-${fieldId}`} className={labelClassName}>AI context</label>
+              <input
+                id={`ai-${fieldId}`}
+                type="text"
+                value={field.aiContext}
+                onChange={(e) => update({ aiContext: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div>
+              <label htmlFor={`depends-${fieldId}`} className={labelClassName}>Depends on</label>
+              <select
+                id={`depends-${fieldId}`}
+                value={field.dependsOn || ''}
+                onChange={(e) => update({ dependsOn: e.target.value || undefined })}
+                className={`${inputClassName} bg-white`}
+              >
+                <option value="">Nothing - always enabled</option>
+                {checkboxFields.map(checkbox => (
+                  <option key={checkbox.key} value={checkbox.key}>{checkbox.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {field.type === 'witnessStatements' && (
+          <div>
+            <label htmlFor={`ai-${fieldId}`} className={labelClassName}>AI context</label>
+            <input
+              id={`ai-${fieldId}`}
+              type="text"
+              value={field.aiContext}
+              onChange={(e) => update({ aiContext: e.target.value })}
+              className={`${inputClassName} font-mono`}
+            />
+          </div>
+        )}
+
+        {(field.type === 'richText' || field.type === 'attachments' || field.type === 'witnessStatements')
+          && !(field.type === 'richText' && field.dependsOn) && (
+          <div>
+            <label htmlFor={`questions-${fieldId}`} className={labelClassName}>Guiding questions (one per line)</label>
+            <textarea
+              id={`questions-${fieldId}`}
+              value={(field.guidingQuestions || []).join('\n')}
+              onChange={(e) => update({ guidingQuestions: e.target.value.split('\n') })}
+              rows={3}
+              className={inputClassName}
+            />
+          </div>
+        )}
+
+        {field.type === 'checkboxGroup' && (
+          <div className="space-y-2">
+            <p className={labelClassName}>Options, with the guidance shown for rich text that depends on this group</p>
+            {field.options.map((option, optionIndex) => (
+              <div key={optionIndex} className="flex gap-2">
+                <input
+                  type="text"
+                  value={option.value}
+                  aria-label={`Option ${optionIndex + 1}`}
+                  onChange={(e) => update({ options: field.options.map((item, index) => (index === optionIndex ? { ...item, value: e.target.value } : item)) })}
+                  className={`${inputClassName} w-40 flex-shrink-0`}
+                />
+                <input
+                  type="text"
+                  value={option.guidance || ''}
+                  aria-label={`Guidance for option ${optionIndex + 1}`}
+                  placeholder="Guidance (optional)"
+                  onChange={(e) => update({ options: field.options.map((item, index) => (index === optionIndex ? { ...item, guidance: e.target.value || undefined } : item)) })}
+                  className={inputClassName}
+                />
+                <button type="button" className={`${smallButtonClassName} text-red-600`}
+                  onClick={() => update({ options: field.options.filter((_, index) => index !== optionIndex) })}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button type="button" className={smallButtonClassName}
+              onClick={() => update({ options: [...field.options, { value: `Option ${field.options.length + 1}` }] })}>
+              Add option
+            </button>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div>
+                <label htmlFor={`specify-${fieldId}`} className={labelClassName}>Ask to specify when picked</label>
+                <select
+                  id={`specify-${fieldId}`}
+                  value={field.specify?.option || ''}
+                  onChange={(e) => update({
+                    specify: e.target.value
+                      ? {
+                        option: e.target.value,
+                        key: field.specify?.key || `${field.key}_specify`,
+                        label: field.specify?.label || 'Please specify',
+                        message: field.specify?.message || 'Please specify.',
+                      }
+                      : undefined,
+                  })}
+                  className={`${inputClassName} bg-white`}
+                >
+                  <option value="">No option</option>
+                  {field.options.map(option => (
+                    <option key={option.value} value={option.value}>{option.value}</option>
+                  ))}
+                </select>
+              </div>
+              {field.specify && (
+                <div>
+                  <label htmlFor={`specify-label-${fieldId}`} className={labelClassName}>Specify prompt</label>
+                  <input
+                    id={`specify-label-${fieldId}`}
+                    type="text"
+                    value={field.specify.label}
+                    onChange={(e) => update({ specify: { ...field.specify!, label: e.target.value, message: `${e.target.value}.` } })}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        {error ? (
+          <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded" role="alert">
+            {error}
+          </div>
+        ) : (
+          <div className="flex items-center space-x-2">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-gray-600">Loading...</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (!hasAnyRole(user, 'pc_reviewer', 'admin')) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-gray-50 gap-3">
+        <p className="text-gray-700">Only P&amp;C reviewers and administrators can edit report templates.</p>
+        <Link href="/form" className="text-sm text-blue-600 hover:text-blue-800 underline">
+          Back to Form
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex justify-between items-center">
+          <div>
+            <p className="text-sm font-semibold text-blue-600 mb-1">People and Culture Department</p>
+            <h1 className="text-2xl font-bold text-gray-900">Report Templates</h1>
+          </div>
+          <Link href="/form" className="text-sm text-blue-600 hover:text-blue-800 underline">
+            Back to Form
+          </Link>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 py-6 flex flex-col lg:flex-row gap-6">
+        <div className="flex-1 min-w-0 space-y-6">
+          {/* Template Details */}
+          <div className="bg-white shadow rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-4 pb-2 border-b border-gray-200">
+              Template
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="templatePicker" className={labelClassName}>Edit</label>
+                <select
+                  id="templatePicker"
+                  value={editingId || ''}
+                  onChange={(e) => selectTemplate(e.target.value)}
+                  className={`${inputClassName} bg-white`}
+                >
+                  <option value="">New template</option>
+                  {latestTemplates.map(template => (
+                    <option key={template.id} value={template.id}>{template.name} (v{template.version})</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="templateId" className={labelClassName}>ID</label>
+                <input
+                  id="templateId"
+                  type="text"
+                  value={draft.id}
+                  onChange={(e) => setDraft(prev => ({ ...prev, id: e.target.value }))}
+                  disabled={Boolean(editingId)}
+                  placeholder="e.g. data-privacy"
+                  className={`${inputClassName} font-mono disabled:bg-gray-100`}
+                />
+              </div>
+              <div>
+                <label htmlFor="templateName" className={labelClassName}>Name (shown when choosing the report type)</label>
+                <input
+                  id="templateName"
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="templateTitle" className={labelClassName}>Form and document title</label>
+                <input
+                  id="templateTitle"
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => setDraft(prev => ({ ...prev, title: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label htmlFor="templateDescription" className={labelClassName}>Description</label>
+                <input
+                  id="templateDescription"
+                  type="text"
+                  value={draft.description}
+                  onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            {versions.length > 0 && (
+              <ul className="mt-4 text-xs text-gray-500 space-y-0.5">
+                {versions.map(version => (
+                  <li key={version.version}>
+                    Version {version.version}: {version.publishedAt
+                      ? `published by ${version.publishedBy || 'unknown'} on ${new Date(version.publishedAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`
+                      : 'built in'}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Sections */}
+          {draft.sections.map((section, sectionIndex) => (
+            <div key={section.id} className="bg-white shadow rounded-lg p-6">
+              <div className="flex items-end gap-2 mb-4 pb-2 border-b border-gray-200">
+                <div className="flex-1">
+                  <label htmlFor={`section-${sectionIndex}`} className={labelClassName}>Section {sectionIndex + 2}</label>
+                  <input
+                    id={`section-${sectionIndex}`}
+                    type="text"
+                    value={section.title}
+                    onChange={(e) => updateSection(sectionIndex, current => ({ ...current, title: e.target.value }))}
+                    className={`${inputClassName} font-semibold`}
+                  />
+                </div>
+                <button type="button" className={smallButtonClassName} disabled={sectionIndex === 0} aria-label="Move section up"
+                  onClick={() => updateSections(sections => moveItem(sections, sectionIndex, -1))}>↑</button>
+                <button type="button" className={smallButtonClassName} disabled={sectionIndex === draft.sections.length - 1} aria-label="Move section down"
+                  onClick={() => updateSections(sections => moveItem(sections, sectionIndex, 1))}>↓</button>
+                <button type="button" className={`${smallButtonClassName} text-red-600`}
+                  onClick={() => updateSections(sections => sections.filter((_, index) => index !== sectionIndex))}>
+                  Remove section
+                </button>
+              </div>
+
+              <div className="space-y-6">
+                {section.groups.map((group, groupIndex) => (
+                  <div key={groupIndex} className="border-l-4 border-blue-100 pl-4 space-y-3">
+                    <div className="flex flex-wrap items-end gap-2">
+                      <div className="flex-1 min-w-[160px]">
+                        <label htmlFor={`group-${sectionIndex}-${groupIndex}`} className={labelClassName}>Group title (optional)</label>
+                        <input
+                          id={`group-${sectionIndex}-${groupIndex}`}
+                          type="text"
+                          value={group.title || ''}
+                          onChange={(e) => updateGroup(sectionIndex, groupIndex, current => ({ ...current, title: e.target.value || undefined }))}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <button type="button" className={smallButtonClassName} disabled={groupIndex === 0} aria-label="Move group up"
+                        onClick={() => updateSection(sectionIndex, current => ({ ...current, groups: moveItem(current.groups, groupIndex, -1) }))}>↑</button>
+                      <button type="button" className={smallButtonClassName} disabled={groupIndex === section.groups.length - 1} aria-label="Move group down"
+                        onClick={() => updateSection(sectionIndex, current => ({ ...current, groups: moveItem(current.groups, groupIndex, 1) }))}>↓</button>
+                      <button type="button" className={`${smallButtonClassName} text-red-600`}
+                        onClick={() => updateSection(sectionIndex, current => ({ ...current, groups: current.groups.filter((_, index) => index !== groupIndex) }))}>
+                        Remove group
+                      </button>
+                    </div>
+                    <div>
+                      <label htmlFor={`group-description-${sectionIndex}-${groupIndex}`} className={labelClassName}>Group description (optional)</label>
+                      <input
+                        id={`group-description-${sectionIndex}-${groupIndex}`}
+                        type="text"
+                        value={group.description || ''}
+                        onChange={(e) => updateGroup(sectionIndex, groupIndex, current => ({ ...current, description: e.target.value || undefined }))}
+                        className={inputClassName}
+                      />
+                    </div>
+
+                    {group.fields.map((field, fieldIndex) =>
+                      renderFieldEditor(field, sectionIndex, groupIndex, fieldIndex, group.fields.length)
+                    )}
+
+                    <button type="button" className={smallButtonClassName}
+                      onClick={() => updateGroup(sectionIndex, groupIndex, current => ({ ...current, fields: [...current.fields, createField('text')] }))}>
+                      Add field
+                    </button>
+                  </div>
+                ))}
+
+                <button type="button" className={smallButtonClassName}
+                  onClick={() => updateSection(sectionIndex, current => ({ ...current, groups: [...current.groups, { title: 'New group', fields: [] }] }))}>
+                  Add group
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => updateSections(sections => [...sections, { id: newId('section'), title: 'New section', groups: [{ fields: [] }] }])}
+            className="w-full py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-500 hover:text-blue-600 transition-colors"
+          >
+            Add Section
+          </button>
+        </div>
+
+        {/* Preview and Publish */}
+        <div className="w-full lg:w-[420px] flex-shrink-0">
+          <div className="sticky top-6 space-y-4">
+            <div className="bg-white shadow rounded-lg p-4">
+              <h2 className="text-sm font-semibold text-gray-700 mb-3">Publish</h2>
+
+              {error && (
+                <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+              {publishedMessage && (
+                <div className="mb-3 p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-sm text-green-800">{publishedMessage}</p>
+                </div>
+              )}
+              {issues.length > 0 && (
+                <ul className="mb-3 text-xs text-amber-700 list-disc list-inside space-y-0.5">
+                  {issues.map(issue => <li key={issue}>{issue}</li>)}
+                </ul>
+              )}
+
+              <button
+                type="button"
+                onClick={handlePublish}
+                disabled={issues.length > 0 || isPublishing}
+                className="w-full py-2 px-4 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isPublishing ? 'Publishing...' : editingId ? 'Publish New Version' : 'Publish Template'}
+              </button>
+              <p className="mt-2 text-xs text-gray-500">
+                Reports already started keep the version they were written with.
+              </p>
+            </div>
+
+            <div className="border border-gray-200 bg-gray-100 max-h-[calc(100vh-280px)] overflow-y-auto p-3">
+              <DocumentPreview
+                {...createEmptyIncidentReport()}
+                templateId={draft.id}
+                template={previewTemplate}
+                reportedBy={user}
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,58 +1,40 @@
 'use client';
 
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { formatTimelineActor, getIncludedPriorIncidents, type IncidentReportDocument } from '@/lib/incident-report';
+import { getTranslator } from '@/lib/i18n';
+import { getBrandingForReport, loadBrandingRules, type BrandingRule, type BrandPalette } from '@/lib/branding';
+import { formatAttachmentDigest, formatFileSize } from '@/lib/attachments';
+import { formatDate, formatDateTime } from '@/lib/time-zones';
+import {
+  findTemplateField,
+  formatCheckboxValue,
+  formatInvolvedEmployees,
+  formatStatementTitle,
+  formatTimeline,
+  formatTimelineEvidence,
+  formatWitnessStatements,
+  getAttachmentsValue,
+  getDocumentLabel,
+  getEmployeeValue,
+  getInvolvedEmployeesValue,
+  getRecordedStatements,
+  getRecordedTimeline,
+  getTemplateFields,
+  getTextValue,
+  isFieldFilled,
+  localizeTemplate,
+  type DocumentBlock,
+  type TemplateField,
+} from '@/lib/report-templates';
 
-interface EmployeeDetails {
-  id: number;
-  employee_id: number;
-  employee_name: string;
-  employee_email: string;
-  position: string;
-  company: string;
-  created_at?: string;
-}
-
-interface UserDetails {
-  id: number;
-  employee_id: number;
-  employee_name: string;
-  employee_email: string;
-  position: string;
-  company: string;
-  created_at?: string;
-}
-
-interface Attachment {
-  id: string;
-  nameOrLink: string;
-  description: string;
-}
+type DocumentPreviewProps = IncidentReportDocument;
 
-interface DocumentPreviewProps {
-  datePrepared: string;
-  employeeDetails: EmployeeDetails | null;
-  incidentWhat: string;
-  incidentLocation: string;
-  incidentDateTime: string;
-  incidentDetails: string;
-  findings: string;
-  policyViolation: string;
-  attachments: Attachment[];
-  impactCategories: string[];
-  impactOthersSpecify: string;
-  impactDescription: string;
-  reportedBy: UserDetails;
-  attestedBy: EmployeeDetails | null;
-}
-
-// Color constants for PDF compatibility (hex values)
+// Color constants for PDF compatibility (hex values); brand colors come from the branding profile
 const colors = {
-  red600: '#dc2626',
-  blue50: '#eff6ff',
-  blue600: '#2563eb',
-  blue700: '#1d4ed8',
-  blue800: '#1e40af',
   gray50: '#f9fafb',
   gray200: '#e5e7eb',
   gray300: '#d1d5db',
@@ -65,50 +47,360 @@ const colors = {
   white: '#ffffff',
 };
 
-export default function DocumentPreview({
-  datePrepared,
-  employeeDetails,
-  incidentWhat,
-  incidentLocation,
-  incidentDateTime,
-  incidentDetails,
-  findings,
-  policyViolation,
-  attachments,
-  impactCategories,
-  impactOthersSpecify,
-  impactDescription,
-  reportedBy,
-  attestedBy,
-}: DocumentPreviewProps) {
+export default function DocumentPreview(report: DocumentPreviewProps) {
+  const {
+    timeZone,
+    locale,
+    datePrepared,
+    involvedEmployees,
+    reportedBy,
+    attestedByDetails: attestedBy,
+    status = 'draft',
+    statusHistory = [],
+  } = report;
+  // Written in the report's document language, like the generated documents
+  const t = getTranslator(locale);
+  const template = localizeTemplate(report.template, locale);
+  const formatReportDate = (value: string) => formatDate(value, timeZone, locale);
+  const formatReportDateTime = (value: string) => formatDateTime(value, timeZone, locale);
+  // The default profile shows until the company profiles have loaded
+  const [brandingRules, setBrandingRules] = useState<BrandingRule[]>([]);
+  useEffect(() => {
+    loadBrandingRules().then(setBrandingRules);
+  }, []);
+  const branding = getBrandingForReport({ involvedEmployees, reportedBy }, brandingRules);
+  const { logo } = branding;
+  // Profiles store colors without the '#', as the DOCX generator expects them
+  const palette = Object.fromEntries(
+    Object.entries(branding.palette).map(([name, hex]) => [name, `#${hex}`])
+  ) as unknown as BrandPalette;
+  // Remember which logo failed to load, so picking another company retries with its own file
+  const [failedLogoSrc, setFailedLogoSrc] = useState<string | null>(null);
+
   const formatFullName = (details: { employee_name: string }) => {
     return details.employee_name || 'N/A';
   };
 
-  const formatDate = (dateStr: string) => {
-    if (!dateStr) return 'Not specified';
-    return new Date(dateStr).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+  // The most recent approval, if the attester has signed off
+  const approval = status === 'approved'
+    ? [...statusHistory].reverse().find(entry => entry.action === 'approve')
+    : undefined;
+
+  // Only show the history once something beyond creating the draft has happened
+  const workflowHistory = statusHistory.filter(entry => entry.action !== 'create');
+
+  const sectionHeadingStyle = {
+    fontSize: '12px',
+    fontWeight: 'bold',
+    color: palette.heading,
+    textTransform: 'uppercase' as const,
+    letterSpacing: '0.5px',
+    marginBottom: '8px',
+  };
+  // Every attachment, for the evidence digest table at the end - as in the DOCX appendix
+  const attachments = getTemplateFields(template)
+    .filter(field => field.type === 'attachments')
+    .flatMap(field => getAttachmentsValue(report, field.key));
+  const labelCellStyle = { backgroundColor: palette.labelFill, padding: '6px 8px', fontWeight: '600', color: palette.labelText };
+  const placeholderStyle = { color: colors.gray400, fontStyle: 'italic' };
+  const narrativeBoxStyle = {
+    backgroundColor: colors.gray50,
+    borderRadius: '4px',
+    padding: '8px',
+    border: `1px solid ${colors.gray200}`,
+    minHeight: '40px',
+    color: colors.gray800,
+    fontSize: '12px',
+  };
+
+  // A short field's value as text; empty values get a placeholder
+  const renderValue = (field: TemplateField) => {
+    if (!isFieldFilled(report, field)) {
+      return <span style={placeholderStyle}>{t(field.type === 'checkboxGroup' ? 'document.noneSelected' : 'document.notSpecified')}</span>;
+    }
+    switch (field.type) {
+      case 'date':
+        return formatReportDate(getTextValue(report, field.key));
+      case 'datetime':
+        return formatReportDateTime(getTextValue(report, field.key));
+      case 'checkboxGroup':
+        return formatCheckboxValue(report, field);
+      case 'employee':
+        return formatFullName(getEmployeeValue(report, field.key)!);
+      case 'employeeList':
+        return formatInvolvedEmployees(report, field, t);
+      case 'witnessStatements':
+        return formatWitnessStatements(report, field, t);
+      case 'timeline':
+        return formatTimeline(report, field);
+      default:
+        return getTextValue(report, field.key);
+    }
   };
 
-  const formatDateTime = (dateTimeStr: string) => {
-    if (!dateTimeStr) return 'Not specified';
-    return new Date(dateTimeStr).toLocaleString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
+  const renderBoxField = (field: TemplateField) => {
+    if (field.type === 'richText') {
+      const text = getTextValue(report, field.key);
+      return (
+        <div key={field.key} style={narrativeBoxStyle}>
+          {text ? (
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+          ) : (
+            <p style={{ ...placeholderStyle, fontSize: '12px', margin: 0 }}>{t('document.nothingProvided')}</p>
+          )}
+        </div>
+      );
+    }
+    if (field.type === 'attachments') {
+      const attachments = getAttachmentsValue(report, field.key);
+      return attachments.length > 0 ? (
+        <ul key={field.key} style={{ fontSize: '12px', paddingLeft: '16px', margin: 0, color: colors.gray700 }}>
+          {attachments.map((att, idx) => (
+            <li key={att.id} style={{ marginBottom: '4px' }}>
+              <span style={{ fontWeight: '500' }}>{att.nameOrLink || t('document.attachmentNumber', { number: idx + 1 })}</span>
+              {att.description && (
+                <span style={{ color: colors.gray500 }}> — {att.description}</span>
+              )}
+              {att.file && (
+                <div style={{ fontSize: '10px', color: colors.gray500, wordBreak: 'break-all' }}>
+                  {att.file.name} · {formatFileSize(att.file.size)} · SHA-256 {att.file.sha256}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p key={field.key} style={{ ...placeholderStyle, fontSize: '12px', margin: 0 }}>{t('document.noAttachments')}</p>
+      );
+    }
+    return (
+      <p key={field.key} style={{ fontSize: '12px', color: colors.gray600, marginBottom: '4px' }}>
+        <span style={{ fontWeight: '500' }}>{getDocumentLabel(field)}</span> {renderValue(field)}
+      </p>
+    );
   };
 
-  const impactList = impactCategories.map(cat => 
-    cat === 'Others' && impactOthersSpecify ? `Others (${impactOthersSpecify})` : cat
-  ).join(', ');
+  const renderBlock = (block: DocumentBlock, index: number) => {
+    switch (block.type) {
+      case 'heading':
+        return <h2 key={index} style={sectionHeadingStyle}>{block.text}</h2>;
+
+      case 'employee': {
+        const field = findTemplateField(template, block.field);
+        const employee = getEmployeeValue(report, block.field);
+        return (
+          <div key={index} style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden', marginBottom: '16px' }}>
+            <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+              <tbody>
+                <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
+                  <td style={{ ...labelCellStyle, width: '25%' }}>
+                    {field ? getDocumentLabel(field) : t('document.employee')}
+                  </td>
+                  <td style={{ padding: '6px 8px', width: '25%' }}>
+                    {employee ? formatFullName(employee) : <span style={placeholderStyle}>{t('document.notSelected')}</span>}
+                  </td>
+                  <td style={{ ...labelCellStyle, width: '16%' }}>
+                    {t('document.employeeId')}
+                  </td>
+                  <td style={{ padding: '6px 8px' }}>
+                    {employee?.employee_id || <span style={{ color: colors.gray400 }}>—</span>}
+                  </td>
+                </tr>
+                <tr>
+                  <td style={labelCellStyle}>
+                    {t('document.position')}
+                  </td>
+                  <td style={{ padding: '6px 8px' }}>
+                    {employee?.position || <span style={{ color: colors.gray400 }}>—</span>}
+                  </td>
+                  <td style={labelCellStyle}>
+                    {t('document.client')}
+                  </td>
+                  <td style={{ padding: '6px 8px' }}>
+                    {employee?.company || <span style={{ color: colors.gray400 }}>—</span>}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      case 'employees': {
+        const involved = getInvolvedEmployeesValue(report, block.field).filter(entry => entry.details);
+        const priorIncidents = getIncludedPriorIncidents(report);
+        const headerCellStyle = { ...labelCellStyle, fontSize: '10px' };
+        return (
+          <div key={index} style={{ marginBottom: '16px' }}>
+            <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden' }}>
+              <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
+                    <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.role')}</th>
+                    <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.name')}</th>
+                    <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.employeeId')}</th>
+                    <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.position')}</th>
+                    <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.client')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {involved.length > 0 ? involved.map((entry, row) => (
+                    <tr key={entry.id} style={row < involved.length - 1 ? { borderBottom: `1px solid ${colors.gray200}` } : undefined}>
+                      <td style={{ padding: '6px 8px', fontWeight: '500' }}>{t(`role.${entry.role}`)}</td>
+                      <td style={{ padding: '6px 8px' }}>{formatFullName(entry.details!)}</td>
+                      <td style={{ padding: '6px 8px' }}>{entry.details!.employee_id}</td>
+                      <td style={{ padding: '6px 8px' }}>{entry.details!.position || <span style={{ color: colors.gray400 }}>—</span>}</td>
+                      <td style={{ padding: '6px 8px' }}>{entry.details!.company || <span style={{ color: colors.gray400 }}>—</span>}</td>
+                    </tr>
+                  )) : (
+                    <tr>
+                      <td colSpan={5} style={{ padding: '6px 8px' }}>
+                        <span style={placeholderStyle}>{t('document.notSelected')}</span>
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {priorIncidents.length > 0 && (
+              <>
+                <h3 style={{ fontSize: '12px', fontWeight: 'bold', color: palette.heading, margin: '12px 0 4px' }}>
+                  {t('document.priorIncidents')}
+                </h3>
+                <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden' }}>
+                  <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+                    <thead>
+                      <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
+                        <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.employee')}</th>
+                        <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.incidentDate')}</th>
+                        <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.incident')}</th>
+                        <th style={{ ...headerCellStyle, textAlign: 'left' }}>{t('document.policyConcern')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {priorIncidents.map((incident, row) => (
+                        <tr key={`${incident.employeeId}_${incident.reportId}`} style={{ verticalAlign: 'top', ...(row < priorIncidents.length - 1 ? { borderBottom: `1px solid ${colors.gray200}` } : {}) }}>
+                          <td style={{ padding: '6px 8px', fontWeight: '500' }}>{incident.employeeName}</td>
+                          <td style={{ padding: '6px 8px', whiteSpace: 'nowrap' }}>{formatDate(incident.incidentDateTime, incident.timeZone, locale)}</td>
+                          <td style={{ padding: '6px 8px' }}>{[incident.reportType, incident.incidentWhat].filter(Boolean).join(': ')}</td>
+                          <td style={{ padding: '6px 8px' }}>{incident.policyConcern || <span style={{ color: colors.gray400 }}>—</span>}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      }
+
+      // Witnesses are optional, so nothing is shown until one has been recorded
+      case 'statements':
+        return (
+          <div key={index}>
+            {getRecordedStatements(report, block.field).map((witness, witnessIndex) => (
+              <div key={witness.id} style={{ marginBottom: '12px' }}>
+                <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
+                  {formatStatementTitle(witness, witnessIndex, t)}
+                </h3>
+                <p style={{ fontSize: '12px', color: colors.gray600, marginBottom: '4px' }}>
+                  <span style={{ fontWeight: '500' }}>{t('document.dateTaken')}</span>{' '}
+                  {witness.dateTaken ? formatReportDate(witness.dateTaken) : <span style={placeholderStyle}>{t('document.notSpecified')}</span>}
+                </p>
+                <div style={narrativeBoxStyle}>
+                  {witness.statement ? (
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{witness.statement}</ReactMarkdown>
+                  ) : (
+                    <p style={{ ...placeholderStyle, fontSize: '12px', margin: 0 }}>{t('document.noStatement')}</p>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+
+      // The timeline is optional, so nothing is shown until an event has been described
+      case 'timeline': {
+        const field = findTemplateField(template, block.field);
+        const events = getRecordedTimeline(report, block.field);
+        if (events.length === 0) return null;
+        const headerCellStyle = { ...labelCellStyle, fontSize: '10px', textAlign: 'left' as const };
+        return (
+          <div key={index} style={{ marginBottom: '16px' }}>
+            <h3 style={{ fontSize: '12px', fontWeight: 'bold', color: palette.heading, marginBottom: '4px' }}>
+              {field ? getDocumentLabel(field) : t('document.timeline')}
+            </h3>
+            <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden' }}>
+              <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
+                    <th style={headerCellStyle}>#</th>
+                    <th style={headerCellStyle}>{t('document.dateTime')}</th>
+                    <th style={headerCellStyle}>{t('document.event')}</th>
+                    <th style={headerCellStyle}>{t('document.actor')}</th>
+                    <th style={headerCellStyle}>{t('document.evidence')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event, row) => (
+                    <tr key={event.id} style={{ verticalAlign: 'top', ...(row < events.length - 1 ? { borderBottom: `1px solid ${colors.gray200}` } : {}) }}>
+                      <td style={{ padding: '6px 8px' }}>{row + 1}</td>
+                      <td style={{ padding: '6px 8px', whiteSpace: 'nowrap' }}>
+                        {event.at ? formatReportDateTime(event.at) : <span style={placeholderStyle}>{t('document.notSpecified')}</span>}
+                      </td>
+                      <td style={{ padding: '6px 8px' }}>{event.description}</td>
+                      <td style={{ padding: '6px 8px' }}>{formatTimelineActor(event, t) || <span style={{ color: colors.gray400 }}>—</span>}</td>
+                      <td style={{ padding: '6px 8px' }}>{formatTimelineEvidence(report, event) || <span style={{ color: colors.gray400 }}>—</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      }
+
+      case 'table': {
+        const fields = block.fields
+          .map(key => findTemplateField(template, key))
+          .filter((field): field is TemplateField => Boolean(field));
+        return (
+          <div key={index} style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden', marginBottom: '12px' }}>
+            <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
+              <tbody>
+                {fields.map((field, row) => (
+                  <tr key={field.key} style={row < fields.length - 1 ? { borderBottom: `1px solid ${colors.gray200}` } : undefined}>
+                    <td style={{ ...labelCellStyle, width: '80px' }}>
+                      {getDocumentLabel(field)}
+                    </td>
+                    <td style={{ padding: '6px 8px' }}>
+                      {renderValue(field)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      }
+
+      case 'box': {
+        const fields = block.fields
+          .map(key => findTemplateField(template, key))
+          .filter((field): field is TemplateField => Boolean(field));
+        if (block.optional && !fields.some(field => isFieldFilled(report, field))) return null;
+        return (
+          <div key={index} style={{ marginBottom: '12px' }}>
+            <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
+              {block.title}
+            </h3>
+            {fields.map(renderBoxField)}
+          </div>
+        );
+      }
+    }
+  };
 
   return (
     <div style={{
@@ -116,11 +408,11 @@ export default function DocumentPreview({
       border: `1px solid ${colors.gray300}`,
       borderRadius: '8px',
       fontSize: '14px',
-      fontFamily: 'Arial, sans-serif',
+      fontFamily: `${branding.fonts.body}, Arial, sans-serif`,
     }}>
       {/* Document Header */}
       <div style={{
-        backgroundColor: colors.red600,
+        backgroundColor: palette.banner,
         padding: '6px 16px',
         borderTopLeftRadius: '8px',
         borderTopRightRadius: '8px',
@@ -131,7 +423,7 @@ export default function DocumentPreview({
           fontWeight: 'bold',
           letterSpacing: '0.5px',
           margin: 0,
-        }}>PRIVATE & CONFIDENTIAL</p>
+        }}>{branding.confidentialityBanner}</p>
       </div>
       
       <div style={{ padding: '16px' }}>
@@ -145,234 +437,57 @@ export default function DocumentPreview({
           borderBottom: `1px solid ${colors.gray200}`,
         }}>
           <div>
-            <p style={{ fontSize: '12px', fontWeight: '600', color: colors.blue600, margin: 0 }}>
-              People and Culture Department
+            <p style={{ fontSize: '12px', fontWeight: '600', color: palette.primary, margin: 0 }}>
+              {branding.department}
             </p>
-            <h1 style={{ fontSize: '20px', fontWeight: 'bold', color: colors.gray900, margin: '4px 0' }}>
-              Incident Report
+            <h1 style={{ fontSize: '20px', fontWeight: 'bold', color: colors.gray900, margin: '4px 0', fontFamily: `${branding.fonts.heading}, Arial, sans-serif` }}>
+              {template.title}
             </h1>
             <p style={{ fontSize: '12px', color: colors.gray600, margin: 0 }}>
-              <span style={{ fontWeight: '500' }}>Date Prepared:</span> {formatDate(datePrepared)}
+              <span style={{ fontWeight: '500' }}>{t('document.datePrepared')}</span> {formatReportDate(datePrepared)}
             </p>
-          </div>
-          <div style={{ textAlign: 'right' }}>
-            <span style={{ fontSize: '20px', fontWeight: 'bold', color: colors.blue600 }}>go</span>
-            <span style={{ fontSize: '20px', fontWeight: 'bold', color: colors.blue800 }}>team</span>
-            <p style={{ fontSize: '10px', color: colors.gray500, fontStyle: 'italic', margin: 0 }}>
-              It&apos;s better together!
+            <p style={{ fontSize: '12px', color: colors.gray600, margin: 0 }}>
+              <span style={{ fontWeight: '500' }}>{t('document.status')}</span> {t(`status.${status}`)}
             </p>
           </div>
-        </div>
-
-        {/* Employee Details */}
-        <div style={{ marginBottom: '16px' }}>
-          <h2 style={{
-            fontSize: '12px',
-            fontWeight: 'bold',
-            color: colors.blue700,
-            textTransform: 'uppercase',
-            letterSpacing: '0.5px',
-            marginBottom: '8px',
-          }}>Employee Details</h2>
-          <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden' }}>
-            <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
-              <tbody>
-                <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800, width: '25%' }}>
-                    EMPLOYEE REPORTED
-                  </td>
-                  <td style={{ padding: '6px 8px', width: '25%' }}>
-                    {employeeDetails ? formatFullName(employeeDetails) : <span style={{ color: colors.gray400, fontStyle: 'italic' }}>Not selected</span>}
-                  </td>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800, width: '16%' }}>
-                    EMP ID
-                  </td>
-                  <td style={{ padding: '6px 8px' }}>
-                    {employeeDetails?.employee_id || <span style={{ color: colors.gray400 }}>—</span>}
-                  </td>
-                </tr>
-                <tr>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800 }}>
-                    POSITION
-                  </td>
-                  <td style={{ padding: '6px 8px' }}>
-                    {employeeDetails?.position || <span style={{ color: colors.gray400 }}>—</span>}
-                  </td>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800 }}>
-                    CLIENT
-                  </td>
-                  <td style={{ padding: '6px 8px' }}>
-                    {employeeDetails?.company || <span style={{ color: colors.gray400 }}>—</span>}
-                  </td>
-                </tr>
-              </tbody>
-            </table>
+          <div style={{ textAlign: 'right' }}>
+            {failedLogoSrc === logo.src ? (
+              <>
+                {branding.wordmark.map(part => (
+                  <span key={part.text} style={{ fontSize: '20px', fontWeight: 'bold', color: `#${part.color}` }}>
+                    {part.text}
+                  </span>
+                ))}
+                <p style={{ fontSize: '10px', color: colors.gray500, fontStyle: 'italic', margin: 0 }}>
+                  {branding.tagline}
+                </p>
+              </>
+            ) : (
+              <Image
+                src={logo.src}
+                alt="Company logo"
+                width={logo.width}
+                height={logo.height}
+                unoptimized
+                onError={() => setFailedLogoSrc(logo.src)}
+              />
+            )}
           </div>
         </div>
 
-        {/* Description of Incident */}
+        {/* Report Body - laid out by the template */}
         <div style={{ marginBottom: '16px' }}>
-          <h2 style={{
-            fontSize: '12px',
-            fontWeight: 'bold',
-            color: colors.blue700,
-            textTransform: 'uppercase',
-            letterSpacing: '0.5px',
-            marginBottom: '8px',
-          }}>Description of Incident</h2>
-          
-          <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden', marginBottom: '12px' }}>
-            <table style={{ width: '100%', fontSize: '12px', borderCollapse: 'collapse' }}>
-              <tbody>
-                <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800, width: '80px' }}>
-                    What:
-                  </td>
-                  <td style={{ padding: '6px 8px' }}>
-                    {incidentWhat || <span style={{ color: colors.gray400, fontStyle: 'italic' }}>Not specified</span>}
-                  </td>
-                </tr>
-                <tr style={{ borderBottom: `1px solid ${colors.gray200}` }}>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800 }}>
-                    Location:
-                  </td>
-                  <td style={{ padding: '6px 8px' }}>
-                    {incidentLocation || <span style={{ color: colors.gray400, fontStyle: 'italic' }}>Not specified</span>}
-                  </td>
-                </tr>
-                <tr>
-                  <td style={{ backgroundColor: colors.blue50, padding: '6px 8px', fontWeight: '600', color: colors.blue800 }}>
-                    Time:
-                  </td>
-                  <td style={{ padding: '6px 8px' }}>
-                    {formatDateTime(incidentDateTime)}
-                  </td>
-                </tr>
-              </tbody>
-            </table>
-          </div>
-
-          {/* Incident Details */}
-          <div style={{ marginBottom: '12px' }}>
-            <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
-              Incident Details:
-            </h3>
-            <div style={{
-              backgroundColor: colors.gray50,
-              borderRadius: '4px',
-              padding: '8px',
-              border: `1px solid ${colors.gray200}`,
-              minHeight: '40px',
-              color: colors.gray800,
-              fontSize: '12px',
-            }}>
-              {incidentDetails ? (
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>{incidentDetails}</ReactMarkdown>
-              ) : (
-                <p style={{ color: colors.gray400, fontStyle: 'italic', fontSize: '12px', margin: 0 }}>No details provided</p>
-              )}
-            </div>
-          </div>
-
-          {/* Findings */}
-          {findings && (
-            <div style={{ marginBottom: '12px' }}>
-              <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
-                Findings:
-              </h3>
-              <div style={{
-                backgroundColor: colors.gray50,
-                borderRadius: '4px',
-                padding: '8px',
-                border: `1px solid ${colors.gray200}`,
-                color: colors.gray800,
-                fontSize: '12px',
-              }}>
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>{findings}</ReactMarkdown>
-              </div>
-            </div>
-          )}
-
-          {/* Policy Violation */}
-          {policyViolation && (
-            <div style={{ marginBottom: '12px' }}>
-              <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
-                Policy/Code of Conduct Concerns:
-              </h3>
-              <div style={{
-                backgroundColor: colors.gray50,
-                borderRadius: '4px',
-                padding: '8px',
-                border: `1px solid ${colors.gray200}`,
-                color: colors.gray800,
-                fontSize: '12px',
-              }}>
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>{policyViolation}</ReactMarkdown>
-              </div>
-            </div>
-          )}
-
-          {/* Attachments */}
-          {attachments.length > 0 && (
-            <div style={{ marginBottom: '12px' }}>
-              <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
-                Attachments:
-              </h3>
-              <ul style={{ fontSize: '12px', paddingLeft: '16px', margin: 0, color: colors.gray700 }}>
-                {attachments.map((att, idx) => (
-                  <li key={att.id} style={{ marginBottom: '4px' }}>
-                    <span style={{ fontWeight: '500' }}>{att.nameOrLink || `Attachment ${idx + 1}`}</span>
-                    {att.description && (
-                      <span style={{ color: colors.gray500 }}> — {att.description}</span>
-                    )}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Impact */}
-          <div style={{ marginBottom: '12px' }}>
-            <h3 style={{ fontSize: '12px', fontWeight: '600', color: colors.gray700, marginBottom: '4px' }}>
-              Impact:
-            </h3>
-            <p style={{ fontSize: '12px', color: colors.gray600, marginBottom: '4px' }}>
-              <span style={{ fontWeight: '500' }}>Impacted Parties:</span>{' '}
-              {impactList || <span style={{ color: colors.gray400, fontStyle: 'italic' }}>None selected</span>}
-            </p>
-            <div style={{
-              backgroundColor: colors.gray50,
-              borderRadius: '4px',
-              padding: '8px',
-              border: `1px solid ${colors.gray200}`,
-              minHeight: '40px',
-              color: colors.gray800,
-              fontSize: '12px',
-            }}>
-              {impactDescription ? (
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>{impactDescription}</ReactMarkdown>
-              ) : (
-                <p style={{ color: colors.gray400, fontStyle: 'italic', fontSize: '12px', margin: 0 }}>No impact description provided</p>
-              )}
-            </div>
-          </div>
+          {template.document.map(renderBlock)}
         </div>
 
         {/* Signatories */}
         <div>
-          <h2 style={{
-            fontSize: '12px',
-            fontWeight: 'bold',
-            color: colors.blue700,
-            textTransform: 'uppercase',
-            letterSpacing: '0.5px',
-            marginBottom: '8px',
-          }}>Signatories</h2>
+          <h2 style={sectionHeadingStyle}>{t('document.signatories')}</h2>
           <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
             {/* Reported By */}
             <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', padding: '8px' }}>
               <p style={{ fontSize: '10px', fontWeight: '600', color: colors.gray500, textTransform: 'uppercase', marginBottom: '4px' }}>
-                Reported By
+                {t('document.reportedBy')}
               </p>
               <p style={{ fontSize: '12px', fontWeight: '500', color: colors.gray900, margin: 0 }}>
                 {formatFullName(reportedBy)}
@@ -381,15 +496,15 @@ export default function DocumentPreview({
                 {reportedBy.position || 'N/A'}
               </p>
               <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: `1px dashed ${colors.gray300}` }}>
-                <p style={{ fontSize: '10px', color: colors.gray500, margin: 0 }}>Signature: _________________</p>
-                <p style={{ fontSize: '10px', color: colors.gray500, marginTop: '4px' }}>Date: {formatDate(datePrepared)}</p>
+                <p style={{ fontSize: '10px', color: colors.gray500, margin: 0 }}>{t('document.signature')} _________________</p>
+                <p style={{ fontSize: '10px', color: colors.gray500, marginTop: '4px' }}>{t('document.date')} {formatReportDate(datePrepared)}</p>
               </div>
             </div>
 
             {/* Attested By */}
             <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', padding: '8px' }}>
               <p style={{ fontSize: '10px', fontWeight: '600', color: colors.gray500, textTransform: 'uppercase', marginBottom: '4px' }}>
-                Attested By
+                {t('document.attestedBy')}
               </p>
               {attestedBy ? (
                 <>
@@ -401,15 +516,88 @@ export default function DocumentPreview({
                   </p>
                 </>
               ) : (
-                <p style={{ fontSize: '12px', color: colors.gray400, fontStyle: 'italic', margin: 0 }}>Not selected</p>
+                <p style={{ fontSize: '12px', color: colors.gray400, fontStyle: 'italic', margin: 0 }}>{t('document.notSelected')}</p>
               )}
               <div style={{ marginTop: '8px', paddingTop: '8px', borderTop: `1px dashed ${colors.gray300}` }}>
-                <p style={{ fontSize: '10px', color: colors.gray500, margin: 0 }}>Signature: _________________</p>
-                <p style={{ fontSize: '10px', color: colors.gray500, marginTop: '4px' }}>Date: _________________</p>
+                <p style={{ fontSize: '10px', color: colors.gray500, margin: 0 }}>{t('document.signature')} _________________</p>
+                <p style={{ fontSize: '10px', color: colors.gray500, marginTop: '4px' }}>
+                  {t('document.date')} {approval ? formatReportDate(approval.at) : '_________________'}
+                </p>
               </div>
             </div>
           </div>
+
+          {/* Status History */}
+          {workflowHistory.length > 0 && (
+            <div style={{ marginTop: '12px', border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden' }}>
+              <table style={{ width: '100%', fontSize: '11px', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: palette.labelFill, color: palette.labelText, textAlign: 'left' }}>
+                    <th style={{ padding: '4px 8px' }}>{t('document.historyDate')}</th>
+                    <th style={{ padding: '4px 8px' }}>{t('document.historyAction')}</th>
+                    <th style={{ padding: '4px 8px' }}>{t('document.historyBy')}</th>
+                    <th style={{ padding: '4px 8px' }}>{t('document.historyComment')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {workflowHistory.map((entry, idx) => (
+                    <tr key={`${entry.at}-${idx}`} style={{ borderTop: `1px solid ${colors.gray200}`, color: colors.gray700 }}>
+                      <td style={{ padding: '4px 8px', whiteSpace: 'nowrap' }}>{formatReportDateTime(entry.at)}</td>
+                      <td style={{ padding: '4px 8px' }}>{t(`action.${entry.action}`)}</td>
+                      <td style={{ padding: '4px 8px' }}>{entry.actorName}</td>
+                      <td style={{ padding: '4px 8px' }}>{entry.comment || '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
+
+        {/* Evidence Integrity */}
+        {attachments.length > 0 && (
+          <div style={{ marginTop: '16px' }}>
+            <h2 style={sectionHeadingStyle}>{t('document.evidenceIntegrity')}</h2>
+            <p style={{ fontSize: '10px', color: colors.gray500, marginTop: 0, marginBottom: '6px' }}>
+              {t('document.evidenceIntegrityNote')}
+            </p>
+            <div style={{ border: `1px solid ${colors.gray300}`, borderRadius: '4px', overflow: 'hidden' }}>
+              <table style={{ width: '100%', fontSize: '11px', borderCollapse: 'collapse', tableLayout: 'fixed' }}>
+                <thead>
+                  <tr style={{ backgroundColor: palette.labelFill, color: palette.labelText, textAlign: 'left' }}>
+                    <th style={{ padding: '4px 8px', width: '6%' }}>#</th>
+                    <th style={{ padding: '4px 8px', width: '30%' }}>{t('document.attachment')}</th>
+                    <th style={{ padding: '4px 8px', width: '40%' }}>SHA-256</th>
+                    <th style={{ padding: '4px 8px', width: '24%' }}>{t('document.addedBy')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {attachments.map((att, idx) => (
+                    <tr key={att.id} style={{ borderTop: `1px solid ${colors.gray200}`, color: colors.gray700, verticalAlign: 'top' }}>
+                      <td style={{ padding: '4px 8px' }}>{idx + 1}</td>
+                      <td style={{ padding: '4px 8px', fontWeight: '500', overflowWrap: 'anywhere' }}>
+                        {att.file
+                          ? `${att.file.name} (${formatFileSize(att.file.size)})`
+                          : att.nameOrLink || t('document.attachmentNumber', { number: idx + 1 })}
+                      </td>
+                      <td style={{ padding: '4px 8px', fontFamily: 'monospace', fontSize: '10px', overflowWrap: 'anywhere' }}>
+                        {formatAttachmentDigest(att, t)}
+                      </td>
+                      <td style={{ padding: '4px 8px' }}>
+                        {att.addedBy ? `${att.addedBy.name}, ${formatReportDateTime(att.addedBy.at)}` : t('document.notRecorded')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        <p style={{ fontSize: '10px', color: colors.gray500, textAlign: 'center', marginTop: '16px', marginBottom: 0 }}>
+          {branding.footerText}
+        </p>
       </div>
     </div>
   );
@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import type { EmployeeDetails } from '@/lib/incident-report';
+import type { Translator } from '@/lib/i18n';
+import { MIN_SEARCH_LENGTH } from '@/lib/employee-search';
+
+interface EmployeeComboboxProps {
+  id: string;
+  // What is typed in the box: part of a name or email, or an employee ID
+  value: string;
+  onChange: (value: string) => void;
+  // A suggestion was picked; the box then holds the employee's ID
+  onSelect: (employee: EmployeeDetails) => void;
+  // Enter without a suggestion picked, or leaving the box after typing: look up what was typed as an ID
+  onLookup: () => void;
+  purpose: 'subject' | 'attester';
+  t: Translator;
+  placeholder?: string;
+  required?: boolean;
+}
+
+type SearchStatus = 'idle' | 'searching' | 'done' | 'error';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 250;
+
+// Employee search as you type, following the WAI-ARIA combobox pattern: arrow keys move through
+// the suggestions, Enter picks one and Escape closes the list
+export default function EmployeeCombobox({
+  id,
+  value,
+  onChange,
+  onSelect,
+  onLookup,
+  purpose,
+  t,
+  placeholder,
+  required = false,
+}: EmployeeComboboxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [results, setResults] = useState<EmployeeDetails[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [status, setStatus] = useState<SearchStatus>('idle');
+  // Only search for what the reporter types, not for values restored from a draft or set by a pick
+  const [query, setQuery] = useState<string | null>(null);
+  // The value last picked, looked up or restored, which needs no lookup when the box is left
+  const settledValue = useRef(value.trim());
+  const searchRequestId = useRef(0);
+  const listId = `${id}_listbox`;
+
+  useEffect(() => {
+    if (query === null) settledValue.current = value.trim();
+  }, [value, query]);
+
+  useEffect(() => {
+    const text = query?.trim() || '';
+    if (text.length < MIN_SEARCH_LENGTH) return;
+
+    const timer = setTimeout(async () => {
+      const requestId = ++searchRequestId.current;
+      setStatus('searching');
+      try {
+        const response = await axios.post('/api/employee/search', { query: text, purpose });
+        // Ignore answers to older queries that arrive after a newer one
+        if (requestId !== searchRequestId.current) return;
+        setResults(response.data.employees);
+        setActiveIndex(-1);
+        setStatus('done');
+      } catch (err) {
+        if (requestId !== searchRequestId.current) return;
+        console.error('Employee search error:', err);
+        setResults([]);
+        setStatus('error');
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, purpose]);
+
+  // Stop searching for what was typed
+  const settle = () => {
+    searchRequestId.current++;
+    setQuery(null);
+    setIsOpen(false);
+    setResults([]);
+    setActiveIndex(-1);
+    setStatus('idle');
+  };
+
+  const handleChange = (text: string) => {
+    onChange(text);
+    setQuery(text);
+    setIsOpen(true);
+    // Too short to search: forget the last results, including any still on their way
+    if (text.trim().length < MIN_SEARCH_LENGTH) {
+      searchRequestId.current++;
+      setResults([]);
+      setStatus('idle');
+    }
+  };
+
+  const select = (employee: EmployeeDetails) => {
+    settle();
+    onSelect(employee);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (results.length === 0 ? -1 : (index + 1) % results.length));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (results.length === 0 ? -1 : (index <= 0 ? results.length : index) - 1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (isOpen && activeIndex >= 0 && results[activeIndex]) {
+          select(results[activeIndex]);
+        } else {
+          settle();
+          onLookup();
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        }
+        break;
+    }
+  };
+
+  // Leaving the box after typing without picking anyone looks up what was typed, as before
+  const handleBlur = () => {
+    if (query === null) {
+      setIsOpen(false);
+      return;
+    }
+    settle();
+    if (value.trim() !== settledValue.current) onLookup();
+  };
+
+  const statusMessage =
+    status === 'searching' ? t('form.searchingEmployees')
+    : status === 'error' ? t('form.employeeSearchFailed')
+    : status === 'done' && results.length === 0 ? t('form.noEmployeesFound')
+    : status === 'done' ? t('form.employeesFound', { count: results.length })
+    : '';
+  const showList = isOpen && status !== 'idle';
+
+  return (
+    <div className="relative flex-1">
+      <input
+        type="text"
+        id={id}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList && activeIndex >= 0 ? `${id}_option_${activeIndex}` : undefined}
+        autoComplete="off"
+        value={value}
+        onChange={(e) => handleChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+        required={required}
+      />
+      {showList && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg"
+        >
+          {results.map((employee, index) => (
+            <li
+              key={employee.employee_id}
+              id={`${id}_option_${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the input so picking doesn't count as leaving it
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(employee)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-blue-50' : ''}`}
+            >
+              <p className="text-sm font-medium text-gray-900">{employee.employee_name}</p>
+              <p className="text-xs text-gray-500">
+                #{employee.employee_id}
+                {employee.position && ` · ${employee.position}`}
+                {employee.company && ` · ${employee.company}`}
+              </p>
+            </li>
+          ))}
+          {results.length === 0 && (
+            <li role="presentation" className={`px-3 py-2 text-sm ${status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+              {statusMessage}
+            </li>
+          )}
+        </ul>
+      )}
+      <p className="sr-only" aria-live="polite">{isOpen ? statusMessage : ''}</p>
+    </div>
+  );
+}
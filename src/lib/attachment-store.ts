@@ -0,0 +1,151 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import type { AttachmentFile, EmployeeDetails, IncidentReport } from '@/lib/incident-report';
+import { ATTACHMENT_TYPES, getFileExtension, getImageFiles, getImageType, type AttachmentImage } from '@/lib/attachments';
+
+// An uploaded file's metadata, plus who uploaded it and when
+export interface StoredAttachment extends AttachmentFile {
+  uploadedById: string;
+  uploadedByName: string;
+  uploadedAt: string;
+}
+
+// The metadata a report keeps for a stored file
+export const toAttachmentFile = ({ id, name, mimeType, size, sha256, width, height }: StoredAttachment): AttachmentFile => ({
+  id,
+  name,
+  mimeType,
+  size,
+  sha256,
+  ...(width !== undefined && height !== undefined ? { width, height } : {}),
+});
+
+// Storage adapter interface for evidence files - implement this to keep uploads in object storage instead.
+// Files are never changed once stored; a report refers to them by ID.
+export interface AttachmentStore {
+  save(file: { name: string; data: Buffer }, uploadedBy: EmployeeDetails): Promise<StoredAttachment>;
+  get(id: string): Promise<StoredAttachment | null>;
+  read(id: string): Promise<Buffer | null>;
+}
+
+// Attachment IDs are generated by us, but they arrive back through URLs - never let one escape the data directory
+const isValidAttachmentId = (id: string) => /^[a-f0-9-]{36}$/.test(id);
+
+// Width and height from the header of a PNG, GIF or JPEG file, or null if it isn't a readable image
+export function readImageSize(data: Buffer, type: 'png' | 'jpg' | 'gif'): { width: number; height: number } | null {
+  if (type === 'png') {
+    const signature = '89504e470d0a1a0a';
+    if (data.length < 24 || data.subarray(0, 8).toString('hex') !== signature) return null;
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (type === 'gif') {
+    if (data.length < 10 || !data.subarray(0, 6).toString('latin1').startsWith('GIF8')) return null;
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  // JPEG: walk the segments until a start-of-frame marker, which holds the dimensions
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// File-based store: <id>.bin holds the bytes and <id>.json the metadata, under ATTACHMENTS_DATA_DIR
+export class FileAttachmentStore implements AttachmentStore {
+  constructor(private readonly dir: string) {}
+
+  private filePath(id: string, extension: 'bin' | 'json') {
+    return path.join(this.dir, `${id}.${extension}`);
+  }
+
+  async save(file: { name: string; data: Buffer }, uploadedBy: EmployeeDetails): Promise<StoredAttachment> {
+    const mimeType = ATTACHMENT_TYPES[getFileExtension(file.name)] || 'application/octet-stream';
+    const imageType = getImageType({ mimeType });
+    const size = imageType ? readImageSize(file.data, imageType) : null;
+    if (imageType && !size) {
+      throw new Error(`Not a valid ${imageType.toUpperCase()} image: ${file.name}`);
+    }
+
+    const attachment: StoredAttachment = {
+      id: randomUUID(),
+      name: path.basename(file.name),
+      mimeType,
+      size: file.data.length,
+      sha256: createHash('sha256').update(file.data).digest('hex'),
+      ...(size || {}),
+      uploadedById: String(uploadedBy.employee_id),
+      uploadedByName: uploadedBy.employee_name,
+      uploadedAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(this.dir, { recursive: true });
+    // The metadata is written last, so a file only becomes visible once its bytes are complete
+    await fs.writeFile(this.filePath(attachment.id, 'bin'), file.data, { flag: 'wx' });
+    await fs.writeFile(this.filePath(attachment.id, 'json'), JSON.stringify(attachment, null, 2), { encoding: 'utf8', flag: 'wx' });
+    return attachment;
+  }
+
+  async get(id: string): Promise<StoredAttachment | null> {
+    if (!isValidAttachmentId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(id, 'json'), 'utf8')) as StoredAttachment;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async read(id: string): Promise<Buffer | null> {
+    if (!(await this.get(id))) return null;
+    try {
+      return await fs.readFile(this.filePath(id, 'bin'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+let store: AttachmentStore | null = null;
+
+// Uploads live next to the reports, so they share the REPORT_STORE backend setting
+export function getAttachmentStore(): AttachmentStore {
+  if (store) return store;
+
+  const backend = process.env.REPORT_STORE || 'file';
+
+  switch (backend) {
+    case 'file':
+      store = new FileAttachmentStore(
+        process.env.ATTACHMENTS_DATA_DIR || path.join(process.cwd(), 'data', 'attachments')
+      );
+      break;
+    default:
+      throw new Error(`Unknown REPORT_STORE backend: ${backend}`);
+  }
+
+  return store;
+}
+
+// Server-side counterpart of loadAttachmentImages
+export async function readAttachmentImages(report: Pick<IncidentReport, 'attachments'>): Promise<AttachmentImage[]> {
+  const images = await Promise.all(getImageFiles(report).map(async (file): Promise<AttachmentImage | null> => {
+    const data = await getAttachmentStore().read(file.id);
+    if (!data) return null;
+    return {
+      id: file.id,
+      type: getImageType(file)!,
+      data: data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer,
+    };
+  }));
+  return images.filter((image): image is AttachmentImage => image !== null);
+}
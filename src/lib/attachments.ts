@@ -0,0 +1,135 @@
+// Evidence files uploaded with a report: what may be uploaded, and loading images for the DOCX appendix.
+// The form checks the limits before uploading and POST /api/attachments checks them again.
+// Server-side storage lives in attachment-store.ts, and the custody log in evidence-custody.ts;
+// this module is safe to import from client components.
+
+import { DEFAULT_LOCALE, getTranslator, type Translator } from '@/lib/i18n';
+import type { Attachment, AttachmentFile, IncidentReport } from '@/lib/incident-report';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Accepted file extensions and the content type each one is stored and served with.
+// Screenshots, chat and log exports, emails and office documents - nothing a browser would run.
+export const ATTACHMENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  eml: 'message/rfc822',
+  msg: 'application/vnd.ms-outlook',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Images the DOCX can embed as figures, by content type
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+};
+
+export interface AttachmentImage {
+  // AttachmentFile.id
+  id: string;
+  type: 'png' | 'jpg' | 'gif';
+  data: ArrayBuffer;
+}
+
+// One entry of a report's chain-of-custody log (see evidence-custody.ts)
+export type CustodyAction = 'added' | 'edited' | 'removed' | 'link_captured' | 'link_failed' | 'verified' | 'altered';
+
+export const CUSTODY_ACTION_LABELS: Record<CustodyAction, string> = {
+  added: 'Added',
+  edited: 'Edited',
+  removed: 'Removed',
+  link_captured: 'Link captured',
+  link_failed: 'Link could not be fetched',
+  verified: 'Digest verified',
+  altered: 'Digest mismatch',
+};
+
+export interface CustodyEvent {
+  at: string;
+  action: CustodyAction;
+  attachmentId: string;
+  attachmentName: string;
+  // The digest the event is about, if there is one
+  sha256: string | null;
+  actorId: string;
+  actorName: string;
+  note: string;
+}
+
+export const getFileExtension = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+export const getImageType = (file: Pick<AttachmentFile, 'mimeType'>) => IMAGE_TYPES[file.mimeType] ?? null;
+
+// Why a file can't be uploaded, or null if it can
+export function checkAttachmentFile(file: { name: string; size: number }): string | null {
+  if (!Object.hasOwn(ATTACHMENT_TYPES, getFileExtension(file.name))) {
+    return `${file.name}: this file type can't be attached. Allowed types: ${Object.keys(ATTACHMENT_TYPES).join(', ')}.`;
+  }
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`;
+  }
+  return null;
+}
+
+// e.g. "512 B", "240 KB", "3.4 MB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// The web address of a linked attachment, or null for uploads and documents described by name
+export function getAttachmentLinkUrl(attachment: Pick<Attachment, 'nameOrLink' | 'file'>): string | null {
+  if (attachment.file) return null;
+  try {
+    const url = new URL(attachment.nameOrLink.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// The SHA-256 column of the evidence digest table: the digest, or why there isn't one
+export function formatAttachmentDigest(attachment: Attachment, t: Translator = getTranslator(DEFAULT_LOCALE)): string {
+  if (attachment.file) return attachment.file.sha256;
+  if (attachment.link?.sha256) return attachment.link.sha256;
+  if (attachment.link) return t('document.digestFailed', { error: attachment.link.error });
+  return t(getAttachmentLinkUrl(attachment) ? 'document.digestPending' : 'document.digestNotApplicable');
+}
+
+// Where the browser fetches a stored file. Anyone but the uploader must say which report it belongs to.
+export const getAttachmentFileUrl = (fileId: string, reportId?: string | null) =>
+  `/api/attachments/${encodeURIComponent(fileId)}${reportId ? `?reportId=${encodeURIComponent(reportId)}` : ''}`;
+
+// The uploaded image files of a report - what generateIncidentReportDocx embeds in its appendix
+export const getImageFiles = (report: Pick<IncidentReport, 'attachments'>): AttachmentFile[] =>
+  report.attachments.flatMap(attachment => (attachment.file && getImageType(attachment.file) ? [attachment.file] : []));
+
+// Load a report's images in the browser; images that fail to load are listed as files instead
+export async function loadAttachmentImages(
+  report: Pick<IncidentReport, 'attachments'>,
+  reportId?: string | null
+): Promise<AttachmentImage[]> {
+  const images = await Promise.all(getImageFiles(report).map(async (file): Promise<AttachmentImage | null> => {
+    try {
+      const response = await fetch(getAttachmentFileUrl(file.id, reportId));
+      if (!response.ok) return null;
+      return { id: file.id, type: getImageType(file)!, data: await response.arrayBuffer() };
+    } catch {
+      return null;
+    }
+  }));
+  return images.filter((image): image is AttachmentImage => image !== null);
+}
@@ -0,0 +1,63 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_BRANDING, type BrandingProfile, type BrandingRule } from '@/lib/branding';
+
+// Per-company branding profiles, e.g. config/branding.json (see config/branding.example.json):
+// {
+//   "profiles": [{
+//     "pattern": "acme",
+//     "profile": { "id": "acme", "logo": { "src": "/logos/acme.png", "type": "png", "width": 120, "height": 40 }, ... }
+//   }]
+// }
+// A profile only lists what differs from the GoTeam default; its palette may list only some colors.
+interface BrandingFile {
+  profiles?: { pattern: string; profile: Partial<Omit<BrandingProfile, 'palette'>> & { palette?: Partial<BrandingProfile['palette']> } }[];
+}
+
+let cachedRules: { loadedAt: number; rules: BrandingRule[] } | null = null;
+const BRANDING_CACHE_MS = 60 * 1000;
+
+const isValidPattern = (pattern: unknown): pattern is string => {
+  if (typeof pattern !== 'string' || !pattern) return false;
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readBrandingFile = async (): Promise<BrandingRule[]> => {
+  const filePath = process.env.BRANDING_FILE || path.join(process.cwd(), 'config', 'branding.json');
+  let file: BrandingFile = {};
+
+  try {
+    file = JSON.parse(await fs.readFile(filePath, 'utf8')) as BrandingFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read branding file:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return (Array.isArray(file.profiles) ? file.profiles : []).flatMap(({ pattern, profile }) => {
+    if (!isValidPattern(pattern) || !profile || typeof profile !== 'object') {
+      console.error('Skipping invalid branding profile:', pattern);
+      return [];
+    }
+    return [{
+      pattern,
+      profile: { ...DEFAULT_BRANDING, ...profile, palette: { ...DEFAULT_BRANDING.palette, ...profile.palette } },
+    }];
+  });
+};
+
+// Server-side counterpart of loadBrandingRules: the rules in the order they are tried; companies matching none get DEFAULT_BRANDING
+export async function readBrandingRules(): Promise<BrandingRule[]> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < BRANDING_CACHE_MS) {
+    return cachedRules.rules;
+  }
+
+  const rules = await readBrandingFile();
+  cachedRules = { loadedAt: Date.now(), rules };
+  return rules;
+}
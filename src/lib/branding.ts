@@ -0,0 +1,83 @@
+// Branding profiles for the generated documents: logo, department, palette, fonts, footer and banner.
+// The profile is picked from the company on the employee record, so every client company gets
+// the same look in the preview, the Word document and the PDF.
+// Pure module - safe to import from client components.
+
+import { getSubjects, type IncidentReportDocument } from '@/lib/incident-report';
+import type { CompanyLogo } from '@/lib/logos';
+
+// Hex colors without the leading '#', as the DOCX generator expects them
+export interface BrandPalette {
+  primary: string; // department name and the rule under the title
+  heading: string; // section headings and content box titles
+  labelText: string; // table label cells
+  labelFill: string;
+  banner: string; // confidentiality banner background
+}
+
+export interface BrandingProfile {
+  id: string;
+  logo: CompanyLogo; // file under public/; the wordmark is used when it can't be loaded
+  wordmark: { text: string; color: string }[];
+  tagline: string;
+  department: string;
+  palette: BrandPalette;
+  // Word and the preview only - PDFs always embed DejaVu Sans, as PDF/A requires
+  fonts: { body: string; heading: string };
+  footerText: string;
+  confidentialityBanner: string;
+}
+
+export const DEFAULT_BRANDING: BrandingProfile = {
+  id: 'goteam',
+  logo: { src: '/logos/goteam.png', type: 'png', width: 120, height: 40 },
+  wordmark: [
+    { text: 'Go', color: '2563eb' },
+    { text: 'Team', color: '1e40af' },
+  ],
+  tagline: "It's better together!",
+  department: 'People and Culture Department',
+  palette: {
+    primary: '2563eb',
+    heading: '1d4ed8',
+    labelText: '1e40af',
+    labelFill: 'eff6ff',
+    banner: 'dc2626',
+  },
+  fonts: { body: 'Calibri', heading: 'Calibri' },
+  footerText: 'GoTeam People and Culture - for authorized recipients only',
+  confidentialityBanner: 'PRIVATE & CONFIDENTIAL',
+};
+
+// A per-company profile, matched case-insensitively against the company on the employee record.
+// The rules live in the branding file (see branding-config.ts), which the browser gets from /api/branding.
+export interface BrandingRule {
+  pattern: string;
+  profile: BrandingProfile;
+}
+
+export function getBrandingProfile(company: string | null | undefined, rules: BrandingRule[]): BrandingProfile {
+  return rules.find(rule => new RegExp(rule.pattern, 'i').test(company || ''))?.profile || DEFAULT_BRANDING;
+}
+
+// Documents carry the branding of the first subject's company, or the reporter's if no subject is selected yet
+export const getBrandingForReport = (report: Pick<IncidentReportDocument, 'involvedEmployees' | 'reportedBy'>, rules: BrandingRule[]) =>
+  getBrandingProfile(getSubjects(report)[0]?.company || report.reportedBy.company, rules);
+
+let browserRules: Promise<BrandingRule[]> | null = null;
+
+// Load the branding rules in the browser, once per page; documents use the default profile if they can't be loaded
+export function loadBrandingRules(): Promise<BrandingRule[]> {
+  if (!browserRules) {
+    browserRules = fetch('/api/branding')
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`HTTP ${response.status}`))))
+      .then((body: { profiles: BrandingRule[] }) => body.profiles)
+      .catch(error => {
+        console.error('Failed to load branding profiles:', error);
+        // Try again next time
+        browserRules = null;
+        return [];
+      });
+  }
+  return browserRules;
+}
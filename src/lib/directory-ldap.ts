@@ -0,0 +1,140 @@
+import { Client, escapeFilter, type Entry } from 'ldapts';
+import { parseEmployeeDetails, type EmployeeDetails } from '@/lib/incident-report';
+import type { AuthenticationResult, DirectoryProvider, EmployeeLookupResult } from '@/lib/directory';
+import { rankEmployees } from '@/lib/employee-search';
+
+// The directory as an LDAP server (OpenLDAP, Active Directory, FreeIPA...). Employees are the entries
+// under the base DN matching the user filter; which attribute holds each field is configurable.
+
+interface LdapAttributes {
+  employeeId?: string;
+  name?: string;
+  email?: string;
+  position?: string;
+  company?: string;
+}
+
+export interface LdapDirectoryOptions {
+  url: string;
+  baseDN: string;
+  // Searches run anonymously without a bind DN
+  bindDN?: string;
+  bindPassword?: string;
+  userFilter?: string;
+  attributes?: LdapAttributes;
+}
+
+// inetOrgPerson attributes; Active Directory keeps the company in "company" instead of "o"
+const DEFAULT_ATTRIBUTES: Required<LdapAttributes> = {
+  employeeId: 'employeeNumber',
+  name: 'displayName',
+  email: 'mail',
+  position: 'title',
+  company: 'o',
+};
+
+const DEFAULT_USER_FILTER = '(objectClass=person)';
+
+// Directory lookups answer a person waiting at the form
+const LDAP_TIMEOUT_MS = 10000;
+
+// The server stops at the size limit in no particular order, so substring searches fetch this many times
+// the results wanted and rank them here before cutting down
+const SEARCH_CANDIDATE_FACTOR = 5;
+
+// The first value of an attribute, as text
+const attributeValue = (entry: Entry, attribute: string): string | undefined => {
+  const value = entry[attribute];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined ? undefined : first.toString();
+};
+
+export class LdapDirectoryProvider implements DirectoryProvider {
+  private readonly attributes: Required<LdapAttributes>;
+  private readonly userFilter: string;
+
+  constructor(private readonly options: LdapDirectoryOptions) {
+    // Unset attributes keep their defaults
+    const configured = Object.fromEntries(
+      Object.entries(options.attributes || {}).filter(([, attribute]) => attribute)
+    );
+    this.attributes = { ...DEFAULT_ATTRIBUTES, ...configured };
+    this.userFilter = options.userFilter || DEFAULT_USER_FILTER;
+  }
+
+  private toEmployee(entry: Entry): EmployeeDetails | undefined {
+    const { employeeId, name, email, position, company } = this.attributes;
+    const record = parseEmployeeDetails({
+      employee_id: attributeValue(entry, employeeId),
+      employee_name: attributeValue(entry, name),
+      employee_email: attributeValue(entry, email),
+      position: attributeValue(entry, position),
+      company: attributeValue(entry, company),
+    });
+    return record || undefined;
+  }
+
+  // Employees matching a filter (already escaped), within the user filter
+  private async search(filter: string, sizeLimit: number): Promise<EmployeeDetails[]> {
+    const client = new Client({
+      url: this.options.url,
+      timeout: LDAP_TIMEOUT_MS,
+      connectTimeout: LDAP_TIMEOUT_MS,
+    });
+
+    try {
+      if (this.options.bindDN) {
+        await client.bind(this.options.bindDN, this.options.bindPassword);
+      }
+      const { searchEntries } = await client.search(this.options.baseDN, {
+        scope: 'sub',
+        filter: `(&${this.userFilter}${filter})`,
+        attributes: Object.values(this.attributes),
+        sizeLimit,
+      });
+      // Entries without an employee ID and name are skipped
+      return searchEntries
+        .map(entry => this.toEmployee(entry))
+        .filter((employee): employee is EmployeeDetails => Boolean(employee));
+    } finally {
+      await client.unbind();
+    }
+  }
+
+  private async findEmployee(employeeId: string): Promise<EmployeeDetails | undefined> {
+    const [employee] = await this.search(escapeFilter`(${this.attributes.employeeId}=${employeeId.trim()})`, 1);
+    return employee;
+  }
+
+  async authenticate(employeeId: string, email: string): Promise<AuthenticationResult> {
+    const employee = await this.findEmployee(employeeId);
+    if (!employee) return { status: 'not_found' };
+    if (employee.employee_email.trim().toLowerCase() !== email.trim().toLowerCase()) {
+      return { status: 'email_mismatch' };
+    }
+    return { status: 'authenticated', employee };
+  }
+
+  async lookupEmployee(employeeId: string): Promise<EmployeeLookupResult> {
+    const employee = await this.findEmployee(employeeId);
+    return employee ? { found: true, employee } : { found: false };
+  }
+
+  // Every word of the query must appear in the name or email, or start the employee ID. Exact matches of the
+  // whole query are searched for separately, so they are never lost among the partial ones.
+  async searchEmployees(query: string, limit: number): Promise<EmployeeDetails[]> {
+    const { employeeId, name, email } = this.attributes;
+    const trimmed = query.trim();
+    const terms = trimmed.split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    const filter = terms
+      .map(term => escapeFilter`(|(${name}=*${term}*)(${email}=*${term}*)(${employeeId}=${term}*))`)
+      .join('');
+    const [exact, partial] = await Promise.all([
+      this.search(escapeFilter`(|(${employeeId}=${trimmed})(${name}=${trimmed})(${email}=${trimmed}))`, limit),
+      this.search(`(&${filter})`, limit * SEARCH_CANDIDATE_FACTOR),
+    ]);
+    return rankEmployees([...exact, ...partial], trimmed, limit);
+  }
+}
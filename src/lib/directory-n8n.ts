@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { parseEmployeeDetails, type EmployeeDetails } from '@/lib/incident-report';
+import type { AuthenticationResult, DirectoryProvider, EmployeeLookupResult } from '@/lib/directory';
+
+// The directory as n8n workflows, one webhook per operation:
+// N8N_AUTH_WEBHOOK_URL, N8N_EMPLOYEE_LOOKUP_WEBHOOK_URL and N8N_EMPLOYEE_SEARCH_WEBHOOK_URL
+
+// Login and lookup allow the workflows plenty of time; typeahead results are useless once the
+// reporter has typed on, so searches don't wait long
+const WEBHOOK_TIMEOUT_MS = 600000; // 10 minutes
+const SEARCH_TIMEOUT_MS = 10000;
+
+// What every workflow answers with, taken from
+// { output: [{ headers: [], original: { status: 200|401|404, message: string, data?: array }, exception: null }], status: 'success', ... }
+interface WebhookResult {
+  status: number;
+  message?: string;
+  data?: unknown[];
+}
+
+const callWebhook = async (
+  envName: string,
+  payload: Record<string, unknown>,
+  timeout: number = WEBHOOK_TIMEOUT_MS
+): Promise<WebhookResult> => {
+  const n8nWebhookUrl = process.env[envName];
+  if (!n8nWebhookUrl) {
+    throw new Error(`${envName} is not defined`);
+  }
+
+  const response = await axios.post(n8nWebhookUrl, {
+    ...payload,
+    timestamp: new Date().toISOString(),
+  }, {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    timeout,
+  });
+
+  const n8nResponse = response.data;
+
+  if (!n8nResponse || !n8nResponse.output || !Array.isArray(n8nResponse.output) || n8nResponse.output.length === 0) {
+    console.error('Unexpected n8n response format - missing output array:', n8nResponse);
+    throw new Error('Unexpected n8n response format');
+  }
+
+  const data = n8nResponse.output[0]?.original;
+
+  if (!data || typeof data.status !== 'number') {
+    console.error('Unexpected n8n response format - no original data:', n8nResponse.output[0]);
+    throw new Error('Unexpected n8n response format');
+  }
+
+  return data;
+};
+
+// The first record of a successful answer
+const firstRecord = (result: WebhookResult): EmployeeDetails | undefined =>
+  (result.data && parseEmployeeDetails(result.data[0])) || undefined;
+
+const unexpected = (result: WebhookResult): never => {
+  console.error('Unexpected n8n response:', result);
+  throw new Error('Unexpected n8n response');
+};
+
+export class N8nDirectoryProvider implements DirectoryProvider {
+  async authenticate(employeeId: string, email: string): Promise<AuthenticationResult> {
+    const result = await callWebhook('N8N_AUTH_WEBHOOK_URL', { userId: employeeId, email });
+
+    if (result.status === 200 && result.message === 'Authenticated') {
+      const employee = firstRecord(result);
+      return employee ? { status: 'authenticated', employee } : unexpected(result);
+    }
+    if (result.status === 401 && result.message === 'Unauthorized: Email does not match') {
+      return { status: 'email_mismatch' };
+    }
+    if (result.status === 404 && result.message === 'User Not Found') {
+      return { status: 'not_found' };
+    }
+    return unexpected(result);
+  }
+
+  async lookupEmployee(employeeId: string): Promise<EmployeeLookupResult> {
+    const result = await callWebhook('N8N_EMPLOYEE_LOOKUP_WEBHOOK_URL', { employee_id: employeeId });
+
+    if (result.status === 200) {
+      const employee = firstRecord(result);
+      return employee ? { found: true, employee } : unexpected(result);
+    }
+    if (result.status === 404) {
+      return { found: false };
+    }
+    return unexpected(result);
+  }
+
+  async searchEmployees(query: string, limit: number): Promise<EmployeeDetails[]> {
+    const result = await callWebhook('N8N_EMPLOYEE_SEARCH_WEBHOOK_URL', { query, limit }, SEARCH_TIMEOUT_MS);
+
+    // No one matched
+    if (result.status === 404) return [];
+    if (result.status !== 200 || !Array.isArray(result.data)) return unexpected(result);
+
+    // Entries without an employee ID and name are skipped
+    return result.data
+      .map(parseEmployeeDetails)
+      .filter((employee): employee is EmployeeDetails => Boolean(employee));
+  }
+}
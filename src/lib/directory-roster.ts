@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseEmployeeDetails, type EmployeeDetails } from '@/lib/incident-report';
+import { rankEmployees } from '@/lib/employee-search';
+import type { AuthenticationResult, DirectoryProvider, EmployeeLookupResult } from '@/lib/directory';
+
+// The directory as a local roster file, for offline development, tests and small sites.
+// JSON: an array of employee records, or { "employees": [...] }. CSV: a header row naming the
+// columns (employee_id, employee_name, employee_email, position, company), then one employee per row.
+// The file is read again whenever it changes.
+
+// Splits CSV text into rows of fields. Fields may be quoted, with "" for a quote inside them.
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+
+  // Blank lines aren't employees
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+// Spreadsheet exports often start with a byte order mark
+const parseRosterCsv = (text: string): unknown[] => {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = header.map(column => column.trim());
+  return rows.map(fields => Object.fromEntries(columns.map((column, index) => [column, fields[index]?.trim() ?? ''])));
+};
+
+const parseRosterJson = (text: string): unknown[] => {
+  const parsed = JSON.parse(text);
+  const entries = Array.isArray(parsed) ? parsed : parsed?.employees;
+  if (!Array.isArray(entries)) {
+    throw new Error('Roster file must hold an array of employees or { "employees": [...] }');
+  }
+  return entries;
+};
+
+export class RosterDirectoryProvider implements DirectoryProvider {
+  private roster: { modifiedAt: number; employees: EmployeeDetails[] } | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  private async loadEmployees(): Promise<EmployeeDetails[]> {
+    const { mtimeMs } = await fs.stat(this.filePath);
+    if (this.roster && this.roster.modifiedAt === mtimeMs) return this.roster.employees;
+
+    const text = await fs.readFile(this.filePath, 'utf8');
+    const entries = path.extname(this.filePath).toLowerCase() === '.csv' ? parseRosterCsv(text) : parseRosterJson(text);
+
+    // Entries without an employee ID and name are skipped
+    const employees = entries
+      .map(parseEmployeeDetails)
+      .filter((employee): employee is EmployeeDetails => Boolean(employee));
+
+    this.roster = { modifiedAt: mtimeMs, employees };
+    return employees;
+  }
+
+  private async findEmployee(employeeId: string): Promise<EmployeeDetails | undefined> {
+    const employees = await this.loadEmployees();
+    return employees.find(employee => String(employee.employee_id) === employeeId.trim());
+  }
+
+  async authenticate(employeeId: string, email: string): Promise<AuthenticationResult> {
+    const employee = await this.findEmployee(employeeId);
+    if (!employee) return { status: 'not_found' };
+    if (employee.employee_email.trim().toLowerCase() !== email.trim().toLowerCase()) {
+      return { status: 'email_mismatch' };
+    }
+    return { status: 'authenticated', employee };
+  }
+
+  async lookupEmployee(employeeId: string): Promise<EmployeeLookupResult> {
+    const employee = await this.findEmployee(employeeId);
+    return employee ? { found: true, employee } : { found: false };
+  }
+
+  async searchEmployees(query: string, limit: number): Promise<EmployeeDetails[]> {
+    return rankEmployees(await this.loadEmployees(), query, limit);
+  }
+}
@@ -0,0 +1,72 @@
+import type { EmployeeDetails } from '@/lib/incident-report';
+import { LdapDirectoryProvider } from '@/lib/directory-ldap';
+import { N8nDirectoryProvider } from '@/lib/directory-n8n';
+import { RosterDirectoryProvider } from '@/lib/directory-roster';
+
+// The employee directory behind login, the employee lookup and the employee search. Providers return
+// plain directory records; roles come from the role mapping and are resolved by the routes.
+
+// A lookup answer: the employee's record, or that no employee has the ID
+export type EmployeeLookupResult =
+  | { found: true; employee: EmployeeDetails }
+  | { found: false };
+
+// A login answer. Employees log in with their employee ID and email address.
+export type AuthenticationResult =
+  | { status: 'authenticated'; employee: EmployeeDetails }
+  | { status: 'email_mismatch' }
+  | { status: 'not_found' };
+
+// Directory adapter interface - implement this to read employees from another system.
+// Methods throw when the directory can't be reached or answers unexpectedly. Email addresses
+// are compared case-insensitively.
+export interface DirectoryProvider {
+  authenticate(employeeId: string, email: string): Promise<AuthenticationResult>;
+  lookupEmployee(employeeId: string): Promise<EmployeeLookupResult>;
+  // Up to limit employees matching part of a name, email or employee ID, in any order
+  searchEmployees(query: string, limit: number): Promise<EmployeeDetails[]>;
+}
+
+let provider: DirectoryProvider | null = null;
+
+// Select the directory from DIRECTORY_PROVIDER: "n8n" (the default), "roster" or "ldap"
+export function getDirectoryProvider(): DirectoryProvider {
+  if (provider) return provider;
+
+  const backend = process.env.DIRECTORY_PROVIDER || 'n8n';
+
+  switch (backend) {
+    case 'n8n':
+      provider = new N8nDirectoryProvider();
+      break;
+    case 'roster':
+      if (!process.env.DIRECTORY_ROSTER_FILE) {
+        throw new Error('DIRECTORY_ROSTER_FILE is not defined');
+      }
+      provider = new RosterDirectoryProvider(process.env.DIRECTORY_ROSTER_FILE);
+      break;
+    case 'ldap':
+      if (!process.env.LDAP_URL || !process.env.LDAP_BASE_DN) {
+        throw new Error('LDAP_URL and LDAP_BASE_DN must be defined');
+      }
+      provider = new LdapDirectoryProvider({
+        url: process.env.LDAP_URL,
+        baseDN: process.env.LDAP_BASE_DN,
+        bindDN: process.env.LDAP_BIND_DN,
+        bindPassword: process.env.LDAP_BIND_PASSWORD,
+        userFilter: process.env.LDAP_USER_FILTER,
+        attributes: {
+          employeeId: process.env.LDAP_EMPLOYEE_ID_ATTRIBUTE,
+          name: process.env.LDAP_NAME_ATTRIBUTE,
+          email: process.env.LDAP_EMAIL_ATTRIBUTE,
+          position: process.env.LDAP_POSITION_ATTRIBUTE,
+          company: process.env.LDAP_COMPANY_ATTRIBUTE,
+        },
+      });
+      break;
+    default:
+      throw new Error(`Unknown DIRECTORY_PROVIDER: ${backend}`);
+  }
+
+  return provider;
+}
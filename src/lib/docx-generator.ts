@@ -15,96 +15,52 @@ import {
   ShadingType,
   ITableCellOptions,
   ImageRun,
+  Packer,
 } from 'docx';
-
-// GoTeam Logo URL
-const GOTEAM_LOGO_URL = 'https://dothis.to/goteam/files/16fd994f-dce3-11ec-ae5c-060273b163f6';
-
-// Fetch image as buffer for DOCX
-const fetchImageAsBuffer = async (url: string): Promise<ArrayBuffer | null> => {
-  try {
-    const response = await fetch(url);
-    if (!response.ok) return null;
-    return await response.arrayBuffer();
-  } catch {
-    return null;
-  }
-};
-
-interface EmployeeDetails {
-  id: number;
-  employee_id: number;
-  employee_name: string;
-  employee_email: string;
-  position: string;
-  company: string;
-  created_at?: string;
-}
-
-interface UserDetails {
-  id: number;
-  employee_id: number;
-  employee_name: string;
-  employee_email: string;
-  position: string;
-  company: string;
-  created_at?: string;
-}
-
-interface Attachment {
-  id: string;
-  nameOrLink: string;
-  description: string;
-}
-
-interface ReportData {
-  datePrepared: string;
-  employeeDetails: EmployeeDetails | null;
-  incidentWhat: string;
-  incidentLocation: string;
-  incidentDateTime: string;
-  incidentDetails: string;
-  findings: string;
-  policyViolation: string;
-  attachments: Attachment[];
-  impactCategories: string[];
-  impactOthersSpecify: string;
-  impactDescription: string;
-  reportedBy: UserDetails;
-  attestedBy: EmployeeDetails | null;
-}
+import JSZip from 'jszip';
+import {
+  formatTimelineActor,
+  getIncludedPriorIncidents,
+  type Attachment,
+  type IncidentReportDocument,
+} from '@/lib/incident-report';
+import type { BrandingProfile } from '@/lib/branding';
+import {
+  findTemplateField,
+  formatCheckboxValue,
+  formatInvolvedEmployees,
+  formatStatementTitle,
+  formatTimeline,
+  formatTimelineEvidence,
+  formatWitnessStatements,
+  getAttachmentsValue,
+  getDocumentLabel,
+  getEmployeeValue,
+  getInvolvedEmployeesValue,
+  getTemplateFields,
+  getRecordedStatements,
+  getRecordedTimeline,
+  getTextValue,
+  isFieldFilled,
+  localizeTemplate,
+  type DocumentBlock,
+  type TemplateField,
+} from '@/lib/report-templates';
+import type { LogoImage } from '@/lib/logos';
+import { formatAttachmentDigest, formatFileSize, type AttachmentImage } from '@/lib/attachments';
+import { getLabelTranslator, getSecondLocale, getTranslator } from '@/lib/i18n';
+import { formatDate, formatDateTime } from '@/lib/time-zones';
 
 // Helper functions
-const formatFullName = (details: { employee_name: string }) => {
+export const formatFullName = (details: { employee_name: string }) => {
   return details.employee_name || 'N/A';
 };
 
-const formatDate = (dateStr: string) => {
-  if (!dateStr) return 'Not specified';
-  return new Date(dateStr).toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
-};
-
-const formatDateTime = (dateTimeStr: string) => {
-  if (!dateTimeStr) return 'Not specified';
-  return new Date(dateTimeStr).toLocaleString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true
-  });
-};
-
 // Enhanced markdown parser - converts markdown text to Paragraph array
-const parseMarkdownToParagraphs = (text: string): Paragraph[] => {
+const parseMarkdownToParagraphs = (text: string, emptyText: string): Paragraph[] => {
   if (!text || !text.trim()) {
     return [new Paragraph({
-      children: [new TextRun({ text: 'No content provided', italics: true, color: '9ca3af', size: 20 })],
+      children: [new TextRun({ text: emptyText, italics: true, color: '9ca3af', size: 20 })],
     })];
   }
 
@@ -216,9 +172,15 @@ const parseMarkdownToParagraphs = (text: string): Paragraph[] => {
   return paragraphs;
 };
 
-// Parse inline markdown (bold, italic) within a line
-const parseInlineMarkdown = (text: string): TextRun[] => {
-  const runs: TextRun[] = [];
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italics?: boolean;
+}
+
+// Split a line into plain, bold and italic runs (**bold**, __bold__, *italic*, _italic_)
+export const tokenizeInlineMarkdown = (text: string): InlineRun[] => {
+  const runs: InlineRun[] = [];
   let remaining = text;
 
   while (remaining.length > 0) {
@@ -253,32 +215,34 @@ const parseInlineMarkdown = (text: string): TextRun[] => {
 
       // Add text before the formatted part
       if (beforeText) {
-        runs.push(new TextRun({ text: beforeText, size: 20, color: '000000' }));
+        runs.push({ text: beforeText });
       }
 
       // Add the formatted text
       if (firstMatch.type === 'bold') {
-        runs.push(new TextRun({ text: formattedText, bold: true, size: 20, color: '000000' }));
+        runs.push({ text: formattedText, bold: true });
       } else {
-        runs.push(new TextRun({ text: formattedText, italics: true, size: 20, color: '000000' }));
+        runs.push({ text: formattedText, italics: true });
       }
 
       // Calculate how much to remove
       remaining = remaining.substring(match[0].length);
     } else {
       // No more formatting, add the rest as plain text
-      runs.push(new TextRun({ text: remaining, size: 20, color: '000000' }));
+      runs.push({ text: remaining });
       break;
     }
   }
 
-  return runs.length > 0 ? runs : [new TextRun({ text: text, size: 20, color: '000000' })];
+  return runs.length > 0 ? runs : [{ text }];
 };
 
+// Parse inline markdown (bold, italic) within a line
+const parseInlineMarkdown = (text: string): TextRun[] =>
+  tokenizeInlineMarkdown(text).map(run => new TextRun({ ...run, size: 20, color: '000000' }));
+
 // Create a styled content box (table with single cell for narrative content)
-const createContentBox = (title: string, content: string, titleColor: string = '1d4ed8'): Table => {
-  const contentParagraphs = parseMarkdownToParagraphs(content);
-  
+const createContentBox = (title: string, contentParagraphs: Paragraph[], titleColor: string): Table => {
   return new Table({
     width: { size: 100, type: WidthType.PERCENTAGE },
     borders: {
@@ -338,7 +302,10 @@ const createCell = (content: string, options: {
   isHeader?: boolean;
   width?: number;
   shading?: string;
+  color?: string;
   verticalAlign?: 'top' | 'center' | 'bottom';
+  columnSpan?: number;
+  size?: number;
 } = {}): TableCell => {
   const cellOptions: ITableCellOptions = {
     children: [
@@ -347,13 +314,14 @@ const createCell = (content: string, options: {
           new TextRun({
             text: content,
             bold: options.bold || options.isHeader,
-            size: 20,
-            color: options.isHeader ? '1e3a8a' : '000000', // Dark blue for headers, black for content
+            size: options.size || 20,
+            color: options.color || (options.isHeader ? '1e3a8a' : '000000'), // Dark blue for headers, black for content
           }),
         ],
       }),
     ],
     width: options.width ? { size: options.width, type: WidthType.PERCENTAGE } : undefined,
+    columnSpan: options.columnSpan,
     shading: options.shading ? {
       type: ShadingType.SOLID,
       color: options.shading,
@@ -369,36 +337,462 @@ const createCell = (content: string, options: {
   return new TableCell(cellOptions);
 };
 
-export const generateIncidentReportDocx = async (data: ReportData): Promise<Document> => {
-  // Fetch the GoTeam logo
-  const logoBuffer = await fetchImageAsBuffer(GOTEAM_LOGO_URL);
-  const impactList = data.impactCategories.map(cat => 
-    cat === 'Others' && data.impactOthersSpecify ? `Others (${data.impactOthersSpecify})` : cat
-  ).join(', ');
-
-  // Build attachment paragraphs
-  const attachmentParagraphs: Paragraph[] = data.attachments.length > 0 
-    ? data.attachments.map((att, idx) => 
-        new Paragraph({
+// Largest size of an evidence figure in the appendix, in px; bigger images are scaled down to fit
+const MAX_FIGURE_WIDTH = 600;
+const MAX_FIGURE_HEIGHT = 600;
+
+// The branding profile, logo and attachment images are picked and loaded by the caller (loadBrandingRules, loadLogoImage
+// and loadAttachmentImages in the browser, readBrandingRules, readLogoImage and readAttachmentImages on the server);
+// pass a null logo to use the branding profile's text wordmark.
+// Images that aren't passed in are only listed in the appendix's digest table.
+export const generateIncidentReportDocx = async (
+  data: IncidentReportDocument,
+  branding: BrandingProfile,
+  logo: LogoImage | null,
+  images: AttachmentImage[] = []
+): Promise<Document> => {
+  const { palette } = branding;
+  // Label cells of the key/value tables
+  const labelCell = (content: string, width?: number) =>
+    createCell(content, { isHeader: true, width, shading: palette.labelFill, color: palette.labelText });
+
+  const status = data.status || 'draft';
+  const statusHistory = data.statusHistory || [];
+  // The most recent approval, if the attester has signed off
+  const approval = status === 'approved'
+    ? [...statusHistory].reverse().find(entry => entry.action === 'approve')
+    : undefined;
+  const workflowHistory = statusHistory.filter(entry => entry.action !== 'create');
+
+  // Fixed wording from the message catalog, and the template's own wording, in the report's document language.
+  // Bilingual documents print labels and headings in the second language too; values stay in the first.
+  const t = getTranslator(data.locale);
+  const label = getLabelTranslator(data.locale, data.secondLocale);
+  const secondLocale = getSecondLocale(data.locale, data.secondLocale);
+  const template = localizeTemplate(data.template, data.locale, data.secondLocale);
+  const formatReportDate = (value: string) => formatDate(value, data.timeZone, data.locale);
+  const formatReportDateTime = (value: string) => formatDateTime(value, data.timeZone, data.locale);
+  const fieldsOf = (keys: string[]) => keys
+    .map(key => findTemplateField(template, key))
+    .filter((field): field is TemplateField => Boolean(field));
+
+  // A short field's value as text; empty values read "Not specified"
+  const formatValue = (field: TemplateField): string => {
+    if (!isFieldFilled(data, field)) return t(field.type === 'checkboxGroup' ? 'document.noneSelected' : 'document.notSpecified');
+    switch (field.type) {
+      case 'date':
+        return formatReportDate(getTextValue(data, field.key));
+      case 'datetime':
+        return formatReportDateTime(getTextValue(data, field.key));
+      case 'checkboxGroup':
+        return formatCheckboxValue(data, field);
+      case 'employee':
+        return formatFullName(getEmployeeValue(data, field.key)!);
+      case 'employeeList':
+        return formatInvolvedEmployees(data, field, t);
+      case 'witnessStatements':
+        return formatWitnessStatements(data, field, t);
+      case 'timeline':
+        return formatTimeline(data, field);
+      default:
+        return getTextValue(data, field.key);
+    }
+  };
+
+  const createAttachmentParagraphs = (field: TemplateField): Paragraph[] => {
+    const attachments = getAttachmentsValue(data, field.key);
+    return attachments.length > 0
+      ? attachments.flatMap((att, idx) => [
+          new Paragraph({
+            children: [
+              new TextRun({ text: `${idx + 1}. `, bold: true, size: 20, color: '000000' }),
+              new TextRun({ text: att.nameOrLink || t('document.attachmentNumber', { number: idx + 1 }), bold: true, size: 20, color: '000000' }),
+              ...(att.description ? [new TextRun({ text: ` — ${att.description}`, size: 20, color: '000000' })] : []),
+            ],
+            spacing: { after: 60 },
+            indent: { left: convertInchesToTwip(0.15) },
+          }),
+          // Uploaded files: see the appendix
+          ...(att.file ? [new Paragraph({
+            children: [new TextRun({
+              text: `${att.file.name} · ${formatFileSize(att.file.size)} · SHA-256 ${att.file.sha256}`,
+              size: 16,
+              color: '6b7280',
+            })],
+            spacing: { after: 60 },
+            indent: { left: convertInchesToTwip(0.35) },
+          })] : []),
+        ])
+      : [new Paragraph({
+          children: [new TextRun({ text: t('document.noAttachments'), italics: true, color: '9ca3af', size: 20 })],
+        })];
+  };
+
+  // In bilingual documents, a narrative with a translation is followed by it
+  const createTranslationParagraphs = (field: TemplateField): Paragraph[] => {
+    const translation = data.translations[field.key]?.trim();
+    if (!secondLocale || !translation) return [];
+    return [
+      new Paragraph({
+        children: [new TextRun({ text: label('document.translation'), bold: true, italics: true, size: 20, color: '6b7280' })],
+        spacing: { before: 160, after: 60 },
+      }),
+      ...parseMarkdownToParagraphs(translation, ''),
+    ];
+  };
+
+  // Rich text is written out in full; anything else becomes a "Label: value" line
+  const createBoxParagraphs = (field: TemplateField): Paragraph[] => {
+    if (field.type === 'richText') {
+      return [
+        ...parseMarkdownToParagraphs(getTextValue(data, field.key), t('document.noContent')),
+        ...createTranslationParagraphs(field),
+      ];
+    }
+    if (field.type === 'attachments') return createAttachmentParagraphs(field);
+    const filled = isFieldFilled(data, field);
+    return [new Paragraph({
+      children: [
+        new TextRun({ text: `${getDocumentLabel(field)} `, bold: true, size: 20, color: '000000' }),
+        new TextRun({ text: formatValue(field), size: 20, italics: !filled, color: filled ? '000000' : '9ca3af' }),
+      ],
+      spacing: { after: 120 },
+    })];
+  };
+
+  const tableBorders = {
+    top: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
+    bottom: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
+    left: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
+    right: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
+    insideHorizontal: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
+    insideVertical: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
+  };
+
+  // The report body, laid out by the template
+  const renderBlock = (block: DocumentBlock): (Paragraph | Table)[] => {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({
+          children: [
+            new TextRun({
+              text: block.text.toUpperCase(),
+              bold: true,
+              size: 24,
+              color: palette.heading,
+              font: branding.fonts.heading,
+            }),
+          ],
+          spacing: { after: 100 },
+        })];
+
+      case 'employee': {
+        const field = findTemplateField(template, block.field);
+        const employee = getEmployeeValue(data, block.field);
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: tableBorders,
+            rows: [
+              new TableRow({
+                children: [
+                  labelCell(field ? getDocumentLabel(field) : label('document.employee'), 22),
+                  createCell(employee ? formatFullName(employee) : t('document.notSelected'), { width: 28 }),
+                  labelCell(label('document.employeeId'), 15),
+                  createCell(employee?.employee_id?.toString() || '—', { width: 35 }),
+                ],
+              }),
+              new TableRow({
+                children: [
+                  labelCell(label('document.position')),
+                  createCell(employee?.position || '—'),
+                  labelCell(label('document.client')),
+                  createCell(employee?.company || '—'),
+                ],
+              }),
+            ],
+          }),
+          new Paragraph({ spacing: { after: 300 } }),
+        ];
+      }
+
+      // The "EMPLOYEE DETAILS" table: a header row, then one row per involved employee,
+      // followed by the subjects' prior incidents when the reporter chose to include them
+      case 'employees': {
+        const involved = getInvolvedEmployeesValue(data, block.field).filter(entry => entry.details);
+        const priorIncidents = getIncludedPriorIncidents(data);
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: tableBorders,
+            rows: [
+              new TableRow({
+                tableHeader: true,
+                children: [
+                  labelCell(label('document.role'), 15),
+                  labelCell(label('document.name'), 27),
+                  labelCell(label('document.employeeId'), 13),
+                  labelCell(label('document.position'), 23),
+                  labelCell(label('document.client'), 22),
+                ],
+              }),
+              ...(involved.length > 0
+                ? involved.map(entry => new TableRow({
+                    children: [
+                      createCell(t(`role.${entry.role}`), { bold: true }),
+                      createCell(formatFullName(entry.details!)),
+                      createCell(entry.details!.employee_id.toString()),
+                      createCell(entry.details!.position || '—'),
+                      createCell(entry.details!.company || '—'),
+                    ],
+                  }))
+                : [new TableRow({
+                    children: [createCell(t('document.notSelected'), { columnSpan: 5 })],
+                  })]),
+            ],
+          }),
+          ...(priorIncidents.length > 0 ? [
+            new Paragraph({
+              keepNext: true,
+              children: [
+                new TextRun({ text: label('document.priorIncidents'), bold: true, size: 20, color: palette.heading }),
+              ],
+              spacing: { before: 200, after: 80 },
+            }),
+            new Table({
+              width: { size: 100, type: WidthType.PERCENTAGE },
+              borders: tableBorders,
+              rows: [
+                new TableRow({
+                  tableHeader: true,
+                  children: [
+                    labelCell(label('document.employee'), 20),
+                    labelCell(label('document.incidentDate'), 15),
+                    labelCell(label('document.incident'), 30),
+                    labelCell(label('document.policyConcern'), 35),
+                  ],
+                }),
+                ...priorIncidents.map(incident => new TableRow({
+                  children: [
+                    createCell(incident.employeeName, { bold: true }),
+                    createCell(formatDate(incident.incidentDateTime, incident.timeZone, data.locale)),
+                    createCell([incident.reportType, incident.incidentWhat].filter(Boolean).join(': ')),
+                    createCell(incident.policyConcern || '—'),
+                  ],
+                })),
+              ],
+            }),
+          ] : []),
+          new Paragraph({ spacing: { after: 300 } }),
+        ];
+      }
+
+      // A separate content box per witness; nothing at all when no witness was recorded
+      case 'statements':
+        return getRecordedStatements(data, block.field).flatMap((witness, index) => [
+          createContentBox(formatStatementTitle(witness, index, t, label), [
+            new Paragraph({
+              children: [
+                new TextRun({ text: `${label('document.dateTaken')} `, bold: true, size: 20, color: '000000' }),
+                new TextRun({ text: formatReportDate(witness.dateTaken), size: 20, color: '000000' }),
+              ],
+              spacing: { after: 120 },
+            }),
+            ...(witness.statement
+              ? parseMarkdownToParagraphs(witness.statement, t('document.noContent'))
+              : [new Paragraph({
+                  children: [new TextRun({ text: t('document.noStatement'), italics: true, color: '9ca3af', size: 20 })],
+                })]),
+          ], palette.heading),
+          new Paragraph({ spacing: { after: 200 } }),
+        ]);
+
+      // Events in time order; nothing at all when the timeline is empty
+      case 'timeline': {
+        const field = findTemplateField(template, block.field);
+        const events = getRecordedTimeline(data, block.field);
+        if (events.length === 0) return [];
+        return [
+          new Paragraph({
+            keepNext: true,
+            children: [
+              new TextRun({
+                text: field ? getDocumentLabel(field) : label('document.timeline'),
+                bold: true,
+                size: 20,
+                color: palette.heading,
+              }),
+            ],
+            spacing: { after: 80 },
+          }),
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: tableBorders,
+            rows: [
+              new TableRow({
+                tableHeader: true,
+                children: [
+                  labelCell('#', 5),
+                  labelCell(label('document.dateTime'), 20),
+                  labelCell(label('document.event'), 37),
+                  labelCell(label('document.actor'), 19),
+                  labelCell(label('document.evidence'), 19),
+                ],
+              }),
+              ...events.map((event, index) => new TableRow({
+                children: [
+                  createCell(String(index + 1)),
+                  createCell(formatReportDateTime(event.at)),
+                  createCell(event.description.trim()),
+                  createCell(formatTimelineActor(event, t) || '—'),
+                  createCell(formatTimelineEvidence(data, event) || '—'),
+                ],
+              })),
+            ],
+          }),
+          new Paragraph({ spacing: { after: 300 } }),
+        ];
+      }
+
+      case 'table':
+        return [
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            borders: tableBorders,
+            rows: fieldsOf(block.fields).map(field => new TableRow({
+              children: [
+                labelCell(getDocumentLabel(field), 18),
+                createCell(formatValue(field), { width: 82 }),
+              ],
+            })),
+          }),
+          new Paragraph({ spacing: { after: 200 } }),
+        ];
+
+      case 'box': {
+        const fields = fieldsOf(block.fields);
+        if (block.optional && !fields.some(field => isFieldFilled(data, field))) return [];
+        return [
+          createContentBox(block.title, fields.flatMap(createBoxParagraphs), palette.heading),
+          new Paragraph({ spacing: { after: 200 } }),
+        ];
+      }
+    }
+  };
+
+  // Appendix of evidence: uploaded images as numbered figures, then the digest of every attachment
+  const attachments = getTemplateFields(template)
+    .filter(field => field.type === 'attachments')
+    .flatMap(field => getAttachmentsValue(data, field.key));
+  const imagesById = new Map(images.map(image => [image.id, image]));
+  const figures = attachments.filter(att => att.file && imagesById.has(att.file.id));
+
+  const createFigure = (att: Attachment, index: number): Paragraph[] => {
+    const file = att.file!;
+    const image = imagesById.get(file.id)!;
+    const width = file.width || MAX_FIGURE_WIDTH;
+    const height = file.height || Math.round(MAX_FIGURE_WIDTH * 0.75);
+    const scale = Math.min(1, MAX_FIGURE_WIDTH / width, MAX_FIGURE_HEIGHT / height);
+    return [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        keepNext: true,
+        children: [
+          new ImageRun({
+            data: image.data,
+            transformation: { width: Math.round(width * scale), height: Math.round(height * scale) },
+            type: image.type,
+          }),
+        ],
+        spacing: { before: 200, after: 80 },
+      }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({ text: `${label('document.figure', { number: index + 1 })} `, bold: true, size: 20, color: '000000' }),
+          new TextRun({ text: att.nameOrLink || file.name, size: 20, color: '000000' }),
+          ...(att.description ? [new TextRun({ text: ` — ${att.description}`, size: 20, color: '000000' })] : []),
+        ],
+      }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({
+          text: `${file.name} · ${formatFileSize(file.size)} · SHA-256 ${file.sha256}`,
+          size: 16,
+          color: '6b7280',
+        })],
+        spacing: { after: 200 },
+      }),
+    ];
+  };
+
+  const appendix: (Paragraph | Table)[] = attachments.length === 0 ? [] : [
+    new Paragraph({
+      pageBreakBefore: true,
+      children: [
+        new TextRun({
+          text: label('document.appendix'),
+          bold: true,
+          size: 24,
+          color: palette.heading,
+          font: branding.fonts.heading,
+        }),
+      ],
+      spacing: { after: 150 },
+    }),
+    ...figures.flatMap(createFigure),
+    new Paragraph({
+      keepNext: true,
+      children: [
+        new TextRun({ text: label('document.evidenceIntegrity'), bold: true, size: 20, color: palette.heading, font: branding.fonts.heading }),
+      ],
+      spacing: { before: 200, after: 60 },
+    }),
+    new Paragraph({
+      keepNext: true,
+      children: [new TextRun({
+        text: label('document.evidenceIntegrityNote'),
+        size: 16,
+        color: '6b7280',
+      })],
+      spacing: { after: 100 },
+    }),
+    new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      borders: tableBorders,
+      rows: [
+        new TableRow({
+          tableHeader: true,
+          children: [
+            labelCell('#', 5),
+            labelCell(label('document.attachment'), 30),
+            labelCell('SHA-256', 40),
+            labelCell(label('document.addedBy'), 25),
+          ],
+        }),
+        ...attachments.map((att, idx) => new TableRow({
           children: [
-            new TextRun({ text: `${idx + 1}. `, bold: true, size: 20, color: '000000' }),
-            new TextRun({ text: att.nameOrLink || `Attachment ${idx + 1}`, bold: true, size: 20, color: '000000' }),
-            ...(att.description ? [new TextRun({ text: ` — ${att.description}`, size: 20, color: '000000' })] : []),
+            createCell(String(idx + 1)),
+            createCell(
+              att.file
+                ? `${att.file.name} (${formatFileSize(att.file.size)})`
+                : att.nameOrLink || t('document.attachmentNumber', { number: idx + 1 }),
+              { bold: true }
+            ),
+            createCell(formatAttachmentDigest(att, t), { size: 16 }),
+            createCell(att.addedBy ? `${att.addedBy.name}, ${formatReportDateTime(att.addedBy.at)}` : t('document.notRecorded')),
           ],
-          spacing: { after: 60 },
-          indent: { left: convertInchesToTwip(0.15) },
-        })
-      )
-    : [new Paragraph({
-        children: [new TextRun({ text: 'No attachments', italics: true, color: '9ca3af', size: 20 })],
-      })];
+        })),
+      ],
+    }),
+  ];
 
   const doc = new Document({
     styles: {
       default: {
         document: {
           run: {
-            font: 'Calibri',
+            font: branding.fonts.body,
             size: 22,
           },
         },
@@ -420,10 +814,22 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
           default: new Header({
             children: [
               new Paragraph({
+                shading: { type: ShadingType.SOLID, color: palette.banner },
                 children: [
                   new TextRun({
-                    text: 'People and Culture Department',
-                    color: '2563eb',
+                    text: branding.confidentialityBanner,
+                    color: 'ffffff',
+                    size: 18,
+                    bold: true,
+                  }),
+                ],
+                spacing: { after: 100 },
+              }),
+              new Paragraph({
+                children: [
+                  new TextRun({
+                    text: branding.department,
+                    color: palette.primary,
                     size: 20,
                     bold: true,
                   }),
@@ -440,7 +846,17 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                 alignment: AlignmentType.CENTER,
                 children: [
                   new TextRun({
-                    text: 'Page ',
+                    text: branding.footerText,
+                    size: 16,
+                    color: '666666',
+                  }),
+                ],
+              }),
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                children: [
+                  new TextRun({
+                    text: `${t('document.page')} `,
                     size: 18,
                     color: '666666',
                   }),
@@ -450,7 +866,7 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                     color: '666666',
                   }),
                   new TextRun({
-                    text: ' of ',
+                    text: ` ${t('document.pageOf')} `,
                     size: 18,
                     color: '666666',
                   }),
@@ -470,7 +886,7 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
             width: { size: 100, type: WidthType.PERCENTAGE },
             borders: {
               top: { style: BorderStyle.NONE },
-              bottom: { style: BorderStyle.SINGLE, size: 12, color: '2563eb' },
+              bottom: { style: BorderStyle.SINGLE, size: 12, color: palette.primary },
               left: { style: BorderStyle.NONE },
               right: { style: BorderStyle.NONE },
               insideHorizontal: { style: BorderStyle.NONE },
@@ -484,9 +900,10 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                       new Paragraph({
                         children: [
                           new TextRun({
-                            text: 'Incident Report',
+                            text: template.title,
                             bold: true,
                             size: 52,
+                            font: branding.fonts.heading,
                             color: '000000',
                           }),
                         ],
@@ -494,13 +911,13 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                       new Paragraph({
                         children: [
                           new TextRun({
-                            text: 'Date Prepared: ',
+                            text: `${label('document.datePrepared')} `,
                             bold: true,
                             size: 22,
                             color: '000000',
                           }),
                           new TextRun({
-                            text: formatDate(data.datePrepared),
+                            text: formatReportDate(data.datePrepared),
                             size: 22,
                             color: '000000',
                           }),
@@ -519,40 +936,32 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                   new TableCell({
                     children: [
                       // Logo image or fallback text
-                      logoBuffer ? new Paragraph({
+                      logo ? new Paragraph({
                         alignment: AlignmentType.RIGHT,
                         children: [
                           new ImageRun({
-                            data: logoBuffer,
+                            data: logo.data,
                             transformation: {
-                              width: 120,
-                              height: 40,
+                              width: logo.width,
+                              height: logo.height,
                             },
-                            type: 'png',
+                            type: logo.type,
                           }),
                         ],
                       }) : new Paragraph({
                         alignment: AlignmentType.RIGHT,
-                        children: [
-                          new TextRun({
-                            text: 'Go',
-                            bold: true,
-                            size: 40,
-                            color: '2563eb',
-                          }),
-                          new TextRun({
-                            text: 'Team',
-                            bold: true,
-                            size: 40,
-                            color: '1e40af',
-                          }),
-                        ],
+                        children: branding.wordmark.map(part => new TextRun({
+                          text: part.text,
+                          bold: true,
+                          size: 40,
+                          color: part.color,
+                        })),
                       }),
                       new Paragraph({
                         alignment: AlignmentType.RIGHT,
                         children: [
                           new TextRun({
-                            text: "It's better together!",
+                            text: branding.tagline,
                             italics: true,
                             size: 18,
                             color: '6b7280',
@@ -576,233 +985,7 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
           // Spacing
           new Paragraph({ spacing: { after: 300 } }),
 
-          // Employee Details Section
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: 'EMPLOYEE DETAILS',
-                bold: true,
-                size: 24,
-                color: '1d4ed8',
-              }),
-            ],
-            spacing: { after: 100 },
-          }),
-
-          // Employee Details Table
-          new Table({
-            width: { size: 100, type: WidthType.PERCENTAGE },
-            borders: {
-              top: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              bottom: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              left: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              right: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              insideHorizontal: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
-              insideVertical: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
-            },
-            rows: [
-              new TableRow({
-                children: [
-                  createCell('EMPLOYEE REPORTED', { isHeader: true, width: 22, shading: 'dbeafe' }),
-                  createCell(data.employeeDetails ? formatFullName(data.employeeDetails) : 'Not selected', { width: 28 }),
-                  createCell('EMP ID', { isHeader: true, width: 15, shading: 'dbeafe' }),
-                  createCell(data.employeeDetails?.employee_id?.toString() || '—', { width: 35 }),
-                ],
-              }),
-              new TableRow({
-                children: [
-                  createCell('POSITION', { isHeader: true, shading: 'dbeafe' }),
-                  createCell(data.employeeDetails?.position || '—'),
-                  createCell('CLIENT', { isHeader: true, shading: 'dbeafe' }),
-                  createCell(data.employeeDetails?.company || '—'),
-                ],
-              }),
-            ],
-          }),
-
-          // Spacing
-          new Paragraph({ spacing: { after: 300 } }),
-
-          // Description of Incident Section
-          new Paragraph({
-            children: [
-              new TextRun({
-                text: 'DESCRIPTION OF INCIDENT',
-                bold: true,
-                size: 24,
-                color: '1d4ed8',
-              }),
-            ],
-            spacing: { after: 100 },
-          }),
-
-          // What/Where/When Table
-          new Table({
-            width: { size: 100, type: WidthType.PERCENTAGE },
-            borders: {
-              top: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              bottom: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              left: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              right: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              insideHorizontal: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
-              insideVertical: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
-            },
-            rows: [
-              new TableRow({
-                children: [
-                  createCell('What:', { isHeader: true, width: 12, shading: 'dbeafe' }),
-                  createCell(data.incidentWhat || 'Not specified', { width: 88 }),
-                ],
-              }),
-              new TableRow({
-                children: [
-                  createCell('Location:', { isHeader: true, shading: 'dbeafe' }),
-                  createCell(data.incidentLocation || 'Not specified'),
-                ],
-              }),
-              new TableRow({
-                children: [
-                  createCell('Time:', { isHeader: true, shading: 'dbeafe' }),
-                  createCell(formatDateTime(data.incidentDateTime)),
-                ],
-              }),
-            ],
-          }),
-
-          // Spacing
-          new Paragraph({ spacing: { after: 200 } }),
-
-          // Incident Details Box
-          createContentBox('Incident Details:', data.incidentDetails),
-
-          // Spacing
-          new Paragraph({ spacing: { after: 200 } }),
-
-          // Findings Box (if provided)
-          ...(data.findings ? [
-            createContentBox('Findings:', data.findings),
-            new Paragraph({ spacing: { after: 200 } }),
-          ] : []),
-
-          // Policy Violation Box (if provided)
-          ...(data.policyViolation ? [
-            createContentBox('Policy/Code of Conduct Concerns:', data.policyViolation),
-            new Paragraph({ spacing: { after: 200 } }),
-          ] : []),
-
-          // Attachments Box
-          new Table({
-            width: { size: 100, type: WidthType.PERCENTAGE },
-            borders: {
-              top: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              bottom: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              left: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              right: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-            },
-            rows: [
-              new TableRow({
-                children: [
-                  new TableCell({
-                    children: [
-                      new Paragraph({
-                        children: [
-                          new TextRun({
-                            text: 'Attachments:',
-                            bold: true,
-                            size: 22,
-                            color: '1d4ed8',
-                          }),
-                        ],
-                      }),
-                    ],
-                    shading: { type: ShadingType.SOLID, color: 'f3f4f6' },
-                    margins: {
-                      top: convertInchesToTwip(0.08),
-                      bottom: convertInchesToTwip(0.08),
-                      left: convertInchesToTwip(0.15),
-                      right: convertInchesToTwip(0.15),
-                    },
-                  }),
-                ],
-              }),
-              new TableRow({
-                children: [
-                  new TableCell({
-                    children: attachmentParagraphs,
-                    margins: {
-                      top: convertInchesToTwip(0.1),
-                      bottom: convertInchesToTwip(0.1),
-                      left: convertInchesToTwip(0.15),
-                      right: convertInchesToTwip(0.15),
-                    },
-                  }),
-                ],
-              }),
-            ],
-          }),
-
-          // Spacing
-          new Paragraph({ spacing: { after: 200 } }),
-
-          // Impact Section
-          new Table({
-            width: { size: 100, type: WidthType.PERCENTAGE },
-            borders: {
-              top: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              bottom: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              left: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-              right: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
-            },
-            rows: [
-              new TableRow({
-                children: [
-                  new TableCell({
-                    children: [
-                      new Paragraph({
-                        children: [
-                          new TextRun({
-                            text: 'Impact:',
-                            bold: true,
-                            size: 22,
-                            color: '1d4ed8',
-                          }),
-                        ],
-                      }),
-                    ],
-                    shading: { type: ShadingType.SOLID, color: 'f3f4f6' },
-                    margins: {
-                      top: convertInchesToTwip(0.08),
-                      bottom: convertInchesToTwip(0.08),
-                      left: convertInchesToTwip(0.15),
-                      right: convertInchesToTwip(0.15),
-                    },
-                  }),
-                ],
-              }),
-              new TableRow({
-                children: [
-                  new TableCell({
-                    children: [
-                      new Paragraph({
-                        children: [
-                          new TextRun({ text: 'Impacted Parties: ', bold: true, size: 20, color: '000000' }),
-                          new TextRun({ text: impactList || 'None selected', size: 20, italics: !impactList, color: impactList ? '000000' : '9ca3af' }),
-                        ],
-                        spacing: { after: 120 },
-                      }),
-                      ...parseMarkdownToParagraphs(data.impactDescription),
-                    ],
-                    margins: {
-                      top: convertInchesToTwip(0.1),
-                      bottom: convertInchesToTwip(0.1),
-                      left: convertInchesToTwip(0.15),
-                      right: convertInchesToTwip(0.15),
-                    },
-                  }),
-                ],
-              }),
-            ],
-          }),
+          ...template.document.flatMap(renderBlock),
 
           // Spacing before signatories
           new Paragraph({ spacing: { after: 400 } }),
@@ -811,10 +994,11 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
           new Paragraph({
             children: [
               new TextRun({
-                text: 'SIGNATORIES',
+                text: label('document.signatories'),
                 bold: true,
                 size: 24,
-                color: '1d4ed8',
+                color: palette.heading,
+                font: branding.fonts.heading,
               }),
             ],
             spacing: { after: 150 },
@@ -828,6 +1012,7 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
               bottom: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
               left: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
               right: { style: BorderStyle.SINGLE, size: 8, color: 'd1d5db' },
+              insideHorizontal: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
               insideVertical: { style: BorderStyle.SINGLE, size: 4, color: 'd1d5db' },
             },
             rows: [
@@ -836,7 +1021,7 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                   new TableCell({
                     children: [
                       new Paragraph({
-                        children: [new TextRun({ text: 'REPORTED BY', bold: true, size: 18, color: '6b7280' })],
+                        children: [new TextRun({ text: label('document.reportedBy'), bold: true, size: 18, color: '6b7280' })],
                         spacing: { after: 120 },
                       }),
                       new Paragraph({
@@ -847,11 +1032,11 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                         spacing: { after: 250 },
                       }),
                       new Paragraph({
-                        children: [new TextRun({ text: 'Signature: _______________________________', size: 20, color: '6b7280' })],
+                        children: [new TextRun({ text: `${label('document.signature')} _______________________________`, size: 20, color: '6b7280' })],
                         spacing: { after: 80 },
                       }),
                       new Paragraph({
-                        children: [new TextRun({ text: `Date: ${formatDate(data.datePrepared)}`, size: 20, color: '000000' })],
+                        children: [new TextRun({ text: `${label('document.date')} ${formatReportDate(data.datePrepared)}`, size: 20, color: '000000' })],
                       }),
                     ],
                     width: { size: 50, type: WidthType.PERCENTAGE },
@@ -865,30 +1050,34 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                   new TableCell({
                     children: [
                       new Paragraph({
-                        children: [new TextRun({ text: 'ATTESTED BY', bold: true, size: 18, color: '6b7280' })],
+                        children: [new TextRun({ text: label('document.attestedBy'), bold: true, size: 18, color: '6b7280' })],
                         spacing: { after: 120 },
                       }),
                       new Paragraph({
                         children: [
                           new TextRun({ 
-                            text: data.attestedBy ? formatFullName(data.attestedBy) : 'Not selected', 
-                            bold: !!data.attestedBy, 
+                            text: data.attestedByDetails ? formatFullName(data.attestedByDetails) : t('document.notSelected'), 
+                            bold: !!data.attestedByDetails, 
                             size: 24,
-                            italics: !data.attestedBy,
-                            color: data.attestedBy ? '000000' : '9ca3af',
+                            italics: !data.attestedByDetails,
+                            color: data.attestedByDetails ? '000000' : '9ca3af',
                           })
                         ],
                       }),
                       new Paragraph({
-                        children: [new TextRun({ text: data.attestedBy?.position || '', size: 20, color: '000000' })],
+                        children: [new TextRun({ text: data.attestedByDetails?.position || '', size: 20, color: '000000' })],
                         spacing: { after: 250 },
                       }),
                       new Paragraph({
-                        children: [new TextRun({ text: 'Signature: _______________________________', size: 20, color: '6b7280' })],
+                        children: [new TextRun({ text: `${label('document.signature')} _______________________________`, size: 20, color: '6b7280' })],
                         spacing: { after: 80 },
                       }),
                       new Paragraph({
-                        children: [new TextRun({ text: 'Date: _______________________________', size: 20, color: '000000' })],
+                        children: [new TextRun({
+                          text: `${label('document.date')} ${approval ? formatReportDate(approval.at) : '_______________________________'}`,
+                          size: 20,
+                          color: '000000',
+                        })],
                       }),
                     ],
                     width: { size: 50, type: WidthType.PERCENTAGE },
@@ -901,8 +1090,42 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
                   }),
                 ],
               }),
+              // Attestation status and history
+              new TableRow({
+                children: [
+                  new TableCell({
+                    columnSpan: 2,
+                    children: [
+                      new Paragraph({
+                        children: [
+                          new TextRun({ text: `${label('document.status').toUpperCase()} `, bold: true, size: 18, color: '6b7280' }),
+                          new TextRun({ text: t(`status.${status}`), bold: true, size: 20, color: '000000' }),
+                        ],
+                        spacing: { after: workflowHistory.length > 0 ? 100 : 0 },
+                      }),
+                      ...workflowHistory.map(entry => new Paragraph({
+                        children: [
+                          new TextRun({ text: `${formatReportDateTime(entry.at)} — `, size: 18, color: '6b7280' }),
+                          new TextRun({ text: t('document.historyEntry', { action: t(`action.${entry.action}`), actor: entry.actorName }), bold: true, size: 18, color: '000000' }),
+                          ...(entry.comment ? [new TextRun({ text: `: ${entry.comment}`, size: 18, color: '000000' })] : []),
+                        ],
+                        spacing: { after: 40 },
+                      })),
+                    ],
+                    shading: { type: ShadingType.SOLID, color: 'f3f4f6' },
+                    margins: {
+                      top: convertInchesToTwip(0.1),
+                      bottom: convertInchesToTwip(0.1),
+                      left: convertInchesToTwip(0.2),
+                      right: convertInchesToTwip(0.2),
+                    },
+                  }),
+                ],
+              }),
             ],
           }),
+
+          ...appendix,
         ],
       },
     ],
@@ -910,3 +1133,41 @@ export const generateIncidentReportDocx = async (data: ReportData): Promise<Docu
 
   return doc;
 };
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Pin every timestamp in the package (core properties and zip entries) to the given time,
+// so the same report data always packs to the same bytes - in the browser or on the server
+export const packIncidentReportDocx = async (doc: Document, timestamp: string): Promise<Uint8Array> => {
+  const packed = await Packer.toArrayBuffer(doc);
+  const source = await JSZip.loadAsync(packed);
+  const date = new Date(timestamp);
+  const w3cDate = date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const output = new JSZip();
+
+  for (const file of Object.values(source.files)) {
+    if (file.dir) continue;
+    let content: Uint8Array | string = await file.async('uint8array');
+    if (file.name === 'docProps/core.xml') {
+      content = (await file.async('string')).replace(
+        /(<dcterms:(created|modified)[^>]*>)[^<]*(<\/dcterms:\2>)/g,
+        `$1${w3cDate}$3`
+      );
+    }
+    output.file(file.name, content, { date, createFolders: false });
+  }
+
+  return output.generateAsync({ type: 'uint8array', compression: 'DEFLATE', mimeType: DOCX_MIME_TYPE });
+};
+
+// Server-side equivalent of the form's download: the official document for stored report data
+export const generateIncidentReportDocxBuffer = async (
+  data: IncidentReportDocument,
+  branding: BrandingProfile,
+  logo: LogoImage | null,
+  images: AttachmentImage[],
+  timestamp: string
+): Promise<Buffer> => {
+  const doc = await generateIncidentReportDocx(data, branding, logo, images);
+  return Buffer.from(await packIncidentReportDocx(doc, timestamp));
+};
@@ -0,0 +1,130 @@
+import type { EmployeeDetails } from '@/lib/incident-report';
+import type { EmployeeLookupResult } from '@/lib/directory';
+
+// Employee lookups go to the directory (see directory.ts) on every blur of an employee ID input. Directory
+// records change rarely, so answers are kept for a while, including "not found" answers so mistyped
+// IDs don't hit the directory again either. Roles and access checks are not cached: they depend on
+// the role mapping and on who is asking, so the lookup route applies them to every answer.
+
+// Cache adapter interface - implement this to share the cache between instances (e.g. Redis)
+export interface EmployeeCacheStore {
+  get(employeeId: string): Promise<EmployeeLookupResult | null>;
+  set(employeeId: string, result: EmployeeLookupResult, ttlMs: number): Promise<void>;
+  delete(employeeId: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Most entries the in-memory cache keeps; the oldest are dropped first
+const MEMORY_CACHE_MAX_ENTRIES = 5000;
+
+// In-memory store: per server instance, emptied on restart
+export class MemoryEmployeeCacheStore implements EmployeeCacheStore {
+  private readonly entries = new Map<string, { result: EmployeeLookupResult; expiresAt: number }>();
+
+  async get(employeeId: string): Promise<EmployeeLookupResult | null> {
+    const entry = this.entries.get(employeeId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(employeeId);
+      return null;
+    }
+    return entry.result;
+  }
+
+  async set(employeeId: string, result: EmployeeLookupResult, ttlMs: number): Promise<void> {
+    // Re-inserting moves the entry to the end, so the first key is always the oldest
+    this.entries.delete(employeeId);
+    this.entries.set(employeeId, { result, expiresAt: Date.now() + ttlMs });
+    if (this.entries.size > MEMORY_CACHE_MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  async delete(employeeId: string): Promise<void> {
+    this.entries.delete(employeeId);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+// How long answers are kept, in seconds; 0 turns caching off
+const readTtlMs = (name: string, defaultSeconds: number) => {
+  const seconds = Number(process.env[name] ?? defaultSeconds);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+};
+
+const getFoundTtlMs = () => readTtlMs('EMPLOYEE_CACHE_TTL_SECONDS', 600);
+// Kept shorter, so a newly hired employee can be looked up soon after they are added
+const getNotFoundTtlMs = () => readTtlMs('EMPLOYEE_CACHE_NOT_FOUND_TTL_SECONDS', 60);
+
+let store: EmployeeCacheStore | null = null;
+
+// Select the cache backend from EMPLOYEE_CACHE_STORE (currently only "memory")
+export function getEmployeeCacheStore(): EmployeeCacheStore {
+  if (store) return store;
+
+  const backend = process.env.EMPLOYEE_CACHE_STORE || 'memory';
+
+  switch (backend) {
+    case 'memory':
+      store = new MemoryEmployeeCacheStore();
+      break;
+    default:
+      throw new Error(`Unknown EMPLOYEE_CACHE_STORE backend: ${backend}`);
+  }
+
+  return store;
+}
+
+// Directory requests in progress, so simultaneous lookups of one employee share a single request
+const pendingLookups = new Map<string, Promise<EmployeeLookupResult>>();
+
+// The cached answer for an employee ID, or fetchEmployee's answer, which is then cached.
+// Failures (timeouts, unexpected responses) are thrown and not cached.
+export async function lookupEmployeeCached(
+  employeeId: string,
+  fetchEmployee: (employeeId: string) => Promise<EmployeeLookupResult>
+): Promise<EmployeeLookupResult> {
+  const cache = getEmployeeCacheStore();
+  const cached = await cache.get(employeeId);
+  if (cached) return cached;
+
+  const pending = pendingLookups.get(employeeId);
+  if (pending) return pending;
+
+  const lookup = (async () => {
+    try {
+      const result = await fetchEmployee(employeeId);
+      const ttlMs = result.found ? getFoundTtlMs() : getNotFoundTtlMs();
+      if (ttlMs > 0) await cache.set(employeeId, result, ttlMs);
+      return result;
+    } finally {
+      pendingLookups.delete(employeeId);
+    }
+  })();
+  pendingLookups.set(employeeId, lookup);
+  return lookup;
+}
+
+// Invalidation hooks: call these when the directory changes, so lookups see the change at once
+
+export async function invalidateCachedEmployee(employeeId: string | number): Promise<void> {
+  await getEmployeeCacheStore().delete(String(employeeId));
+}
+
+export async function clearEmployeeCache(): Promise<void> {
+  await getEmployeeCacheStore().clear();
+}
+
+// An employee record that just came from the directory another way (e.g. at login) replaces the cached one
+export async function primeCachedEmployee(employee: EmployeeDetails): Promise<void> {
+  const ttlMs = getFoundTtlMs();
+  if (ttlMs === 0) return;
+  // Roles are resolved per request, never cached
+  const record = { ...employee };
+  delete record.roles;
+  await getEmployeeCacheStore().set(String(employee.employee_id), { found: true, employee: record }, ttlMs);
+}
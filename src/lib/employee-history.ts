@@ -0,0 +1,140 @@
+import {
+  getIncludedPriorIncidents,
+  getSubjects,
+  type EmployeeDetails,
+  type IncidentReport,
+  type PriorIncident,
+} from '@/lib/incident-report';
+import { getReportTemplate, type ReportTemplate } from '@/lib/report-templates';
+import { getReportStore, type ReportRecord } from '@/lib/report-store';
+import { canReportOn, canViewIncidentHistory } from '@/lib/roles';
+import { listReportTemplates } from '@/lib/template-store';
+
+// An employee's incident history: the approved reports that name them as a subject. The form shows it
+// under each subject for progressive discipline, and it can be printed in the document.
+
+// Longest policy concern excerpt, in characters
+const EXCERPT_LENGTH = 200;
+
+// Markdown down to one line of plain text
+const toExcerpt = (markdown: string): string => {
+  const text = markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s*(?:[-+*]|\d+\.)\s+/gm, '')
+    .replace(/[*_`~>#|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…` : text;
+};
+
+// Only approved reports count: an attester has confirmed what happened. Drafts, reports awaiting
+// attestation or returned for changes are unconfirmed allegations, and rejected ones were found not to
+// stand, so none of them are part of the employee's record.
+
+// One subject of one approved report
+interface IndexedIncident {
+  subject: EmployeeDetails;
+  reportId: string;
+  templateId: string;
+  templateVersion: number;
+  incidentDateTime: string;
+  timeZone: string;
+  incidentWhat: string;
+  policyConcern: string;
+}
+
+// Approved reports never change again, so instead of reading every report on each lookup and save, their
+// subjects are indexed by employee ID once. Approvals made by this server are added as they happen
+// (addApprovedReport); the index is rebuilt every few minutes to pick up those made by other instances.
+const INDEX_TTL_MS = 5 * 60 * 1000;
+
+let index: { builtAt: number; incidents: Promise<Map<string, IndexedIncident[]>> } | null = null;
+
+const addToIndex = (incidents: Map<string, IndexedIncident[]>, record: ReportRecord) => {
+  getSubjects(record.data).forEach(subject => {
+    const employeeId = String(subject.employee_id);
+    const entries = (incidents.get(employeeId) || []).filter(entry => entry.reportId !== record.id);
+    entries.push({
+      subject,
+      reportId: record.id,
+      templateId: record.data.templateId,
+      templateVersion: record.data.templateVersion,
+      incidentDateTime: record.data.incidentDateTime,
+      timeZone: record.data.timeZone,
+      incidentWhat: record.data.incidentWhat,
+      policyConcern: toExcerpt(record.data.policyViolation),
+    });
+    incidents.set(employeeId, entries);
+  });
+};
+
+const buildIndex = async (): Promise<Map<string, IndexedIncident[]>> => {
+  const incidents = new Map<string, IndexedIncident[]>();
+  (await getReportStore().list({ status: ['approved'] })).forEach(record => addToIndex(incidents, record));
+  return incidents;
+};
+
+const loadIndex = (): Promise<Map<string, IndexedIncident[]>> => {
+  if (!index || Date.now() - index.builtAt >= INDEX_TTL_MS) {
+    const incidents = buildIndex();
+    index = { builtAt: Date.now(), incidents };
+    // A failed build is retried by the next lookup
+    incidents.catch(() => {
+      if (index?.incidents === incidents) index = null;
+    });
+  }
+  return index.incidents;
+};
+
+// Call once a report is approved, so its subjects' histories show it straight away
+export async function addApprovedReport(record: ReportRecord): Promise<void> {
+  if (!index || record.status !== 'approved') return;
+  addToIndex(await index.incidents, record);
+}
+
+// Like the employee lookup, P&C and admins see every company's reports and supervisors only their own company's
+const findPriorIncidents = (
+  incidents: Map<string, IndexedIncident[]>,
+  employeeId: string,
+  templates: ReportTemplate[],
+  viewer: EmployeeDetails,
+  excludeReportId?: string
+): PriorIncident[] =>
+  (incidents.get(employeeId) || [])
+    .filter(entry => entry.reportId !== excludeReportId && canReportOn(viewer, entry.subject))
+    .map(entry => ({
+      reportId: entry.reportId,
+      employeeId,
+      employeeName: entry.subject.employee_name,
+      reportType: getReportTemplate(entry.templateId, entry.templateVersion, templates).name,
+      incidentDateTime: entry.incidentDateTime,
+      timeZone: entry.timeZone,
+      incidentWhat: entry.incidentWhat,
+      policyConcern: entry.policyConcern,
+    }))
+    // Most recent first; reports without an incident date go last
+    .sort((a, b) => b.incidentDateTime.localeCompare(a.incidentDateTime));
+
+export async function listPriorIncidents(
+  employeeId: string,
+  viewer: EmployeeDetails,
+  excludeReportId?: string
+): Promise<PriorIncident[]> {
+  const [incidents, templates] = await Promise.all([loadIndex(), listReportTemplates()]);
+  return findPriorIncidents(incidents, employeeId, templates, viewer, excludeReportId);
+}
+
+// The prior incidents to store with a save. The client only chooses whose history is printed; the
+// entries always come from the approved reports, so they can't be edited and stay current until submission.
+// Reporters who can't see the history can't print it either.
+export async function refreshPriorIncidents(
+  data: IncidentReport,
+  reporter: EmployeeDetails,
+  reportId?: string
+): Promise<PriorIncident[]> {
+  const employeeIds = Array.from(new Set(getIncludedPriorIncidents(data).map(incident => incident.employeeId)));
+  if (employeeIds.length === 0 || !canViewIncidentHistory(reporter)) return [];
+
+  const [incidents, templates] = await Promise.all([loadIndex(), listReportTemplates()]);
+  return employeeIds.flatMap(employeeId => findPriorIncidents(incidents, employeeId, templates, reporter, reportId));
+}
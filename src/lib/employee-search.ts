@@ -0,0 +1,51 @@
+// Ranking for the employee typeahead. The directory returns whoever matches a query; this puts the
+// likeliest people first. Pure module - safe to import from client components.
+
+import type { EmployeeDetails } from '@/lib/incident-report';
+
+// Shorter queries match too much of the directory to be useful
+export const MIN_SEARCH_LENGTH = 2;
+export const MAX_SEARCH_RESULTS = 8;
+
+// Case- and accent-insensitive, so "pena" finds "Peña"
+const normalizeText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Lower is better; null when some word of the query matches nothing about the employee
+const scoreEmployee = (employee: EmployeeDetails, query: string, terms: string[]): number | null => {
+  const id = String(employee.employee_id);
+  if (id === query) return 0;
+
+  const name = normalizeText(employee.employee_name);
+  const nameWords = name.split(/[\s.,'-]+/).filter(Boolean);
+  const email = normalizeText(employee.employee_email);
+  const emailName = email.split('@')[0];
+
+  let score = 1;
+  for (const term of terms) {
+    if (nameWords.some(word => word.startsWith(term))) score += 1;
+    else if (emailName.startsWith(term) || id.startsWith(term)) score += 2;
+    else if (name.includes(term) || email.includes(term)) score += 3;
+    else return null;
+  }
+  // "juan d" should put Juan Dela Cruz ahead of Maria Juan Diaz
+  return name.startsWith(query) ? score - 0.5 : score;
+};
+
+// The best matches first, each employee once; ties are broken by name
+export function rankEmployees(
+  candidates: EmployeeDetails[],
+  query: string,
+  limit: number = MAX_SEARCH_RESULTS
+): EmployeeDetails[] {
+  const normalized = normalizeText(query.trim());
+  const terms = normalized.split(/\s+/).filter(Boolean);
+  const seen = new Set<number>();
+
+  return candidates
+    .filter(employee => !seen.has(employee.employee_id) && seen.add(employee.employee_id))
+    .map(employee => ({ employee, score: scoreEmployee(employee, normalized, terms) }))
+    .filter((match): match is { employee: EmployeeDetails; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || a.employee.employee_name.localeCompare(b.employee.employee_name))
+    .slice(0, limit)
+    .map(match => match.employee);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { isPublicAddress } from '@/lib/evidence-custody';
+
+describe('isPublicAddress', () => {
+  it('allows public unicast addresses', () => {
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('93.184.216.34')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+  });
+
+  it.each([
+    ['0.0.0.0', 'unspecified'],
+    ['10.1.2.3', 'private'],
+    ['127.0.0.1', 'loopback'],
+    ['169.254.169.254', 'link-local (cloud metadata)'],
+    ['172.16.0.1', 'private'],
+    ['192.168.1.1', 'private'],
+    ['100.64.0.1', 'carrier-grade NAT'],
+    ['100.127.255.254', 'carrier-grade NAT'],
+    ['192.0.0.8', 'IETF protocol assignments'],
+    ['192.0.2.1', 'documentation'],
+    ['198.18.0.1', 'benchmarking'],
+    ['198.19.255.254', 'benchmarking'],
+    ['224.0.0.1', 'multicast'],
+    ['240.0.0.1', 'reserved'],
+    ['255.255.255.255', 'broadcast'],
+  ])('blocks the IPv4 address %s (%s)', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each([
+    ['::', 'unspecified'],
+    ['::1', 'loopback'],
+    ['fe80::1', 'link-local'],
+    ['fc00::1', 'unique local'],
+    ['fd12:3456::1', 'unique local'],
+    ['ff02::1', 'multicast'],
+    ['2001:db8::1', 'documentation'],
+    ['64:ff9b::7f00:1', 'NAT64 of 127.0.0.1'],
+    ['64:ff9b::808:808', 'NAT64 of a public address'],
+    ['2002:7f00:1::', '6to4'],
+    ['2001::1', 'Teredo'],
+  ])('blocks the IPv6 address %s (%s)', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4, in dotted and hex notation', () => {
+    expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+    expect(isPublicAddress('::ffff:7f00:1')).toBe(false);
+    expect(isPublicAddress('::ffff:a9fe:a9fe')).toBe(false);
+    expect(isPublicAddress('::FFFF:C0A8:0101')).toBe(false);
+    expect(isPublicAddress('::ffff:8.8.8.8')).toBe(true);
+    expect(isPublicAddress('::ffff:808:808')).toBe(true);
+  });
+
+  it('rejects anything that is not an IP address', () => {
+    expect(isPublicAddress('')).toBe(false);
+    expect(isPublicAddress('localhost')).toBe(false);
+    expect(isPublicAddress('999.1.1.1')).toBe(false);
+  });
+});
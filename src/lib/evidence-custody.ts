@@ -0,0 +1,277 @@
+import { promises as fs } from 'fs';
+import { lookup as lookupHost } from 'dns';
+import { lookup } from 'dns/promises';
+import type { LookupFunction } from 'net';
+import path from 'path';
+import { createHash } from 'crypto';
+import ipaddr from 'ipaddr.js';
+import { Agent, fetch } from 'undici';
+import type { Attachment, EmployeeDetails, LinkCapture } from '@/lib/incident-report';
+import {
+  formatFileSize,
+  getAttachmentLinkUrl,
+  MAX_ATTACHMENT_BYTES,
+  type CustodyAction,
+  type CustodyEvent,
+} from '@/lib/attachments';
+import { getAttachmentStore, toAttachmentFile } from '@/lib/attachment-store';
+
+// Chain of custody for a report's evidence: who added or removed each attachment and when,
+// the digest of every linked page fetched on submission, and each re-check of the stored files.
+
+// Append-only log adapter interface - implement this to keep the log in a database or WORM storage.
+// There is deliberately no way to change or delete an event once written.
+export interface CustodyLog {
+  append(reportId: string, events: CustodyEvent[]): Promise<void>;
+  list(reportId: string): Promise<CustodyEvent[]>;
+}
+
+// Report IDs are generated by us, but they arrive back through URLs - never let one escape the data directory
+const isValidReportId = (id: string) => /^[a-f0-9-]{36}$/.test(id);
+
+// File-based log: one JSON line per event in <reportId>.jsonl under CUSTODY_DATA_DIR
+export class FileCustodyLog implements CustodyLog {
+  constructor(private readonly dir: string) {}
+
+  private filePath(reportId: string) {
+    return path.join(this.dir, `${reportId}.jsonl`);
+  }
+
+  async append(reportId: string, events: CustodyEvent[]): Promise<void> {
+    if (!isValidReportId(reportId)) throw new Error(`Invalid report ID: ${reportId}`);
+    if (events.length === 0) return;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.appendFile(this.filePath(reportId), events.map(event => `${JSON.stringify(event)}\n`).join(''), 'utf8');
+  }
+
+  async list(reportId: string): Promise<CustodyEvent[]> {
+    if (!isValidReportId(reportId)) return [];
+    try {
+      const raw = await fs.readFile(this.filePath(reportId), 'utf8');
+      return raw.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as CustodyEvent);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+let log: CustodyLog | null = null;
+
+// The log lives next to the reports, so it shares the REPORT_STORE backend setting
+export function getCustodyLog(): CustodyLog {
+  if (log) return log;
+
+  const backend = process.env.REPORT_STORE || 'file';
+
+  switch (backend) {
+    case 'file':
+      log = new FileCustodyLog(
+        process.env.CUSTODY_DATA_DIR || path.join(process.cwd(), 'data', 'custody')
+      );
+      break;
+    default:
+      throw new Error(`Unknown REPORT_STORE backend: ${backend}`);
+  }
+
+  return log;
+}
+
+const createEvent = (
+  action: CustodyAction,
+  attachment: Attachment,
+  actor: EmployeeDetails,
+  at: string,
+  sha256: string | null,
+  note = ''
+): CustodyEvent => ({
+  at,
+  action,
+  attachmentId: attachment.id,
+  attachmentName: attachment.file?.name || attachment.nameOrLink,
+  sha256,
+  actorId: String(actor.employee_id),
+  actorName: actor.employee_name,
+  note,
+});
+
+// Reconcile the attachments of a save with what was stored before. Who added an attachment and what
+// a link returned can't be set by the client, and uploaded files take their metadata from the
+// attachment store. Returns the attachments to store and the events to log, or an error for the client.
+export async function stampAttachments(
+  previous: Attachment[],
+  next: Attachment[],
+  actor: EmployeeDetails
+): Promise<{ attachments: Attachment[]; events: CustodyEvent[] } | { error: string }> {
+  const at = new Date().toISOString();
+  const actorId = String(actor.employee_id);
+  const previousById = new Map(previous.map(attachment => [attachment.id, attachment]));
+  const events: CustodyEvent[] = [];
+  const attachments: Attachment[] = [];
+
+  for (const attachment of next) {
+    const before = previousById.get(attachment.id);
+
+    let file = before?.file && attachment.file?.id === before.file.id ? before.file : attachment.file;
+    if (file && file !== before?.file) {
+      const stored = await getAttachmentStore().get(file.id);
+      // Only the uploader can put a file on a report; anyone else would gain access to it
+      if (!stored || stored.uploadedById !== actorId) {
+        return { error: `${file.name} was not uploaded by you. Upload the file again.` };
+      }
+      file = toAttachmentFile(stored);
+    }
+
+    const stamped: Attachment = {
+      ...attachment,
+      file,
+      addedBy: before?.addedBy ?? { employeeId: actorId, name: actor.employee_name, at },
+      // A captured link stays valid until the address changes
+      link: before && !file && before.nameOrLink === attachment.nameOrLink ? before.link : null,
+    };
+    attachments.push(stamped);
+
+    if (!before) {
+      events.push(createEvent('added', stamped, actor, at, file?.sha256 ?? null, file ? formatFileSize(file.size) : ''));
+    } else if (before.nameOrLink !== stamped.nameOrLink || before.file?.id !== stamped.file?.id) {
+      events.push(createEvent('edited', stamped, actor, at, file?.sha256 ?? null, `Was: ${before.file?.name || before.nameOrLink}`));
+    }
+  }
+
+  const nextIds = new Set(next.map(attachment => attachment.id));
+  for (const attachment of previous) {
+    if (!nextIds.has(attachment.id)) {
+      events.push(createEvent('removed', attachment, actor, at, attachment.file?.sha256 ?? null));
+    }
+  }
+
+  return { attachments, events };
+}
+
+const LINK_FETCH_TIMEOUT_MS = 10000;
+const MAX_LINK_REDIRECTS = 3;
+
+// Only ordinary public unicast addresses may be fetched: private, loopback, link-local, carrier-grade NAT,
+// benchmarking, reserved and translation ranges (NAT64, 6to4, Teredo) are off limits, so the server can't be used
+// to reach the internal network. IPv4-mapped IPv6 addresses, in either notation, are checked as IPv4.
+export function isPublicAddress(address: string): boolean {
+  if (!ipaddr.isValid(address)) return false;
+  return ipaddr.process(address).range() === 'unicast';
+}
+
+// Thrown when a host name resolves to a private address at connection time
+class PrivateAddressError extends Error {}
+
+// The address a link connects to is checked when the connection is made, not only beforehand by checkPublicUrl:
+// otherwise a host name could resolve to a public address for the check and a private one for the fetch (DNS rebinding)
+const lookupPublicHost: LookupFunction = (hostname, options, callback) => {
+  lookupHost(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new PrivateAddressError(`${hostname} resolves to a private network address`), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const linkAgent = new Agent({ connect: { lookup: lookupPublicHost } });
+
+async function checkPublicUrl(url: URL): Promise<string | null> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Only http and https links can be fetched.';
+  try {
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = await lookup(hostname, { all: true });
+    return addresses.every(({ address }) => isPublicAddress(address)) ? null : 'The link points to a private network address.';
+  } catch {
+    return 'The link\'s host name could not be resolved.';
+  }
+}
+
+// Fetch a linked page and hash exactly what it returned, following a few redirects
+async function captureLink(href: string): Promise<LinkCapture> {
+  const fetchedAt = new Date().toISOString();
+  const failed = (error: string): LinkCapture => ({ sha256: null, size: null, fetchedAt, error });
+
+  try {
+    let url = new URL(href);
+    for (let redirects = 0; ; redirects++) {
+      const problem = await checkPublicUrl(url);
+      if (problem) return failed(problem);
+
+      const response = await fetch(url, {
+        dispatcher: linkAgent,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(LINK_FETCH_TIMEOUT_MS),
+      });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= MAX_LINK_REDIRECTS) return failed('Too many redirects.');
+        url = new URL(location, url);
+        continue;
+      }
+      if (!response.ok || !response.body) return failed(`The server answered ${response.status}.`);
+
+      const hash = createHash('sha256');
+      let size = 0;
+      const reader = response.body.getReader();
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        size += chunk.value.length;
+        if (size > MAX_ATTACHMENT_BYTES) {
+          await reader.cancel();
+          return failed(`The linked file is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}.`);
+        }
+        hash.update(chunk.value);
+      }
+      return { sha256: hash.digest('hex'), size, fetchedAt, error: '' };
+    }
+  } catch (error) {
+    if (error instanceof Error && error.cause instanceof PrivateAddressError) {
+      return failed('The link points to a private network address.');
+    }
+    console.error('Link capture error:', error);
+    return failed('The link could not be reached.');
+  }
+}
+
+// On submission: re-hash every stored file against the digest recorded when it was uploaded, and fetch and
+// hash each link that hasn't been captured yet. A link that can't be fetched is logged but doesn't block the
+// submission; a stored file that no longer matches its digest does.
+export async function sealAttachments(
+  attachments: Attachment[],
+  actor: EmployeeDetails
+): Promise<{ attachments: Attachment[]; events: CustodyEvent[]; error?: string }> {
+  const at = new Date().toISOString();
+
+  const results = await Promise.all(attachments.map(async (attachment): Promise<{ attachment: Attachment; event: CustodyEvent | null }> => {
+    if (attachment.file) {
+      const data = await getAttachmentStore().read(attachment.file.id);
+      const sha256 = data ? createHash('sha256').update(data).digest('hex') : null;
+      const event = sha256 === attachment.file.sha256
+        ? createEvent('verified', attachment, actor, at, sha256)
+        : createEvent('altered', attachment, actor, at, sha256, data ? `Expected ${attachment.file.sha256}` : 'The stored file is missing');
+      return { attachment, event };
+    }
+
+    const href = getAttachmentLinkUrl(attachment);
+    if (!href || attachment.link) return { attachment, event: null };
+
+    const link = await captureLink(href);
+    const captured = { ...attachment, link };
+    return {
+      attachment: captured,
+      event: link.sha256
+        ? createEvent('link_captured', captured, actor, link.fetchedAt, link.sha256, formatFileSize(link.size ?? 0))
+        : createEvent('link_failed', captured, actor, link.fetchedAt, null, link.error),
+    };
+  }));
+
+  const events = results.flatMap(result => (result.event ? [result.event] : []));
+  const altered = events.find(event => event.action === 'altered');
+
+  return {
+    attachments: results.map(result => result.attachment),
+    events,
+    ...(altered ? { error: `${altered.attachmentName} no longer matches the digest recorded when it was uploaded.` } : {}),
+  };
+}
@@ -0,0 +1,404 @@
+// Spanish catalog - see i18n.ts
+
+import type { LocaleCatalog } from '@/lib/i18n';
+
+export const ES_CATALOG: LocaleCatalog = {
+  messages: {
+    'document.datePrepared': 'Fecha de elaboración:',
+    'document.status': 'Estado:',
+    'document.notSpecified': 'No especificado',
+    'document.noneSelected': 'Ninguno seleccionado',
+    'document.notSelected': 'No seleccionado',
+    'document.noContent': 'Sin contenido',
+    'document.nothingProvided': 'No se proporcionó nada',
+    'document.noAttachments': 'Sin adjuntos',
+    'document.noStatement': 'No se registró declaración',
+    'document.notRecorded': 'No registrado',
+    'document.attachmentNumber': 'Adjunto {number}',
+    'document.employee': 'EMPLEADO',
+    'document.employeeNumber': 'Empleado n.º {id}',
+    'document.employeeId': 'N.º EMP.',
+    'document.position': 'CARGO',
+    'document.client': 'CLIENTE',
+    'document.role': 'ROL',
+    'document.name': 'NOMBRE',
+    'document.dateTaken': 'Fecha de la declaración:',
+    'document.witnessStatement': 'Declaración de testigo {number}:',
+    'document.timeline': 'CRONOLOGÍA',
+    'document.dateTime': 'FECHA Y HORA',
+    'document.event': 'SUCESO',
+    'document.actor': 'PARTICIPANTE',
+    'document.evidence': 'PRUEBAS',
+    'document.signatories': 'FIRMANTES',
+    'document.reportedBy': 'INFORMADO POR',
+    'document.attestedBy': 'CERTIFICADO POR',
+    'document.signature': 'Firma:',
+    'document.date': 'Fecha:',
+    'document.historyEntry': '{action} por {actor}',
+    'document.historyDate': 'Fecha',
+    'document.historyAction': 'Acción',
+    'document.historyBy': 'Por',
+    'document.historyComment': 'Comentario',
+    'document.page': 'Página',
+    'document.pageOf': 'de',
+    'document.appendix': 'ANEXO: PRUEBAS ADJUNTAS',
+    'document.figure': 'Figura {number}:',
+    'document.translation': 'Traducción:',
+    'document.evidenceIntegrity': 'INTEGRIDAD DE LAS PRUEBAS',
+    'document.evidenceIntegrityNote': 'Resúmenes SHA-256 de los archivos subidos y de las páginas enlazadas tal como se obtuvieron al enviar el informe.',
+    'document.attachment': 'ADJUNTO',
+    'document.addedBy': 'AÑADIDO POR',
+    'document.digestFailed': 'No se pudo obtener: {error}',
+    'document.digestPending': 'Se obtiene al enviar',
+    'document.digestNotApplicable': 'No aplica (referencia a documento)',
+    'document.priorIncidents': 'INCIDENTES ANTERIORES',
+    'document.incidentDate': 'FECHA',
+    'document.incident': 'INCIDENTE',
+    'document.policyConcern': 'CUESTIÓN DE POLÍTICA',
+
+    'role.subject': 'Implicado',
+    'role.witness': 'Testigo',
+    'role.victim': 'Víctima',
+    'role.complainant': 'Denunciante',
+
+    'status.draft': 'Borrador',
+    'status.pending_attestation': 'Pendiente de certificación',
+    'status.returned': 'Devuelto para revisión',
+    'status.approved': 'Aprobado',
+    'status.rejected': 'Rechazado',
+
+    'action.create': 'Creado',
+    'action.submit': 'Enviado',
+    'action.approve': 'Aprobado',
+    'action.return': 'Devuelto',
+    'action.reject': 'Rechazado',
+
+    'form.confidential': 'PRIVADO Y CONFIDENCIAL',
+    'form.logout': 'Cerrar sesión',
+    'form.department': 'Departamento de Personas y Cultura',
+    'form.datePrepared': 'Fecha de elaboración',
+    'form.language': 'Idioma',
+    'form.loggedInAs': 'Sesión iniciada como:',
+    'form.reportsToAttest': 'Informes por certificar',
+    'form.allReports': 'Todos los informes',
+    'form.reportTemplates': 'Plantillas de informe',
+    'form.savingDraft': 'Guardando borrador...',
+    'form.draftSavedAt': 'Borrador guardado a las {time}',
+    'form.draftNotSaved': 'Borrador no guardado: se reintentará en la próxima edición',
+    'form.backToForm': 'Volver al formulario',
+    'form.previewDocument': 'Vista previa del documento',
+    'form.status': 'Estado: {status}',
+    'form.lockedForReview': 'Este informe se envió a {attester} y está bloqueado mientras se revisa.',
+    'form.theAttester': 'quien lo certifica',
+    'form.returnedBy': 'Devuelto por {name}:',
+    'form.myReports': 'Mis informes',
+    'form.untitledIncident': 'Incidente sin título',
+    'form.lastEdited': 'Última edición: {time}',
+    'form.resume': 'Continuar',
+    'form.delete': 'Eliminar',
+    'form.section': 'Sección {number}: {title}',
+    'form.generalInformation': 'Información general',
+    'form.reportType': 'Tipo de informe',
+    'form.siteTimeZone': 'Zona horaria del centro',
+    'form.siteTimeZoneHint': 'Las fechas y horas de este informe son la hora local del centro.',
+    'form.documentLanguage': 'Idioma del documento',
+    'form.documentLanguageHint': 'La vista previa y los documentos descargados se redactan en este idioma.',
+    'form.secondLanguage': 'Segundo idioma',
+    'form.secondLanguageNone': 'Ninguno',
+    'form.secondLanguageHint': 'Los documentos de Word muestran cada encabezado y etiqueta en ambos idiomas, y cada narración va seguida de su traducción.',
+    'form.translation': 'Traducción ({language})',
+    'form.translationPlaceholder': 'Escriba la traducción o use Traducir con IA...',
+    'form.aiTranslate': 'Traducir con IA',
+    'form.translating': 'Traduciendo...',
+    'form.signatoriesSection': 'Sección {first} y {second}: Firmantes',
+    'form.reportedBy': 'Informado por',
+    'form.attestedBy': 'Certificado por',
+    'form.you': 'Usted',
+    'form.employeeNo': 'N.º de empleado:',
+    'form.position': 'Cargo:',
+    'form.company': 'Empresa:',
+    'form.employeeId': 'ID de empleado',
+    'form.enterEmployeeId': 'Introduzca el ID de empleado',
+    'form.employee': 'Empleado',
+    'form.searchEmployee': 'Busque por nombre, correo o ID de empleado',
+    'form.searchSupervisor': 'Busque un supervisor por nombre, correo o ID de empleado',
+    'form.searchingEmployees': 'Buscando...',
+    'form.noEmployeesFound': 'Ningún empleado coincide',
+    'form.employeesFound': 'Coincidencias: {count}',
+    'form.employeeSearchFailed': 'La búsqueda no está disponible. Escriba el ID de empleado y pulse Intro.',
+    'form.onlySupervisors': 'Solo los supervisores pueden certificar informes de incidentes.',
+    'form.lookUpAttester': 'Introduzca el ID de empleado de un supervisor para buscar a quien certifica',
+    'form.fetch': 'Buscar',
+    'form.fetching': 'Buscando...',
+    'form.employeeName': 'Nombre del empleado',
+    'form.employeeNumber': 'Número de empleado',
+    'form.positionRole': 'Cargo/Función',
+    'form.departmentCompany': 'Departamento/Empresa',
+    'form.livePreview': 'Vista previa en directo',
+    'form.updatesAsYouType': 'Se actualiza mientras escribe',
+    'form.requiredFields': 'Campos obligatorios',
+    'form.documentDownloaded': '¡Documento descargado!',
+    'form.checkDownloads': 'Revise su carpeta de descargas.',
+    'form.submit': 'Enviar para certificación',
+    'form.resubmit': 'Reenviar para certificación',
+    'form.submitting': 'Enviando...',
+    'form.downloadFormat': 'Formato de descarga',
+    'form.generating': 'Generando documento...',
+    'form.downloadWord': 'Descargar documento Word',
+    'form.downloadPdf': 'Descargar documento PDF',
+    'form.fixErrors': 'Corrija los errores señalados en el formulario para enviarlo',
+    'form.completeRequired': 'Complete todos los campos obligatorios para enviarlo',
+    'form.loading': 'Cargando...',
+    'form.optional': '(Opcional)',
+    'form.aiPowered': 'Con IA',
+    'form.remove': 'Quitar',
+    'form.selectAll': '(Seleccione todas las que correspondan)',
+    'form.selectAtLeastOne': 'Seleccione al menos una opción.',
+    'form.pleaseSpecify': 'Especifique...',
+    'form.selectFirst': 'Primero haga una selección arriba...',
+    'form.describeImpactOne': 'Describa cómo se vio afectado {parties}...',
+    'form.describeImpactMany': 'Describa cómo se vieron afectados {parties}...',
+    'form.considerAreas': 'Tenga en cuenta estos aspectos:',
+    'form.makeSelection': 'Haga una selección arriba para ver las preguntas correspondientes.',
+    'form.guidingQuestions': 'Preguntas orientativas:',
+    'form.guidingQuestionsEach': 'Preguntas orientativas para cada declaración:',
+    'form.dropFiles': 'Arrastre y suelte aquí los archivos de pruebas, o',
+    'form.browse': 'explore',
+    'form.fileLimits': '{types} de hasta {size} cada uno.',
+    'form.imagesIncluded': 'Las imágenes se incluyen en el documento Word.',
+    'form.uploadingOne': 'Subiendo 1 archivo...',
+    'form.uploadingMany': 'Subiendo {count} archivos...',
+    'form.attachmentNumber': 'Adjunto {number}',
+    'form.attachmentName': 'Nombre del adjunto',
+    'form.attachmentNameOrLink': 'Nombre/enlace del adjunto',
+    'form.attachmentNamePlaceholder': 'Nombre del documento o URL',
+    'form.description': 'Descripción',
+    'form.attachmentDescriptionPlaceholder': 'Describa lo que muestra este adjunto...',
+    'form.attachmentTip': 'Consejo: describa lo que demuestra este adjunto (p. ej., "Captura de un chat de Slack del 15 de marzo en la que [Nombre] habla de...")',
+    'form.addLink': 'Añadir enlace o referencia a documento',
+    'form.employeesHint': 'Busque a todas las personas implicadas en el incidente e indique el rol de cada una.',
+    'form.noEmployees': 'Aún no se han añadido empleados.',
+    'form.employeeEntry': 'Empleado n.º {number}',
+    'form.role': 'Rol',
+    'form.addEmployee': 'Añadir empleado',
+    'form.priorIncidents': 'Incidentes anteriores ({count})',
+    'form.checkingPriorIncidents': 'Buscando incidentes anteriores...',
+    'form.noPriorIncidents': 'No hay incidentes anteriores registrados.',
+    'form.priorIncidentsFailed': 'No se pudieron cargar los incidentes anteriores.',
+    'form.includePriorIncidents': 'Incluir en el documento',
+    'form.witnessEntry': 'Testigo {number}',
+    'form.external': '(Externo)',
+    'form.witnessName': 'Nombre del testigo',
+    'form.fullName': 'Nombre completo',
+    'form.affiliation': 'Empresa/Relación',
+    'form.affiliationPlaceholder': 'p. ej., Cliente - Acme Corp, seguridad del edificio',
+    'form.dateStatementTaken': 'Fecha de la declaración',
+    'form.statement': 'Declaración',
+    'form.statementPlaceholder': '¿Qué vio u oyó el testigo?',
+    'form.addEmployeeWitness': 'Añadir testigo empleado',
+    'form.addExternalWitness': 'Añadir testigo externo',
+    'form.sortByTime': 'Ordenar por hora',
+    'form.eventEntry': 'Suceso {number}',
+    'form.dateAndTime': 'Fecha y hora',
+    'form.actorId': 'ID de empleado del participante (opcional)',
+    'form.whatHappened': 'Qué ocurrió',
+    'form.whatHappenedPlaceholder': 'p. ej., El empleado dejó la planta de producción sin avisar al jefe de equipo',
+    'form.evidence': 'Pruebas',
+    'form.untitledAttachment': 'Adjunto sin título',
+    'form.addEvent': 'Añadir suceso',
+  },
+  templatePhrases: {
+    // Template names and titles
+    'Incident Report': 'Informe de incidente',
+    'Misconduct or a policy violation by an employee.': 'Falta de conducta o incumplimiento de una política por parte de un empleado.',
+    'Near-Miss Report': 'Informe de cuasi incidente',
+    'Something that could have caused harm or loss, but did not.': 'Algo que pudo causar daños o pérdidas, pero no lo hizo.',
+    'Attendance Violation Report': 'Informe de incumplimiento de asistencia',
+    'Tardiness, absences and other breaches of the attendance policy.': 'Retrasos, ausencias y otros incumplimientos de la política de asistencia.',
+    'Client Escalation Report': 'Informe de escalamiento de cliente',
+    'A complaint or escalation raised by a client about an employee.': 'Una queja o escalamiento de un cliente sobre un empleado.',
+
+    // Sections, groups and headings
+    'Employees Involved': 'Empleados implicados',
+    'Employees Involved (Optional)': 'Empleados implicados (opcional)',
+    'EMPLOYEES INVOLVED': 'EMPLEADOS IMPLICADOS',
+    'Employee Details': 'Datos del empleado',
+    'Description of Incidents': 'Descripción de los incidentes',
+    'Description of Incident': 'Descripción del incidente',
+    'Description of Event': 'Descripción del suceso',
+    'Attendance Violation': 'Incumplimiento de asistencia',
+    'Client Escalation': 'Escalamiento de cliente',
+    'Core Details': 'Datos principales',
+    'Narrative Fields': 'Relato',
+    'Violation Details': 'Datos del incumplimiento',
+    'Escalation Details': 'Datos del escalamiento',
+    'Timeline': 'Cronología',
+    'Witness Statements': 'Declaraciones de testigos',
+    'Attachments': 'Adjuntos',
+    'Attachments:': 'Adjuntos:',
+    'Impact': 'Impacto',
+    'Impact:': 'Impacto:',
+
+    // Shared fields
+    'Look up at least one employee being reported.': 'Busque al menos a un empleado objeto del informe.',
+    'Record what each witness saw or heard. Look up employees by ID, or name external witnesses such as client staff or visitors.':
+      'Registre lo que vio u oyó cada testigo. Busque a los empleados por ID o indique el nombre de testigos externos, como personal del cliente o visitantes.',
+    'What did the witness see or hear, in their own words?': '¿Qué vio u oyó el testigo, en sus propias palabras?',
+    'Where was the witness, and what were they doing at the time?': '¿Dónde estaba el testigo y qué hacía en ese momento?',
+    'How close were they, and could they see and hear clearly?': '¿A qué distancia estaba y podía ver y oír con claridad?',
+    'What was said, and by whom? (Quote exact words where possible)': '¿Qué se dijo y quién lo dijo? (Cite las palabras exactas si es posible)',
+    'Did the witness speak to anyone involved before or after the incident?': '¿Habló el testigo con alguno de los implicados antes o después del incidente?',
+    'For incidents that unfolded over hours or days, list each step with when it happened, who was involved and the evidence for it.':
+      'Para incidentes que se desarrollaron durante horas o días, enumere cada paso con cuándo ocurrió, quién participó y las pruebas correspondientes.',
+    'Timeline of Events': 'Cronología de los hechos',
+    'TIMELINE OF EVENTS': 'CRONOLOGÍA DE LOS HECHOS',
+    'Add supporting evidence such as: screenshots, Teramind logs, email copies, chat transcripts, or recordings.':
+      'Añada pruebas de apoyo como capturas de pantalla, registros de Teramind, copias de correos, transcripciones de chat o grabaciones.',
+    'What does this attachment show or prove?': '¿Qué muestra o demuestra este adjunto?',
+    'When was this evidence captured (date/time)?': '¿Cuándo se obtuvo esta prueba (fecha/hora)?',
+    'Who is involved in this evidence?': '¿Quién aparece en esta prueba?',
+    'Who was impacted?': '¿A quién afectó?',
+    'Select at least one impacted party.': 'Seleccione al menos una parte afectada.',
+    'Impacted Parties:': 'Partes afectadas:',
+    'Client': 'Cliente',
+    'GoTeam': 'GoTeam',
+    'Peers': 'Compañeros',
+    'Management': 'Dirección',
+    'Others': 'Otros',
+    'How was trust, satisfaction, or the relationship affected?': '¿Cómo se vieron afectadas la confianza, la satisfacción o la relación?',
+    'How was company reputation, compliance, or operations affected?': '¿Cómo se vieron afectados la reputación, el cumplimiento normativo o las operaciones de la empresa?',
+    'How was team morale, trust, or collaboration affected?': '¿Cómo se vieron afectadas la moral, la confianza o la colaboración del equipo?',
+    'What additional supervision or intervention was required?': '¿Qué supervisión o intervención adicional fue necesaria?',
+    'How were they specifically affected?': '¿Cómo se vieron afectados en concreto?',
+    'Please specify who else was impacted': 'Especifique a quién más afectó',
+    'Please specify who else was impacted.': 'Especifique a quién más afectó.',
+    'How were they impacted?': '¿Cómo les afectó?',
+    'Describe the impact of the incident.': 'Describa el impacto del incidente.',
+    'Location': 'Lugar',
+    'Time:': 'Hora:',
+    'What:': 'Qué:',
+    'Describe what happened...': 'Describa lo ocurrido...',
+    'Findings (Optional)': 'Conclusiones (opcional)',
+    'Findings:': 'Conclusiones:',
+    'Document your investigation findings...': 'Documente las conclusiones de su investigación...',
+
+    // Incident report
+    'What (Brief Summary)': 'Qué (resumen breve)',
+    'Brief description of the incident': 'Breve descripción del incidente',
+    'Describe what happened.': 'Describa lo ocurrido.',
+    'Where did the incident occur?': '¿Dónde ocurrió el incidente?',
+    'Enter where the incident happened.': 'Indique dónde ocurrió el incidente.',
+    'Date and Time of Incident': 'Fecha y hora del incidente',
+    'Enter when the incident happened.': 'Indique cuándo ocurrió el incidente.',
+    'Incident Details': 'Detalles del incidente',
+    'Incident Details:': 'Detalles del incidente:',
+    'Incident details are required.': 'Los detalles del incidente son obligatorios.',
+    'What exactly happened? Describe the incident in your own words.': '¿Qué ocurrió exactamente? Describa el incidente con sus propias palabras.',
+    'Who was involved? (Include full names)': '¿Quién estuvo implicado? (Incluya nombres completos)',
+    'When and where did this occur?': '¿Cuándo y dónde ocurrió?',
+    'How was this discovered or reported?': '¿Cómo se descubrió o se informó?',
+    'What evidence do you have? (e.g., Teramind logs, emails, chat messages)': '¿Qué pruebas tiene? (p. ej., registros de Teramind, correos, mensajes de chat)',
+    'What did your investigation confirm or verify?': '¿Qué confirmó o verificó su investigación?',
+    'What specific evidence supports your findings?': '¿Qué pruebas concretas respaldan sus conclusiones?',
+    'Were there any patterns or repeated behaviors?': '¿Hubo patrones o conductas repetidas?',
+    'Who else was involved or aware of the situation?': '¿Quién más estuvo implicado o conocía la situación?',
+    'Policy/Code of Conduct Concern (Optional)': 'Cuestión de política/código de conducta (opcional)',
+    'Reference any policy violations...': 'Indique cualquier incumplimiento de políticas...',
+    'Policy/Code of Conduct Concerns:': 'Cuestiones de política/código de conducta:',
+    'Which company policies or codes of conduct were violated?': '¿Qué políticas o códigos de conducta de la empresa se incumplieron?',
+    'How did the specific actions violate these policies?': '¿Cómo incumplieron estas políticas las acciones concretas?',
+    'Was there improper escalation (bypassing management/P&C)?': '¿Hubo un escalamiento indebido (saltándose a la dirección/P&C)?',
+    'Was there insubordination, gossip, or unprofessional behavior?': '¿Hubo insubordinación, chismes o conducta poco profesional?',
+    'Did the employee fail to exercise professional judgment?': '¿Dejó el empleado de actuar con criterio profesional?',
+
+    // Near-miss report
+    'What nearly happened? (Brief Summary)': '¿Qué estuvo a punto de ocurrir? (Resumen breve)',
+    'Brief description of the near miss': 'Breve descripción del cuasi incidente',
+    'Describe what nearly happened.': 'Describa lo que estuvo a punto de ocurrir.',
+    'Where did it happen?': '¿Dónde ocurrió?',
+    'Enter where it happened.': 'Indique dónde ocurrió.',
+    'Date and Time of Event': 'Fecha y hora del suceso',
+    'Enter when it happened.': 'Indique cuándo ocurrió.',
+    'Event Details': 'Detalles del suceso',
+    'Event Details:': 'Detalles del suceso:',
+    'Event details are required.': 'Los detalles del suceso son obligatorios.',
+    'What was happening just before the event?': '¿Qué estaba ocurriendo justo antes del suceso?',
+    'What stopped it from becoming an incident?': '¿Qué evitó que se convirtiera en un incidente?',
+    'Who was present or involved?': '¿Quién estaba presente o implicado?',
+    'How was this noticed or reported?': '¿Cómo se detectó o se informó?',
+    'Potential Consequences': 'Posibles consecuencias',
+    'Potential Consequences:': 'Posibles consecuencias:',
+    'What could have happened...': 'Lo que pudo haber ocurrido...',
+    'Describe what could have happened.': 'Describa lo que pudo haber ocurrido.',
+    'What is the worst outcome that could have resulted?': '¿Cuál es el peor resultado que pudo haberse producido?',
+    'Who or what would have been affected (clients, data, people, equipment)?': '¿Quién o qué se habría visto afectado (clientes, datos, personas, equipos)?',
+    'How likely is it to happen again?': '¿Qué probabilidad hay de que vuelva a ocurrir?',
+    'Recommended Preventive Actions (Optional)': 'Medidas preventivas recomendadas (opcional)',
+    'Recommended Preventive Actions:': 'Medidas preventivas recomendadas:',
+    'Suggest how to prevent this...': 'Sugiera cómo prevenirlo...',
+    'What change would stop this from happening again?': '¿Qué cambio evitaría que vuelva a ocurrir?',
+    'Who should own the follow-up?': '¿Quién debería encargarse del seguimiento?',
+
+    // Attendance violation report
+    'Type of violation': 'Tipo de incumplimiento',
+    'Select the type of violation.': 'Seleccione el tipo de incumplimiento.',
+    'Violation:': 'Incumplimiento:',
+    'Tardiness': 'Retraso',
+    'Absence Without Leave': 'Ausencia sin permiso',
+    'Undertime': 'Salida anticipada',
+    'Extended Break': 'Pausa prolongada',
+    'No Call/No Show': 'Ausencia sin aviso',
+    'Please specify the violation': 'Especifique el incumplimiento',
+    'Please specify the violation.': 'Especifique el incumplimiento.',
+    'Date and Time of Violation': 'Fecha y hora del incumplimiento',
+    'Enter when the violation happened.': 'Indique cuándo ocurrió el incumplimiento.',
+    'Occurrences in the Last 30 Days': 'Veces en los últimos 30 días',
+    'e.g. 3': 'p. ej., 3',
+    'Occurrences (30 days):': 'Veces (30 días):',
+    'Details': 'Detalles',
+    'Details:': 'Detalles:',
+    'Describe the violation...': 'Describa el incumplimiento...',
+    'Details of the violation are required.': 'Los detalles del incumplimiento son obligatorios.',
+    'When was the employee expected, and when did they arrive or leave?': '¿Cuándo se esperaba al empleado y cuándo llegó o se fue?',
+    'Was the absence or lateness communicated beforehand?': '¿Se comunicó la ausencia o el retraso con antelación?',
+    'What explanation did the employee give?': '¿Qué explicación dio el empleado?',
+    'Which records support this? (e.g., timekeeping logs, schedules)': '¿Qué registros lo respaldan? (p. ej., registros horarios, turnos)',
+    'Attendance Policy Concerns (Optional)': 'Cuestiones de la política de asistencia (opcional)',
+    'Attendance Policy Concerns:': 'Cuestiones de la política de asistencia:',
+    'Reference the attendance policy...': 'Haga referencia a la política de asistencia...',
+    'Which part of the attendance policy applies?': '¿Qué parte de la política de asistencia se aplica?',
+    'Is this part of a pattern, and were earlier warnings given?': '¿Forma parte de un patrón y se dieron advertencias previas?',
+
+    // Client escalation report
+    'Client or account name': 'Nombre del cliente o de la cuenta',
+    'Enter the client who raised the escalation.': 'Indique el cliente que planteó el escalamiento.',
+    'Escalation Summary': 'Resumen del escalamiento',
+    'Brief description of the escalation': 'Breve descripción del escalamiento',
+    'Summarize the escalation.': 'Resuma el escalamiento.',
+    'Summary:': 'Resumen:',
+    'Date and Time Received': 'Fecha y hora de recepción',
+    'Enter when the escalation was received.': 'Indique cuándo se recibió el escalamiento.',
+    'Received:': 'Recibido:',
+    'How was it raised?': '¿Cómo se planteó?',
+    'Channel:': 'Canal:',
+    'Email': 'Correo electrónico',
+    'Phone Call': 'Llamada telefónica',
+    'Chat': 'Chat',
+    'Support Ticket': 'Ticket de soporte',
+    'Meeting': 'Reunión',
+    "Client's Complaint": 'Queja del cliente',
+    "Client's Complaint:": 'Queja del cliente:',
+    'Describe what the client raised...': 'Describa lo que planteó el cliente...',
+    "Describe the client's complaint.": 'Describa la queja del cliente.',
+    'What exactly did the client report?': '¿Qué informó exactamente el cliente?',
+    'Which interactions or deliverables does it concern?': '¿A qué interacciones o entregables se refiere?',
+    'Has the client raised similar concerns before?': '¿Ha planteado el cliente quejas similares antes?',
+    "Is the client's account supported by the evidence?": '¿Respaldan las pruebas la versión del cliente?',
+    'What did the employee say about it?': '¿Qué dijo el empleado al respecto?',
+    'Response to the Client (Optional)': 'Respuesta al cliente (opcional)',
+    'Response to the Client:': 'Respuesta al cliente:',
+    'How was the client answered...': 'Cómo se respondió al cliente...',
+    'What was communicated to the client, and by whom?': '¿Qué se comunicó al cliente y quién lo hizo?',
+    'What commitments were made?': '¿Qué compromisos se asumieron?',
+  },
+};
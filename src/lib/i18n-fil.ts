@@ -0,0 +1,404 @@
+// Filipino catalog - see i18n.ts
+
+import type { LocaleCatalog } from '@/lib/i18n';
+
+export const FIL_CATALOG: LocaleCatalog = {
+  messages: {
+    'document.datePrepared': 'Petsa ng Paghahanda:',
+    'document.status': 'Katayuan:',
+    'document.notSpecified': 'Hindi tinukoy',
+    'document.noneSelected': 'Walang napili',
+    'document.notSelected': 'Hindi pa napili',
+    'document.noContent': 'Walang nilalaman',
+    'document.nothingProvided': 'Walang ibinigay',
+    'document.noAttachments': 'Walang kalakip',
+    'document.noStatement': 'Walang naitalang salaysay',
+    'document.notRecorded': 'Hindi naitala',
+    'document.attachmentNumber': 'Kalakip {number}',
+    'document.employee': 'EMPLEYADO',
+    'document.employeeNumber': 'Empleyado #{id}',
+    'document.employeeId': 'EMP ID',
+    'document.position': 'POSISYON',
+    'document.client': 'KLIYENTE',
+    'document.role': 'PAPEL',
+    'document.name': 'PANGALAN',
+    'document.dateTaken': 'Petsa ng Pagkuha:',
+    'document.witnessStatement': 'Salaysay ng Saksi {number}:',
+    'document.timeline': 'TIMELINE',
+    'document.dateTime': 'PETSA AT ORAS',
+    'document.event': 'PANGYAYARI',
+    'document.actor': 'GUMAWA',
+    'document.evidence': 'EBIDENSIYA',
+    'document.signatories': 'MGA LUMAGDA',
+    'document.reportedBy': 'INIULAT NI',
+    'document.attestedBy': 'PINATUNAYAN NI',
+    'document.signature': 'Lagda:',
+    'document.date': 'Petsa:',
+    'document.historyEntry': '{action} ni {actor}',
+    'document.historyDate': 'Petsa',
+    'document.historyAction': 'Aksyon',
+    'document.historyBy': 'Ni',
+    'document.historyComment': 'Komento',
+    'document.page': 'Pahina',
+    'document.pageOf': 'ng',
+    'document.appendix': 'APENDIKS: MGA KALAKIP NA EBIDENSIYA',
+    'document.figure': 'Larawan {number}:',
+    'document.translation': 'Salin:',
+    'document.evidenceIntegrity': 'INTEGRIDAD NG EBIDENSIYA',
+    'document.evidenceIntegrityNote': 'Mga SHA-256 digest ng mga in-upload na file, at ng mga naka-link na pahina ayon sa pagkakakuha nang isumite ang ulat.',
+    'document.attachment': 'KALAKIP',
+    'document.addedBy': 'IDINAGDAG NI',
+    'document.digestFailed': 'Hindi makuha: {error}',
+    'document.digestPending': 'Kukunin sa pagsumite',
+    'document.digestNotApplicable': 'Hindi angkop (sangguniang dokumento)',
+    'document.priorIncidents': 'MGA NAKARAANG INSIDENTE',
+    'document.incidentDate': 'PETSA',
+    'document.incident': 'INSIDENTE',
+    'document.policyConcern': 'USAPIN SA PATAKARAN',
+
+    'role.subject': 'Sangkot',
+    'role.witness': 'Saksi',
+    'role.victim': 'Biktima',
+    'role.complainant': 'Nagreklamo',
+
+    'status.draft': 'Draft',
+    'status.pending_attestation': 'Naghihintay ng Pagpapatunay',
+    'status.returned': 'Ibinalik para sa Rebisyon',
+    'status.approved': 'Inaprubahan',
+    'status.rejected': 'Tinanggihan',
+
+    'action.create': 'Ginawa',
+    'action.submit': 'Isinumite',
+    'action.approve': 'Inaprubahan',
+    'action.return': 'Ibinalik',
+    'action.reject': 'Tinanggihan',
+
+    'form.confidential': 'PRIBADO AT KUMPIDENSIYAL',
+    'form.logout': 'Mag-logout',
+    'form.department': 'Departamento ng People and Culture',
+    'form.datePrepared': 'Petsa ng Paghahanda',
+    'form.language': 'Wika',
+    'form.loggedInAs': 'Naka-login bilang:',
+    'form.reportsToAttest': 'Mga Ulat na Papatunayan',
+    'form.allReports': 'Lahat ng Ulat',
+    'form.reportTemplates': 'Mga Template ng Ulat',
+    'form.savingDraft': 'Sine-save ang draft...',
+    'form.draftSavedAt': 'Na-save ang draft nang {time}',
+    'form.draftNotSaved': 'Hindi na-save ang draft - susubukan muli sa susunod na pagbabago',
+    'form.backToForm': 'Bumalik sa Form',
+    'form.previewDocument': 'Silipin ang Dokumento',
+    'form.status': 'Katayuan: {status}',
+    'form.lockedForReview': 'Naisumite na ang ulat na ito kay {attester} at naka-lock habang sinusuri.',
+    'form.theAttester': 'ang magpapatunay',
+    'form.returnedBy': 'Ibinalik ni {name}:',
+    'form.myReports': 'Aking mga Ulat',
+    'form.untitledIncident': 'Insidenteng walang pamagat',
+    'form.lastEdited': 'Huling binago {time}',
+    'form.resume': 'Ituloy',
+    'form.delete': 'Burahin',
+    'form.section': 'Seksyon {number}: {title}',
+    'form.generalInformation': 'Pangkalahatang Impormasyon',
+    'form.reportType': 'Uri ng Ulat',
+    'form.siteTimeZone': 'Time Zone ng Site',
+    'form.siteTimeZoneHint': 'Ang mga petsa at oras sa ulat na ito ay lokal na oras sa site.',
+    'form.documentLanguage': 'Wika ng Dokumento',
+    'form.documentLanguageHint': 'Sa wikang ito isusulat ang preview at ang mga dina-download na dokumento.',
+    'form.secondLanguage': 'Ikalawang Wika',
+    'form.secondLanguageNone': 'Wala',
+    'form.secondLanguageHint': 'Sa Word document, nakasulat sa dalawang wika ang bawat heading at label, at kasunod ng bawat salaysay ang salin nito.',
+    'form.translation': 'Salin ({language})',
+    'form.translationPlaceholder': 'I-type ang salin, o gamitin ang AI Translate...',
+    'form.aiTranslate': 'AI Translate',
+    'form.translating': 'Isinasalin...',
+    'form.signatoriesSection': 'Seksyon {first} at {second}: Mga Lumagda',
+    'form.reportedBy': 'Iniulat ni',
+    'form.attestedBy': 'Pinatunayan ni',
+    'form.you': 'Ikaw',
+    'form.employeeNo': 'Numero ng Empleyado:',
+    'form.position': 'Posisyon:',
+    'form.company': 'Kumpanya:',
+    'form.employeeId': 'Employee ID',
+    'form.enterEmployeeId': 'Ilagay ang Employee ID',
+    'form.employee': 'Empleyado',
+    'form.searchEmployee': 'Maghanap ayon sa pangalan, email o Employee ID',
+    'form.searchSupervisor': 'Maghanap ng supervisor ayon sa pangalan, email o Employee ID',
+    'form.searchingEmployees': 'Naghahanap...',
+    'form.noEmployeesFound': 'Walang tugmang empleyado',
+    'form.employeesFound': 'Mga tugma: {count}',
+    'form.employeeSearchFailed': 'Hindi magamit ang paghahanap. I-type ang Employee ID at pindutin ang Enter.',
+    'form.onlySupervisors': 'Mga supervisor lamang ang maaaring magpatunay ng mga ulat ng insidente.',
+    'form.lookUpAttester': 'Ilagay ang Employee ID ng isang supervisor para hanapin ang magpapatunay',
+    'form.fetch': 'Hanapin',
+    'form.fetching': 'Hinahanap...',
+    'form.employeeName': 'Pangalan ng Empleyado',
+    'form.employeeNumber': 'Numero ng Empleyado',
+    'form.positionRole': 'Posisyon/Tungkulin',
+    'form.departmentCompany': 'Departamento/Kumpanya',
+    'form.livePreview': 'Live na Preview',
+    'form.updatesAsYouType': 'Nag-a-update habang nagta-type ka',
+    'form.requiredFields': 'Mga Kailangang Field',
+    'form.documentDownloaded': 'Na-download ang Dokumento!',
+    'form.checkDownloads': 'Tingnan ang iyong downloads folder.',
+    'form.submit': 'Isumite para sa Pagpapatunay',
+    'form.resubmit': 'Isumite Muli para sa Pagpapatunay',
+    'form.submitting': 'Isinusumite...',
+    'form.downloadFormat': 'Format ng download',
+    'form.generating': 'Ginagawa ang Dokumento...',
+    'form.downloadWord': 'I-download ang Word Document',
+    'form.downloadPdf': 'I-download ang PDF Document',
+    'form.fixErrors': 'Ayusin ang mga mali na naka-highlight sa form para makapagsumite',
+    'form.completeRequired': 'Kumpletuhin ang lahat ng kailangang field para makapagsumite',
+    'form.loading': 'Naglo-load...',
+    'form.optional': '(Opsyonal)',
+    'form.aiPowered': 'Gamit ang AI',
+    'form.remove': 'Alisin',
+    'form.selectAll': '(Piliin ang lahat ng naaangkop)',
+    'form.selectAtLeastOne': 'Pumili ng kahit isang opsyon.',
+    'form.pleaseSpecify': 'Pakitukoy...',
+    'form.selectFirst': 'Pumili muna sa itaas...',
+    'form.describeImpactOne': 'Ilarawan kung paano naapektuhan ang {parties}...',
+    'form.describeImpactMany': 'Ilarawan kung paano naapektuhan ang {parties}...',
+    'form.considerAreas': 'Isaalang-alang ang mga ito:',
+    'form.makeSelection': 'Pumili sa itaas para makita ang mga angkop na tanong.',
+    'form.guidingQuestions': 'Mga Gabay na Tanong:',
+    'form.guidingQuestionsEach': 'Mga Gabay na Tanong sa Bawat Salaysay:',
+    'form.dropFiles': 'I-drag at i-drop dito ang mga file ng ebidensiya, o',
+    'form.browse': 'maghanap',
+    'form.fileLimits': '{types} hanggang {size} bawat isa.',
+    'form.imagesIncluded': 'Isinasama ang mga larawan sa Word document.',
+    'form.uploadingOne': 'Ina-upload ang 1 file...',
+    'form.uploadingMany': 'Ina-upload ang {count} file...',
+    'form.attachmentNumber': 'Kalakip {number}',
+    'form.attachmentName': 'Pangalan ng Kalakip',
+    'form.attachmentNameOrLink': 'Pangalan/Link ng Kalakip',
+    'form.attachmentNamePlaceholder': 'Pangalan ng dokumento o URL',
+    'form.description': 'Paglalarawan',
+    'form.attachmentDescriptionPlaceholder': 'Ilarawan kung ano ang ipinapakita ng kalakip na ito...',
+    'form.attachmentTip': 'Tip: Ilarawan kung ano ang pinapatunayan ng kalakip na ito (hal., "Screenshot ng Slack chat noong Marso 15 na nagpapakita kay [Pangalan] na pinag-uusapan...")',
+    'form.addLink': 'Magdagdag ng Link o Sangguniang Dokumento',
+    'form.employeesHint': 'Hanapin ang lahat ng sangkot sa insidente at itakda ang papel ng bawat isa.',
+    'form.noEmployees': 'Wala pang naidagdag na empleyado.',
+    'form.employeeEntry': 'Empleyado #{number}',
+    'form.role': 'Papel',
+    'form.addEmployee': 'Magdagdag ng Empleyado',
+    'form.priorIncidents': 'Mga nakaraang insidente ({count})',
+    'form.checkingPriorIncidents': 'Tinitingnan ang mga nakaraang insidente...',
+    'form.noPriorIncidents': 'Walang nakatalang nakaraang insidente.',
+    'form.priorIncidentsFailed': 'Hindi ma-load ang mga nakaraang insidente.',
+    'form.includePriorIncidents': 'Isama sa dokumento',
+    'form.witnessEntry': 'Saksi {number}',
+    'form.external': '(Panlabas)',
+    'form.witnessName': 'Pangalan ng Saksi',
+    'form.fullName': 'Buong pangalan',
+    'form.affiliation': 'Kumpanya/Kaugnayan',
+    'form.affiliationPlaceholder': 'hal., Kliyente - Acme Corp, seguridad ng gusali',
+    'form.dateStatementTaken': 'Petsa ng Pagkuha ng Salaysay',
+    'form.statement': 'Salaysay',
+    'form.statementPlaceholder': 'Ano ang nakita o narinig ng saksi?',
+    'form.addEmployeeWitness': 'Magdagdag ng Saksing Empleyado',
+    'form.addExternalWitness': 'Magdagdag ng Panlabas na Saksi',
+    'form.sortByTime': 'Ayusin ayon sa Oras',
+    'form.eventEntry': 'Pangyayari {number}',
+    'form.dateAndTime': 'Petsa at Oras',
+    'form.actorId': 'Employee ID ng Gumawa (Opsyonal)',
+    'form.whatHappened': 'Ano ang Nangyari',
+    'form.whatHappenedPlaceholder': 'hal., Umalis ang empleyado sa production floor nang hindi nagpapaalam sa team lead',
+    'form.evidence': 'Ebidensiya',
+    'form.untitledAttachment': 'Kalakip na walang pamagat',
+    'form.addEvent': 'Magdagdag ng Pangyayari',
+  },
+  templatePhrases: {
+    // Template names and titles
+    'Incident Report': 'Ulat ng Insidente',
+    'Misconduct or a policy violation by an employee.': 'Maling asal o paglabag sa patakaran ng isang empleyado.',
+    'Near-Miss Report': 'Ulat ng Muntik-Nang-Insidente',
+    'Something that could have caused harm or loss, but did not.': 'Isang bagay na maaaring nagdulot ng pinsala o pagkawala, ngunit hindi nangyari.',
+    'Attendance Violation Report': 'Ulat ng Paglabag sa Attendance',
+    'Tardiness, absences and other breaches of the attendance policy.': 'Pagkahuli, pagliban at iba pang paglabag sa patakaran sa attendance.',
+    'Client Escalation Report': 'Ulat ng Eskalasyon ng Kliyente',
+    'A complaint or escalation raised by a client about an employee.': 'Reklamo o eskalasyon ng isang kliyente tungkol sa isang empleyado.',
+
+    // Sections, groups and headings
+    'Employees Involved': 'Mga Empleyadong Sangkot',
+    'Employees Involved (Optional)': 'Mga Empleyadong Sangkot (Opsyonal)',
+    'EMPLOYEES INVOLVED': 'MGA EMPLEYADONG SANGKOT',
+    'Employee Details': 'Detalye ng Empleyado',
+    'Description of Incidents': 'Paglalarawan ng mga Insidente',
+    'Description of Incident': 'Paglalarawan ng Insidente',
+    'Description of Event': 'Paglalarawan ng Pangyayari',
+    'Attendance Violation': 'Paglabag sa Attendance',
+    'Client Escalation': 'Eskalasyon ng Kliyente',
+    'Core Details': 'Pangunahing Detalye',
+    'Narrative Fields': 'Mga Salaysay',
+    'Violation Details': 'Detalye ng Paglabag',
+    'Escalation Details': 'Detalye ng Eskalasyon',
+    'Timeline': 'Timeline',
+    'Witness Statements': 'Mga Salaysay ng Saksi',
+    'Attachments': 'Mga Kalakip',
+    'Attachments:': 'Mga Kalakip:',
+    'Impact': 'Epekto',
+    'Impact:': 'Epekto:',
+
+    // Shared fields
+    'Look up at least one employee being reported.': 'Hanapin ang kahit isang empleyadong iniuulat.',
+    'Record what each witness saw or heard. Look up employees by ID, or name external witnesses such as client staff or visitors.':
+      'Itala ang nakita o narinig ng bawat saksi. Hanapin ang mga empleyado ayon sa ID, o pangalanan ang mga panlabas na saksi gaya ng tauhan ng kliyente o bisita.',
+    'What did the witness see or hear, in their own words?': 'Ano ang nakita o narinig ng saksi, sa sarili niyang salita?',
+    'Where was the witness, and what were they doing at the time?': 'Nasaan ang saksi, at ano ang ginagawa niya noon?',
+    'How close were they, and could they see and hear clearly?': 'Gaano siya kalapit, at malinaw ba niyang nakita at narinig?',
+    'What was said, and by whom? (Quote exact words where possible)': 'Ano ang sinabi, at sino ang nagsabi? (Sipiin ang eksaktong salita kung maaari)',
+    'Did the witness speak to anyone involved before or after the incident?': 'Nakausap ba ng saksi ang sinumang sangkot bago o pagkatapos ng insidente?',
+    'For incidents that unfolded over hours or days, list each step with when it happened, who was involved and the evidence for it.':
+      'Para sa mga insidenteng tumagal nang ilang oras o araw, ilista ang bawat hakbang, kung kailan ito nangyari, sino ang sangkot at ang ebidensiya nito.',
+    'Timeline of Events': 'Timeline ng mga Pangyayari',
+    'TIMELINE OF EVENTS': 'TIMELINE NG MGA PANGYAYARI',
+    'Add supporting evidence such as: screenshots, Teramind logs, email copies, chat transcripts, or recordings.':
+      'Magdagdag ng sumusuportang ebidensiya gaya ng: screenshot, Teramind log, kopya ng email, chat transcript, o recording.',
+    'What does this attachment show or prove?': 'Ano ang ipinapakita o pinapatunayan ng kalakip na ito?',
+    'When was this evidence captured (date/time)?': 'Kailan nakuha ang ebidensiyang ito (petsa/oras)?',
+    'Who is involved in this evidence?': 'Sino ang sangkot sa ebidensiyang ito?',
+    'Who was impacted?': 'Sino ang naapektuhan?',
+    'Select at least one impacted party.': 'Pumili ng kahit isang naapektuhang partido.',
+    'Impacted Parties:': 'Mga Naapektuhang Partido:',
+    'Client': 'Kliyente',
+    'GoTeam': 'GoTeam',
+    'Peers': 'Mga Kasamahan',
+    'Management': 'Pamunuan',
+    'Others': 'Iba pa',
+    'How was trust, satisfaction, or the relationship affected?': 'Paano naapektuhan ang tiwala, kasiyahan, o ugnayan?',
+    'How was company reputation, compliance, or operations affected?': 'Paano naapektuhan ang reputasyon, pagsunod sa regulasyon, o operasyon ng kumpanya?',
+    'How was team morale, trust, or collaboration affected?': 'Paano naapektuhan ang morale, tiwala, o pagtutulungan ng team?',
+    'What additional supervision or intervention was required?': 'Anong karagdagang pangangasiwa o interbensyon ang kinailangan?',
+    'How were they specifically affected?': 'Paano sila partikular na naapektuhan?',
+    'Please specify who else was impacted': 'Pakitukoy kung sino pa ang naapektuhan',
+    'Please specify who else was impacted.': 'Pakitukoy kung sino pa ang naapektuhan.',
+    'How were they impacted?': 'Paano sila naapektuhan?',
+    'Describe the impact of the incident.': 'Ilarawan ang epekto ng insidente.',
+    'Location': 'Lokasyon',
+    'Time:': 'Oras:',
+    'What:': 'Ano:',
+    'Describe what happened...': 'Ilarawan ang nangyari...',
+    'Findings (Optional)': 'Mga Natuklasan (Opsyonal)',
+    'Findings:': 'Mga Natuklasan:',
+    'Document your investigation findings...': 'Itala ang mga natuklasan sa iyong imbestigasyon...',
+
+    // Incident report
+    'What (Brief Summary)': 'Ano (Maikling Buod)',
+    'Brief description of the incident': 'Maikling paglalarawan ng insidente',
+    'Describe what happened.': 'Ilarawan ang nangyari.',
+    'Where did the incident occur?': 'Saan nangyari ang insidente?',
+    'Enter where the incident happened.': 'Ilagay kung saan nangyari ang insidente.',
+    'Date and Time of Incident': 'Petsa at Oras ng Insidente',
+    'Enter when the incident happened.': 'Ilagay kung kailan nangyari ang insidente.',
+    'Incident Details': 'Detalye ng Insidente',
+    'Incident Details:': 'Detalye ng Insidente:',
+    'Incident details are required.': 'Kailangan ang detalye ng insidente.',
+    'What exactly happened? Describe the incident in your own words.': 'Ano talaga ang nangyari? Ilarawan ang insidente sa sarili mong salita.',
+    'Who was involved? (Include full names)': 'Sino ang sangkot? (Isama ang buong pangalan)',
+    'When and where did this occur?': 'Kailan at saan ito nangyari?',
+    'How was this discovered or reported?': 'Paano ito natuklasan o naiulat?',
+    'What evidence do you have? (e.g., Teramind logs, emails, chat messages)': 'Anong ebidensiya ang mayroon ka? (hal., Teramind log, email, chat message)',
+    'What did your investigation confirm or verify?': 'Ano ang nakumpirma o napatunayan ng iyong imbestigasyon?',
+    'What specific evidence supports your findings?': 'Anong tiyak na ebidensiya ang sumusuporta sa iyong mga natuklasan?',
+    'Were there any patterns or repeated behaviors?': 'May mga padron o paulit-ulit bang pag-uugali?',
+    'Who else was involved or aware of the situation?': 'Sino pa ang sangkot o may alam sa sitwasyon?',
+    'Policy/Code of Conduct Concern (Optional)': 'Usapin sa Patakaran/Code of Conduct (Opsyonal)',
+    'Reference any policy violations...': 'Banggitin ang anumang paglabag sa patakaran...',
+    'Policy/Code of Conduct Concerns:': 'Mga Usapin sa Patakaran/Code of Conduct:',
+    'Which company policies or codes of conduct were violated?': 'Aling mga patakaran o code of conduct ng kumpanya ang nilabag?',
+    'How did the specific actions violate these policies?': 'Paano nilabag ng mga partikular na aksyon ang mga patakarang ito?',
+    'Was there improper escalation (bypassing management/P&C)?': 'Nagkaroon ba ng hindi wastong eskalasyon (nilampasan ang pamunuan/P&C)?',
+    'Was there insubordination, gossip, or unprofessional behavior?': 'Nagkaroon ba ng pagsuway, tsismis, o hindi propesyonal na pag-uugali?',
+    'Did the employee fail to exercise professional judgment?': 'Nabigo ba ang empleyado na gumamit ng propesyonal na pagpapasya?',
+
+    // Near-miss report
+    'What nearly happened? (Brief Summary)': 'Ano ang muntik nang mangyari? (Maikling Buod)',
+    'Brief description of the near miss': 'Maikling paglalarawan ng muntik-nang-insidente',
+    'Describe what nearly happened.': 'Ilarawan ang muntik nang mangyari.',
+    'Where did it happen?': 'Saan ito nangyari?',
+    'Enter where it happened.': 'Ilagay kung saan ito nangyari.',
+    'Date and Time of Event': 'Petsa at Oras ng Pangyayari',
+    'Enter when it happened.': 'Ilagay kung kailan ito nangyari.',
+    'Event Details': 'Detalye ng Pangyayari',
+    'Event Details:': 'Detalye ng Pangyayari:',
+    'Event details are required.': 'Kailangan ang detalye ng pangyayari.',
+    'What was happening just before the event?': 'Ano ang nangyayari bago ang pangyayari?',
+    'What stopped it from becoming an incident?': 'Ano ang pumigil para hindi ito maging insidente?',
+    'Who was present or involved?': 'Sino ang naroon o sangkot?',
+    'How was this noticed or reported?': 'Paano ito napansin o naiulat?',
+    'Potential Consequences': 'Mga Posibleng Kahihinatnan',
+    'Potential Consequences:': 'Mga Posibleng Kahihinatnan:',
+    'What could have happened...': 'Ano ang maaaring nangyari...',
+    'Describe what could have happened.': 'Ilarawan ang maaaring nangyari.',
+    'What is the worst outcome that could have resulted?': 'Ano ang pinakamasamang maaaring kinahinatnan?',
+    'Who or what would have been affected (clients, data, people, equipment)?': 'Sino o ano ang maaapektuhan sana (kliyente, datos, tao, kagamitan)?',
+    'How likely is it to happen again?': 'Gaano kalamang na mangyari ito muli?',
+    'Recommended Preventive Actions (Optional)': 'Mga Inirerekomendang Hakbang sa Pag-iwas (Opsyonal)',
+    'Recommended Preventive Actions:': 'Mga Inirerekomendang Hakbang sa Pag-iwas:',
+    'Suggest how to prevent this...': 'Magmungkahi kung paano ito maiiwasan...',
+    'What change would stop this from happening again?': 'Anong pagbabago ang pipigil para hindi na ito maulit?',
+    'Who should own the follow-up?': 'Sino ang dapat mangasiwa sa follow-up?',
+
+    // Attendance violation report
+    'Type of violation': 'Uri ng paglabag',
+    'Select the type of violation.': 'Piliin ang uri ng paglabag.',
+    'Violation:': 'Paglabag:',
+    'Tardiness': 'Pagkahuli',
+    'Absence Without Leave': 'Pagliban nang Walang Paalam',
+    'Undertime': 'Undertime',
+    'Extended Break': 'Lumampas na Break',
+    'No Call/No Show': 'Hindi Tumawag/Hindi Pumasok',
+    'Please specify the violation': 'Pakitukoy ang paglabag',
+    'Please specify the violation.': 'Pakitukoy ang paglabag.',
+    'Date and Time of Violation': 'Petsa at Oras ng Paglabag',
+    'Enter when the violation happened.': 'Ilagay kung kailan nangyari ang paglabag.',
+    'Occurrences in the Last 30 Days': 'Dami ng Ulit sa Nakaraang 30 Araw',
+    'e.g. 3': 'hal. 3',
+    'Occurrences (30 days):': 'Dami ng Ulit (30 araw):',
+    'Details': 'Mga Detalye',
+    'Details:': 'Mga Detalye:',
+    'Describe the violation...': 'Ilarawan ang paglabag...',
+    'Details of the violation are required.': 'Kailangan ang detalye ng paglabag.',
+    'When was the employee expected, and when did they arrive or leave?': 'Kailan inaasahan ang empleyado, at kailan siya dumating o umalis?',
+    'Was the absence or lateness communicated beforehand?': 'Naipaalam ba nang maaga ang pagliban o pagkahuli?',
+    'What explanation did the employee give?': 'Anong paliwanag ang ibinigay ng empleyado?',
+    'Which records support this? (e.g., timekeeping logs, schedules)': 'Aling mga rekord ang sumusuporta rito? (hal., timekeeping log, iskedyul)',
+    'Attendance Policy Concerns (Optional)': 'Mga Usapin sa Patakaran sa Attendance (Opsyonal)',
+    'Attendance Policy Concerns:': 'Mga Usapin sa Patakaran sa Attendance:',
+    'Reference the attendance policy...': 'Banggitin ang patakaran sa attendance...',
+    'Which part of the attendance policy applies?': 'Aling bahagi ng patakaran sa attendance ang naaangkop?',
+    'Is this part of a pattern, and were earlier warnings given?': 'Bahagi ba ito ng isang padron, at may naibigay bang babala dati?',
+
+    // Client escalation report
+    'Client or account name': 'Pangalan ng kliyente o account',
+    'Enter the client who raised the escalation.': 'Ilagay ang kliyenteng nag-escalate.',
+    'Escalation Summary': 'Buod ng Eskalasyon',
+    'Brief description of the escalation': 'Maikling paglalarawan ng eskalasyon',
+    'Summarize the escalation.': 'Ibuod ang eskalasyon.',
+    'Summary:': 'Buod:',
+    'Date and Time Received': 'Petsa at Oras ng Pagtanggap',
+    'Enter when the escalation was received.': 'Ilagay kung kailan natanggap ang eskalasyon.',
+    'Received:': 'Natanggap:',
+    'How was it raised?': 'Paano ito iniulat?',
+    'Channel:': 'Paraan:',
+    'Email': 'Email',
+    'Phone Call': 'Tawag sa Telepono',
+    'Chat': 'Chat',
+    'Support Ticket': 'Support Ticket',
+    'Meeting': 'Pulong',
+    "Client's Complaint": 'Reklamo ng Kliyente',
+    "Client's Complaint:": 'Reklamo ng Kliyente:',
+    'Describe what the client raised...': 'Ilarawan ang inireklamo ng kliyente...',
+    "Describe the client's complaint.": 'Ilarawan ang reklamo ng kliyente.',
+    'What exactly did the client report?': 'Ano talaga ang iniulat ng kliyente?',
+    'Which interactions or deliverables does it concern?': 'Aling mga interaksyon o deliverable ang tinutukoy nito?',
+    'Has the client raised similar concerns before?': 'Nagreklamo na ba ang kliyente ng ganito dati?',
+    "Is the client's account supported by the evidence?": 'Sinusuportahan ba ng ebidensiya ang salaysay ng kliyente?',
+    'What did the employee say about it?': 'Ano ang sinabi ng empleyado tungkol dito?',
+    'Response to the Client (Optional)': 'Tugon sa Kliyente (Opsyonal)',
+    'Response to the Client:': 'Tugon sa Kliyente:',
+    'How was the client answered...': 'Paano sinagot ang kliyente...',
+    'What was communicated to the client, and by whom?': 'Ano ang ipinaalam sa kliyente, at sino ang nagpaalam?',
+    'What commitments were made?': 'Anong mga pangako ang ginawa?',
+  },
+};
@@ -0,0 +1,285 @@
+// Message catalogs for the form and the generated documents. The form is shown in the language the user picks,
+// and every report has a document language of its own (IncidentReport.locale), so a reporter can fill in the form
+// in English and download a Spanish copy. Template wording (labels, headings, guiding questions) is translated
+// phrase by phrase - see localizeTemplate in report-templates.ts. Pure module - safe to import from client components.
+
+import { ES_CATALOG } from '@/lib/i18n-es';
+import { FIL_CATALOG } from '@/lib/i18n-fil';
+
+export type Locale = 'en' | 'fil' | 'es';
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export interface LocaleOption {
+  id: Locale;
+  // In the language itself, as shown in the language pickers
+  label: string;
+  // BCP 47 tag, e.g. for the language of a PDF
+  tag: string;
+}
+
+export const LOCALES: LocaleOption[] = [
+  { id: 'en', label: 'English', tag: 'en-US' },
+  { id: 'fil', label: 'Filipino', tag: 'fil-PH' },
+  { id: 'es', label: 'Español', tag: 'es' },
+];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+export const getLocaleTag = (locale: Locale) => LOCALES.find(option => option.id === locale)?.tag || 'en-US';
+
+// The English catalog is the source: every other catalog must translate each of its keys.
+// {name} placeholders are filled in by the translator.
+export const EN_MESSAGES = {
+  // Generated documents and the preview
+  'document.datePrepared': 'Date Prepared:',
+  'document.status': 'Status:',
+  'document.notSpecified': 'Not specified',
+  'document.noneSelected': 'None selected',
+  'document.notSelected': 'Not selected',
+  'document.noContent': 'No content provided',
+  'document.nothingProvided': 'Nothing provided',
+  'document.noAttachments': 'No attachments',
+  'document.noStatement': 'No statement recorded',
+  'document.notRecorded': 'Not recorded',
+  'document.attachmentNumber': 'Attachment {number}',
+  'document.employee': 'EMPLOYEE',
+  'document.employeeId': 'EMP ID',
+  'document.employeeNumber': 'Employee #{id}',
+  'document.position': 'POSITION',
+  'document.client': 'CLIENT',
+  'document.role': 'ROLE',
+  'document.name': 'NAME',
+  'document.dateTaken': 'Date Taken:',
+  'document.witnessStatement': 'Witness Statement {number}:',
+  'document.timeline': 'TIMELINE',
+  'document.dateTime': 'DATE & TIME',
+  'document.event': 'EVENT',
+  'document.actor': 'ACTOR',
+  'document.evidence': 'EVIDENCE',
+  'document.signatories': 'SIGNATORIES',
+  'document.reportedBy': 'REPORTED BY',
+  'document.attestedBy': 'ATTESTED BY',
+  'document.signature': 'Signature:',
+  'document.date': 'Date:',
+  'document.historyEntry': '{action} by {actor}',
+  'document.historyDate': 'Date',
+  'document.historyAction': 'Action',
+  'document.historyBy': 'By',
+  'document.historyComment': 'Comment',
+  'document.page': 'Page',
+  'document.pageOf': 'of',
+  'document.appendix': 'APPENDIX: ATTACHED EVIDENCE',
+  'document.figure': 'Figure {number}:',
+  'document.translation': 'Translation:',
+  'document.evidenceIntegrity': 'EVIDENCE INTEGRITY',
+  'document.evidenceIntegrityNote': 'SHA-256 digests of uploaded files, and of linked pages as fetched when the report was submitted.',
+  'document.attachment': 'ATTACHMENT',
+  'document.addedBy': 'ADDED BY',
+  'document.digestFailed': 'Could not be fetched: {error}',
+  'document.digestPending': 'Fetched on submission',
+  'document.digestNotApplicable': 'Not applicable (document reference)',
+  'document.priorIncidents': 'PRIOR INCIDENTS',
+  'document.incidentDate': 'DATE',
+  'document.incident': 'INCIDENT',
+  'document.policyConcern': 'POLICY CONCERN',
+
+  'role.subject': 'Subject',
+  'role.witness': 'Witness',
+  'role.victim': 'Victim',
+  'role.complainant': 'Complainant',
+
+  'status.draft': 'Draft',
+  'status.pending_attestation': 'Pending Attestation',
+  'status.returned': 'Returned for Revision',
+  'status.approved': 'Approved',
+  'status.rejected': 'Rejected',
+
+  'action.create': 'Created',
+  'action.submit': 'Submitted',
+  'action.approve': 'Approved',
+  'action.return': 'Returned',
+  'action.reject': 'Rejected',
+
+  // The form
+  'form.confidential': 'PRIVATE & CONFIDENTIAL',
+  'form.logout': 'Logout',
+  'form.department': 'People and Culture Department',
+  'form.datePrepared': 'Date Prepared',
+  'form.language': 'Language',
+  'form.loggedInAs': 'Logged in as:',
+  'form.reportsToAttest': 'Reports to Attest',
+  'form.allReports': 'All Reports',
+  'form.reportTemplates': 'Report Templates',
+  'form.savingDraft': 'Saving draft...',
+  'form.draftSavedAt': 'Draft saved at {time}',
+  'form.draftNotSaved': 'Draft not saved - retrying on next edit',
+  'form.backToForm': 'Back to Form',
+  'form.previewDocument': 'Preview Document',
+  'form.status': 'Status: {status}',
+  'form.lockedForReview': 'This report has been submitted to {attester} and is locked while under review.',
+  'form.theAttester': 'the attester',
+  'form.returnedBy': 'Returned by {name}:',
+  'form.myReports': 'My Reports',
+  'form.untitledIncident': 'Untitled incident',
+  'form.lastEdited': 'Last edited {time}',
+  'form.resume': 'Resume',
+  'form.delete': 'Delete',
+  'form.section': 'Section {number}: {title}',
+  'form.generalInformation': 'General Information',
+  'form.reportType': 'Report Type',
+  'form.siteTimeZone': 'Site Time Zone',
+  'form.siteTimeZoneHint': 'Dates and times on this report are local time at the site.',
+  'form.documentLanguage': 'Document Language',
+  'form.documentLanguageHint': 'The preview and downloaded documents are written in this language.',
+  'form.secondLanguage': 'Second Language',
+  'form.secondLanguageNone': 'None',
+  'form.secondLanguageHint': 'Word documents print every heading and label in both languages, and each narrative is followed by its translation.',
+  'form.translation': 'Translation ({language})',
+  'form.translationPlaceholder': 'Type the translation, or use AI Translate...',
+  'form.aiTranslate': 'AI Translate',
+  'form.translating': 'Translating...',
+  'form.signatoriesSection': 'Section {first} & {second}: Signatories',
+  'form.reportedBy': 'Reported By',
+  'form.attestedBy': 'Attested By',
+  'form.you': 'You',
+  'form.employeeNo': 'Employee No:',
+  'form.position': 'Position:',
+  'form.company': 'Company:',
+  'form.employeeId': 'Employee ID',
+  'form.enterEmployeeId': 'Enter Employee ID',
+  'form.employee': 'Employee',
+  'form.searchEmployee': 'Search by name, email or Employee ID',
+  'form.searchSupervisor': 'Search for a supervisor by name, email or Employee ID',
+  'form.searchingEmployees': 'Searching...',
+  'form.noEmployeesFound': 'No matching employees',
+  'form.employeesFound': 'Matches: {count}',
+  'form.employeeSearchFailed': 'Search is unavailable. Type the Employee ID and press Enter.',
+  'form.onlySupervisors': 'Only supervisors can attest incident reports.',
+  'form.lookUpAttester': "Enter a supervisor's Employee ID to look up the attesting party",
+  'form.fetch': 'Fetch',
+  'form.fetching': 'Fetching...',
+  'form.employeeName': 'Employee Name',
+  'form.employeeNumber': 'Employee Number',
+  'form.positionRole': 'Position/Role',
+  'form.departmentCompany': 'Department/Company',
+  'form.livePreview': 'Live Preview',
+  'form.updatesAsYouType': 'Updates as you type',
+  'form.requiredFields': 'Required Fields',
+  'form.documentDownloaded': 'Document Downloaded!',
+  'form.checkDownloads': 'Check your downloads folder.',
+  'form.submit': 'Submit for Attestation',
+  'form.resubmit': 'Resubmit for Attestation',
+  'form.submitting': 'Submitting...',
+  'form.downloadFormat': 'Download format',
+  'form.generating': 'Generating Document...',
+  'form.downloadWord': 'Download Word Document',
+  'form.downloadPdf': 'Download PDF Document',
+  'form.fixErrors': 'Fix the errors highlighted in the form to submit',
+  'form.completeRequired': 'Complete all required fields to submit',
+  'form.loading': 'Loading...',
+  'form.optional': '(Optional)',
+  'form.aiPowered': 'AI Powered',
+  'form.remove': 'Remove',
+  'form.selectAll': '(Select all that apply)',
+  'form.selectAtLeastOne': 'Please select at least one option.',
+  'form.pleaseSpecify': 'Please specify...',
+  'form.selectFirst': 'Please make a selection above first...',
+  'form.describeImpactOne': 'Describe how {parties} was affected...',
+  'form.describeImpactMany': 'Describe how {parties} were affected...',
+  'form.considerAreas': 'Consider these areas:',
+  'form.makeSelection': 'Make a selection above to see relevant questions.',
+  'form.guidingQuestions': 'Guiding Questions:',
+  'form.guidingQuestionsEach': 'Guiding Questions for Each Statement:',
+  'form.dropFiles': 'Drag and drop evidence files here, or',
+  'form.browse': 'browse',
+  'form.fileLimits': '{types} up to {size} each.',
+  'form.imagesIncluded': 'Images are included in the Word document.',
+  'form.uploadingOne': 'Uploading 1 file...',
+  'form.uploadingMany': 'Uploading {count} files...',
+  'form.attachmentNumber': 'Attachment {number}',
+  'form.attachmentName': 'Attachment Name',
+  'form.attachmentNameOrLink': 'Attachment Name/Link',
+  'form.attachmentNamePlaceholder': 'Document name or URL',
+  'form.description': 'Description',
+  'form.attachmentDescriptionPlaceholder': 'Describe what this attachment shows...',
+  'form.attachmentTip': 'Tip: Describe what this attachment proves (e.g., "Screenshot of Slack chat dated March 15 showing [Name] discussing...")',
+  'form.addLink': 'Add Link or Document Reference',
+  'form.employeesHint': "Look up everyone involved in the incident and set each person's role.",
+  'form.noEmployees': 'No employees added yet.',
+  'form.employeeEntry': 'Employee #{number}',
+  'form.role': 'Role',
+  'form.addEmployee': 'Add Employee',
+  'form.priorIncidents': 'Prior incidents ({count})',
+  'form.checkingPriorIncidents': 'Checking for prior incidents...',
+  'form.noPriorIncidents': 'No prior incidents on file.',
+  'form.priorIncidentsFailed': 'Could not load prior incidents.',
+  'form.includePriorIncidents': 'Include in the document',
+  'form.witnessEntry': 'Witness {number}',
+  'form.external': '(External)',
+  'form.witnessName': 'Witness Name',
+  'form.fullName': 'Full name',
+  'form.affiliation': 'Company/Relationship',
+  'form.affiliationPlaceholder': 'e.g., Client - Acme Corp, building security',
+  'form.dateStatementTaken': 'Date Statement Taken',
+  'form.statement': 'Statement',
+  'form.statementPlaceholder': 'What did the witness see or hear?',
+  'form.addEmployeeWitness': 'Add Employee Witness',
+  'form.addExternalWitness': 'Add External Witness',
+  'form.sortByTime': 'Sort by Time',
+  'form.eventEntry': 'Event {number}',
+  'form.dateAndTime': 'Date and Time',
+  'form.actorId': 'Actor Employee ID (Optional)',
+  'form.whatHappened': 'What Happened',
+  'form.whatHappenedPlaceholder': 'e.g., Employee left the production floor without notifying the team lead',
+  'form.evidence': 'Evidence',
+  'form.untitledAttachment': 'Untitled attachment',
+  'form.addEvent': 'Add Event',
+};
+
+export type MessageKey = keyof typeof EN_MESSAGES;
+export type Messages = Record<MessageKey, string>;
+
+export interface LocaleCatalog {
+  messages: Messages;
+  // Template wording, keyed by the English text of the built-in templates
+  templatePhrases: Record<string, string>;
+}
+
+const CATALOGS: Record<Locale, LocaleCatalog> = {
+  en: { messages: EN_MESSAGES, templatePhrases: {} },
+  fil: FIL_CATALOG,
+  es: ES_CATALOG,
+};
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export function getTranslator(locale: Locale): Translator {
+  const { messages } = CATALOGS[locale] || CATALOGS[DEFAULT_LOCALE];
+  return (key, params) => messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params && Object.hasOwn(params, name) ? String(params[name]) : placeholder
+  );
+}
+
+// Wording a template author wrote in English; phrases without a translation stay as written
+export const translateTemplateText = (locale: Locale, text: string): string =>
+  (CATALOGS[locale] || CATALOGS[DEFAULT_LOCALE]).templatePhrases[text] ?? text;
+
+// A fixed label in both languages of a bilingual document, e.g. "Findings / Conclusiones:" - one colon, at the end
+export function joinTranslations(first: string, second: string): string {
+  if (first === second) return first;
+  return first.endsWith(':') && second.endsWith(':') ? `${first.slice(0, -1)} / ${second}` : `${first} / ${second}`;
+}
+
+// The second language of a bilingual document, or null when it would only repeat the first
+export const getSecondLocale = (locale: Locale, secondLocale: Locale | null): Locale | null =>
+  secondLocale && secondLocale !== locale ? secondLocale : null;
+
+// Labels and headings in the document language, followed by the second language when there is one
+export function getLabelTranslator(locale: Locale, secondLocale: Locale | null): Translator {
+  const t = getTranslator(locale);
+  const second = getSecondLocale(locale, secondLocale);
+  if (!second) return t;
+  const t2 = getTranslator(second);
+  return (key, params) => joinTranslations(t(key, params), t2(key, params));
+}
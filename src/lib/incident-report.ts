@@ -0,0 +1,575 @@
+// The incident report data model, shared by the form, the preview, the DOCX/PDF generators
+// and the API routes. Add new report fields here (type + schema entry) and nowhere else.
+// Pure module - safe to import from client components.
+
+import type { Role } from '@/lib/roles';
+import type { ReportStatus, StatusHistoryEntry } from '@/lib/report-workflow';
+import type { ReportTemplate } from '@/lib/report-templates';
+import { DEFAULT_LOCALE, getTranslator, isLocale, type Locale, type Translator } from '@/lib/i18n';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, todayIn } from '@/lib/time-zones';
+
+// Bump when a stored field changes shape, and add a step to migrateIncidentReport
+export const INCIDENT_REPORT_SCHEMA_VERSION = 2;
+
+export interface EmployeeDetails {
+  id: number;
+  employee_id: number;
+  employee_name: string;
+  employee_email: string;
+  position: string;
+  company: string;
+  created_at?: string;
+  roles?: Role[];
+}
+
+// The logged-in reporter has the same shape as any other employee record
+export type UserDetails = EmployeeDetails;
+
+// An evidence file uploaded to the attachment store (see attachments.ts)
+export interface AttachmentFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Hex SHA-256 of the stored bytes
+  sha256: string;
+  // Pixel size of images, used to scale them in documents
+  width?: number;
+  height?: number;
+}
+
+// Who first saved an attachment to a report. Stamped by the server; see evidence-custody.ts
+export interface AttachmentAddedBy {
+  employeeId: string;
+  name: string;
+  at: string;
+}
+
+// What a linked URL returned when the report was submitted. sha256 is null if it couldn't be fetched
+export interface LinkCapture {
+  sha256: string | null;
+  size: number | null;
+  fetchedAt: string;
+  error: string;
+}
+
+export interface Attachment {
+  id: string;
+  nameOrLink: string;
+  description: string;
+  // Set for uploaded files; null for links and documents described by name only
+  file: AttachmentFile | null;
+  addedBy: AttachmentAddedBy | null;
+  // Set once a link has been fetched on submission
+  link: LinkCapture | null;
+}
+
+// How an employee named on a report was involved in the incident
+export const INVOLVEMENT_ROLES = ['subject', 'witness', 'victim', 'complainant'] as const;
+export type InvolvementRole = typeof INVOLVEMENT_ROLES[number];
+
+export const INVOLVEMENT_ROLE_LABELS: Record<InvolvementRole, string> = {
+  subject: 'Subject',
+  witness: 'Witness',
+  victim: 'Victim',
+  complainant: 'Complainant',
+};
+
+export interface InvolvedEmployee {
+  id: string;
+  role: InvolvementRole;
+  // As typed by the reporter; details is filled in once the lookup succeeds
+  employeeId: string;
+  details: EmployeeDetails | null;
+}
+
+// Employee witnesses are looked up by ID; anyone else (client staff, vendors, visitors) is named by hand
+export type WitnessSource = 'employee' | 'external';
+
+export interface WitnessStatement {
+  id: string;
+  source: WitnessSource;
+  // Employee witnesses: as typed by the reporter; details is filled in once the lookup succeeds
+  employeeId: string;
+  details: EmployeeDetails | null;
+  // External witnesses: who they are and who they are with, e.g. "Client - Acme Corp"
+  name: string;
+  affiliation: string;
+  // YYYY-MM-DD
+  dateTaken: string;
+  // Markdown, in the witness's own words
+  statement: string;
+}
+
+// One step in how an incident unfolded; documents list the steps in time order
+export interface TimelineEvent {
+  id: string;
+  // datetime-local value, YYYY-MM-DDTHH:mm
+  at: string;
+  description: string;
+  // Who acted, if it was an employee: the ID as typed, and the record once the lookup succeeds
+  actorId: string;
+  actorDetails: EmployeeDetails | null;
+  // Attachment.id of each piece of evidence for this step
+  attachmentIds: string[];
+}
+
+// An earlier report about one of the subjects, as listed in their incident history (see employee-history.ts)
+export interface PriorIncident {
+  reportId: string;
+  // The subject whose history it comes from
+  employeeId: string;
+  employeeName: string;
+  reportType: string;
+  // As entered on that report, in its own time zone
+  incidentDateTime: string;
+  timeZone: string;
+  incidentWhat: string;
+  // Plain-text excerpt of its policy/code of conduct concerns
+  policyConcern: string;
+}
+
+// Values of template fields that have no property of their own on IncidentReport
+export type CustomFieldValue = string | string[] | EmployeeDetails | null;
+
+// Everything the reporter fills in on the form
+export interface IncidentReport {
+  schemaVersion: number;
+  // The report template (and version of it) the report was written with - see report-templates.ts
+  templateId: string;
+  templateVersion: number;
+  // IANA time zone of the site where the incident happened. Every date and time on the report is
+  // wall-clock time there, and documents print them in it whatever zone they are generated in.
+  timeZone: string;
+  // Language the preview and generated documents are written in; what is typed into the report isn't translated
+  locale: Locale;
+  // Bilingual Word documents: the language printed alongside the document language, or null for one language
+  secondLocale: Locale | null;
+  datePrepared: string;
+  involvedEmployees: InvolvedEmployee[];
+  incidentWhat: string;
+  incidentLocation: string;
+  incidentDateTime: string;
+  incidentDetails: string;
+  timeline: TimelineEvent[];
+  findings: string;
+  policyViolation: string;
+  witnessStatements: WitnessStatement[];
+  attachments: Attachment[];
+  impactCategories: string[];
+  impactOthersSpecify: string;
+  impactDescription: string;
+  attestedById: string;
+  attestedByDetails: EmployeeDetails | null;
+  customFields: Record<string, CustomFieldValue>;
+  // Markdown narratives in the second language, by rich text field key; entered by hand or by AI Translate
+  translations: Record<string, string>;
+  // Subjects' incident histories the reporter chose to print in the document. Refreshed by the server on every save
+  priorIncidents: PriorIncident[];
+}
+
+// A report plus who wrote it and where it is in the workflow - what the preview and generators render
+export interface IncidentReportDocument extends IncidentReport {
+  template: ReportTemplate;
+  reportedBy: UserDetails;
+  status?: ReportStatus;
+  statusHistory?: StatusHistoryEntry[];
+}
+
+interface FieldSchema<T> {
+  // Returns undefined when the value is present but has the wrong shape
+  parse: (value: unknown) => T | undefined;
+  defaultValue: () => T;
+  description: string;
+}
+
+type IncidentReportSchema = {
+  [K in Exclude<keyof IncidentReport, 'schemaVersion'>]: FieldSchema<IncidentReport[K]>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asNumber = (value: unknown) => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// Employee records come from the directory webhook - keep the known fields only
+export function parseEmployeeDetails(value: unknown): EmployeeDetails | null | undefined {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) return undefined;
+
+  const employeeId = asNumber(value.employee_id);
+  if (employeeId === undefined || typeof value.employee_name !== 'string') return undefined;
+
+  return {
+    id: asNumber(value.id) ?? employeeId,
+    employee_id: employeeId,
+    employee_name: value.employee_name,
+    employee_email: optionalString(value.employee_email) ?? '',
+    position: optionalString(value.position) ?? '',
+    company: optionalString(value.company) ?? '',
+    ...(typeof value.created_at === 'string' ? { created_at: value.created_at } : {}),
+    ...(Array.isArray(value.roles)
+      ? { roles: value.roles.filter((role): role is Role => typeof role === 'string') }
+      : {}),
+  };
+}
+
+const parseAttachmentFile = (value: unknown): AttachmentFile | null | undefined => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) return undefined;
+
+  const size = asNumber(value.size);
+  if (typeof value.id !== 'string' || typeof value.name !== 'string' || typeof value.sha256 !== 'string' || size === undefined) {
+    return undefined;
+  }
+  const width = asNumber(value.width);
+  const height = asNumber(value.height);
+
+  return {
+    id: value.id,
+    name: value.name,
+    mimeType: optionalString(value.mimeType) ?? 'application/octet-stream',
+    size,
+    sha256: value.sha256,
+    ...(width !== undefined && height !== undefined ? { width, height } : {}),
+  };
+};
+
+const parseAttachmentAddedBy = (value: unknown): AttachmentAddedBy | null => {
+  if (!isRecord(value) || typeof value.employeeId !== 'string' || typeof value.at !== 'string') return null;
+  return { employeeId: value.employeeId, name: optionalString(value.name) ?? '', at: value.at };
+};
+
+const parseLinkCapture = (value: unknown): LinkCapture | null => {
+  if (!isRecord(value) || typeof value.fetchedAt !== 'string') return null;
+  return {
+    sha256: optionalString(value.sha256) ?? null,
+    size: asNumber(value.size) ?? null,
+    fetchedAt: value.fetchedAt,
+    error: optionalString(value.error) ?? '',
+  };
+};
+
+const parseAttachment = (value: unknown): Attachment | undefined => {
+  if (!isRecord(value)) return undefined;
+  const file = parseAttachmentFile(value.file);
+  if (file === undefined) return undefined;
+  return {
+    id: optionalString(value.id) || crypto.randomUUID(),
+    nameOrLink: optionalString(value.nameOrLink) ?? '',
+    description: optionalString(value.description) ?? '',
+    file,
+    addedBy: parseAttachmentAddedBy(value.addedBy),
+    link: parseLinkCapture(value.link),
+  };
+};
+
+const parseInvolvedEmployee = (value: unknown): InvolvedEmployee | undefined => {
+  if (!isRecord(value)) return undefined;
+  const details = parseEmployeeDetails(value.details);
+  if (details === undefined) return undefined;
+  return {
+    id: optionalString(value.id) || crypto.randomUUID(),
+    role: INVOLVEMENT_ROLES.find(role => role === value.role) || 'subject',
+    employeeId: optionalString(value.employeeId) ?? '',
+    details,
+  };
+};
+
+const parseWitnessStatement = (value: unknown): WitnessStatement | undefined => {
+  if (!isRecord(value)) return undefined;
+  const details = parseEmployeeDetails(value.details);
+  if (details === undefined) return undefined;
+  return {
+    id: optionalString(value.id) || crypto.randomUUID(),
+    source: value.source === 'external' ? 'external' : 'employee',
+    employeeId: optionalString(value.employeeId) ?? '',
+    details,
+    name: optionalString(value.name) ?? '',
+    affiliation: optionalString(value.affiliation) ?? '',
+    dateTaken: optionalString(value.dateTaken) ?? '',
+    statement: optionalString(value.statement) ?? '',
+  };
+};
+
+const parseTimelineEvent = (value: unknown): TimelineEvent | undefined => {
+  if (!isRecord(value)) return undefined;
+  const actorDetails = parseEmployeeDetails(value.actorDetails);
+  if (actorDetails === undefined) return undefined;
+  return {
+    id: optionalString(value.id) || crypto.randomUUID(),
+    at: optionalString(value.at) ?? '',
+    description: optionalString(value.description) ?? '',
+    actorId: optionalString(value.actorId) ?? '',
+    actorDetails,
+    attachmentIds: Array.isArray(value.attachmentIds)
+      ? value.attachmentIds.filter((id): id is string => typeof id === 'string')
+      : [],
+  };
+};
+
+const parsePriorIncident = (value: unknown): PriorIncident | undefined => {
+  if (!isRecord(value) || typeof value.reportId !== 'string' || typeof value.employeeId !== 'string') {
+    return undefined;
+  }
+  return {
+    reportId: value.reportId,
+    employeeId: value.employeeId,
+    employeeName: optionalString(value.employeeName) ?? '',
+    reportType: optionalString(value.reportType) ?? '',
+    incidentDateTime: optionalString(value.incidentDateTime) ?? '',
+    timeZone: typeof value.timeZone === 'string' && isValidTimeZone(value.timeZone) ? value.timeZone : DEFAULT_TIME_ZONE,
+    incidentWhat: optionalString(value.incidentWhat) ?? '',
+    policyConcern: optionalString(value.policyConcern) ?? '',
+  };
+};
+
+const text = (description: string): FieldSchema<string> => ({
+  parse: optionalString,
+  defaultValue: () => '',
+  description,
+});
+
+const parseStringList = (value: unknown) =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? (value as string[]) : undefined;
+
+const parseCustomFieldValue = (value: unknown): CustomFieldValue | undefined => {
+  if (value === null || typeof value === 'string') return value;
+  if (Array.isArray(value)) return parseStringList(value);
+  return parseEmployeeDetails(value) ?? undefined;
+};
+
+const employee = (description: string): FieldSchema<EmployeeDetails | null> => ({
+  parse: parseEmployeeDetails,
+  defaultValue: () => null,
+  description,
+});
+
+
+export const INCIDENT_REPORT_SCHEMA: IncidentReportSchema = {
+  templateId: { parse: optionalString, defaultValue: () => 'incident', description: 'Report template' },
+  templateVersion: {
+    parse: value => (typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined),
+    defaultValue: () => 1,
+    description: 'Report template version',
+  },
+  timeZone: {
+    parse: value => (typeof value === 'string' && isValidTimeZone(value) ? value : undefined),
+    defaultValue: () => DEFAULT_TIME_ZONE,
+    description: 'Time zone',
+  },
+  locale: {
+    parse: value => (isLocale(value) ? value : undefined),
+    defaultValue: () => DEFAULT_LOCALE,
+    description: 'Document language',
+  },
+  secondLocale: {
+    parse: value => (value === null || isLocale(value) ? value : undefined),
+    defaultValue: () => null,
+    description: 'Second document language',
+  },
+  datePrepared: { parse: optionalString, defaultValue: () => todayIn(DEFAULT_TIME_ZONE), description: 'Date prepared' },
+  involvedEmployees: {
+    parse: value => {
+      if (!Array.isArray(value)) return undefined;
+      const involved = value.map(parseInvolvedEmployee);
+      return involved.every(Boolean) ? (involved as InvolvedEmployee[]) : undefined;
+    },
+    defaultValue: () => [],
+    description: 'Involved employees',
+  },
+  incidentWhat: text('What happened'),
+  incidentLocation: text('Location'),
+  incidentDateTime: text('Date and time of incident'),
+  incidentDetails: text('Incident details'),
+  timeline: {
+    parse: value => {
+      if (!Array.isArray(value)) return undefined;
+      const events = value.map(parseTimelineEvent);
+      return events.every(Boolean) ? (events as TimelineEvent[]) : undefined;
+    },
+    defaultValue: () => [],
+    description: 'Timeline',
+  },
+  findings: text('Findings'),
+  policyViolation: text('Policy/Code of Conduct concerns'),
+  witnessStatements: {
+    parse: value => {
+      if (!Array.isArray(value)) return undefined;
+      const statements = value.map(parseWitnessStatement);
+      return statements.every(Boolean) ? (statements as WitnessStatement[]) : undefined;
+    },
+    defaultValue: () => [],
+    description: 'Witness statements',
+  },
+  attachments: {
+    parse: value => {
+      if (!Array.isArray(value)) return undefined;
+      const attachments = value.map(parseAttachment);
+      return attachments.every(Boolean) ? (attachments as Attachment[]) : undefined;
+    },
+    defaultValue: () => [],
+    description: 'Attachments',
+  },
+  impactCategories: { parse: parseStringList, defaultValue: () => [], description: 'Impacted parties' },
+  impactOthersSpecify: text('Other impacted parties'),
+  impactDescription: text('Impact description'),
+  attestedById: text('Attester employee ID'),
+  attestedByDetails: employee('Attester details'),
+  customFields: {
+    parse: value => {
+      if (!isRecord(value)) return undefined;
+      const fields: Record<string, CustomFieldValue> = {};
+      for (const [key, fieldValue] of Object.entries(value)) {
+        const parsed = parseCustomFieldValue(fieldValue);
+        if (parsed === undefined) return undefined;
+        fields[key] = parsed;
+      }
+      return fields;
+    },
+    defaultValue: () => ({}),
+    description: 'Template fields',
+  },
+  translations: {
+    parse: value => (isRecord(value) && Object.values(value).every(text => typeof text === 'string')
+      ? (value as Record<string, string>)
+      : undefined),
+    defaultValue: () => ({}),
+    description: 'Translations',
+  },
+  priorIncidents: {
+    parse: value => {
+      if (!Array.isArray(value)) return undefined;
+      const incidents = value.map(parsePriorIncident);
+      return incidents.every(Boolean) ? (incidents as PriorIncident[]) : undefined;
+    },
+    defaultValue: () => [],
+    description: 'Prior incidents',
+  },
+};
+
+const SCHEMA_FIELDS = Object.keys(INCIDENT_REPORT_SCHEMA) as (keyof IncidentReportSchema)[];
+
+// A blank report with every field at its default
+export function createEmptyIncidentReport(): IncidentReport {
+  const report = { schemaVersion: INCIDENT_REPORT_SCHEMA_VERSION } as Record<string, unknown>;
+  SCHEMA_FIELDS.forEach(field => {
+    report[field] = INCIDENT_REPORT_SCHEMA[field].defaultValue();
+  });
+  return report as unknown as IncidentReport;
+}
+
+// The fixed impact categories offered before report templates existed
+const LEGACY_IMPACT_CATEGORIES = ['Client', 'GoTeam', 'Peers', 'Management', 'Others'];
+
+// Bring a stored report up to the current schema version, one version at a time
+const migrateIncidentReport = (input: Record<string, unknown>): Record<string, unknown> => {
+  const version = typeof input.schemaVersion === 'number' ? input.schemaVersion : 0;
+  const migrated = { ...input };
+
+  // v0 -> v1: drafts saved before versioning had no schemaVersion and free-form impact categories
+  if (version < 1 && Array.isArray(migrated.impactCategories)) {
+    migrated.impactCategories = migrated.impactCategories.filter(category => LEGACY_IMPACT_CATEGORIES.includes(category));
+  }
+
+  // v1 -> v2: the single reported employee becomes the first subject in the list of involved employees
+  if (version < 2 && (migrated.employeeId || migrated.employeeDetails)) {
+    migrated.involvedEmployees = [{
+      id: 'subject_1',
+      role: 'subject',
+      employeeId: migrated.employeeId ?? '',
+      details: migrated.employeeDetails ?? null,
+    }];
+  }
+
+  migrated.schemaVersion = INCIDENT_REPORT_SCHEMA_VERSION;
+  return migrated;
+};
+
+// List the fields of an untrusted payload that are present but have the wrong shape
+export function validateIncidentReport(input: unknown): string[] {
+  if (!isRecord(input)) return ['Report data must be an object.'];
+
+  return SCHEMA_FIELDS
+    .filter(field => input[field] !== undefined && INCIDENT_REPORT_SCHEMA[field].parse(input[field]) === undefined)
+    .map(field => `${INCIDENT_REPORT_SCHEMA[field].description} is not valid.`);
+}
+
+// Normalise untrusted or previously stored data into a current-version report.
+// Unknown fields are dropped; missing or malformed fields fall back to their defaults.
+export function parseIncidentReport(input: unknown): IncidentReport {
+  const source = migrateIncidentReport(isRecord(input) ? input : {});
+  const report = createEmptyIncidentReport() as unknown as Record<string, unknown>;
+
+  SCHEMA_FIELDS.forEach(field => {
+    const value = INCIDENT_REPORT_SCHEMA[field].parse(source[field]);
+    if (value !== undefined) report[field] = value;
+  });
+
+  return report as unknown as IncidentReport;
+}
+
+// The looked-up employees a report is about, in the order they were added
+export const getSubjects = (report: Pick<IncidentReport, 'involvedEmployees'>): EmployeeDetails[] =>
+  report.involvedEmployees
+    .filter(involved => involved.role === 'subject' && involved.details)
+    .map(involved => involved.details!);
+
+// Subject names for lists and titles, e.g. "Juan Dela Cruz and Maria Santos" or "Juan Dela Cruz and 2 others"
+export function formatSubjectNames(report: Pick<IncidentReport, 'involvedEmployees'>): string {
+  const names = getSubjects(report).map(subject => subject.employee_name);
+  if (names.length <= 2) return names.join(' and ');
+  return `${names[0]} and ${names.length - 1} others`;
+}
+
+// The prior incidents printed in the document: those of employees who are still subjects of this report
+export const getIncludedPriorIncidents = (report: Pick<IncidentReport, 'involvedEmployees' | 'priorIncidents'>): PriorIncident[] => {
+  const subjectIds = new Set(getSubjects(report).map(subject => String(subject.employee_id)));
+  return report.priorIncidents.filter(incident => subjectIds.has(incident.employeeId));
+};
+
+// Who gave a statement, e.g. "Ana Reyes (Employee #3003, Team Lead)" or "John Smith (Client - Acme Corp)";
+// empty until the employee is looked up or the external witness is named
+export function formatWitness(witness: WitnessStatement, t: Translator = getTranslator(DEFAULT_LOCALE)): string {
+  if (witness.source === 'employee') {
+    if (!witness.details) return '';
+    const position = witness.details.position ? `, ${witness.details.position}` : '';
+    return `${witness.details.employee_name} (${t('document.employeeNumber', { id: witness.details.employee_id })}${position})`;
+  }
+  const name = witness.name.trim();
+  const affiliation = witness.affiliation.trim();
+  return name && affiliation ? `${name} (${affiliation})` : name;
+}
+
+// Timeline events in the order they happened; events without a valid time keep their place at the end
+export const sortTimeline = (events: TimelineEvent[]): TimelineEvent[] => {
+  const hasTime = (event: TimelineEvent) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(event.at);
+  return [
+    ...events.filter(hasTime).sort((a, b) => a.at.localeCompare(b.at)),
+    ...events.filter(event => !hasTime(event)),
+  ];
+};
+
+// Who acted in a timeline event, e.g. "Juan Dela Cruz (Employee #1001)"; empty when no employee was looked up
+export function formatTimelineActor(event: TimelineEvent, t: Translator = getTranslator(DEFAULT_LOCALE)): string {
+  if (!event.actorDetails) return '';
+  return `${event.actorDetails.employee_name} (${t('document.employeeNumber', { id: event.actorDetails.employee_id })})`;
+}
+
+// Download filename shared by every generated document, e.g. Incident_Report_Juan_Dela_Cruz_2026-03-03.docx,
+// Incident_Report_Juan_Dela_Cruz_and_Maria_Santos_2026-03-03.docx or Incident_Report_Juan_Dela_Cruz_and_2_others_2026-03-03.docx
+// A report without a valid date prepared is named after fallbackDate (YYYY-MM-DD), by default today at the site.
+export function buildReportFilename(
+  report: Pick<IncidentReport, 'involvedEmployees' | 'datePrepared' | 'timeZone'>,
+  extension: string,
+  fallbackDate: string = todayIn(report.timeZone)
+): string {
+  const employeeName = (formatSubjectNames(report) || 'Employee').replace(/\s+/g, '_');
+  const dateStr = /^\d{4}-\d{2}-\d{2}/.test(report.datePrepared) ? report.datePrepared.slice(0, 10) : fallbackDate;
+  return `Incident_Report_${employeeName}_${dateStr}.${extension}`;
+}
@@ -0,0 +1,26 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CompanyLogo, LogoImage } from '@/lib/logos';
+
+// Logo files are part of the deployment, so each one is read from public/ at most once per process
+const cache = new Map<string, Promise<LogoImage | null>>();
+
+const readLogo = async (logo: CompanyLogo): Promise<LogoImage | null> => {
+  try {
+    const file = await fs.readFile(path.join(process.cwd(), 'public', logo.src));
+    return { ...logo, data: file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read logo file:', error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+};
+
+// Server-side counterpart of loadLogoImage; resolves to null (text wordmark) if the file is missing
+export function readLogoImage(logo: CompanyLogo): Promise<LogoImage | null> {
+  if (!cache.has(logo.src)) {
+    cache.set(logo.src, readLogo(logo));
+  }
+  return cache.get(logo.src)!;
+}
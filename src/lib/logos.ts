@@ -0,0 +1,72 @@
+// Company logos bundled under public/logos/, so documents never depend on an external host.
+// Which logo a company gets is part of its branding profile (branding.ts).
+// Server-side file loading lives in logo-files.ts; this module is safe to import from client components.
+
+export interface CompanyLogo {
+  src: string; // path under public/
+  type: 'png' | 'jpg';
+  width: number; // rendered size in px
+  height: number;
+}
+
+export interface LogoImage extends CompanyLogo {
+  data: ArrayBuffer;
+}
+
+// Browser cache: memory first, then IndexedDB, then the file under public/
+const LOGO_DB_NAME = 'incident-report-logos';
+const LOGO_STORE_NAME = 'logos';
+const LOGO_CACHE_MS = 24 * 60 * 60 * 1000;
+
+const memoryCache = new Map<string, Promise<LogoImage | null>>();
+
+const openLogoDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(LOGO_DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(LOGO_STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readCachedLogo = async (src: string): Promise<ArrayBuffer | null> => {
+  const db = await openLogoDb();
+  return new Promise((resolve) => {
+    const request = db.transaction(LOGO_STORE_NAME).objectStore(LOGO_STORE_NAME).get(src);
+    request.onsuccess = () => {
+      const entry = request.result as { data: ArrayBuffer; savedAt: number } | undefined;
+      resolve(entry && Date.now() - entry.savedAt < LOGO_CACHE_MS ? entry.data : null);
+    };
+    request.onerror = () => resolve(null);
+  });
+};
+
+const writeCachedLogo = async (src: string, data: ArrayBuffer) => {
+  const db = await openLogoDb();
+  db.transaction(LOGO_STORE_NAME, 'readwrite').objectStore(LOGO_STORE_NAME).put({ data, savedAt: Date.now() }, src);
+};
+
+const fetchLogo = async (logo: CompanyLogo): Promise<LogoImage | null> => {
+  try {
+    const cached = await readCachedLogo(logo.src);
+    if (cached) return { ...logo, data: cached };
+  } catch {
+    // IndexedDB unavailable (e.g. private browsing) - fall through to the network
+  }
+
+  try {
+    const response = await fetch(logo.src);
+    if (!response.ok) return null;
+    const data = await response.arrayBuffer();
+    writeCachedLogo(logo.src, data).catch(() => {});
+    return { ...logo, data };
+  } catch {
+    return null;
+  }
+};
+
+// Load a logo in the browser; resolves to null (text wordmark) if the file is missing
+export function loadLogoImage(logo: CompanyLogo): Promise<LogoImage | null> {
+  if (!memoryCache.has(logo.src)) {
+    memoryCache.set(logo.src, fetchLogo(logo));
+  }
+  return memoryCache.get(logo.src)!;
+}
@@ -0,0 +1,707 @@
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import {
+  formatFullName,
+  tokenizeInlineMarkdown,
+  type InlineRun,
+} from '@/lib/docx-generator';
+import {
+  formatSubjectNames,
+  formatTimelineActor,
+  getIncludedPriorIncidents,
+  type IncidentReportDocument,
+} from '@/lib/incident-report';
+import {
+  findTemplateField,
+  formatCheckboxValue,
+  formatInvolvedEmployees,
+  formatStatementTitle,
+  formatTimeline,
+  formatTimelineEvidence,
+  formatWitnessStatements,
+  getAttachmentsValue,
+  getDocumentLabel,
+  getEmployeeValue,
+  getInvolvedEmployeesValue,
+  getRecordedStatements,
+  getRecordedTimeline,
+  getTextValue,
+  isFieldFilled,
+  localizeTemplate,
+  type DocumentBlock,
+  type TemplateField,
+} from '@/lib/report-templates';
+import type { BrandingProfile, BrandPalette } from '@/lib/branding';
+import type { LogoImage } from '@/lib/logos';
+import { formatFileSize } from '@/lib/attachments';
+import { getLocaleTag, getTranslator, type Translator } from '@/lib/i18n';
+import { formatDate, formatDateTime } from '@/lib/time-zones';
+
+// Server-only: renders the same report as docx-generator.ts, but as an archivable PDF/A-2b file.
+// PDF/A requires every font to be embedded, so the built-in PDF fonts are never used.
+
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+const FONTS = {
+  regular: path.join(FONT_DIR, 'DejaVuSans.ttf'),
+  bold: path.join(FONT_DIR, 'DejaVuSans-Bold.ttf'),
+  italic: path.join(FONT_DIR, 'DejaVuSans-Oblique.ttf'),
+  boldItalic: path.join(FONT_DIR, 'DejaVuSans-BoldOblique.ttf'),
+};
+
+// Neutral colors shared with the Word document; brand colors come from the report's branding profile
+const colors = {
+  black: '#000000',
+  boxFill: '#f3f4f6',
+  border: '#d1d5db',
+  muted: '#6b7280',
+  placeholder: '#9ca3af',
+  footer: '#666666',
+};
+
+// 0.75" top/bottom and 0.85" left/right, as in the Word document
+const MARGINS = { top: 54, bottom: 54, left: 61, right: 61 };
+const BODY_SIZE = 10;
+
+type PDFDoc = PDFKit.PDFDocument;
+
+interface Run extends InlineRun {
+  color?: string;
+}
+
+const fontFor = (run: Run) => {
+  if (run.bold && run.italics) return 'boldItalic';
+  if (run.bold) return 'bold';
+  if (run.italics) return 'italic';
+  return 'regular';
+};
+
+const contentWidth = (doc: PDFDoc) => doc.page.width - MARGINS.left - MARGINS.right;
+
+// Start a new page if the next block would run past the bottom margin
+const ensureSpace = (doc: PDFDoc, height: number) => {
+  if (doc.y + height > doc.page.height - MARGINS.bottom) {
+    doc.addPage();
+  }
+};
+
+// Measure mixed runs using the widest face they use, so boxes never come out too short
+const measureRuns = (doc: PDFDoc, runs: Run[], width: number, size: number) => {
+  const text = runs.map(run => run.text).join('');
+  doc.font(runs.some(run => run.bold) ? 'bold' : 'regular').fontSize(size);
+  return doc.heightOfString(text || ' ', { width });
+};
+
+// Write a paragraph made of differently styled runs at (x, y)
+const writeRuns = (doc: PDFDoc, runs: Run[], x: number, y: number, width: number, size: number, align: 'left' | 'right' | 'center' = 'left') => {
+  doc.fontSize(size);
+  runs.forEach((run, index) => {
+    const continued = index < runs.length - 1;
+    doc.font(fontFor(run)).fillColor(run.color || colors.black);
+    if (index === 0) {
+      doc.text(run.text, x, y, { width, align, continued });
+    } else {
+      doc.text(run.text, { continued });
+    }
+  });
+};
+
+interface Block {
+  runs: Run[];
+  size: number;
+  indent: number;
+  spaceBefore: number;
+  spaceAfter: number;
+}
+
+// Markdown to paragraph blocks, following the same rules as the DOCX parser
+const parseMarkdownToBlocks = (text: string, emptyText: string): Block[] => {
+  if (!text || !text.trim()) {
+    return [{
+      runs: [{ text: emptyText, italics: true, color: colors.placeholder }],
+      size: BODY_SIZE,
+      indent: 0,
+      spaceBefore: 0,
+      spaceAfter: 0,
+    }];
+  }
+
+  const blocks: Block[] = [];
+  let currentListNumber = 0;
+  const paragraph = (runs: Run[], options: Partial<Block> = {}): Block => ({
+    runs,
+    size: BODY_SIZE,
+    indent: 0,
+    spaceBefore: 0,
+    spaceAfter: 4,
+    ...options,
+  });
+
+  text.split('\n').forEach((line) => {
+    const trimmedLine = line.trim();
+
+    if (!trimmedLine) {
+      blocks.push(paragraph([{ text: ' ' }], { spaceAfter: 0 }));
+      return;
+    }
+
+    const heading = trimmedLine.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(paragraph([{ text: heading[2], bold: true }], {
+        size: [14, 12, 11][level - 1],
+        spaceBefore: [12, 10, 8][level - 1],
+        spaceAfter: [6, 5, 4][level - 1],
+      }));
+      return;
+    }
+
+    if (trimmedLine.startsWith('- ') || trimmedLine.startsWith('* ')) {
+      currentListNumber = 0;
+      blocks.push(paragraph([{ text: '•  ' }, ...tokenizeInlineMarkdown(trimmedLine.substring(2))], { indent: 18, spaceAfter: 3 }));
+      return;
+    }
+
+    const numberedMatch = trimmedLine.match(/^(\d+)\.\s+(.*)$/);
+    if (numberedMatch) {
+      currentListNumber++;
+      blocks.push(paragraph([
+        { text: `${currentListNumber}. `, bold: true },
+        ...tokenizeInlineMarkdown(numberedMatch[2]),
+      ], { indent: 18, spaceAfter: 3 }));
+      return;
+    }
+
+    const subItemMatch = trimmedLine.match(/^([a-z])[.)]\s+(.*)$/i);
+    if (subItemMatch) {
+      blocks.push(paragraph([
+        { text: `${subItemMatch[1].toLowerCase()}. ` },
+        ...tokenizeInlineMarkdown(subItemMatch[2]),
+      ], { indent: 36, spaceAfter: 3 }));
+      return;
+    }
+
+    currentListNumber = 0;
+    blocks.push(paragraph(tokenizeInlineMarkdown(trimmedLine)));
+  });
+
+  return blocks;
+};
+
+// keepWithNext reserves room so a title never sits alone at the bottom of a page
+const drawSectionTitle = (doc: PDFDoc, palette: BrandPalette, title: string, keepWithNext = 40) => {
+  ensureSpace(doc, keepWithNext);
+  doc.font('bold').fontSize(12).fillColor(`#${palette.heading}`)
+    .text(title, MARGINS.left, doc.y, { width: contentWidth(doc) });
+  doc.moveDown(0.4);
+};
+
+interface Cell {
+  text: string;
+  width: number; // fraction of the content width
+  isHeader?: boolean;
+}
+
+// A bordered key/value table like the DOCX "createCell" tables
+const drawTable = (doc: PDFDoc, palette: BrandPalette, rows: Cell[][]) => {
+  const tableWidth = contentWidth(doc);
+  const padX = 7;
+  const padY = 4;
+
+  rows.forEach(row => {
+    const widths = row.map(cell => cell.width * tableWidth);
+    const height = Math.max(...row.map((cell, index) => {
+      doc.font(cell.isHeader ? 'bold' : 'regular').fontSize(BODY_SIZE);
+      return doc.heightOfString(cell.text || ' ', { width: widths[index] - padX * 2 });
+    })) + padY * 2;
+
+    ensureSpace(doc, height);
+    const top = doc.y;
+    let x = MARGINS.left;
+
+    row.forEach((cell, index) => {
+      if (cell.isHeader) {
+        doc.rect(x, top, widths[index], height).fill(`#${palette.labelFill}`);
+      }
+      doc.rect(x, top, widths[index], height).lineWidth(0.5).strokeColor(colors.border).stroke();
+      doc.font(cell.isHeader ? 'bold' : 'regular')
+        .fontSize(BODY_SIZE)
+        .fillColor(cell.isHeader ? `#${palette.labelText}` : colors.black)
+        .text(cell.text, x + padX, top + padY, { width: widths[index] - padX * 2 });
+      x += widths[index];
+    });
+
+    doc.x = MARGINS.left;
+    doc.y = top + height;
+  });
+};
+
+// A titled box around narrative content; breaks across pages between paragraphs
+const drawContentBox = (doc: PDFDoc, palette: BrandPalette, title: string, blocks: Block[]) => {
+  const width = contentWidth(doc);
+  const padX = 11;
+  const padY = 7;
+  const innerWidth = width - padX * 2;
+
+  doc.font('bold').fontSize(11);
+  const titleHeight = doc.heightOfString(title, { width: innerWidth }) + padY * 2;
+  const firstBlockHeight = blocks.length > 0
+    ? measureRuns(doc, blocks[0].runs, innerWidth - blocks[0].indent, blocks[0].size)
+    : 0;
+  ensureSpace(doc, titleHeight + firstBlockHeight + padY * 2);
+
+  let segmentTop = doc.y;
+  doc.rect(MARGINS.left, segmentTop, width, titleHeight).fill(colors.boxFill);
+  doc.font('bold').fontSize(11).fillColor(`#${palette.heading}`)
+    .text(title, MARGINS.left + padX, segmentTop + padY, { width: innerWidth });
+  let y = segmentTop + titleHeight;
+  doc.moveTo(MARGINS.left, y).lineTo(MARGINS.left + width, y).lineWidth(0.5).strokeColor(colors.border).stroke();
+  y += padY;
+
+  blocks.forEach(block => {
+    const blockWidth = innerWidth - block.indent;
+    const height = block.spaceBefore + measureRuns(doc, block.runs, blockWidth, block.size) + block.spaceAfter;
+
+    // Close the box on this page and continue it on the next
+    if (y + height > doc.page.height - MARGINS.bottom) {
+      doc.rect(MARGINS.left, segmentTop, width, y - segmentTop).lineWidth(0.75).strokeColor(colors.border).stroke();
+      doc.addPage();
+      segmentTop = doc.y;
+      y = segmentTop + padY;
+    }
+
+    writeRuns(doc, block.runs, MARGINS.left + padX + block.indent, y + block.spaceBefore, blockWidth, block.size);
+    y = doc.y + block.spaceAfter;
+  });
+
+  y += padY;
+  doc.rect(MARGINS.left, segmentTop, width, y - segmentTop).lineWidth(0.75).strokeColor(colors.border).stroke();
+  doc.x = MARGINS.left;
+  doc.y = y;
+};
+
+const addSpacing = (doc: PDFDoc, points: number) => {
+  doc.y += points;
+};
+
+// Confidentiality banner, running header and footer with "Page X of Y", stamped onto every page once the layout is final
+const drawPageFurniture = (doc: PDFDoc, branding: BrandingProfile, t: Translator) => {
+  const range = doc.bufferedPageRange();
+
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing inside the margins would otherwise trigger an automatic page break
+    const { bottom } = doc.page.margins;
+    doc.page.margins.bottom = 0;
+
+    doc.rect(MARGINS.left, 12, contentWidth(doc), 13).fill(`#${branding.palette.banner}`);
+    doc.font('bold').fontSize(8).fillColor('#ffffff')
+      .text(branding.confidentialityBanner, MARGINS.left + 5, 15, { width: contentWidth(doc) - 10, lineBreak: false });
+    doc.font('bold').fontSize(BODY_SIZE).fillColor(`#${branding.palette.primary}`)
+      .text(branding.department, MARGINS.left, 30, { width: contentWidth(doc), lineBreak: false });
+    doc.font('regular').fontSize(8).fillColor(colors.footer)
+      .text(branding.footerText, MARGINS.left, doc.page.height - 46, {
+        width: contentWidth(doc),
+        align: 'center',
+        lineBreak: false,
+      });
+    doc.font('regular').fontSize(9).fillColor(colors.footer)
+      .text(`${t('document.page')} ${index + 1} ${t('document.pageOf')} ${range.count}`, MARGINS.left, doc.page.height - 34, {
+        width: contentWidth(doc),
+        align: 'center',
+        lineBreak: false,
+      });
+
+    doc.page.margins.bottom = bottom;
+  }
+};
+
+const drawTitle = (doc: PDFDoc, data: IncidentReportDocument, title: string, branding: BrandingProfile, logo: LogoImage | null) => {
+  const t = getTranslator(data.locale);
+  const width = contentWidth(doc);
+  const top = doc.y;
+  const logoWidth = width * 0.3;
+  const logoX = MARGINS.left + width - logoWidth;
+
+  doc.font('bold').fontSize(26).fillColor(colors.black).text(title, MARGINS.left, top, { width: width * 0.7 });
+  doc.moveDown(0.2);
+  writeRuns(doc, [
+    { text: `${t('document.datePrepared')} `, bold: true },
+    { text: formatDate(data.datePrepared, data.timeZone, data.locale) },
+  ], MARGINS.left, doc.y, width * 0.7, 11);
+  const leftBottom = doc.y;
+
+  // Logo image or fallback text
+  let logoBottom = top;
+  let hasLogo = false;
+  if (logo) {
+    try {
+      // Same size as in the Word document (px to pt)
+      const logoHeight = logo.height * 0.75;
+      doc.image(Buffer.from(logo.data), logoX, top, { fit: [logoWidth, logoHeight], align: 'right' });
+      logoBottom = top + logoHeight + 2;
+      hasLogo = true;
+    } catch {
+      // Unsupported image format - use the text logo instead
+    }
+  }
+  if (!hasLogo) {
+    writeRuns(doc, branding.wordmark.map(part => ({ text: part.text, bold: true, color: `#${part.color}` })), logoX, top, logoWidth, 20, 'right');
+    logoBottom = doc.y;
+  }
+  doc.font('italic').fontSize(9).fillColor(colors.muted)
+    .text(branding.tagline, logoX, logoBottom, { width: logoWidth, align: 'right' });
+
+  const bottom = Math.max(leftBottom, doc.y) + 6;
+  doc.moveTo(MARGINS.left, bottom).lineTo(MARGINS.left + width, bottom).lineWidth(1.5).strokeColor(`#${branding.palette.primary}`).stroke();
+  doc.x = MARGINS.left;
+  doc.y = bottom;
+};
+
+const drawSignatories = (doc: PDFDoc, data: IncidentReportDocument) => {
+  const t = getTranslator(data.locale);
+  const width = contentWidth(doc);
+  const half = width / 2;
+  const padX = 14;
+  const padY = 11;
+  const innerWidth = half - padX * 2;
+
+  const status = data.status || 'draft';
+  const statusHistory = data.statusHistory || [];
+  // The most recent approval, if the attester has signed off
+  const approval = status === 'approved'
+    ? [...statusHistory].reverse().find(entry => entry.action === 'approve')
+    : undefined;
+  const workflowHistory = statusHistory.filter(entry => entry.action !== 'create');
+
+  const columns = [
+    {
+      label: t('document.reportedBy'),
+      name: formatFullName(data.reportedBy),
+      placeholder: false,
+      position: data.reportedBy.position || 'N/A',
+      date: formatDate(data.datePrepared, data.timeZone, data.locale),
+    },
+    {
+      label: t('document.attestedBy'),
+      name: data.attestedByDetails ? formatFullName(data.attestedByDetails) : t('document.notSelected'),
+      placeholder: !data.attestedByDetails,
+      position: data.attestedByDetails?.position || '',
+      date: approval ? formatDate(approval.at, data.timeZone, data.locale) : '_______________________',
+    },
+  ];
+
+  const historyRuns: Run[][] = workflowHistory.map(entry => [
+    { text: `${formatDateTime(entry.at, data.timeZone, data.locale)} — `, color: colors.muted },
+    { text: t('document.historyEntry', { action: t(`action.${entry.action}`), actor: entry.actorName }), bold: true },
+    ...(entry.comment ? [{ text: `: ${entry.comment}` }] : []),
+  ]);
+  const historyHeight = historyRuns.reduce((sum, runs) => sum + measureRuns(doc, runs, width - padX * 2, 9) + 2, 0);
+  const signatureHeight = 150;
+  const statusHeight = 20 + historyHeight + padY * 2;
+
+  ensureSpace(doc, signatureHeight + statusHeight);
+  const top = doc.y;
+
+  columns.forEach((column, index) => {
+    const x = MARGINS.left + half * index + padX;
+    doc.font('bold').fontSize(9).fillColor(colors.muted).text(column.label, x, top + padY, { width: innerWidth });
+    doc.moveDown(0.6);
+    doc.font(column.placeholder ? 'italic' : 'bold').fontSize(12)
+      .fillColor(column.placeholder ? colors.placeholder : colors.black)
+      .text(column.name, x, doc.y, { width: innerWidth });
+    doc.font('regular').fontSize(BODY_SIZE).fillColor(colors.black).text(column.position || ' ', x, doc.y, { width: innerWidth });
+    doc.moveDown(1.4);
+    doc.fillColor(colors.muted).text(`${t('document.signature')} _______________________`, x, doc.y, { width: innerWidth });
+    doc.moveDown(0.4);
+    doc.fillColor(colors.black).text(`${t('document.date')} ${column.date}`, x, doc.y, { width: innerWidth });
+  });
+
+  const statusTop = top + signatureHeight;
+  doc.rect(MARGINS.left, statusTop, width, statusHeight).fill(colors.boxFill);
+  writeRuns(doc, [
+    { text: `${t('document.status').toUpperCase()} `, bold: true, color: colors.muted },
+    { text: t(`status.${status}`), bold: true },
+  ], MARGINS.left + padX, statusTop + padY, width - padX * 2, 9);
+  doc.moveDown(0.3);
+  historyRuns.forEach(runs => {
+    writeRuns(doc, runs, MARGINS.left + padX, doc.y, width - padX * 2, 9);
+    doc.y += 2;
+  });
+
+  doc.lineWidth(0.75).strokeColor(colors.border);
+  doc.rect(MARGINS.left, top, width, signatureHeight + statusHeight).stroke();
+  doc.moveTo(MARGINS.left + half, top).lineTo(MARGINS.left + half, statusTop).lineWidth(0.5).stroke();
+  doc.moveTo(MARGINS.left, statusTop).lineTo(MARGINS.left + width, statusTop).lineWidth(0.5).stroke();
+
+  doc.x = MARGINS.left;
+  doc.y = statusTop + statusHeight;
+};
+
+export const generateIncidentReportPdf = async (
+  data: IncidentReportDocument,
+  branding: BrandingProfile,
+  logo: LogoImage | null
+): Promise<Buffer> => {
+  const { palette } = branding;
+  // Fixed wording from the message catalog, and the template's own wording, in the report's document language
+  const t = getTranslator(data.locale);
+  const template = localizeTemplate(data.template, data.locale);
+  const fieldsOf = (keys: string[]) => keys
+    .map(key => findTemplateField(template, key))
+    .filter((field): field is TemplateField => Boolean(field));
+
+  // A short field's value as text; empty values read "Not specified"
+  const formatValue = (field: TemplateField): string => {
+    if (!isFieldFilled(data, field)) return t(field.type === 'checkboxGroup' ? 'document.noneSelected' : 'document.notSpecified');
+    switch (field.type) {
+      case 'date':
+        return formatDate(getTextValue(data, field.key), data.timeZone, data.locale);
+      case 'datetime':
+        return formatDateTime(getTextValue(data, field.key), data.timeZone, data.locale);
+      case 'checkboxGroup':
+        return formatCheckboxValue(data, field);
+      case 'employee':
+        return formatFullName(getEmployeeValue(data, field.key)!);
+      case 'employeeList':
+        return formatInvolvedEmployees(data, field, t);
+      case 'witnessStatements':
+        return formatWitnessStatements(data, field, t);
+      case 'timeline':
+        return formatTimeline(data, field);
+      default:
+        return getTextValue(data, field.key);
+    }
+  };
+
+  // Rich text is written out in full; anything else becomes a "Label: value" line
+  const boxBlocks = (field: TemplateField): Block[] => {
+    if (field.type === 'richText') return parseMarkdownToBlocks(getTextValue(data, field.key), t('document.noContent'));
+    if (field.type === 'attachments') {
+      const attachments = getAttachmentsValue(data, field.key);
+      return attachments.length > 0
+        ? attachments.flatMap((att, idx): Block[] => [
+            {
+              runs: [
+                { text: `${idx + 1}. ${att.nameOrLink || t('document.attachmentNumber', { number: idx + 1 })}`, bold: true },
+                ...(att.description ? [{ text: ` — ${att.description}` }] : []),
+              ],
+              size: BODY_SIZE,
+              indent: 11,
+              spaceBefore: 0,
+              spaceAfter: 3,
+            },
+            ...(att.file ? [{
+              runs: [{ text: `${att.file.name} · ${formatFileSize(att.file.size)} · SHA-256 ${att.file.sha256}`, color: colors.muted }],
+              size: 8,
+              indent: 25,
+              spaceBefore: 0,
+              spaceAfter: 3,
+            }] : []),
+          ])
+        : [{
+            runs: [{ text: t('document.noAttachments'), italics: true, color: colors.placeholder }],
+            size: BODY_SIZE,
+            indent: 0,
+            spaceBefore: 0,
+            spaceAfter: 0,
+          }];
+    }
+    const filled = isFieldFilled(data, field);
+    return [{
+      runs: [
+        { text: `${getDocumentLabel(field)} `, bold: true },
+        filled ? { text: formatValue(field) } : { text: formatValue(field), italics: true, color: colors.placeholder },
+      ],
+      size: BODY_SIZE,
+      indent: 0,
+      spaceBefore: 0,
+      spaceAfter: 6,
+    }];
+  };
+
+  // The report body, laid out by the template
+  const drawBlock = (block: DocumentBlock) => {
+    switch (block.type) {
+      case 'heading':
+        drawSectionTitle(doc, palette, block.text.toUpperCase());
+        return;
+
+      case 'employee': {
+        const field = findTemplateField(template, block.field);
+        const employee = getEmployeeValue(data, block.field);
+        drawTable(doc, palette, [
+          [
+            { text: field ? getDocumentLabel(field) : t('document.employee'), width: 0.22, isHeader: true },
+            { text: employee ? formatFullName(employee) : t('document.notSelected'), width: 0.28 },
+            { text: t('document.employeeId'), width: 0.15, isHeader: true },
+            { text: employee?.employee_id?.toString() || '—', width: 0.35 },
+          ],
+          [
+            { text: t('document.position'), width: 0.22, isHeader: true },
+            { text: employee?.position || '—', width: 0.28 },
+            { text: t('document.client'), width: 0.15, isHeader: true },
+            { text: employee?.company || '—', width: 0.35 },
+          ],
+        ]);
+        addSpacing(doc, 18);
+        return;
+      }
+
+      // A header row, then one row per involved employee, followed by the subjects' prior incidents
+      // when the reporter chose to include them
+      case 'employees': {
+        const involved = getInvolvedEmployeesValue(data, block.field).filter(entry => entry.details);
+        const priorIncidents = getIncludedPriorIncidents(data);
+        const widths = [0.15, 0.27, 0.13, 0.23, 0.22];
+        drawTable(doc, palette, [
+          [
+            t('document.role'),
+            t('document.name'),
+            t('document.employeeId'),
+            t('document.position'),
+            t('document.client'),
+          ].map((text, index) => ({ text, width: widths[index], isHeader: true })),
+          ...(involved.length > 0
+            ? involved.map(entry => [
+                t(`role.${entry.role}`),
+                formatFullName(entry.details!),
+                entry.details!.employee_id.toString(),
+                entry.details!.position || '—',
+                entry.details!.company || '—',
+              ].map((text, index) => ({ text, width: widths[index] })))
+            : [[{ text: t('document.notSelected'), width: 1 }]]),
+        ]);
+        if (priorIncidents.length > 0) {
+          const historyWidths = [0.2, 0.15, 0.3, 0.35];
+          addSpacing(doc, 12);
+          drawSectionTitle(doc, palette, t('document.priorIncidents'), 60);
+          drawTable(doc, palette, [
+            [
+              t('document.employee'),
+              t('document.incidentDate'),
+              t('document.incident'),
+              t('document.policyConcern'),
+            ].map((text, index) => ({ text, width: historyWidths[index], isHeader: true })),
+            ...priorIncidents.map(incident => [
+              incident.employeeName,
+              formatDate(incident.incidentDateTime, incident.timeZone, data.locale),
+              [incident.reportType, incident.incidentWhat].filter(Boolean).join(': '),
+              incident.policyConcern || '—',
+            ].map((text, index) => ({ text, width: historyWidths[index] }))),
+          ]);
+        }
+        addSpacing(doc, 18);
+        return;
+      }
+
+      // A separate content box per witness; nothing at all when no witness was recorded
+      case 'statements':
+        getRecordedStatements(data, block.field).forEach((witness, index) => {
+          drawContentBox(doc, palette, formatStatementTitle(witness, index, t), [
+            {
+              runs: [
+                { text: `${t('document.dateTaken')} `, bold: true },
+                { text: formatDate(witness.dateTaken, data.timeZone, data.locale) },
+              ],
+              size: BODY_SIZE,
+              indent: 0,
+              spaceBefore: 0,
+              spaceAfter: 6,
+            },
+            ...(witness.statement
+              ? parseMarkdownToBlocks(witness.statement, t('document.noContent'))
+              : [{
+                  runs: [{ text: t('document.noStatement'), italics: true, color: colors.placeholder }],
+                  size: BODY_SIZE,
+                  indent: 0,
+                  spaceBefore: 0,
+                  spaceAfter: 0,
+                }]),
+          ]);
+          addSpacing(doc, 12);
+        });
+        return;
+
+      // Events in time order; nothing at all when the timeline is empty
+      case 'timeline': {
+        const field = findTemplateField(template, block.field);
+        const events = getRecordedTimeline(data, block.field);
+        if (events.length === 0) return;
+        const widths = [0.05, 0.2, 0.37, 0.19, 0.19];
+        drawSectionTitle(doc, palette, field ? getDocumentLabel(field) : t('document.timeline'), 60);
+        drawTable(doc, palette, [
+          ['#', t('document.dateTime'), t('document.event'), t('document.actor'), t('document.evidence')].map((text, index) => ({ text, width: widths[index], isHeader: true })),
+          ...events.map((event, index) => [
+            String(index + 1),
+            formatDateTime(event.at, data.timeZone, data.locale),
+            event.description.trim(),
+            formatTimelineActor(event, t) || '—',
+            formatTimelineEvidence(data, event) || '—',
+          ].map((text, cellIndex) => ({ text, width: widths[cellIndex] }))),
+        ]);
+        addSpacing(doc, 18);
+        return;
+      }
+
+      case 'table':
+        drawTable(doc, palette, fieldsOf(block.fields).map(field => [
+          { text: getDocumentLabel(field), width: 0.18, isHeader: true },
+          { text: formatValue(field), width: 0.82 },
+        ]));
+        addSpacing(doc, 12);
+        return;
+
+      case 'box': {
+        const fields = fieldsOf(block.fields);
+        if (block.optional && !fields.some(field => isFieldFilled(data, field))) return;
+        drawContentBox(doc, palette, block.title, fields.flatMap(boxBlocks));
+        addSpacing(doc, 12);
+        return;
+      }
+    }
+  };
+  const subjectNames = formatSubjectNames(data);
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: MARGINS,
+    bufferPages: true,
+    pdfVersion: '1.7',
+    subset: 'PDF/A-2b',
+    font: FONTS.regular,
+    lang: getLocaleTag(data.locale),
+    displayTitle: true,
+    info: {
+      Title: `${template.title}${subjectNames ? ` - ${subjectNames}` : ''}`,
+      Author: formatFullName(data.reportedBy),
+      Subject: data.incidentWhat || template.title,
+      Creator: branding.department,
+    },
+  });
+
+  doc.registerFont('regular', FONTS.regular);
+  doc.registerFont('bold', FONTS.bold);
+  doc.registerFont('italic', FONTS.italic);
+  doc.registerFont('boldItalic', FONTS.boldItalic);
+
+  const chunks: Buffer[] = [];
+  const finished = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  drawTitle(doc, data, template.title, branding, logo);
+  addSpacing(doc, 18);
+
+  template.document.forEach(drawBlock);
+  addSpacing(doc, 12);
+
+  // Signatories Section
+  drawSectionTitle(doc, palette, t('document.signatories'), 200);
+  drawSignatories(doc, data);
+
+  drawPageFurniture(doc, branding, t);
+  doc.end();
+
+  return finished;
+};
@@ -5,9 +5,33 @@ const rateLimiter = new RateLimiterMemory({
   duration: 60, // per 60 seconds
 });
 
-export async function checkRateLimit(ip: string) {
+// Draft autosave fires every few seconds while typing, so it gets a much larger budget
+export const reportsRateLimiter = new RateLimiterMemory({
+  points: 120, // 120 requests
+  duration: 60, // per 60 seconds
+});
+
+// The employee typeahead searches as the reporter types
+export const employeeSearchRateLimiter = new RateLimiterMemory({
+  points: 60, // 60 requests
+  duration: 60, // per 60 seconds
+});
+
+// A report names several employees (subjects, witnesses, timeline actors, attester), each looked up on blur
+export const employeeLookupRateLimiter = new RateLimiterMemory({
+  points: 30, // 30 requests
+  duration: 60, // per 60 seconds
+});
+
+// AI Enhance and AI Translate, clicked once per field; each call runs an AI workflow, so the budget stays small
+export const enhanceRateLimiter = new RateLimiterMemory({
+  points: 20, // 20 requests
+  duration: 60, // per 60 seconds
+});
+
+export async function checkRateLimit(ip: string, limiter: RateLimiterMemory = rateLimiter) {
   try {
-    await rateLimiter.consume(ip);
+    await limiter.consume(ip);
     return true;
   } catch (rejRes) {
     return false;
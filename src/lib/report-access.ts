@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { checkRateLimit, reportsRateLimiter } from '@/lib/rate-limit';
+import { getAttesterId, getReportStore } from '@/lib/report-store';
+import { requireSession } from '@/lib/session';
+import { hasAnyRole } from '@/lib/roles';
+
+interface ReportAccessOptions {
+  // Let P&C reviewers and admins read other reporters' reports
+  allowReviewers?: boolean;
+  // Let the attester named on a submitted report read it
+  allowAttester?: boolean;
+}
+
+// Shared guard for /api/reports/[id] routes: rate limit, authenticate and load a report
+// the caller is allowed to see. Returns either { report, user } or a ready-made error response.
+export async function loadReportForRequest(
+  request: Request,
+  id: string,
+  { allowReviewers = false, allowAttester = false }: ReportAccessOptions = {}
+) {
+  const ip = request.headers.get('x-forwarded-for') || 'unknown';
+  const isAllowed = await checkRateLimit(ip, reportsRateLimiter);
+
+  if (!isAllowed) {
+    return {
+      error: NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429 }
+      ),
+    };
+  }
+
+  const { user, error: authError } = await requireSession(request);
+  if (authError) return { error: authError };
+  const employeeId = String(user.employee_id);
+
+  const report = await getReportStore().get(id);
+
+  const canAccess = report && (
+    report.reporterId === employeeId ||
+    (allowAttester && report.status !== 'draft' && getAttesterId(report) === employeeId) ||
+    (allowReviewers && hasAnyRole(user, 'pc_reviewer', 'admin'))
+  );
+
+  // Reports the caller may not see are reported as missing rather than forbidden
+  if (!report || !canAccess) {
+    return {
+      error: NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { report, user };
+}
@@ -0,0 +1,83 @@
+import { getDirectoryProvider } from '@/lib/directory';
+import { lookupEmployeeCached } from '@/lib/employee-cache';
+import type { CustomFieldValue, EmployeeDetails, IncidentReport } from '@/lib/incident-report';
+import { resolveRoles } from '@/lib/role-mapping';
+import { canReportOn, hasAnyRole } from '@/lib/roles';
+
+// The employee records on a report come from the reporter's browser, so they prove nothing. Before a
+// report is stored or submitted, every employee on it is looked up again in the directory, their record
+// is replaced with the directory's (roles resolved here, never taken from the client), and the
+// employee lookup's rules apply: the attester must be a supervisor, and everyone else someone the
+// reporter may report on.
+
+export type VerifiedReport = { data: IncidentReport } | { error: string };
+
+const isEmployeeValue = (value: CustomFieldValue): value is EmployeeDetails =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+export async function verifyReportEmployees(data: IncidentReport, reporter: EmployeeDetails): Promise<VerifiedReport> {
+  const directory = getDirectoryProvider();
+  const records = new Map<string, Promise<EmployeeDetails | null>>();
+  const problems = new Set<string>();
+
+  // The directory's record of an employee, with their roles, or null if the directory doesn't know them
+  const lookup = (employee: EmployeeDetails): Promise<EmployeeDetails | null> => {
+    const employeeId = String(employee.employee_id);
+    if (!records.has(employeeId)) {
+      records.set(employeeId, lookupEmployeeCached(employeeId, id => directory.lookupEmployee(id))
+        .then(async result => (result.found ? { ...result.employee, roles: await resolveRoles(result.employee) } : null)));
+    }
+    return records.get(employeeId)!;
+  };
+
+  const verify = async (
+    employee: EmployeeDetails | null,
+    isAllowed: (record: EmployeeDetails) => boolean,
+    notAllowed: string
+  ): Promise<EmployeeDetails | null> => {
+    if (!employee) return null;
+    const record = await lookup(employee);
+    if (!record) {
+      problems.add(`Employee #${employee.employee_id} was not found.`);
+      return null;
+    }
+    if (!isAllowed(record)) problems.add(notAllowed);
+    return record;
+  };
+
+  const verifyEmployee = (employee: EmployeeDetails | null) =>
+    verify(employee, record => canReportOn(reporter, record), 'You can only report on employees within your own company.');
+
+  const [involvedEmployees, witnessStatements, timeline, customFields, attestedByDetails] = await Promise.all([
+    Promise.all(data.involvedEmployees.map(async involved => {
+      const details = await verifyEmployee(involved.details);
+      return { ...involved, employeeId: details ? String(details.employee_id) : involved.employeeId, details };
+    })),
+    Promise.all(data.witnessStatements.map(async witness => {
+      const details = await verifyEmployee(witness.details);
+      return { ...witness, employeeId: details ? String(details.employee_id) : witness.employeeId, details };
+    })),
+    Promise.all(data.timeline.map(async event => {
+      const actorDetails = await verifyEmployee(event.actorDetails);
+      return { ...event, actorId: actorDetails ? String(actorDetails.employee_id) : event.actorId, actorDetails };
+    })),
+    // Employee fields of report templates
+    Promise.all(Object.entries(data.customFields).map(async ([key, value]): Promise<[string, CustomFieldValue]> =>
+      [key, isEmployeeValue(value) ? await verifyEmployee(value) : value])),
+    verify(data.attestedByDetails, record => hasAnyRole(record, 'supervisor'), 'Only supervisors can attest incident reports.'),
+  ]);
+
+  if (problems.size > 0) return { error: Array.from(problems).join(' ') };
+
+  return {
+    data: {
+      ...data,
+      involvedEmployees,
+      witnessStatements,
+      timeline,
+      customFields: Object.fromEntries(customFields),
+      attestedById: attestedByDetails ? String(attestedByDetails.employee_id) : data.attestedById,
+      attestedByDetails,
+    },
+  };
+}
@@ -0,0 +1,236 @@
+// Search, filters, sorting and paging for the /reports dashboard. The query round-trips through URL search
+// params, so the page and GET /api/reports/search share one parser. Pure module - safe to import from client components.
+
+import { formatSubjectNames, getSubjects, type IncidentReport } from '@/lib/incident-report';
+import { getReportTemplate, type ReportTemplate } from '@/lib/report-templates';
+import { isReportStatus, REPORT_STATUSES, type ReportStatus } from '@/lib/report-workflow';
+import type { ReportRecord } from '@/lib/report-store';
+
+export type ReportSortKey = 'updated' | 'incident' | 'status' | 'subject' | 'reporter';
+export type SortDirection = 'asc' | 'desc';
+
+export const REPORT_SORT_KEYS: ReportSortKey[] = ['updated', 'incident', 'status', 'subject', 'reporter'];
+
+export const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface ReportSearchQuery {
+  // Words that must all appear somewhere in the report: narratives, statements, timeline, names
+  text: string;
+  status: ReportStatus[];
+  templateId: string;
+  company: string;
+  impactCategory: string;
+  // Incident date range, YYYY-MM-DD, inclusive; either end may be empty
+  incidentFrom: string;
+  incidentTo: string;
+  sort: ReportSortKey;
+  direction: SortDirection;
+  // 1-based
+  page: number;
+  pageSize: number;
+}
+
+export const DEFAULT_REPORT_SEARCH: ReportSearchQuery = {
+  text: '',
+  status: [],
+  templateId: '',
+  company: '',
+  impactCategory: '',
+  incidentFrom: '',
+  incidentTo: '',
+  sort: 'updated',
+  direction: 'desc',
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+};
+
+// One row of the dashboard
+export interface ReportSummary {
+  id: string;
+  templateId: string;
+  reportType: string;
+  status: ReportStatus;
+  reporterId: string;
+  reporterName: string;
+  subjects: string;
+  company: string;
+  incidentWhat: string;
+  incidentDateTime: string;
+  timeZone: string;
+  impactCategories: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportSearchResult {
+  reports: ReportSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  // Values present across all reports, for the filter dropdowns
+  facets: {
+    reportTypes: { id: string; name: string }[];
+    companies: string[];
+    impactCategories: string[];
+  };
+}
+
+const isDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+};
+
+export function parseReportSearchQuery(params: URLSearchParams): ReportSearchQuery {
+  const sort = params.get('sort');
+  const incidentFrom = params.get('from') || '';
+  const incidentTo = params.get('to') || '';
+  return {
+    text: (params.get('q') || '').trim(),
+    status: params.getAll('status').filter(isReportStatus),
+    templateId: params.get('type') || '',
+    company: params.get('company') || '',
+    impactCategory: params.get('impact') || '',
+    incidentFrom: isDate(incidentFrom) ? incidentFrom : '',
+    incidentTo: isDate(incidentTo) ? incidentTo : '',
+    sort: REPORT_SORT_KEYS.find(key => key === sort) || DEFAULT_REPORT_SEARCH.sort,
+    direction: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    page: parsePositiveInt(params.get('page'), 1),
+    pageSize: Math.min(parsePositiveInt(params.get('pageSize'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+  };
+}
+
+// The inverse of parseReportSearchQuery; defaults are left out to keep URLs short
+export function toReportSearchParams(query: ReportSearchQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.text) params.set('q', query.text);
+  query.status.forEach(status => params.append('status', status));
+  if (query.templateId) params.set('type', query.templateId);
+  if (query.company) params.set('company', query.company);
+  if (query.impactCategory) params.set('impact', query.impactCategory);
+  if (query.incidentFrom) params.set('from', query.incidentFrom);
+  if (query.incidentTo) params.set('to', query.incidentTo);
+  if (query.sort !== DEFAULT_REPORT_SEARCH.sort) params.set('sort', query.sort);
+  if (query.direction !== DEFAULT_REPORT_SEARCH.direction) params.set('dir', query.direction);
+  if (query.page !== 1) params.set('page', String(query.page));
+  if (query.pageSize !== DEFAULT_PAGE_SIZE) params.set('pageSize', String(query.pageSize));
+  return params;
+}
+
+// The client account a report is about: the first subject's company, else the reporter's (as for branding)
+export const getReportCompany = (record: Pick<ReportRecord, 'data' | 'reportedBy'>): string =>
+  getSubjects(record.data)[0]?.company || record.reportedBy?.company || '';
+
+// Case- and accent-insensitive, so "declaracion" finds "declaración"
+const normalizeText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Everything typed into a report that a search should find
+const getSearchableText = (record: ReportRecord): string => {
+  const data: IncidentReport = record.data;
+  const customText = Object.values(data.customFields).flatMap(value =>
+    typeof value === 'string' ? [value] : Array.isArray(value) ? value : value ? [value.employee_name] : []
+  );
+  return normalizeText([
+    data.incidentWhat,
+    data.incidentLocation,
+    data.incidentDetails,
+    data.findings,
+    data.policyViolation,
+    data.impactDescription,
+    data.impactOthersSpecify,
+    ...data.involvedEmployees.map(involved => involved.details?.employee_name || ''),
+    ...data.witnessStatements.flatMap(witness => [witness.details?.employee_name || '', witness.name, witness.affiliation, witness.statement]),
+    ...data.timeline.map(event => event.description),
+    ...data.attachments.flatMap(attachment => [attachment.nameOrLink, attachment.description]),
+    ...customText,
+    ...Object.values(data.translations),
+    record.reportedBy?.employee_name || '',
+    data.attestedByDetails?.employee_name || '',
+  ].join('\n'));
+};
+
+const toSummary = (record: ReportRecord, templates: ReportTemplate[]): ReportSummary => ({
+  id: record.id,
+  templateId: record.data.templateId,
+  reportType: getReportTemplate(record.data.templateId, record.data.templateVersion, templates).name,
+  status: record.status,
+  reporterId: record.reporterId,
+  reporterName: record.reportedBy?.employee_name || '',
+  subjects: formatSubjectNames(record.data),
+  company: getReportCompany(record),
+  incidentWhat: record.data.incidentWhat,
+  incidentDateTime: record.data.incidentDateTime,
+  timeZone: record.data.timeZone,
+  impactCategories: record.data.impactCategories,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+});
+
+const compareSummaries = (sort: ReportSortKey) => (a: ReportSummary, b: ReportSummary): number => {
+  switch (sort) {
+    case 'incident':
+      return a.incidentDateTime.localeCompare(b.incidentDateTime);
+    case 'status':
+      return REPORT_STATUSES.indexOf(a.status) - REPORT_STATUSES.indexOf(b.status);
+    case 'subject':
+      return a.subjects.localeCompare(b.subjects);
+    case 'reporter':
+      return a.reporterName.localeCompare(b.reporterName);
+    default:
+      return a.updatedAt.localeCompare(b.updatedAt);
+  }
+};
+
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export function searchReports(records: ReportRecord[], query: ReportSearchQuery, templates: ReportTemplate[]): ReportSearchResult {
+  const terms = normalizeText(query.text).split(/\s+/).filter(Boolean);
+  const summaries = records.map(record => ({ record, summary: toSummary(record, templates) }));
+
+  const matches = summaries
+    .filter(({ summary }) => query.status.length === 0 || query.status.includes(summary.status))
+    .filter(({ summary }) => !query.templateId || summary.templateId === query.templateId)
+    .filter(({ summary }) => !query.company || summary.company === query.company)
+    .filter(({ summary }) => !query.impactCategory || summary.impactCategories.includes(query.impactCategory))
+    .filter(({ summary }) => !query.incidentFrom || summary.incidentDateTime.slice(0, 10) >= query.incidentFrom)
+    .filter(({ summary }) => !query.incidentTo || (summary.incidentDateTime && summary.incidentDateTime.slice(0, 10) <= query.incidentTo))
+    .filter(({ record }) => {
+      if (terms.length === 0) return true;
+      const text = getSearchableText(record);
+      return terms.every(term => text.includes(term));
+    })
+    .map(({ summary }) => summary);
+
+  // Reports missing the sorted value go last either way; ties go to the most recently updated
+  const compare = compareSummaries(query.sort);
+  const hasValue = (summary: ReportSummary) =>
+    query.sort === 'incident' ? Boolean(summary.incidentDateTime)
+    : query.sort === 'subject' ? Boolean(summary.subjects)
+    : query.sort === 'reporter' ? Boolean(summary.reporterName)
+    : true;
+  const sign = query.direction === 'asc' ? 1 : -1;
+  matches.sort((a, b) =>
+    Number(hasValue(b)) - Number(hasValue(a)) ||
+    sign * compare(a, b) ||
+    b.updatedAt.localeCompare(a.updatedAt)
+  );
+
+  const lastPage = Math.max(1, Math.ceil(matches.length / query.pageSize));
+  const page = Math.min(query.page, lastPage);
+  const reportTypes = new Map(summaries.map(({ summary }) => [summary.templateId, summary.reportType]));
+
+  return {
+    reports: matches.slice((page - 1) * query.pageSize, page * query.pageSize),
+    total: matches.length,
+    page,
+    pageSize: query.pageSize,
+    facets: {
+      reportTypes: Array.from(reportTypes, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+      companies: uniqueSorted(summaries.map(({ summary }) => summary.company)),
+      impactCategories: uniqueSorted(summaries.flatMap(({ summary }) => summary.impactCategories)),
+    },
+  };
+}
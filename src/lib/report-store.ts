@@ -0,0 +1,211 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import {
+  parseIncidentReport,
+  type EmployeeDetails,
+  type IncidentReport,
+  type IncidentReportDocument,
+} from '@/lib/incident-report';
+import type { ReportTemplate } from '@/lib/report-templates';
+import type { ReportStatus, StatusHistoryEntry } from '@/lib/report-workflow';
+
+export interface ReportRecord {
+  id: string;
+  reporterId: string;
+  reportedBy: EmployeeDetails;
+  status: ReportStatus;
+  statusHistory: StatusHistoryEntry[];
+  createdAt: string;
+  updatedAt: string;
+  data: IncidentReport;
+}
+
+export type ReportUpdate = Partial<Pick<ReportRecord, 'data' | 'status' | 'statusHistory'>>;
+
+// Checked against the stored report at the moment it is written, so a submission or approval that lands
+// while a route is still preparing its update can't be overwritten. Returns why the update isn't allowed, or null.
+export type ReportUpdateCheck = (existing: ReportRecord) => string | null;
+
+// Thrown by update when its check fails; the message says why
+export class ReportConflictError extends Error {}
+
+export interface ReportListFilter {
+  reporterId?: string;
+  attesterId?: string;
+  status?: ReportStatus[];
+}
+
+// The employee ID of the attester named on a report, as used for access checks
+export const getAttesterId = (record: ReportRecord): string | null =>
+  record.data.attestedByDetails ? String(record.data.attestedByDetails.employee_id) : null;
+
+// Everything the document generators need to render a stored report (template: see loadReportTemplate)
+export const toReportDocument = (record: ReportRecord, template: ReportTemplate): IncidentReportDocument => ({
+  ...record.data,
+  template,
+  reportedBy: record.reportedBy,
+  status: record.status,
+  statusHistory: record.statusHistory,
+});
+
+// Storage adapter interface - implement this to back drafts with a different database
+export interface ReportStore {
+  list(filter?: ReportListFilter): Promise<ReportRecord[]>;
+  get(id: string): Promise<ReportRecord | null>;
+  create(reportedBy: EmployeeDetails, data: IncidentReport): Promise<ReportRecord>;
+  update(id: string, changes: ReportUpdate, check?: ReportUpdateCheck): Promise<ReportRecord | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Report IDs are generated by us, but they arrive back through URLs - never let one escape the data directory
+const isValidReportId = (id: string) => /^[a-f0-9-]{36}$/.test(id);
+
+// File-based store: one JSON document per report under REPORTS_DATA_DIR
+export class FileReportStore implements ReportStore {
+  // The update in progress for each report. Updates of one report wait for each other, so each check sees what
+  // the previous update wrote. This only covers one server process; share a database store between instances.
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {}
+
+  private async withLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const current = (this.locks.get(id) ?? Promise.resolve()).catch(() => {}).then(task);
+    this.locks.set(id, current);
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(id) === current) this.locks.delete(id);
+    }
+  }
+
+  private filePath(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  private async readRecord(id: string): Promise<ReportRecord | null> {
+    if (!isValidReportId(id)) return null;
+    try {
+      const raw = await fs.readFile(this.filePath(id), 'utf8');
+      // Drafts saved before the attestation workflow existed have no status yet
+      const record = { status: 'draft', statusHistory: [], ...JSON.parse(raw) } as ReportRecord;
+      // Older reports are migrated to the current schema version as they are read
+      return { ...record, data: parseIncidentReport(record.data) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeRecord(record: ReportRecord): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    // Write to a temp file first so a crash mid-write never leaves a truncated report. Each write gets
+    // its own temp file, so simultaneous writes can't rename each other's half-written file into place.
+    const tmpPath = `${this.filePath(record.id)}.${randomUUID()}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(tmpPath, this.filePath(record.id));
+  }
+
+  async list(filter: ReportListFilter = {}): Promise<ReportRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => this.readRecord(file.replace(/\.json$/, '')))
+    );
+
+    return records
+      .filter((record): record is ReportRecord => record !== null)
+      .filter(record => !filter.reporterId || record.reporterId === filter.reporterId)
+      .filter(record => !filter.attesterId || getAttesterId(record) === filter.attesterId)
+      .filter(record => !filter.status || filter.status.includes(record.status))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async get(id: string): Promise<ReportRecord | null> {
+    return this.readRecord(id);
+  }
+
+  async create(reportedBy: EmployeeDetails, data: IncidentReport): Promise<ReportRecord> {
+    const now = new Date().toISOString();
+    const reporterId = String(reportedBy.employee_id);
+    const record: ReportRecord = {
+      id: randomUUID(),
+      reporterId,
+      reportedBy,
+      status: 'draft',
+      statusHistory: [{
+        status: 'draft',
+        action: 'create',
+        actorId: reporterId,
+        actorName: reportedBy.employee_name,
+        comment: '',
+        at: now,
+      }],
+      createdAt: now,
+      updatedAt: now,
+      data,
+    };
+    await this.writeRecord(record);
+    return record;
+  }
+
+  async update(id: string, changes: ReportUpdate, check?: ReportUpdateCheck): Promise<ReportRecord | null> {
+    return this.withLock(id, async () => {
+      const existing = await this.readRecord(id);
+      if (!existing) return null;
+
+      const conflict = check?.(existing);
+      if (conflict) throw new ReportConflictError(conflict);
+
+      const record: ReportRecord = {
+        ...existing,
+        ...changes,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.writeRecord(record);
+      return record;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isValidReportId(id)) return false;
+    return this.withLock(id, async () => {
+      try {
+        await fs.unlink(this.filePath(id));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw error;
+      }
+    });
+  }
+}
+
+let store: ReportStore | null = null;
+
+// Select the storage backend from REPORT_STORE (currently only "file")
+export function getReportStore(): ReportStore {
+  if (store) return store;
+
+  const backend = process.env.REPORT_STORE || 'file';
+
+  switch (backend) {
+    case 'file':
+      store = new FileReportStore(
+        process.env.REPORTS_DATA_DIR || path.join(process.cwd(), 'data', 'reports')
+      );
+      break;
+    default:
+      throw new Error(`Unknown REPORT_STORE backend: ${backend}`);
+  }
+
+  return store;
+}
@@ -0,0 +1,1225 @@
+// Report templates: which sections and fields the form shows, which of them are required,
+// the guiding questions offered to the reporter, and how the generated document is laid out.
+// The form, the preview, the DOCX/PDF generators and the required-field check all render from these.
+// Pure module - safe to import from client components.
+
+import {
+  formatWitness,
+  INCIDENT_REPORT_SCHEMA,
+  formatTimelineActor,
+  sortTimeline,
+  type Attachment,
+  type CustomFieldValue,
+  type EmployeeDetails,
+  type IncidentReport,
+  type InvolvedEmployee,
+  type InvolvementRole,
+  type TimelineEvent,
+  type WitnessStatement,
+} from '@/lib/incident-report';
+import {
+  DEFAULT_LOCALE,
+  getSecondLocale,
+  getTranslator,
+  joinTranslations,
+  translateTemplateText,
+  type Locale,
+  type Translator,
+} from '@/lib/i18n';
+
+export type TemplateFieldType =
+  | 'text'
+  | 'richText'
+  | 'date'
+  | 'datetime'
+  | 'employee'
+  | 'employeeList'
+  | 'checkboxGroup'
+  | 'attachments'
+  | 'witnessStatements'
+  | 'timeline';
+
+interface TemplateFieldBase {
+  // A field of IncidentReport (e.g. 'incidentWhat'), or any other key to store the value in customFields
+  key: string;
+  label: string;
+  required?: boolean;
+  requiredMessage?: string;
+  // Label in the generated document; defaults to the form label
+  documentLabel?: string;
+}
+
+export interface TextTemplateField extends TemplateFieldBase {
+  type: 'text';
+  placeholder?: string;
+}
+
+export interface DateTemplateField extends TemplateFieldBase {
+  type: 'date' | 'datetime';
+}
+
+export interface RichTextTemplateField extends TemplateFieldBase {
+  type: 'richText';
+  placeholder?: string;
+  minHeight?: number;
+  guidingQuestions?: string[];
+  // section_context sent to the AI enhancer
+  aiContext: string;
+  // A checkbox group that needs a selection first; its options' guidance replaces the guiding questions
+  dependsOn?: string;
+}
+
+export interface EmployeeTemplateField extends TemplateFieldBase {
+  type: 'employee';
+  // Where the typed employee ID is kept; the looked-up record is stored under key
+  idKey: string;
+  placeholder?: string;
+}
+
+// Any number of looked-up employees, each with a role (subject, witness...). Always stored in involvedEmployees.
+export interface EmployeeListTemplateField extends TemplateFieldBase {
+  type: 'employeeList';
+  // Roles the reporter can choose from; defaults to all of them
+  roles?: InvolvementRole[];
+}
+
+export interface CheckboxOption {
+  // Stored on the report, so it stays the same in every language
+  value: string;
+  // Shown instead of the value; set by localizeTemplate
+  label?: string;
+  guidance?: string;
+}
+
+export interface CheckboxGroupTemplateField extends TemplateFieldBase {
+  type: 'checkboxGroup';
+  options: CheckboxOption[];
+  // Picking this option asks the reporter to say more in a free-text field
+  specify?: { option: string; key: string; label: string; message: string };
+}
+
+export interface AttachmentsTemplateField extends TemplateFieldBase {
+  type: 'attachments';
+  description?: string;
+  guidingQuestions?: string[];
+}
+
+// Any number of witnesses, each with their own statement and AI enhancement. Always stored in witnessStatements.
+export interface WitnessStatementsTemplateField extends TemplateFieldBase {
+  type: 'witnessStatements';
+  description?: string;
+  // Offered for every statement
+  guidingQuestions?: string[];
+  aiContext: string;
+}
+
+// Timestamped events with an actor and linked evidence. Always stored in timeline.
+export interface TimelineTemplateField extends TemplateFieldBase {
+  type: 'timeline';
+  description?: string;
+}
+
+export type TemplateField =
+  | TextTemplateField
+  | DateTemplateField
+  | RichTextTemplateField
+  | EmployeeTemplateField
+  | EmployeeListTemplateField
+  | CheckboxGroupTemplateField
+  | AttachmentsTemplateField
+  | WitnessStatementsTemplateField
+  | TimelineTemplateField;
+
+// Groups are lettered A, B, C... on the form when they have a title
+export interface TemplateFieldGroup {
+  title?: string;
+  description?: string;
+  fields: TemplateField[];
+}
+
+export interface TemplateSection {
+  id: string;
+  title: string;
+  groups: TemplateFieldGroup[];
+}
+
+// The generated document, top to bottom. Signatories are always appended after the last block.
+export type DocumentBlock =
+  | { type: 'heading'; text: string }
+  // Name, ID, position and company of an employee field
+  | { type: 'employee'; field: string }
+  // One row per involved employee: role, name, ID, position and company
+  | { type: 'employees'; field: string }
+  // One box per witness, titled with who gave the statement and when it was taken
+  | { type: 'statements'; field: string }
+  // The timeline as a table in time order: when, what, who and the linked evidence
+  | { type: 'timeline'; field: string }
+  // Label/value rows for short fields
+  | { type: 'table'; fields: string[] }
+  // A titled box; rich text is written out, other fields as "Label: value" lines.
+  // Optional boxes are left out while all of their fields are empty.
+  | { type: 'box'; title: string; fields: string[]; optional?: boolean };
+
+export interface ReportTemplate {
+  id: string;
+  version: number;
+  name: string;
+  description: string;
+  // Title of the form and the generated document
+  title: string;
+  sections: TemplateSection[];
+  document: DocumentBlock[];
+  // Set on versions published from the template designer
+  publishedAt?: string;
+  publishedBy?: string;
+}
+
+export type TemplateFieldValue = CustomFieldValue | Attachment[] | InvolvedEmployee[] | WitnessStatement[] | TimelineEvent[];
+
+const BUILT_IN_KEYS = new Set<string>(Object.keys(INCIDENT_REPORT_SCHEMA));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const getFieldValue = (report: IncidentReport, key: string): TemplateFieldValue => {
+  if (BUILT_IN_KEYS.has(key)) return report[key as keyof IncidentReport] as TemplateFieldValue;
+  return report.customFields[key] ?? null;
+};
+
+export const withFieldValue = (report: IncidentReport, key: string, value: TemplateFieldValue): IncidentReport => {
+  if (BUILT_IN_KEYS.has(key)) return { ...report, [key]: value };
+  return { ...report, customFields: { ...report.customFields, [key]: value as CustomFieldValue } };
+};
+
+// Typed reads for rendering; a value of the wrong shape reads as empty
+export const getTextValue = (report: IncidentReport, key: string): string => {
+  const value = getFieldValue(report, key);
+  return typeof value === 'string' ? value : '';
+};
+
+export const getListValue = (report: IncidentReport, key: string): string[] => {
+  const value = getFieldValue(report, key);
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+export const getEmployeeValue = (report: IncidentReport, key: string): EmployeeDetails | null => {
+  const value = getFieldValue(report, key);
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+};
+
+export const getInvolvedEmployeesValue = (report: IncidentReport, key: string): InvolvedEmployee[] => {
+  const value = getFieldValue(report, key);
+  return Array.isArray(value) ? (value as unknown[]).filter((item): item is InvolvedEmployee => isObject(item) && 'role' in item) : [];
+};
+
+export const getWitnessStatementsValue = (report: IncidentReport, key: string): WitnessStatement[] => {
+  const value = getFieldValue(report, key);
+  return Array.isArray(value) ? (value as unknown[]).filter((item): item is WitnessStatement => isObject(item) && 'statement' in item) : [];
+};
+
+// Witnesses who have been identified, in the order they were added - the ones documents list
+export const getRecordedStatements = (report: IncidentReport, key: string): WitnessStatement[] =>
+  getWitnessStatementsValue(report, key).filter(witness => formatWitness(witness));
+
+// Box title in documents, e.g. "Witness Statement 1: Ana Reyes (Employee #3003, Team Lead)". The heading
+// translator can differ from t, so bilingual documents print the heading in both languages and the witness once.
+export const formatStatementTitle = (
+  witness: WitnessStatement,
+  index: number,
+  t: Translator = getTranslator(DEFAULT_LOCALE),
+  heading: Translator = t
+) => `${heading('document.witnessStatement', { number: index + 1 })} ${formatWitness(witness, t)}`;
+
+export const getAttachmentsValue = (report: IncidentReport, key: string): Attachment[] => {
+  const value = getFieldValue(report, key);
+  return Array.isArray(value) ? value.filter((item): item is Attachment => typeof item === 'object') : [];
+};
+
+export const getTimelineValue = (report: IncidentReport, key: string): TimelineEvent[] => {
+  const value = getFieldValue(report, key);
+  return Array.isArray(value) ? (value as unknown[]).filter((item): item is TimelineEvent => isObject(item) && 'attachmentIds' in item) : [];
+};
+
+// Events that say what happened, in time order - the ones documents list
+export const getRecordedTimeline = (report: IncidentReport, key: string): TimelineEvent[] =>
+  sortTimeline(getTimelineValue(report, key).filter(event => event.description.trim()));
+
+// The evidence linked to a timeline event, numbered as in the report's attachments, e.g. "#2 Teramind screenshot"
+export const formatTimelineEvidence = (report: IncidentReport, event: TimelineEvent): string =>
+  report.attachments
+    .flatMap((attachment, index) => (event.attachmentIds.includes(attachment.id)
+      ? [`#${index + 1} ${attachment.nameOrLink || attachment.file?.name || 'Attachment'}`]
+      : []))
+    .join(', ');
+
+export function isFieldFilled(report: IncidentReport, field: TemplateField): boolean {
+  switch (field.type) {
+    case 'employee':
+      return Boolean(getEmployeeValue(report, field.key));
+    case 'employeeList': {
+      // Lists that offer the subject role need a subject; lists without it just need somebody
+      const needsSubject = !field.roles || field.roles.includes('subject');
+      return getInvolvedEmployeesValue(report, field.key)
+        .some(involved => involved.details && (!needsSubject || involved.role === 'subject'));
+    }
+    case 'checkboxGroup':
+      return getListValue(report, field.key).length > 0;
+    case 'attachments':
+      return getAttachmentsValue(report, field.key).length > 0;
+    case 'witnessStatements':
+      return getRecordedStatements(report, field.key).some(witness => witness.statement.trim());
+    case 'timeline':
+      return getRecordedTimeline(report, field.key).length > 0;
+    default:
+      return Boolean(getTextValue(report, field.key).trim());
+  }
+}
+
+export const getOptionLabel = (field: CheckboxGroupTemplateField, value: string) =>
+  field.options.find(option => option.value === value)?.label || value;
+
+// Selected options as written in documents, e.g. "Client, Others (Vendor)"
+export function formatCheckboxValue(report: IncidentReport, field: CheckboxGroupTemplateField): string {
+  const specified = field.specify ? getTextValue(report, field.specify.key) : '';
+  return getListValue(report, field.key)
+    .map(option => {
+      const label = getOptionLabel(field, option);
+      return option === field.specify?.option && specified ? `${label} (${specified})` : label;
+    })
+    .join(', ');
+}
+
+// Looked-up employees with their roles, e.g. "Juan Dela Cruz (Subject), Ana Reyes (Witness)"
+export const formatInvolvedEmployees = (
+  report: IncidentReport,
+  field: EmployeeListTemplateField,
+  t: Translator = getTranslator(DEFAULT_LOCALE)
+): string =>
+  getInvolvedEmployeesValue(report, field.key)
+    .filter(involved => involved.details)
+    .map(involved => `${involved.details!.employee_name} (${t(`role.${involved.role}`)})`)
+    .join(', ');
+
+// Witnesses who gave statements, e.g. "Ana Reyes (Employee #3003, Team Lead), John Smith (Client - Acme Corp)"
+export const formatWitnessStatements = (
+  report: IncidentReport,
+  field: WitnessStatementsTemplateField,
+  t = getTranslator(DEFAULT_LOCALE)
+): string => getRecordedStatements(report, field.key).map(witness => formatWitness(witness, t)).join(', ');
+
+// The timeline as structured context for the AI enhancer, in time order
+export interface TimelineContextEntry {
+  at: string;
+  description: string;
+  actor: string;
+  evidence: string;
+}
+
+export const getTimelineContext = (report: IncidentReport, key = 'timeline'): TimelineContextEntry[] =>
+  getRecordedTimeline(report, key).map(event => ({
+    at: event.at,
+    description: event.description.trim(),
+    actor: formatTimelineActor(event),
+    evidence: formatTimelineEvidence(report, event),
+  }));
+
+// What happened, in time order, e.g. "Logged in late; Left the floor without notice"
+export const formatTimeline = (report: IncidentReport, field: TimelineTemplateField): string =>
+  getRecordedTimeline(report, field.key).map(event => event.description.trim()).join('; ');
+
+export const getDocumentLabel = (field: TemplateField) => field.documentLabel || `${field.label}:`;
+
+// The template with its wording in another language, for the form and for documents. Only wording changes:
+// keys, option values and the layout stay as they are, so a report reads the same data in every language.
+// With a second language (bilingual Word documents), titles, headings and field labels are printed in both.
+export function localizeTemplate(template: ReportTemplate, locale: Locale, secondLocale: Locale | null = null): ReportTemplate {
+  const second = getSecondLocale(locale, secondLocale);
+  if (locale === DEFAULT_LOCALE && !second) return template;
+  const tr = (text: string) => translateTemplateText(locale, text);
+  const trOptional = (text?: string) => (text === undefined ? undefined : tr(text));
+  const label = (text: string) => (second ? joinTranslations(tr(text), translateTemplateText(second, text)) : tr(text));
+  const labelOptional = (text?: string) => (text === undefined ? undefined : label(text));
+
+  const localizeField = (field: TemplateField): TemplateField => {
+    const localized = {
+      ...field,
+      label: label(field.label),
+      documentLabel: labelOptional(field.documentLabel),
+      requiredMessage: trOptional(field.requiredMessage),
+    };
+    switch (localized.type) {
+      case 'text':
+      case 'employee':
+        return { ...localized, placeholder: trOptional(localized.placeholder) };
+      case 'richText':
+        return {
+          ...localized,
+          placeholder: trOptional(localized.placeholder),
+          guidingQuestions: localized.guidingQuestions?.map(tr),
+        };
+      case 'checkboxGroup':
+        return {
+          ...localized,
+          options: localized.options.map(option => ({
+            ...option,
+            label: tr(option.label || option.value),
+            guidance: trOptional(option.guidance),
+          })),
+          specify: localized.specify && {
+            ...localized.specify,
+            label: tr(localized.specify.label),
+            message: tr(localized.specify.message),
+          },
+        };
+      case 'attachments':
+      case 'witnessStatements':
+        return {
+          ...localized,
+          description: trOptional(localized.description),
+          guidingQuestions: localized.guidingQuestions?.map(tr),
+        };
+      case 'timeline':
+        return { ...localized, description: trOptional(localized.description) };
+      default:
+        return localized;
+    }
+  };
+
+  return {
+    ...template,
+    name: tr(template.name),
+    description: tr(template.description),
+    title: label(template.title),
+    sections: template.sections.map(section => ({
+      ...section,
+      title: label(section.title),
+      groups: section.groups.map(group => ({
+        ...group,
+        title: labelOptional(group.title),
+        description: trOptional(group.description),
+        fields: group.fields.map(localizeField),
+      })),
+    })),
+    document: template.document.map(block => {
+      if (block.type === 'heading') return { ...block, text: label(block.text) };
+      if (block.type === 'box') return { ...block, title: label(block.title) };
+      return block;
+    }),
+  };
+}
+
+export const getTemplateFields = (template: ReportTemplate): TemplateField[] =>
+  template.sections.flatMap(section => section.groups.flatMap(group => group.fields));
+
+export const findTemplateField = (template: ReportTemplate, key: string): TemplateField | undefined =>
+  getTemplateFields(template).find(field => field.key === key);
+
+// Every key a template writes to, including employee ID inputs and "specify" fields
+export const getTemplateValueKeys = (template: ReportTemplate): string[] =>
+  getTemplateFields(template).flatMap(field => {
+    if (field.type === 'employee') return [field.idKey, field.key];
+    if (field.type === 'checkboxGroup' && field.specify) return [field.key, field.specify.key];
+    return [field.key];
+  });
+
+// Fields of IncidentReport a template may place on the form, and the field types that can hold them.
+// Every other built-in key is managed by the form itself (dates, attester, template) and can't be reused.
+const TEXT_FIELD_TYPES: TemplateFieldType[] = ['text', 'richText', 'date', 'datetime'];
+const BUILT_IN_FIELD_TYPES: Record<string, TemplateFieldType[]> = {
+  involvedEmployees: ['employeeList'],
+  incidentWhat: TEXT_FIELD_TYPES,
+  incidentLocation: TEXT_FIELD_TYPES,
+  incidentDateTime: TEXT_FIELD_TYPES,
+  incidentDetails: TEXT_FIELD_TYPES,
+  timeline: ['timeline'],
+  findings: TEXT_FIELD_TYPES,
+  policyViolation: TEXT_FIELD_TYPES,
+  witnessStatements: ['witnessStatements'],
+  attachments: ['attachments'],
+  impactCategories: ['checkboxGroup'],
+  impactOthersSpecify: TEXT_FIELD_TYPES,
+  impactDescription: TEXT_FIELD_TYPES,
+};
+
+const FIELD_TYPES: TemplateFieldType[] = [
+  'text', 'richText', 'date', 'datetime', 'employee', 'employeeList', 'checkboxGroup', 'attachments', 'witnessStatements',
+  'timeline',
+];
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Problems with a template submitted from the designer, as messages for the administrator.
+// An empty list means the template is safe to publish and render.
+export function validateReportTemplate(input: unknown): string[] {
+  if (!isObject(input)) return ['Template must be an object.'];
+
+  const issues: string[] = [];
+  if (typeof input.id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(input.id)) {
+    issues.push('Template ID must be lowercase letters, numbers and dashes.');
+  }
+  if (!isNonEmptyString(input.name)) issues.push('Template name is required.');
+  if (!isNonEmptyString(input.title)) issues.push('Document title is required.');
+  if (!Array.isArray(input.sections) || input.sections.length === 0) {
+    issues.push('Add at least one section.');
+    return issues;
+  }
+
+  const fields: TemplateField[] = [];
+  const keys = new Set<string>();
+  const claimKey = (key: unknown, type: TemplateFieldType, where: string) => {
+    if (typeof key !== 'string' || !/^[A-Za-z][A-Za-z0-9_]*$/.test(key)) {
+      issues.push(`${where}: key must start with a letter and contain only letters, numbers and underscores.`);
+      return;
+    }
+    if (keys.has(key)) issues.push(`${where}: key "${key}" is used more than once.`);
+    keys.add(key);
+    const allowedTypes = Object.hasOwn(BUILT_IN_FIELD_TYPES, key) ? BUILT_IN_FIELD_TYPES[key] : undefined;
+    if ((BUILT_IN_KEYS.has(key) && !allowedTypes) || key in Object.prototype) {
+      issues.push(`${where}: key "${key}" is reserved.`);
+    } else if (allowedTypes && !allowedTypes.includes(type)) {
+      issues.push(`${where}: key "${key}" can't hold a ${type} field.`);
+    } else if (!BUILT_IN_KEYS.has(key) && type === 'attachments') {
+      issues.push(`${where}: attachments must use the key "attachments".`);
+    } else if (!BUILT_IN_KEYS.has(key) && type === 'employeeList') {
+      issues.push(`${where}: employee lists must use the key "involvedEmployees".`);
+    } else if (!BUILT_IN_KEYS.has(key) && type === 'witnessStatements') {
+      issues.push(`${where}: witness statements must use the key "witnessStatements".`);
+    } else if (!BUILT_IN_KEYS.has(key) && type === 'timeline') {
+      issues.push(`${where}: timelines must use the key "timeline".`);
+    }
+  };
+
+  input.sections.forEach((section: unknown, sectionIndex) => {
+    const sectionName = `Section ${sectionIndex + 1}`;
+    if (!isObject(section) || !isNonEmptyString(section.id) || !isNonEmptyString(section.title)) {
+      issues.push(`${sectionName} needs an ID and a title.`);
+      return;
+    }
+    if (!Array.isArray(section.groups)) {
+      issues.push(`${sectionName} has no field groups.`);
+      return;
+    }
+    section.groups.forEach((group: unknown) => {
+      if (!isObject(group) || !Array.isArray(group.fields)) {
+        issues.push(`${sectionName} has a group without fields.`);
+        return;
+      }
+      group.fields.forEach((field: unknown, fieldIndex) => {
+        const where = `${section.title}, field ${fieldIndex + 1}`;
+        if (!isObject(field) || !FIELD_TYPES.includes(field.type as TemplateFieldType)) {
+          issues.push(`${where}: unknown field type.`);
+          return;
+        }
+        const type = field.type as TemplateFieldType;
+        if (!isNonEmptyString(field.label)) issues.push(`${where}: label is required.`);
+        claimKey(field.key, type, where);
+
+        if (type === 'employee') claimKey(field.idKey, 'text', `${where} (employee ID)`);
+        if ((type === 'richText' || type === 'witnessStatements') && typeof field.aiContext !== 'string') {
+          issues.push(`${where}: AI context is required.`);
+        }
+        if (type === 'checkboxGroup') {
+          const options = Array.isArray(field.options) ? field.options : [];
+          const values = options.map(option => (isObject(option) ? option.value : undefined));
+          if (values.length === 0 || !values.every(isNonEmptyString)) {
+            issues.push(`${where}: add at least one option, and give every option a name.`);
+          } else if (new Set(values).size !== values.length) {
+            issues.push(`${where}: options must be unique.`);
+          }
+          if (field.specify !== undefined) {
+            const specify = field.specify;
+            if (!isObject(specify) || !values.includes(specify.option) || !isNonEmptyString(specify.label)) {
+              issues.push(`${where}: the "specify" option must be one of the options and have a label.`);
+            } else {
+              claimKey(specify.key, 'text', `${where} (specify)`);
+            }
+          }
+        }
+        fields.push(field as unknown as TemplateField);
+      });
+    });
+  });
+
+  fields.forEach(field => {
+    if (field.type === 'richText' && field.dependsOn
+      && !fields.some(other => other.key === field.dependsOn && other.type === 'checkboxGroup')) {
+      issues.push(`${field.label}: depends on "${field.dependsOn}", which is not a checkbox group in this template.`);
+    }
+  });
+
+  if (!Array.isArray(input.document)) {
+    issues.push('Document layout is missing.');
+  } else {
+    const fieldKeys = new Set(fields.map(field => field.key));
+    input.document.forEach((block: unknown, index) => {
+      const blockFields = isObject(block)
+        ? (typeof block.field === 'string' ? [block.field] : Array.isArray(block.fields) ? block.fields : [])
+        : [];
+      if (!isObject(block) || !['heading', 'employee', 'employees', 'statements', 'timeline', 'table', 'box'].includes(block.type as string)) {
+        issues.push(`Document block ${index + 1} is not valid.`);
+      } else if (blockFields.some(key => !fieldKeys.has(key as string))) {
+        issues.push(`Document block ${index + 1} refers to a field that is not in the template.`);
+      }
+    });
+  }
+
+  return issues;
+}
+
+// The field keys a document block shows
+const getBlockFields = (block: DocumentBlock): string[] => {
+  switch (block.type) {
+    case 'heading':
+      return [];
+    case 'table':
+    case 'box':
+      return block.fields;
+    default:
+      return [block.field];
+  }
+};
+
+// Document blocks for fields the layout doesn't show yet, one section at a time:
+// employee fields, employee lists, witness statements and timelines get their own block, short fields share a table, rich text and attachments get boxes,
+// and a checkbox group shares its box with the rich text that depends on it.
+const buildDocumentBlocks = (sections: TemplateSection[], withHeadings: (section: TemplateSection) => boolean) =>
+  sections.flatMap(section => {
+    const fields = section.groups.flatMap(group => group.fields);
+    if (fields.length === 0) return [];
+
+    const blocks: DocumentBlock[] = withHeadings(section) ? [{ type: 'heading', text: section.title }] : [];
+    let table: string[] = [];
+    const flushTable = () => {
+      if (table.length > 0) blocks.push({ type: 'table', fields: table });
+      table = [];
+    };
+
+    fields.forEach(field => {
+      const dependents = fields.filter(other => other.type === 'richText' && other.dependsOn === field.key);
+      if (field.type === 'richText' && fields.some(other => other.key === field.dependsOn)) return;
+
+      if (field.type === 'employee' || field.type === 'employeeList') {
+        flushTable();
+        blocks.push({ type: field.type === 'employee' ? 'employee' : 'employees', field: field.key });
+      } else if (field.type === 'witnessStatements') {
+        flushTable();
+        blocks.push({ type: 'statements', field: field.key });
+      } else if (field.type === 'timeline') {
+        flushTable();
+        blocks.push({ type: 'timeline', field: field.key });
+      } else if (field.type === 'richText' || field.type === 'attachments' || dependents.length > 0) {
+        flushTable();
+        const boxFields = [field, ...dependents];
+        blocks.push({
+          type: 'box',
+          title: getDocumentLabel(field),
+          fields: boxFields.map(boxField => boxField.key),
+          optional: !boxFields.some(boxField => boxField.required),
+        });
+      } else {
+        table.push(field.key);
+      }
+    });
+    flushTable();
+    return blocks;
+  });
+
+// Keep the document layout in step with edited sections: blocks for removed fields are dropped,
+// and fields that aren't in the document yet are appended after the existing blocks
+export function syncDocumentLayout(template: Pick<ReportTemplate, 'sections' | 'document'>): DocumentBlock[] {
+  const keys = new Set(template.sections.flatMap(section => section.groups.flatMap(group => group.fields.map(field => field.key))));
+
+  const kept = template.document.flatMap((block): DocumentBlock[] => {
+    if (block.type === 'heading') return [block];
+    if (block.type !== 'table' && block.type !== 'box') return keys.has(block.field) ? [block] : [];
+    const fields = block.fields.filter(key => keys.has(key));
+    return fields.length > 0 ? [{ ...block, fields }] : [];
+  });
+
+  const shown = new Set(kept.flatMap(getBlockFields));
+  const missing = template.sections.map(section => ({
+    ...section,
+    groups: section.groups.map(group => ({ ...group, fields: group.fields.filter(field => !shown.has(field.key)) })),
+  }));
+
+  // New sections get a heading; fields added to a section already in the document go at the end without one
+  const isNewSection = (section: TemplateSection) => {
+    const original = template.sections.find(other => other.id === section.id);
+    return !original?.groups.some(group => group.fields.some(field => shown.has(field.key)));
+  };
+
+  return [...kept, ...buildDocumentBlocks(missing, isNewSection)];
+}
+
+// Building blocks shared by the built-in templates
+
+const involvedEmployeesSection = (title: string, required: boolean): TemplateSection => ({
+  id: 'employee',
+  title,
+  groups: [{
+    fields: [{
+      type: 'employeeList',
+      key: 'involvedEmployees',
+      label: 'Employees Involved',
+      required,
+      requiredMessage: 'Look up at least one employee being reported.',
+      documentLabel: 'EMPLOYEES INVOLVED',
+    }],
+  }],
+});
+
+const witnessStatementsGroup: TemplateFieldGroup = {
+  title: 'Witness Statements',
+  description: 'Record what each witness saw or heard. Look up employees by ID, or name external witnesses such as client staff or visitors.',
+  fields: [{
+    type: 'witnessStatements',
+    key: 'witnessStatements',
+    label: 'Witness Statements',
+    aiContext: 'witness_statement',
+    guidingQuestions: [
+      'What did the witness see or hear, in their own words?',
+      'Where was the witness, and what were they doing at the time?',
+      'How close were they, and could they see and hear clearly?',
+      'What was said, and by whom? (Quote exact words where possible)',
+      'Did the witness speak to anyone involved before or after the incident?',
+    ],
+  }],
+};
+
+const timelineGroup: TemplateFieldGroup = {
+  title: 'Timeline',
+  description: 'For incidents that unfolded over hours or days, list each step with when it happened, who was involved and the evidence for it.',
+  fields: [{
+    type: 'timeline',
+    key: 'timeline',
+    label: 'Timeline of Events',
+    documentLabel: 'TIMELINE OF EVENTS',
+  }],
+};
+
+const attachmentsGroup: TemplateFieldGroup = {
+  title: 'Attachments',
+  description: 'Add supporting evidence such as: screenshots, Teramind logs, email copies, chat transcripts, or recordings.',
+  fields: [{
+    type: 'attachments',
+    key: 'attachments',
+    label: 'Attachments',
+    guidingQuestions: [
+      'What does this attachment show or prove?',
+      'When was this evidence captured (date/time)?',
+      'Who is involved in this evidence?',
+    ],
+  }],
+};
+
+const impactGroup: TemplateFieldGroup = {
+  title: 'Impact',
+  fields: [
+    {
+      type: 'checkboxGroup',
+      key: 'impactCategories',
+      label: 'Who was impacted?',
+      required: true,
+      requiredMessage: 'Select at least one impacted party.',
+      documentLabel: 'Impacted Parties:',
+      options: [
+        { value: 'Client', guidance: 'How was trust, satisfaction, or the relationship affected?' },
+        { value: 'GoTeam', guidance: 'How was company reputation, compliance, or operations affected?' },
+        { value: 'Peers', guidance: 'How was team morale, trust, or collaboration affected?' },
+        { value: 'Management', guidance: 'What additional supervision or intervention was required?' },
+        { value: 'Others', guidance: 'How were they specifically affected?' },
+      ],
+      specify: {
+        option: 'Others',
+        key: 'impactOthersSpecify',
+        label: 'Please specify who else was impacted',
+        message: 'Please specify who else was impacted.',
+      },
+    },
+    {
+      type: 'richText',
+      key: 'impactDescription',
+      label: 'How were they impacted?',
+      required: true,
+      requiredMessage: 'Describe the impact of the incident.',
+      aiContext: 'impact_description',
+      dependsOn: 'impactCategories',
+      minHeight: 150,
+    },
+  ],
+};
+
+const incidentTemplate: ReportTemplate = {
+  id: 'incident',
+  version: 1,
+  name: 'Incident Report',
+  description: 'Misconduct or a policy violation by an employee.',
+  title: 'Incident Report',
+  sections: [
+    involvedEmployeesSection('Employees Involved', true),
+    {
+      id: 'description',
+      title: 'Description of Incidents',
+      groups: [
+        {
+          title: 'Core Details',
+          fields: [
+            {
+              type: 'text',
+              key: 'incidentWhat',
+              label: 'What (Brief Summary)',
+              placeholder: 'Brief description of the incident',
+              required: true,
+              requiredMessage: 'Describe what happened.',
+              documentLabel: 'What:',
+            },
+            {
+              type: 'text',
+              key: 'incidentLocation',
+              label: 'Location',
+              placeholder: 'Where did the incident occur?',
+              required: true,
+              requiredMessage: 'Enter where the incident happened.',
+            },
+            {
+              type: 'datetime',
+              key: 'incidentDateTime',
+              label: 'Date and Time of Incident',
+              required: true,
+              requiredMessage: 'Enter when the incident happened.',
+              documentLabel: 'Time:',
+            },
+          ],
+        },
+        timelineGroup,
+        {
+          title: 'Narrative Fields',
+          fields: [
+            {
+              type: 'richText',
+              key: 'incidentDetails',
+              label: 'Incident Details',
+              placeholder: 'Describe what happened...',
+              required: true,
+              requiredMessage: 'Incident details are required.',
+              aiContext: 'incident_details',
+              minHeight: 200,
+              guidingQuestions: [
+                'What exactly happened? Describe the incident in your own words.',
+                'Who was involved? (Include full names)',
+                'When and where did this occur?',
+                'How was this discovered or reported?',
+                'What evidence do you have? (e.g., Teramind logs, emails, chat messages)',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'findings',
+              label: 'Findings (Optional)',
+              placeholder: 'Document your investigation findings...',
+              documentLabel: 'Findings:',
+              aiContext: 'findings',
+              minHeight: 150,
+              guidingQuestions: [
+                'What did your investigation confirm or verify?',
+                'What specific evidence supports your findings?',
+                'Were there any patterns or repeated behaviors?',
+                'Who else was involved or aware of the situation?',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'policyViolation',
+              label: 'Policy/Code of Conduct Concern (Optional)',
+              placeholder: 'Reference any policy violations...',
+              documentLabel: 'Policy/Code of Conduct Concerns:',
+              aiContext: 'policy_violation',
+              minHeight: 150,
+              guidingQuestions: [
+                'Which company policies or codes of conduct were violated?',
+                'How did the specific actions violate these policies?',
+                'Was there improper escalation (bypassing management/P&C)?',
+                'Was there insubordination, gossip, or unprofessional behavior?',
+                'Did the employee fail to exercise professional judgment?',
+              ],
+            },
+          ],
+        },
+        witnessStatementsGroup,
+        attachmentsGroup,
+        impactGroup,
+      ],
+    },
+  ],
+  document: [
+    { type: 'heading', text: 'Employee Details' },
+    { type: 'employees', field: 'involvedEmployees' },
+    { type: 'heading', text: 'Description of Incident' },
+    { type: 'table', fields: ['incidentWhat', 'incidentLocation', 'incidentDateTime'] },
+    { type: 'timeline', field: 'timeline' },
+    { type: 'box', title: 'Incident Details:', fields: ['incidentDetails'] },
+    { type: 'box', title: 'Findings:', fields: ['findings'], optional: true },
+    { type: 'box', title: 'Policy/Code of Conduct Concerns:', fields: ['policyViolation'], optional: true },
+    { type: 'statements', field: 'witnessStatements' },
+    { type: 'box', title: 'Attachments:', fields: ['attachments'] },
+    { type: 'box', title: 'Impact:', fields: ['impactCategories', 'impactDescription'] },
+  ],
+};
+
+const nearMissTemplate: ReportTemplate = {
+  id: 'near-miss',
+  version: 1,
+  name: 'Near-Miss Report',
+  description: 'Something that could have caused harm or loss, but did not.',
+  title: 'Near-Miss Report',
+  sections: [
+    {
+      id: 'event',
+      title: 'Description of Event',
+      groups: [
+        {
+          title: 'Core Details',
+          fields: [
+            {
+              type: 'text',
+              key: 'incidentWhat',
+              label: 'What nearly happened? (Brief Summary)',
+              placeholder: 'Brief description of the near miss',
+              required: true,
+              requiredMessage: 'Describe what nearly happened.',
+              documentLabel: 'What:',
+            },
+            {
+              type: 'text',
+              key: 'incidentLocation',
+              label: 'Location',
+              placeholder: 'Where did it happen?',
+              required: true,
+              requiredMessage: 'Enter where it happened.',
+            },
+            {
+              type: 'datetime',
+              key: 'incidentDateTime',
+              label: 'Date and Time of Event',
+              required: true,
+              requiredMessage: 'Enter when it happened.',
+              documentLabel: 'Time:',
+            },
+          ],
+        },
+        {
+          title: 'Narrative Fields',
+          fields: [
+            {
+              type: 'richText',
+              key: 'incidentDetails',
+              label: 'Event Details',
+              placeholder: 'Describe what happened...',
+              required: true,
+              requiredMessage: 'Event details are required.',
+              aiContext: 'near_miss_details',
+              minHeight: 200,
+              guidingQuestions: [
+                'What was happening just before the event?',
+                'What stopped it from becoming an incident?',
+                'Who was present or involved?',
+                'How was this noticed or reported?',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'potentialConsequences',
+              label: 'Potential Consequences',
+              placeholder: 'What could have happened...',
+              required: true,
+              requiredMessage: 'Describe what could have happened.',
+              aiContext: 'potential_consequences',
+              minHeight: 150,
+              guidingQuestions: [
+                'What is the worst outcome that could have resulted?',
+                'Who or what would have been affected (clients, data, people, equipment)?',
+                'How likely is it to happen again?',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'preventiveActions',
+              label: 'Recommended Preventive Actions (Optional)',
+              placeholder: 'Suggest how to prevent this...',
+              documentLabel: 'Recommended Preventive Actions:',
+              aiContext: 'preventive_actions',
+              minHeight: 150,
+              guidingQuestions: [
+                'What change would stop this from happening again?',
+                'Who should own the follow-up?',
+              ],
+            },
+          ],
+        },
+        attachmentsGroup,
+      ],
+    },
+    involvedEmployeesSection('Employees Involved (Optional)', false),
+  ],
+  document: [
+    { type: 'heading', text: 'Description of Event' },
+    { type: 'table', fields: ['incidentWhat', 'incidentLocation', 'incidentDateTime'] },
+    { type: 'box', title: 'Event Details:', fields: ['incidentDetails'] },
+    { type: 'box', title: 'Potential Consequences:', fields: ['potentialConsequences'] },
+    { type: 'box', title: 'Recommended Preventive Actions:', fields: ['preventiveActions'], optional: true },
+    { type: 'box', title: 'Attachments:', fields: ['attachments'] },
+    { type: 'heading', text: 'Employees Involved' },
+    { type: 'employees', field: 'involvedEmployees' },
+  ],
+};
+
+const attendanceTemplate: ReportTemplate = {
+  id: 'attendance',
+  version: 1,
+  name: 'Attendance Violation Report',
+  description: 'Tardiness, absences and other breaches of the attendance policy.',
+  title: 'Attendance Violation Report',
+  sections: [
+    involvedEmployeesSection('Employees Involved', true),
+    {
+      id: 'violation',
+      title: 'Attendance Violation',
+      groups: [
+        {
+          title: 'Violation Details',
+          fields: [
+            {
+              type: 'checkboxGroup',
+              key: 'violationTypes',
+              label: 'Type of violation',
+              required: true,
+              requiredMessage: 'Select the type of violation.',
+              documentLabel: 'Violation:',
+              options: [
+                { value: 'Tardiness' },
+                { value: 'Absence Without Leave' },
+                { value: 'Undertime' },
+                { value: 'Extended Break' },
+                { value: 'No Call/No Show' },
+                { value: 'Others' },
+              ],
+              specify: {
+                option: 'Others',
+                key: 'violationOthersSpecify',
+                label: 'Please specify the violation',
+                message: 'Please specify the violation.',
+              },
+            },
+            {
+              type: 'datetime',
+              key: 'incidentDateTime',
+              label: 'Date and Time of Violation',
+              required: true,
+              requiredMessage: 'Enter when the violation happened.',
+              documentLabel: 'Time:',
+            },
+            {
+              type: 'text',
+              key: 'occurrences',
+              label: 'Occurrences in the Last 30 Days',
+              placeholder: 'e.g. 3',
+              documentLabel: 'Occurrences (30 days):',
+            },
+          ],
+        },
+        {
+          title: 'Narrative Fields',
+          fields: [
+            {
+              type: 'richText',
+              key: 'incidentDetails',
+              label: 'Details',
+              placeholder: 'Describe the violation...',
+              required: true,
+              requiredMessage: 'Details of the violation are required.',
+              aiContext: 'attendance_details',
+              minHeight: 200,
+              guidingQuestions: [
+                'When was the employee expected, and when did they arrive or leave?',
+                'Was the absence or lateness communicated beforehand?',
+                'What explanation did the employee give?',
+                'Which records support this? (e.g., timekeeping logs, schedules)',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'policyViolation',
+              label: 'Attendance Policy Concerns (Optional)',
+              placeholder: 'Reference the attendance policy...',
+              documentLabel: 'Attendance Policy Concerns:',
+              aiContext: 'policy_violation',
+              minHeight: 150,
+              guidingQuestions: [
+                'Which part of the attendance policy applies?',
+                'Is this part of a pattern, and were earlier warnings given?',
+              ],
+            },
+          ],
+        },
+        attachmentsGroup,
+      ],
+    },
+  ],
+  document: [
+    { type: 'heading', text: 'Employee Details' },
+    { type: 'employees', field: 'involvedEmployees' },
+    { type: 'heading', text: 'Attendance Violation' },
+    { type: 'table', fields: ['violationTypes', 'incidentDateTime', 'occurrences'] },
+    { type: 'box', title: 'Details:', fields: ['incidentDetails'] },
+    { type: 'box', title: 'Attendance Policy Concerns:', fields: ['policyViolation'], optional: true },
+    { type: 'box', title: 'Attachments:', fields: ['attachments'] },
+  ],
+};
+
+const clientEscalationTemplate: ReportTemplate = {
+  id: 'client-escalation',
+  version: 1,
+  name: 'Client Escalation Report',
+  description: 'A complaint or escalation raised by a client about an employee.',
+  title: 'Client Escalation Report',
+  sections: [
+    involvedEmployeesSection('Employees Involved', true),
+    {
+      id: 'escalation',
+      title: 'Client Escalation',
+      groups: [
+        {
+          title: 'Escalation Details',
+          fields: [
+            {
+              type: 'text',
+              key: 'clientName',
+              label: 'Client',
+              placeholder: 'Client or account name',
+              required: true,
+              requiredMessage: 'Enter the client who raised the escalation.',
+            },
+            {
+              type: 'text',
+              key: 'incidentWhat',
+              label: 'Escalation Summary',
+              placeholder: 'Brief description of the escalation',
+              required: true,
+              requiredMessage: 'Summarize the escalation.',
+              documentLabel: 'Summary:',
+            },
+            {
+              type: 'datetime',
+              key: 'incidentDateTime',
+              label: 'Date and Time Received',
+              required: true,
+              requiredMessage: 'Enter when the escalation was received.',
+              documentLabel: 'Received:',
+            },
+            {
+              type: 'checkboxGroup',
+              key: 'escalationChannels',
+              label: 'How was it raised?',
+              documentLabel: 'Channel:',
+              options: [
+                { value: 'Email' },
+                { value: 'Phone Call' },
+                { value: 'Chat' },
+                { value: 'Support Ticket' },
+                { value: 'Meeting' },
+              ],
+            },
+          ],
+        },
+        {
+          title: 'Narrative Fields',
+          fields: [
+            {
+              type: 'richText',
+              key: 'incidentDetails',
+              label: "Client's Complaint",
+              placeholder: 'Describe what the client raised...',
+              required: true,
+              requiredMessage: "Describe the client's complaint.",
+              aiContext: 'client_complaint',
+              minHeight: 200,
+              guidingQuestions: [
+                'What exactly did the client report?',
+                'Which interactions or deliverables does it concern?',
+                'Has the client raised similar concerns before?',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'findings',
+              label: 'Findings (Optional)',
+              placeholder: 'Document your investigation findings...',
+              documentLabel: 'Findings:',
+              aiContext: 'findings',
+              minHeight: 150,
+              guidingQuestions: [
+                "Is the client's account supported by the evidence?",
+                'What did the employee say about it?',
+              ],
+            },
+            {
+              type: 'richText',
+              key: 'clientResponse',
+              label: 'Response to the Client (Optional)',
+              placeholder: 'How was the client answered...',
+              documentLabel: 'Response to the Client:',
+              aiContext: 'client_response',
+              minHeight: 150,
+              guidingQuestions: [
+                'What was communicated to the client, and by whom?',
+                'What commitments were made?',
+              ],
+            },
+          ],
+        },
+        attachmentsGroup,
+        impactGroup,
+      ],
+    },
+  ],
+  document: [
+    { type: 'heading', text: 'Employee Details' },
+    { type: 'employees', field: 'involvedEmployees' },
+    { type: 'heading', text: 'Client Escalation' },
+    { type: 'table', fields: ['clientName', 'incidentWhat', 'incidentDateTime', 'escalationChannels'] },
+    { type: 'box', title: "Client's Complaint:", fields: ['incidentDetails'] },
+    { type: 'box', title: 'Findings:', fields: ['findings'], optional: true },
+    { type: 'box', title: 'Response to the Client:', fields: ['clientResponse'], optional: true },
+    { type: 'box', title: 'Attachments:', fields: ['attachments'] },
+    { type: 'box', title: 'Impact:', fields: ['impactCategories', 'impactDescription'] },
+  ],
+};
+
+export const DEFAULT_TEMPLATE_ID = incidentTemplate.id;
+
+// Every version ever used must stay here, so older reports keep rendering with the layout they were written in
+export const REPORT_TEMPLATES: ReportTemplate[] = [
+  incidentTemplate,
+  nearMissTemplate,
+  attendanceTemplate,
+  clientEscalationTemplate,
+];
+
+// The newest version of each template, for choosing the type of a new report
+export const getLatestTemplates = (templates: ReportTemplate[] = REPORT_TEMPLATES): ReportTemplate[] =>
+  templates.filter(template =>
+    !templates.some(other => other.id === template.id && other.version > template.version)
+  );
+
+// The exact version a report was written with, falling back to the latest version, then the default template
+export function getReportTemplate(
+  id: string,
+  version?: number,
+  templates: ReportTemplate[] = REPORT_TEMPLATES
+): ReportTemplate {
+  const latest = getLatestTemplates(templates);
+  return templates.find(template => template.id === id && template.version === version)
+    || latest.find(template => template.id === id)
+    || latest.find(template => template.id === DEFAULT_TEMPLATE_ID)
+    || incidentTemplate;
+}
@@ -0,0 +1,135 @@
+// Completeness and consistency rules for a report that is about to be submitted or generated.
+// Runs in the /api/reports/validate route and on submission; the form renders the results inline.
+// Pure module - safe to import from client components.
+
+import { formatWitness, getSubjects, type EmployeeDetails, type IncidentReport } from '@/lib/incident-report';
+import {
+  getReportTemplate,
+  getTemplateFields,
+  getListValue,
+  getTextValue,
+  isFieldFilled,
+  type ReportTemplate,
+} from '@/lib/report-templates';
+import { parseWallClock, todayIn, wallClockToUtc } from '@/lib/time-zones';
+
+// A field of IncidentReport or the key of a template field
+export type ValidationField = string;
+
+export interface ValidationIssue {
+  field: ValidationField;
+  message: string;
+  // 'required' issues are covered by the form's checklist; 'rule' issues are shown next to the field
+  kind: 'required' | 'rule';
+}
+
+export interface ValidationOptions {
+  reporter?: Pick<EmployeeDetails, 'employee_id'> | null;
+  now?: Date;
+  // The template the report was written with (see loadReportTemplate); defaults to the built-in versions
+  template?: ReportTemplate;
+}
+
+// Every report has a date and an attester, whatever its template; the rest is up to the template
+export function findMissingFields(report: IncidentReport, template: ReportTemplate): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const missing = (field: ValidationField, message: string) => issues.push({ field, message, kind: 'required' });
+
+  if (!report.datePrepared) missing('datePrepared', 'Date prepared is required.');
+  getTemplateFields(template)
+    .filter(field => field.required && !isFieldFilled(report, field))
+    .forEach(field => missing(field.key, field.requiredMessage || `${field.label} is required.`));
+  if (!report.attestedByDetails) missing('attestedByDetails', 'Look up who will attest this report.');
+
+  return issues;
+}
+
+export function validateReport(report: IncidentReport, options: ValidationOptions = {}): ValidationIssue[] {
+  const now = (options.now || new Date()).getTime();
+  // Dates and times are wall-clock time at the site, so "today" and "the future" are judged there too
+  const today = parseWallClock(todayIn(report.timeZone, new Date(now)))!;
+  const isFuture = (wallClock: number) => wallClockToUtc(wallClock, report.timeZone) > now;
+  const template = options.template || getReportTemplate(report.templateId, report.templateVersion);
+
+  const issues = findMissingFields(report, template);
+
+  const rule = (field: ValidationField, message: string) => issues.push({ field, message, kind: 'rule' });
+
+  // Dates: the incident can't be in the future, and the report can't predate it
+  const incidentAt = report.incidentDateTime ? parseWallClock(report.incidentDateTime) : null;
+  const preparedOn = report.datePrepared ? parseWallClock(report.datePrepared) : null;
+
+  if (report.incidentDateTime && incidentAt === null) {
+    rule('incidentDateTime', 'Enter a valid date and time for the incident.');
+  } else if (incidentAt !== null && isFuture(incidentAt)) {
+    rule('incidentDateTime', 'The incident date and time cannot be in the future.');
+  }
+
+  if (report.datePrepared && preparedOn === null) {
+    rule('datePrepared', 'Enter a valid date prepared.');
+  } else if (preparedOn !== null && preparedOn > today) {
+    rule('datePrepared', 'Date prepared cannot be in the future.');
+  } else if (preparedOn !== null && incidentAt !== null && report.datePrepared < report.incidentDateTime.slice(0, 10)) {
+    rule('datePrepared', 'Date prepared cannot be earlier than the date of the incident.');
+  }
+
+  // People: every involved employee is looked up and listed once, and no subject is the attester or the reporter
+  const subjectIds = getSubjects(report).map(subject => subject.employee_id);
+  const attesterId = report.attestedByDetails?.employee_id;
+  const reporterId = options.reporter?.employee_id;
+  const involvedIds = report.involvedEmployees.flatMap(involved => (involved.details ? [involved.details.employee_id] : []));
+
+  if (report.involvedEmployees.some(involved => !involved.details)) {
+    rule('involvedEmployees', 'Look up every employee you added, or remove the ones you don\'t need.');
+  } else if (new Set(involvedIds).size !== involvedIds.length) {
+    rule('involvedEmployees', 'Each employee can only be listed once.');
+  } else if (reporterId !== undefined && subjectIds.includes(reporterId)) {
+    rule('involvedEmployees', 'You cannot file an incident report about yourself.');
+  }
+  if (attesterId !== undefined && subjectIds.includes(attesterId)) {
+    rule('attestedById', 'The attester cannot be an employee being reported.');
+  } else if (attesterId !== undefined && attesterId === reporterId) {
+    rule('attestedById', 'You cannot attest your own report.');
+  }
+
+  // Witnesses: each one is identified and has a statement, taken between the incident and today
+  const statements = report.witnessStatements;
+  if (statements.some(witness => !formatWitness(witness))) {
+    rule('witnessStatements', 'Look up or name every witness you added, or remove the ones you don\'t need.');
+  } else if (statements.some(witness => !witness.statement.trim())) {
+    rule('witnessStatements', 'Record a statement for every witness.');
+  } else if (statements.some(witness => parseWallClock(witness.dateTaken) === null)) {
+    rule('witnessStatements', 'Enter the date each statement was taken.');
+  } else if (statements.some(witness => parseWallClock(witness.dateTaken)! > today)) {
+    rule('witnessStatements', 'A statement cannot be dated in the future.');
+  } else if (incidentAt !== null && statements.some(witness => witness.dateTaken < report.incidentDateTime.slice(0, 10))) {
+    rule('witnessStatements', 'A statement cannot be dated before the incident.');
+  }
+
+  // Timeline: every event says what happened and when, between the incident and the date the report was prepared
+  const timeline = report.timeline;
+  const attachmentIds = new Set(report.attachments.map(attachment => attachment.id));
+  if (timeline.some(event => !event.description.trim())) {
+    rule('timeline', 'Describe every event on the timeline, or remove the ones you don\'t need.');
+  } else if (timeline.some(event => parseWallClock(event.at) === null || !event.at.includes('T'))) {
+    rule('timeline', 'Enter the date and time of every timeline event.');
+  } else if (timeline.some(event => event.actorId.trim() && !event.actorDetails)) {
+    rule('timeline', 'Look up the employee for every timeline event, or clear the Employee ID.');
+  } else if (timeline.some(event => isFuture(parseWallClock(event.at)!))) {
+    rule('timeline', 'A timeline event cannot be in the future.');
+  } else if (preparedOn !== null && timeline.some(event => event.at.slice(0, 10) > report.datePrepared)) {
+    rule('timeline', 'A timeline event cannot be later than the date the report was prepared.');
+  } else if (timeline.some(event => event.attachmentIds.some(id => !attachmentIds.has(id)))) {
+    rule('timeline', 'A timeline event refers to an attachment that has been removed.');
+  }
+
+  // Choices like "Others" need to say what they mean
+  getTemplateFields(template).forEach(field => {
+    if (field.type !== 'checkboxGroup' || !field.specify) return;
+    if (getListValue(report, field.key).includes(field.specify.option) && !getTextValue(report, field.specify.key).trim()) {
+      rule(field.specify.key, field.specify.message);
+    }
+  });
+
+  return issues;
+}
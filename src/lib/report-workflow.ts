@@ -0,0 +1,121 @@
+// Report lifecycle: a reporter submits a draft for attestation, and the attester named on the
+// report approves it, returns it to the reporter with comments, or rejects it.
+
+export type ReportStatus = 'draft' | 'pending_attestation' | 'returned' | 'approved' | 'rejected';
+
+// In workflow order
+export const REPORT_STATUSES: ReportStatus[] = ['draft', 'pending_attestation', 'returned', 'approved', 'rejected'];
+
+export const isReportStatus = (value: unknown): value is ReportStatus =>
+  REPORT_STATUSES.includes(value as ReportStatus);
+
+export type WorkflowAction = 'submit' | 'approve' | 'return' | 'reject';
+
+export interface StatusHistoryEntry {
+  status: ReportStatus;
+  action: WorkflowAction | 'create';
+  actorId: string;
+  actorName: string;
+  comment: string;
+  at: string;
+}
+
+export const STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  pending_attestation: 'Pending Attestation',
+  returned: 'Returned for Revision',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Tailwind classes for the status badges on the report lists
+export const STATUS_BADGE_CLASSES: Record<ReportStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  pending_attestation: 'bg-blue-100 text-blue-700',
+  returned: 'bg-amber-100 text-amber-700',
+  approved: 'bg-green-100 text-green-700',
+  rejected: 'bg-red-100 text-red-700',
+};
+
+export const ACTION_LABELS: Record<StatusHistoryEntry['action'], string> = {
+  create: 'Created',
+  submit: 'Submitted',
+  approve: 'Approved',
+  return: 'Returned',
+  reject: 'Rejected',
+};
+
+interface TransitionRule {
+  from: ReportStatus[];
+  to: ReportStatus;
+  actor: 'reporter' | 'attester';
+  requiresComment: boolean;
+}
+
+const TRANSITIONS: Record<WorkflowAction, TransitionRule> = {
+  submit: { from: ['draft', 'returned'], to: 'pending_attestation', actor: 'reporter', requiresComment: false },
+  approve: { from: ['pending_attestation'], to: 'approved', actor: 'attester', requiresComment: false },
+  return: { from: ['pending_attestation'], to: 'returned', actor: 'attester', requiresComment: true },
+  reject: { from: ['pending_attestation'], to: 'rejected', actor: 'attester', requiresComment: true },
+};
+
+export const isWorkflowAction = (value: unknown): value is WorkflowAction =>
+  typeof value === 'string' && Object.hasOwn(TRANSITIONS, value);
+
+// Only drafts and returned reports can still be edited by their reporter
+export const isEditableStatus = (status: ReportStatus) => status === 'draft' || status === 'returned';
+
+interface TransitionSubject {
+  status: ReportStatus;
+  reporterId: string;
+  attesterId: string | null;
+}
+
+interface TransitionActor {
+  id: string;
+  name: string;
+}
+
+// Work out the result of applying an action, or why it isn't allowed
+export function planTransition(
+  report: TransitionSubject,
+  action: WorkflowAction,
+  actor: TransitionActor,
+  comment: string
+): { entry: StatusHistoryEntry } | { error: string; status: number } {
+  const rule = TRANSITIONS[action];
+
+  if (rule.actor === 'reporter' && actor.id !== report.reporterId) {
+    return { error: 'Only the reporter can submit this report.', status: 403 };
+  }
+
+  if (rule.actor === 'attester' && actor.id !== report.attesterId) {
+    return { error: 'Only the attester named on this report can review it.', status: 403 };
+  }
+
+  if (!rule.from.includes(report.status)) {
+    return {
+      error: `A report that is ${STATUS_LABELS[report.status].toLowerCase()} cannot be ${ACTION_LABELS[action].toLowerCase()}.`,
+      status: 409,
+    };
+  }
+
+  if (action === 'submit' && !report.attesterId) {
+    return { error: 'Select who will attest this report before submitting.', status: 400 };
+  }
+
+  if (rule.requiresComment && !comment.trim()) {
+    return { error: 'Please add a comment explaining this decision.', status: 400 };
+  }
+
+  return {
+    entry: {
+      status: rule.to,
+      action,
+      actorId: actor.id,
+      actorName: actor.name,
+      comment: comment.trim(),
+      at: new Date().toISOString(),
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { deriveRolesFromProfile, Role } from '@/lib/roles';
+
+// Optional local overrides, e.g. config/roles.json:
+// {
+//   "employees": { "10234": ["admin"] },
+//   "positions": [{ "pattern": "operations lead", "roles": ["supervisor"] }],
+//   "companies": [{ "pattern": "GoTeam HQ", "roles": ["pc_reviewer"] }]
+// }
+interface RoleMappingFile {
+  employees?: Record<string, Role[]>;
+  positions?: { pattern: string; roles: Role[] }[];
+  companies?: { pattern: string; roles: Role[] }[];
+}
+
+const VALID_ROLES: Role[] = ['reporter', 'supervisor', 'pc_reviewer', 'admin'];
+
+let cachedMapping: { loadedAt: number; mapping: RoleMappingFile } | null = null;
+const MAPPING_CACHE_MS = 60 * 1000;
+
+const loadRoleMapping = async (): Promise<RoleMappingFile> => {
+  if (cachedMapping && Date.now() - cachedMapping.loadedAt < MAPPING_CACHE_MS) {
+    return cachedMapping.mapping;
+  }
+
+  const filePath = process.env.ROLE_MAPPING_FILE || path.join(process.cwd(), 'config', 'roles.json');
+  let mapping: RoleMappingFile = {};
+
+  try {
+    mapping = JSON.parse(await fs.readFile(filePath, 'utf8')) as RoleMappingFile;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Failed to read role mapping file:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  cachedMapping = { loadedAt: Date.now(), mapping };
+  return mapping;
+};
+
+// Resolve an employee's roles: defaults from position/company, plus anything the mapping file grants
+export async function resolveRoles(profile: {
+  employee_id: number;
+  position: string;
+  company: string;
+}): Promise<Role[]> {
+  const roles = new Set<Role>(deriveRolesFromProfile(profile));
+  const mapping = await loadRoleMapping();
+
+  mapping.positions?.forEach(rule => {
+    if (new RegExp(rule.pattern, 'i').test(profile.position || '')) {
+      rule.roles.forEach(role => roles.add(role));
+    }
+  });
+  mapping.companies?.forEach(rule => {
+    if (new RegExp(rule.pattern, 'i').test(profile.company || '')) {
+      rule.roles.forEach(role => roles.add(role));
+    }
+  });
+  mapping.employees?.[String(profile.employee_id)]?.forEach(role => roles.add(role));
+
+  return Array.from(roles).filter(role => VALID_ROLES.includes(role));
+}
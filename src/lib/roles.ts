@@ -0,0 +1,58 @@
+// Role definitions shared by the API routes and the form.
+// Server-side role resolution (including the local mapping file) lives in role-mapping.ts.
+
+export type Role = 'reporter' | 'supervisor' | 'pc_reviewer' | 'admin';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  reporter: 'Reporter',
+  supervisor: 'Supervisor / Attester',
+  pc_reviewer: 'P&C Reviewer',
+  admin: 'Administrator',
+};
+
+interface EmployeeProfile {
+  employee_id: number;
+  position: string;
+  company: string;
+}
+
+// Default rules applied to the position and company returned by the directory webhook
+const POSITION_ROLE_RULES: { pattern: RegExp; role: Role }[] = [
+  { pattern: /supervisor|team lead|team leader|manager|director|head of/i, role: 'supervisor' },
+  { pattern: /people and culture|p&c|human resources|\bhr\b/i, role: 'pc_reviewer' },
+];
+
+const COMPANY_ROLE_RULES: { pattern: RegExp; role: Role }[] = [
+  { pattern: /people and culture|p&c/i, role: 'pc_reviewer' },
+];
+
+export function deriveRolesFromProfile(profile: EmployeeProfile): Role[] {
+  const roles = new Set<Role>(['reporter']);
+
+  POSITION_ROLE_RULES.forEach(({ pattern, role }) => {
+    if (pattern.test(profile.position || '')) roles.add(role);
+  });
+  COMPANY_ROLE_RULES.forEach(({ pattern, role }) => {
+    if (pattern.test(profile.company || '')) roles.add(role);
+  });
+
+  return Array.from(roles);
+}
+
+export function hasAnyRole(user: { roles?: Role[] } | null | undefined, ...roles: Role[]): boolean {
+  return Boolean(user?.roles?.some(role => roles.includes(role)));
+}
+
+// P&C and admins can report on anyone; everyone else only within their own company
+export function canReportOn(
+  user: { roles?: Role[]; company: string },
+  employee: { company: string }
+): boolean {
+  if (hasAnyRole(user, 'pc_reviewer', 'admin')) return true;
+  return Boolean(user.company) && user.company.trim().toLowerCase() === (employee.company || '').trim().toLowerCase();
+}
+
+// Employees' incident history (employee-history.ts) is for the people who act on it: supervisors, P&C and admins
+export function canViewIncidentHistory(user: { roles?: Role[] } | null | undefined): boolean {
+  return hasAnyRole(user, 'supervisor', 'pc_reviewer', 'admin');
+}
@@ -0,0 +1,16 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Integrations (n8n, archiving and batch jobs) call selected report routes with
+// "Authorization: Bearer <REPORTS_API_KEY>" instead of a browser session.
+// Disabled unless REPORTS_API_KEY is set.
+export function isServiceRequest(request: Request): boolean {
+  const apiKey = process.env.REPORTS_API_KEY;
+  if (!apiKey) return false;
+
+  const match = (request.headers.get('authorization') || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+
+  // Compare fixed-length digests so the check takes the same time whatever was sent
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(apiKey));
+}
@@ -0,0 +1,157 @@
+import { NextResponse } from 'next/server';
+import type { EmployeeDetails } from '@/lib/incident-report';
+import { hasAnyRole, type Role } from '@/lib/roles';
+
+// Uses Web Crypto only, so the same helpers work in route handlers and in the proxy
+
+export const SESSION_COOKIE_NAME = 'incident_session';
+
+const SESSION_DURATION_SECONDS = 8 * 60 * 60; // one working shift
+
+export interface SessionUser extends EmployeeDetails {
+  roles: Role[];
+}
+
+interface SessionPayload {
+  user: SessionUser;
+  exp: number; // unix seconds
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const getSigningKey = async () => {
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error('SESSION_SECRET must be set to at least 32 characters');
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+};
+
+// Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload part)
+export async function createSessionToken(user: SessionUser): Promise<string> {
+  const payload: SessionPayload = {
+    user,
+    exp: Math.floor(Date.now() / 1000) + SESSION_DURATION_SECONDS,
+  };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(encodedPayload));
+
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifySessionToken(token: string | undefined | null): Promise<SessionUser | null> {
+  if (!token) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!isValid) return null;
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload))) as SessionPayload;
+    if (!payload.user || !Array.isArray(payload.user.roles) || typeof payload.exp !== 'number' || payload.exp < Date.now() / 1000) {
+      return null;
+    }
+
+    return payload.user;
+  } catch (error) {
+    console.error('Session verification error:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+const readCookie = (request: Request, name: string) => {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(rest.join('='));
+  }
+  return null;
+};
+
+// Resolve the logged-in user from the session cookie, or null if missing, tampered with or expired
+export async function getSession(request: Request): Promise<SessionUser | null> {
+  return verifySessionToken(readCookie(request, SESSION_COOKIE_NAME));
+}
+
+// Guard for API routes: returns the session user, or a ready-made 401 response
+export async function requireSession(request: Request) {
+  const user = await getSession(request);
+
+  if (!user) {
+    return {
+      error: NextResponse.json(
+        { error: 'Not authenticated. Please log in again.' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+// Guard for API routes restricted to particular roles: 401 without a session, 403 without the role
+export async function requireRole(request: Request, ...roles: Role[]) {
+  const { user, error } = await requireSession(request);
+  if (error) return { error };
+
+  if (!hasAnyRole(user, ...roles)) {
+    return {
+      error: NextResponse.json(
+        { error: 'You do not have permission to perform this action.' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { user };
+}
+
+export async function setSessionCookie(response: NextResponse, user: SessionUser) {
+  response.cookies.set(SESSION_COOKIE_NAME, await createSessionToken(user), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_DURATION_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
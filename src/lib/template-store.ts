@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { IncidentReport } from '@/lib/incident-report';
+import { getReportTemplate, REPORT_TEMPLATES, type ReportTemplate } from '@/lib/report-templates';
+
+// Storage adapter interface for template versions published from the designer.
+// The built-in templates in report-templates.ts are never stored; they are the first versions.
+export interface TemplateStore {
+  list(): Promise<ReportTemplate[]>;
+  // Save a template as the next version of its ID and return it with that version set
+  publish(template: ReportTemplate, publishedBy: string): Promise<ReportTemplate>;
+}
+
+// Template IDs are validated before publishing, but also arrive through stored reports
+const isValidTemplateId = (id: string) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(id);
+
+// File-based store: one JSON document per published version under TEMPLATES_DATA_DIR,
+// named <id>.v<version>.json. Published versions are never rewritten.
+export class FileTemplateStore implements TemplateStore {
+  constructor(private readonly dir: string) {}
+
+  private filePath(id: string, version: number) {
+    return path.join(this.dir, `${id}.v${version}.json`);
+  }
+
+  async list(): Promise<ReportTemplate[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const templates = await Promise.all(
+      files
+        .filter(file => /\.v\d+\.json$/.test(file))
+        .map(async file => JSON.parse(await fs.readFile(path.join(this.dir, file), 'utf8')) as ReportTemplate)
+    );
+    return templates.sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+  }
+
+  async publish(template: ReportTemplate, publishedBy: string): Promise<ReportTemplate> {
+    if (!isValidTemplateId(template.id)) {
+      throw new Error(`Invalid template ID: ${template.id}`);
+    }
+    await fs.mkdir(this.dir, { recursive: true });
+
+    const versions = [...REPORT_TEMPLATES, ...await this.list()]
+      .filter(existing => existing.id === template.id)
+      .map(existing => existing.version);
+    const published: ReportTemplate = {
+      ...template,
+      version: Math.max(0, ...versions) + 1,
+      publishedAt: new Date().toISOString(),
+      publishedBy,
+    };
+
+    // 'wx' fails if another administrator published the same version first, rather than overwriting it
+    await fs.writeFile(this.filePath(published.id, published.version), JSON.stringify(published, null, 2), {
+      encoding: 'utf8',
+      flag: 'wx',
+    });
+    return published;
+  }
+}
+
+let store: TemplateStore | null = null;
+
+// Templates live next to the reports, so they share the REPORT_STORE backend setting
+export function getTemplateStore(): TemplateStore {
+  if (store) return store;
+
+  const backend = process.env.REPORT_STORE || 'file';
+
+  switch (backend) {
+    case 'file':
+      store = new FileTemplateStore(
+        process.env.TEMPLATES_DATA_DIR || path.join(process.cwd(), 'data', 'templates')
+      );
+      break;
+    default:
+      throw new Error(`Unknown REPORT_STORE backend: ${backend}`);
+  }
+
+  return store;
+}
+
+// Every version of every template: the built-in ones followed by those published from the designer
+export async function listReportTemplates(): Promise<ReportTemplate[]> {
+  return [...REPORT_TEMPLATES, ...await getTemplateStore().list()];
+}
+
+// The template version a report was written with, including published versions
+export async function loadReportTemplate(report: Pick<IncidentReport, 'templateId' | 'templateVersion'>): Promise<ReportTemplate> {
+  return getReportTemplate(report.templateId, report.templateVersion, await listReportTemplates());
+}
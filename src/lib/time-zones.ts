@@ -0,0 +1,173 @@
+// Dates and times on a report are read and printed in the report's own IANA time zone (IncidentReport.timeZone),
+// never in the zone of whichever browser or server renders it, so every copy of a document reads the same.
+// Date inputs hold wall-clock values with no zone of their own; timestamps we record (status history,
+// attachments) are ISO instants. Pure module - safe to import from client components.
+
+import { DEFAULT_LOCALE, getTranslator, type Locale } from '@/lib/i18n';
+
+// Where most of our sites are; reports saved before time zones were recorded are read in this zone
+export const DEFAULT_TIME_ZONE = 'Asia/Manila';
+
+export interface TimeZoneOption {
+  id: string;
+  label: string;
+  // Printed after times: standard time, and daylight saving time where the zone observes it.
+  // Intl only knows some of these in en-US (it prints "GMT+8" for Manila), so we keep our own.
+  abbreviations: [string] | [string, string];
+}
+
+// The site time zones offered on the form
+export const TIME_ZONES: TimeZoneOption[] = [
+  { id: 'Asia/Manila', label: 'Philippines (Manila)', abbreviations: ['PHT'] },
+  { id: 'Australia/Sydney', label: 'Australia - Sydney, Melbourne, Canberra', abbreviations: ['AEST', 'AEDT'] },
+  { id: 'Australia/Brisbane', label: 'Australia - Brisbane', abbreviations: ['AEST'] },
+  { id: 'Australia/Adelaide', label: 'Australia - Adelaide', abbreviations: ['ACST', 'ACDT'] },
+  { id: 'Australia/Perth', label: 'Australia - Perth', abbreviations: ['AWST'] },
+  { id: 'Pacific/Auckland', label: 'New Zealand', abbreviations: ['NZST', 'NZDT'] },
+  { id: 'America/New_York', label: 'US Eastern', abbreviations: ['EST', 'EDT'] },
+  { id: 'America/Chicago', label: 'US Central', abbreviations: ['CST', 'CDT'] },
+  { id: 'America/Denver', label: 'US Mountain', abbreviations: ['MST', 'MDT'] },
+  { id: 'America/Los_Angeles', label: 'US Pacific', abbreviations: ['PST', 'PDT'] },
+  { id: 'Europe/London', label: 'United Kingdom', abbreviations: ['GMT', 'BST'] },
+  { id: 'UTC', label: 'UTC', abbreviations: ['UTC'] },
+];
+
+interface DateFormat {
+  months: string[];
+  date: (day: number, month: string, year: number) => string;
+  time: (hours: number, minutes: string) => string;
+}
+
+const twelveHour = (hours: number, minutes: string) => `${hours % 12 || 12}:${minutes} ${hours < 12 ? 'AM' : 'PM'}`;
+
+// How each document language writes dates: "March 3, 2026, 2:15 PM", "Marso 3, 2026, 2:15 PM", "3 de marzo de 2026, 14:15"
+const DATE_FORMATS: Record<Locale, DateFormat> = {
+  en: {
+    months: [
+      'January', 'February', 'March', 'April', 'May', 'June',
+      'July', 'August', 'September', 'October', 'November', 'December',
+    ],
+    date: (day, month, year) => `${month} ${day}, ${year}`,
+    time: twelveHour,
+  },
+  fil: {
+    months: [
+      'Enero', 'Pebrero', 'Marso', 'Abril', 'Mayo', 'Hunyo',
+      'Hulyo', 'Agosto', 'Setyembre', 'Oktubre', 'Nobyembre', 'Disyembre',
+    ],
+    date: (day, month, year) => `${month} ${day}, ${year}`,
+    time: twelveHour,
+  },
+  es: {
+    months: [
+      'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+      'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre',
+    ],
+    date: (day, month, year) => `${day} de ${month} de ${year}`,
+    time: (hours, minutes) => `${String(hours).padStart(2, '0')}:${minutes}`,
+  },
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Date-only (YYYY-MM-DD) or datetime-local (YYYY-MM-DDTHH:mm) value as wall-clock milliseconds
+export const parseWallClock = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/);
+  if (!match) return null;
+
+  const [, year, month, day, hours = '0', minutes = '0'] = match;
+  const time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  return Number.isNaN(time) ? null : time;
+};
+
+// Timestamps we record carry their own offset ("2026-03-03T06:15:00.000Z"); input values don't
+const isInstant = (value: string) => /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+
+// Minutes the zone is ahead of UTC at an instant
+const getOffsetMinutes = (timeZone: string, utcMs: number): number => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(new Date(utcMs)).map(part => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  return Math.round((wallClock - Math.floor(utcMs / 1000) * 1000) / 60000);
+};
+
+// The instant a wall-clock time in the zone refers to
+export function wallClockToUtc(wallClock: number, timeZone: string): number {
+  // The offset at the guess can differ from the offset at the answer around DST changes, so settle it twice
+  const guess = wallClock - getOffsetMinutes(timeZone, wallClock) * 60000;
+  return wallClock - getOffsetMinutes(timeZone, guess) * 60000;
+}
+
+const toWallClock = (utcMs: number, timeZone: string) => utcMs + getOffsetMinutes(timeZone, utcMs) * 60000;
+
+// e.g. "PHT", "AEDT"; zones we don't list get Intl's short name, e.g. "GMT+3"
+export function getTimeZoneAbbreviation(timeZone: string, utcMs: number): string {
+  const option = TIME_ZONES.find(zone => zone.id === timeZone);
+  if (option) {
+    const [standard, daylight] = option.abbreviations;
+    if (!daylight) return standard;
+    const year = new Date(utcMs).getUTCFullYear();
+    const standardOffset = Math.min(
+      getOffsetMinutes(timeZone, Date.UTC(year, 0, 1)),
+      getOffsetMinutes(timeZone, Date.UTC(year, 6, 1))
+    );
+    return getOffsetMinutes(timeZone, utcMs) > standardOffset ? daylight : standard;
+  }
+  return new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(utcMs))
+    .find(part => part.type === 'timeZoneName')?.value || timeZone;
+}
+
+// Built by hand rather than with toLocaleString, whose spacing and output vary between browsers and Node versions
+const formatWallClockDate = (wallClock: number, locale: Locale) => {
+  const date = new Date(wallClock);
+  const format = DATE_FORMATS[locale] || DATE_FORMATS[DEFAULT_LOCALE];
+  return format.date(date.getUTCDate(), format.months[date.getUTCMonth()], date.getUTCFullYear());
+};
+
+const formatWallClockTime = (wallClock: number, locale: Locale) => {
+  const date = new Date(wallClock);
+  const format = DATE_FORMATS[locale] || DATE_FORMATS[DEFAULT_LOCALE];
+  return format.time(date.getUTCHours(), String(date.getUTCMinutes()).padStart(2, '0'));
+};
+
+// "March 3, 2026" for a date input, or the date a recorded timestamp falls on in the zone
+export function formatDate(value: string, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  if (!value) return getTranslator(locale)('document.notSpecified');
+  const wallClock = isInstant(value) ? toWallClock(Date.parse(value), timeZone) : parseWallClock(value);
+  return wallClock === null || Number.isNaN(wallClock) ? value : formatWallClockDate(wallClock, locale);
+}
+
+// "March 3, 2026, 2:15 PM PHT" for a datetime input or a recorded timestamp
+export function formatDateTime(value: string, timeZone: string, locale: Locale = DEFAULT_LOCALE): string {
+  if (!value) return getTranslator(locale)('document.notSpecified');
+  const instant = isInstant(value) ? Date.parse(value) : null;
+  const wallClock = instant !== null ? toWallClock(instant, timeZone) : parseWallClock(value);
+  if (wallClock === null || Number.isNaN(wallClock)) return value;
+  const utcMs = instant ?? wallClockToUtc(wallClock, timeZone);
+  return `${formatWallClockDate(wallClock, locale)}, ${formatWallClockTime(wallClock, locale)} ${getTimeZoneAbbreviation(timeZone, utcMs)}`;
+}
+
+// Today's date in the zone as YYYY-MM-DD - not toISOString(), which gives yesterday in Manila before 8 AM
+export const todayIn = (timeZone: string, now: Date = new Date()): string =>
+  new Date(toWallClock(now.getTime(), timeZone)).toISOString().slice(0, 10);
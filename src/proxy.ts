@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getSession } from '@/lib/session';
+
+// Send anyone without a valid session cookie to the login page before the form, review, template or reports pages render
+export async function proxy(request: NextRequest) {
+  const user = await getSession(request);
+
+  if (!user) {
+    const loginUrl = new URL('/login', request.url);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/form/:path*', '/review/:path*', '/templates/:path*', '/reports/:path*'],
+};